@@ -0,0 +1,91 @@
+// Service worker: keeps the app usable on patchy connections and shows Web Push alerts.
+//
+// - The app shell (the page, its hashed /assets/ bundles, manifest and icon) is cached so the app opens offline.
+// - The last response from each feed endpoint is kept, whatever its filters, and served when the network
+//   fails, so an offline user sees the results they last loaded rather than an error.
+// - Writes are never cached here; the page queues those itself (see src/outbox.ts).
+
+const SHELL_CACHE = 'wn-shell-v1';
+const API_CACHE = 'wn-api-v1';
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// GET endpoints worth having offline: the session, the nearby feeds and the user's own lists
+const CACHED_API = /^\/api\/(auth\/me|applications|posts\/mine|jobs\/mine|(posts|jobs|workers)\/nearby)$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== API_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Tries the network and refreshes the cached copy under `key`; falls back to that copy when offline
+async function networkFirst(request, cacheName, key) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(key, response.clone());
+    return response;
+  } catch (err) {
+    const cached = await cache.match(key);
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+// Bundles under /assets/ have content hashes in their names, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, SHELL_CACHE, '/'));
+  } else if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (CACHED_API.test(url.pathname) && !url.searchParams.has('cursor')) {
+    // Later pages of a feed aren't kept; offline, the first page is what's shown
+    event.respondWith(networkFirst(request, API_CACHE, url.pathname));
+  }
+});
+
+// Sent by the page on sign-out so the next person on this device doesn't see the last account's data
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'clear-api-cache') event.waitUntil(caches.delete(API_CACHE));
+});
+
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'WorkNearby', {
+      body: payload.body,
+      tag: payload.tag,
+      data: { url: payload.url || '/' }
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const existing = windows.find((w) => w.url.startsWith(self.location.origin));
+      return existing ? existing.focus() : self.clients.openWindow(url);
+    })
+  );
+});
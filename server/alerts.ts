@@ -0,0 +1,91 @@
+import type Database from "better-sqlite3";
+import { boundingBoxes } from "./geo";
+import { ftsQuery } from "./search";
+import type { EventHub } from "./events";
+import type { PushSender, PushTarget } from "./push";
+import { newId } from "./auth";
+
+export const MAX_SAVED_SEARCHES = 20;
+
+// Which listings a saved search watches: availability posts or jobs
+export type AlertTarget = "posts" | "jobs";
+
+export interface NewListing {
+  table: AlertTarget;
+  id: string;
+  owner_id: string;
+  title: string;
+  category: string;
+  lat: number;
+  lng: number;
+}
+
+export function indexSavedSearch(db: Database.Database, search: { id: string; lat: number; lng: number; radius: number }) {
+  const insert = db.prepare("INSERT INTO saved_searches_geo (min_lat, max_lat, min_lng, max_lng, search_id) VALUES (?, ?, ?, ?, ?)");
+  for (const box of boundingBoxes(search.lat, search.lng, search.radius)) {
+    insert.run(box.minLat, box.maxLat, box.minLng, box.maxLng, search.id);
+  }
+}
+
+export function unindexSavedSearch(db: Database.Database, searchId: string) {
+  db.prepare("DELETE FROM saved_searches_geo WHERE search_id = ?").run(searchId);
+}
+
+// Saved searches (of other users) that a newly created listing satisfies
+export function matchSavedSearches(db: Database.Database, listing: NewListing) {
+  const candidates = db
+    .prepare(`
+      SELECT DISTINCT s.id, s.user_id, s.name, s.q FROM saved_searches_geo g
+      JOIN saved_searches s ON s.id = g.search_id
+      WHERE g.min_lat <= @lat AND g.max_lat >= @lat AND g.min_lng <= @lng AND g.max_lng >= @lng
+        AND s.target = @table AND s.user_id != @owner_id
+        AND haversine_km(s.lat, s.lng, @lat, @lng) <= s.radius
+        AND (s.categories = '[]' OR EXISTS (SELECT 1 FROM json_each(s.categories) WHERE value = @category))
+    `)
+    .all(listing) as { id: string; user_id: string; name: string; q: string | null }[];
+
+  // Text queries go through the same FTS index as search, restricted to the new row
+  const rowid = db.prepare(`SELECT rowid FROM ${listing.table} WHERE id = ?`).pluck().get(listing.id);
+  const textMatch = db.prepare(`SELECT 1 FROM ${listing.table}_fts WHERE rowid = ? AND ${listing.table}_fts MATCH ?`);
+  return candidates.filter((search) => !search.q || textMatch.get(rowid, ftsQuery(search.q)));
+}
+
+/**
+ * Returns the hook to call after a post or job is created, or released from moderation: finds
+ * matching saved searches and notifies each matching user once, in the inbox, over the live
+ * event stream and via Web Push.
+ */
+export function savedSearchAlerts(db: Database.Database, events: EventHub, push: PushSender) {
+  const insertNotification = db.prepare(
+    "INSERT INTO notifications (id, user_id, type, title, body, data) VALUES (?, ?, 'search_match', ?, ?, ?)"
+  );
+  const selectNotification = db.prepare("SELECT * FROM notifications WHERE id = ?");
+  const subscriptionsOf = db.prepare("SELECT endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = ?");
+  const dropSubscription = db.prepare("DELETE FROM push_subscriptions WHERE endpoint = ?");
+  // A listing that goes out again (released from moderation after being live) isn't news twice
+  const alreadyNotified = db.prepare("SELECT 1 FROM notifications WHERE user_id = ? AND type = 'search_match' AND json_extract(data, '$.listing_id') = ?");
+
+  return (listing: NewListing) => {
+    const byUser = new Map<string, { id: string; name: string }>();
+    for (const match of matchSavedSearches(db, listing)) {
+      if (!byUser.has(match.user_id) && !alreadyNotified.get(match.user_id, listing.id)) byUser.set(match.user_id, match);
+    }
+
+    for (const [userId, search] of byUser) {
+      const id = newId("ntf");
+      const title = `New ${listing.table === "jobs" ? "job" : "availability"} for "${search.name}"`;
+      const data = { search_id: search.id, listing_type: listing.table, listing_id: listing.id };
+      insertNotification.run(id, userId, title, listing.title, JSON.stringify(data));
+      events.publish(userId, "notification.new", { ...(selectNotification.get(id) as object), data });
+
+      for (const target of subscriptionsOf.all(userId) as PushTarget[]) {
+        push
+          .send(target, { title, body: listing.title, url: "/", tag: id })
+          .then((result) => {
+            if (result === "gone") dropSubscription.run(target.endpoint);
+          })
+          .catch((err: unknown) => console.error("[push]", err instanceof Error ? err.message : err));
+      }
+    }
+  };
+}
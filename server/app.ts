@@ -0,0 +1,117 @@
+import express from "express";
+import type Database from "better-sqlite3";
+import { ConsoleCodeSender, sessionMiddleware, type CodeSender } from "./auth";
+import { EventHub } from "./events";
+import { WebPushSender, loadVapidKeys, type PushSender } from "./push";
+import { savedSearchAlerts, type NewListing } from "./alerts";
+import { locationPrivacy } from "./privacy";
+import { idempotency } from "./idempotency";
+import { GazetteerGeocoder, type Geocoder } from "./geocode";
+import { RATE_LIMITS, type RateLimits } from "./ratelimit";
+import { DEFAULT_RECOMMENDATION_WEIGHTS, type RecommendationWeights } from "./recommend";
+import { createAssistant, type PostAssistant } from "./assistant";
+import { UPLOAD_URL_PREFIX } from "./profiles";
+import { apiNotFound, errorHandler, notFound } from "./errors";
+import { createRepositories, type Repositories } from "./repositories";
+import type { AppConfig } from "./config";
+import { authRoutes } from "./routes/auth";
+import { userRoutes } from "./routes/users";
+import { postRoutes } from "./routes/posts";
+import { workerRoutes } from "./routes/workers";
+import { jobRoutes } from "./routes/jobs";
+import { applicationRoutes } from "./routes/applications";
+import { reviewRoutes } from "./routes/reviews";
+import { messagingRoutes } from "./routes/messaging";
+import { alertRoutes } from "./routes/alerts";
+import { locationRoutes } from "./routes/locations";
+import { reportRoutes } from "./routes/reports";
+import { adminRoutes } from "./routes/admin";
+import { viewRoutes } from "./routes/views";
+import { assistantRoutes } from "./routes/assistant";
+import { bookingRoutes } from "./routes/bookings";
+
+export interface AppOptions {
+  db: Database.Database;
+  config: AppConfig;
+  // Defaults to printing login codes to the console
+  codeSender?: CodeSender;
+  events?: EventHub;
+  // Defaults to real Web Push with the VAPID keys stored in the database
+  pushSender?: PushSender;
+  // Defaults to the offline gazetteer at config.gazetteerPath
+  geocoder?: Geocoder;
+  // Overrides for the default per-user and per-IP limits (tests loosen them)
+  rateLimits?: Partial<RateLimits>;
+  // Defaults to Gemini if config.geminiApiKey is set, else the offline stub
+  assistant?: PostAssistant;
+}
+
+// Everything a route module needs, built once per app
+export interface AppContext {
+  db: Database.Database;
+  config: AppConfig;
+  repos: Repositories;
+  codeSender: CodeSender;
+  events: EventHub;
+  pushSender: PushSender;
+  geocoder: Geocoder;
+  rateLimits: RateLimits;
+  recommendationWeights: RecommendationWeights;
+  assistant: PostAssistant;
+  notifySavedSearches: (listing: NewListing) => void;
+  showLocations: ReturnType<typeof locationPrivacy>;
+}
+
+/**
+ * Builds the API on an already-migrated database without listening, so tests can drive it
+ * in-process. Unknown /api paths get a JSON 404; the caller mounts the client after this.
+ */
+export function createApp(options: AppOptions): express.Express {
+  const { db, config } = options;
+  const events = options.events ?? new EventHub();
+  const pushSender = options.pushSender ?? new WebPushSender(loadVapidKeys(db), config.vapidSubject);
+  const ctx: AppContext = {
+    db,
+    config,
+    repos: createRepositories(db),
+    codeSender: options.codeSender ?? new ConsoleCodeSender(),
+    events,
+    pushSender,
+    geocoder: options.geocoder ?? new GazetteerGeocoder(config.gazetteerPath),
+    rateLimits: { ...RATE_LIMITS, ...options.rateLimits },
+    recommendationWeights: { ...DEFAULT_RECOMMENDATION_WEIGHTS, ...config.recommendationWeights },
+    assistant: options.assistant ?? createAssistant(config),
+    notifySavedSearches: savedSearchAlerts(db, events, pushSender),
+    showLocations: locationPrivacy(db),
+  };
+
+  const app = express();
+  // Per-IP rate limits need the client's address, not the load balancer's
+  if (config.trustProxy) app.set("trust proxy", config.trustProxy);
+  app.use(express.json());
+  app.use(UPLOAD_URL_PREFIX, express.static(config.uploadDir), (_req, _res, next) => next(notFound("File not found")));
+  app.use(sessionMiddleware(db));
+  app.use("/api", idempotency(db));
+
+  const api = express.Router();
+  api.use(authRoutes(ctx));
+  api.use(userRoutes(ctx));
+  api.use(postRoutes(ctx));
+  api.use(workerRoutes(ctx));
+  api.use(jobRoutes(ctx));
+  api.use(applicationRoutes(ctx));
+  api.use(reviewRoutes(ctx));
+  api.use(messagingRoutes(ctx));
+  api.use(alertRoutes(ctx));
+  api.use(locationRoutes(ctx));
+  api.use(reportRoutes(ctx));
+  api.use(adminRoutes(ctx));
+  api.use(viewRoutes(ctx));
+  api.use(assistantRoutes(ctx));
+  api.use(bookingRoutes(ctx));
+  api.use(apiNotFound);
+  app.use("/api", api);
+  app.use(errorHandler);
+
+  return app;
+}
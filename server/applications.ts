@@ -0,0 +1,52 @@
+export type ApplicationStatus =
+  | "invited"
+  | "applied"
+  | "shortlisted"
+  | "hired"
+  | "completed"
+  | "rejected"
+  | "withdrawn";
+
+export type Party = "worker" | "employer";
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  "invited",
+  "applied",
+  "shortlisted",
+  "hired",
+  "completed",
+  "rejected",
+  "withdrawn",
+];
+
+/**
+ * Legal moves out of each status, and which side of the application may make them.
+ * An accepted invitation skips straight to shortlisted; rejected/withdrawn/completed are final.
+ */
+const TRANSITIONS: Record<ApplicationStatus, Partial<Record<ApplicationStatus, Party>>> = {
+  invited: { shortlisted: "worker", withdrawn: "worker", rejected: "employer" },
+  applied: { shortlisted: "employer", rejected: "employer", withdrawn: "worker" },
+  shortlisted: { hired: "employer", rejected: "employer", withdrawn: "worker" },
+  hired: { completed: "employer", withdrawn: "worker" },
+  completed: {},
+  rejected: {},
+  withdrawn: {},
+};
+
+export function nextStatuses(from: ApplicationStatus, party: Party): ApplicationStatus[] {
+  return (Object.entries(TRANSITIONS[from]) as [ApplicationStatus, Party][])
+    .filter(([, who]) => who === party)
+    .map(([to]) => to);
+}
+
+// Returns null when `party` may move the application from `from` to `to`, otherwise the HTTP error to send
+export function checkTransition(
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  party: Party
+): { status: 403 | 409; error: string } | null {
+  const who = TRANSITIONS[from][to];
+  if (!who) return { status: 409, error: `Can't move an application from ${from} to ${to}` };
+  if (who !== party) return { status: 403, error: `Only the ${who} can mark this application ${to}` };
+  return null;
+}
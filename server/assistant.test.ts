@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { GeminiAssistant, MAX_SUGGESTED_SKILLS, StubAssistant, createAssistant } from "./assistant";
+
+// Stands in for the Gemini SDK so no request leaves the process
+const generateContent = vi.hoisted(() => vi.fn());
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+describe("StubAssistant", () => {
+  const stub = new StubAssistant();
+
+  it("picks the category with the most keyword hits and names the skills", async () => {
+    expect(await stub.suggestPost("Hi, I can do deep clean and ironing, weekends in Hackney.")).toEqual({
+      title: "Deep clean and ironing",
+      description: "Hi, I can do deep clean and ironing, weekends in Hackney.",
+      category: "Cleaning",
+      skills: [
+        { name: "Deep cleaning", category: "Cleaning" },
+        { name: "Ironing", category: "Cleaning" },
+      ],
+    });
+  });
+
+  it("keeps skills from other categories and settles ties on the first category", async () => {
+    const suggestion = await stub.suggestPost("I'm a courier with my own van, also do some window cleaning");
+    expect(suggestion.category).toBe("Delivery");
+    expect(suggestion.skills).toEqual([
+      { name: "Courier", category: "Delivery" },
+      { name: "Window cleaning", category: "Cleaning" },
+    ]);
+  });
+
+  it("only matches keywords as whole words", async () => {
+    const suggestion = await stub.suggestPost("Unclean vans? Grab a cleaner friend");
+    expect(suggestion.category).toBe("Cleaning");
+    expect(suggestion.skills).toEqual([]);
+  });
+
+  it("caps the skills it suggests", async () => {
+    const suggestion = await stub.suggestPost("plumbing, electrical, tv mounting, smart home, it support and phone repair - any day");
+    expect(suggestion.skills).toHaveLength(MAX_SUGGESTED_SKILLS);
+  });
+
+  it("titles the post from its first clause, without greetings or filler", async () => {
+    expect((await stub.suggestPost("Hello! I can do dog walking and pet sitting, mornings")).title).toBe("Dog walking and pet sitting");
+    expect((await stub.suggestPost("happy to help out with whatever you need this week and next")).title).toBe("Happy to help out with whatever you need");
+  });
+
+  it("falls back to a stock title when there's nothing to use", async () => {
+    expect(await stub.suggestPost("Hello!!!")).toMatchObject({ title: "Available for work", description: "Hello!", category: "General" });
+    expect((await stub.suggestPost("Ok: removals and lifting")).title).toBe("Manual Labor help available");
+  });
+
+  it("tames shouting and repeated punctuation", async () => {
+    const suggestion = await stub.suggestPost("I CAN HELP WITH GARDENING AND LAWN MOWING!!! also some painting");
+    expect(suggestion.description).toBe("I can help with gardening and lawn mowing! Also some painting.");
+    expect(suggestion.title).toBe("Gardening and lawn mowing");
+  });
+});
+
+describe("GeminiAssistant", () => {
+  const valid = {
+    title: "Deep cleaning and ironing",
+    description: "I do deep cleans and ironing at weekends in Hackney.",
+    category: "Cleaning",
+    skills: [{ name: "Ironing", category: "Cleaning" }],
+  };
+
+  beforeEach(() => {
+    generateContent.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it("returns the model's suggestion when it fits", async () => {
+    generateContent.mockResolvedValue({ text: JSON.stringify(valid) });
+    const assistant = new GeminiAssistant("test-key", "test-model");
+
+    expect(await assistant.suggestPost("deep clean + ironing weekends hackney")).toEqual(valid);
+    expect(generateContent).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "test-model", contents: "deep clean + ironing weekends hackney", config: expect.objectContaining({ responseMimeType: "application/json" }) })
+    );
+  });
+
+  it.each([
+    ["isn't JSON", "Sure! Here's your post:"],
+    ["has no text", undefined],
+    ["uses an unknown category", JSON.stringify({ ...valid, category: "Astrology" })],
+    ["leaves out a field", JSON.stringify({ title: valid.title, category: valid.category, skills: [] })],
+    ["suggests too many skills", JSON.stringify({ ...valid, skills: Array(MAX_SUGGESTED_SKILLS + 1).fill(valid.skills[0]) })],
+    ["gives a title that's too short", JSON.stringify({ ...valid, title: "Hi" })],
+  ])("rejects output that %s", async (_case, text) => {
+    generateContent.mockResolvedValue({ text });
+    await expect(new GeminiAssistant("test-key").suggestPost("deep clean + ironing")).rejects.toMatchObject({ status: 502, code: "assistant_unavailable" });
+  });
+
+  it("turns a failed request into the same 502", async () => {
+    generateContent.mockRejectedValue(new Error("quota exceeded"));
+    await expect(new GeminiAssistant("test-key").suggestPost("deep clean + ironing")).rejects.toMatchObject({ status: 502 });
+  });
+});
+
+describe("createAssistant", () => {
+  it("uses Gemini only with an API key", () => {
+    expect(createAssistant({})).toBeInstanceOf(StubAssistant);
+    expect(createAssistant({ geminiApiKey: "key" })).toBeInstanceOf(GeminiAssistant);
+  });
+});
@@ -0,0 +1,153 @@
+import type Database from "better-sqlite3";
+import type express from "express";
+import crypto from "crypto";
+import { forbidden, unauthorized } from "./errors";
+
+export const SESSION_COOKIE = "wn_session";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const LOGIN_CODE_TTL_MS = 10 * 60 * 1000;
+const LOGIN_CODE_MAX_ATTEMPTS = 5;
+
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: "worker" | "employer";
+  is_admin: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
+
+// Delivers one-time login codes. Swap in an email/SMS implementation in production.
+export interface CodeSender {
+  send(email: string, code: string): Promise<void>;
+}
+
+export class ConsoleCodeSender implements CodeSender {
+  async send(email: string, code: string) {
+    console.log(`[auth] login code for ${email}: ${code}`);
+  }
+}
+
+// scrypt with a per-password salt, stored as "salt:hash" in hex
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  return `${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [saltHex, hashHex] = stored.split(":");
+  if (!saltHex || !hashHex) return false;
+  const expected = Buffer.from(hashHex, "hex");
+  const actual = crypto.scryptSync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+const sha256 = (value: string) => crypto.createHash("sha256").update(value).digest("hex");
+
+export function newId(prefix: string): string {
+  return `${prefix}_${crypto.randomBytes(9).toString("base64url")}`;
+}
+
+// Only the token's hash is stored, so a leaked database can't be replayed as sessions
+export function createSession(db: Database.Database, userId: string): string {
+  const token = crypto.randomBytes(32).toString("base64url");
+  db.prepare("INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)").run(
+    sha256(token),
+    userId,
+    Date.now() + SESSION_TTL_MS
+  );
+  return token;
+}
+
+export function destroySession(db: Database.Database, token: string) {
+  db.prepare("DELETE FROM sessions WHERE token_hash = ?").run(sha256(token));
+}
+
+export function issueLoginCode(db: Database.Database): (email: string) => string {
+  const upsert = db.prepare(`
+    INSERT INTO login_codes (email, code_hash, attempts, expires_at) VALUES (?, ?, 0, ?)
+    ON CONFLICT(email) DO UPDATE SET code_hash = excluded.code_hash, attempts = 0, expires_at = excluded.expires_at
+  `);
+  return (email) => {
+    const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, "0");
+    upsert.run(email, sha256(code), Date.now() + LOGIN_CODE_TTL_MS);
+    return code;
+  };
+}
+
+// Consumes the code on success; too many wrong guesses burn it
+export function consumeLoginCode(db: Database.Database, email: string, code: string): boolean {
+  const row = db
+    .prepare("SELECT code_hash, attempts, expires_at FROM login_codes WHERE email = ?")
+    .get(email) as { code_hash: string; attempts: number; expires_at: number } | undefined;
+  if (!row || row.expires_at < Date.now() || row.attempts >= LOGIN_CODE_MAX_ATTEMPTS) return false;
+  if (row.code_hash !== sha256(code)) {
+    db.prepare("UPDATE login_codes SET attempts = attempts + 1 WHERE email = ?").run(email);
+    return false;
+  }
+  db.prepare("DELETE FROM login_codes WHERE email = ?").run(email);
+  return true;
+}
+
+export function readSessionToken(req: express.Request): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+  for (const part of header.split(";")) {
+    const [name, ...rest] = part.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(rest.join("="));
+  }
+  return undefined;
+}
+
+export function setSessionCookie(res: express.Response, token: string) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: SESSION_TTL_MS,
+    path: "/",
+  });
+}
+
+export function clearSessionCookie(res: express.Response) {
+  res.clearCookie(SESSION_COOKIE, { path: "/" });
+}
+
+// Resolves the session cookie (if any) to `req.user`; never rejects on its own
+export function sessionMiddleware(db: Database.Database): express.RequestHandler {
+  const lookup = db.prepare(`
+    SELECT u.id, u.name, u.role, u.is_admin FROM sessions s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.token_hash = ? AND s.expires_at > ? AND u.suspended_at IS NULL
+  `);
+  return (req, _res, next) => {
+    const token = readSessionToken(req);
+    if (token) {
+      req.user = lookup.get(sha256(token), Date.now()) as SessionUser | undefined;
+    }
+    next();
+  };
+}
+
+export const requireAuth: express.RequestHandler = (req, _res, next) => {
+  next(req.user ? undefined : unauthorized());
+};
+
+export function requireRole(role: SessionUser["role"]): express.RequestHandler {
+  return (req, _res, next) => {
+    if (!req.user) return next(unauthorized());
+    next(req.user.role === role ? undefined : forbidden(`Only ${role}s can do that`));
+  };
+}
+
+export const requireAdmin: express.RequestHandler = (req, _res, next) => {
+  if (!req.user) return next(unauthorized());
+  next(req.user.is_admin ? undefined : forbidden("Only admins can do that"));
+};
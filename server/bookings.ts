@@ -0,0 +1,131 @@
+import { HttpError } from "./errors";
+import { parseDbTime } from "./time";
+
+// Workers have to be this close to the booking's position to check in or out
+export const CHECK_IN_RADIUS_KM = 0.5;
+// Check-in opens this long before a shift starts
+export const CHECK_IN_EARLY_MINUTES = 30;
+export const MAX_SHIFT_HOURS = 16;
+export const MAX_SHIFTS_PER_REQUEST = 50;
+
+export type BookingStatus = "active" | "cancelled";
+export type ShiftStatus = "scheduled" | "cancelled";
+
+export interface BookingRow {
+  id: string;
+  worker_id: string;
+  employer_id: string;
+  listing_type: "job" | "post";
+  listing_id: string;
+  application_id: string | null;
+  title: string;
+  lat: number;
+  lng: number;
+  hourly_rate: number;
+  status: BookingStatus;
+  // Null while a booking made from a post waits for the worker to accept it
+  accepted_at: string | null;
+  approved_at: string | null;
+  approved_minutes: number | null;
+  approved_amount: number | null;
+  created_at: string;
+  worker_name: string;
+  employer_name: string;
+}
+
+export interface ShiftRow {
+  id: string;
+  booking_id: string;
+  starts_at: string;
+  ends_at: string;
+  status: ShiftStatus;
+  check_in_at: string | null;
+  check_in_distance_m: number | null;
+  check_out_at: string | null;
+  check_out_distance_m: number | null;
+}
+
+// Paid time for a shift in whole minutes: from check-in, but no earlier than the scheduled start, to check-out
+export function workedMinutes(shift: Pick<ShiftRow, "starts_at" | "check_in_at" | "check_out_at">): number {
+  if (!shift.check_in_at || !shift.check_out_at) return 0;
+  const from = Math.max(parseDbTime(shift.check_in_at), parseDbTime(shift.starts_at));
+  return Math.max(0, Math.floor((parseDbTime(shift.check_out_at) - from) / 60_000));
+}
+
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface TimesheetLine {
+  shift_id: string;
+  starts_at: string;
+  ends_at: string;
+  check_in_at: string | null;
+  check_out_at: string | null;
+  minutes: number;
+  amount: number;
+}
+
+export interface Timesheet {
+  hourly_rate: number;
+  lines: TimesheetLine[];
+  total_minutes: number;
+  total_hours: number;
+  total_amount: number;
+  // Shifts still under way or yet to finish; the timesheet can't be approved while there are any
+  unfinished: number;
+  approved_at: string | null;
+}
+
+// Whether a shift keeps the timesheet open: checked in but not out, or not over yet and never checked out
+export function isUnfinished(shift: ShiftRow, now: number): boolean {
+  if (shift.status !== "scheduled" || shift.check_out_at) return false;
+  return !!shift.check_in_at || parseDbTime(shift.ends_at) > now;
+}
+
+/**
+ * Hours x rate for every scheduled shift, each line rounded to the cent. Once approved, the
+ * totals are the ones the employer signed off.
+ */
+export function buildTimesheet(booking: BookingRow, shifts: ShiftRow[], now = Date.now()): Timesheet {
+  const lines = shifts
+    .filter((shift) => shift.status === "scheduled")
+    .map((shift) => {
+      const minutes = workedMinutes(shift);
+      return {
+        shift_id: shift.id,
+        starts_at: shift.starts_at,
+        ends_at: shift.ends_at,
+        check_in_at: shift.check_in_at,
+        check_out_at: shift.check_out_at,
+        minutes,
+        amount: toCents((minutes / 60) * booking.hourly_rate),
+      };
+    });
+  const totalMinutes = booking.approved_at ? booking.approved_minutes! : lines.reduce((sum, line) => sum + line.minutes, 0);
+  return {
+    hourly_rate: booking.hourly_rate,
+    lines,
+    total_minutes: totalMinutes,
+    total_hours: Math.round((totalMinutes / 60) * 100) / 100,
+    total_amount: booking.approved_at ? booking.approved_amount! : toCents(lines.reduce((sum, line) => sum + line.amount, 0)),
+    unfinished: shifts.filter((shift) => isUnfinished(shift, now)).length,
+    approved_at: booking.approved_at,
+  };
+}
+
+// Whether `a` and `b` overlap; shifts that only touch end to start don't
+export const overlaps = (a: { starts_at: string; ends_at: string }, b: { starts_at: string; ends_at: string }) =>
+  a.starts_at < b.ends_at && b.starts_at < a.ends_at;
+
+// Only the times are given: the clashing shift may be with another employer
+export const shiftConflict = (other: { starts_at: string; ends_at: string }) =>
+  new HttpError(409, "shift_conflict", `The worker already has a shift from ${other.starts_at.slice(0, 16)} to ${other.ends_at.slice(0, 16)} UTC`);
+
+export const tooFar = (distanceKm: number) =>
+  new HttpError(
+    403,
+    "too_far",
+    `You're ${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km from the job. Check in when you're within ${CHECK_IN_RADIUS_KM * 1000} m.`
+  );
+
+// The worker always sees where the work is; the employer only when it's their own job, not the worker's post
+export const showsPosition = (booking: BookingRow, viewerId: string) => booking.worker_id === viewerId || booking.listing_type === "job";
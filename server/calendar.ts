@@ -0,0 +1,65 @@
+// Just enough iCalendar (RFC 5545) for a read-only feed of timed events
+export interface CalendarEvent {
+  uid: string;
+  // UTC, as stored in the database
+  start: string;
+  end: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  cancelled?: boolean;
+}
+
+// "2026-10-20 09:00:00" -> "20261020T090000Z"
+const icsTime = (value: string) => `${value.slice(0, 19).replace(/[-:]/g, "").replace(/[ T]/, "T")}Z`;
+
+const escapeText = (text: string) => text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (bytes + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/** Renders a VCALENDAR with one VEVENT per event. `now` stamps the events (DTSTAMP). */
+export function toICalendar(name: string, events: CalendarEvent[], now = new Date()): string {
+  const stamp = icsTime(now.toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//WorkNearby//Shifts//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsTime(event.start)}`,
+      `DTEND:${icsTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.geo) lines.push(`GEO:${event.geo.lat.toFixed(6)};${event.geo.lng.toFixed(6)}`);
+    lines.push(`STATUS:${event.cancelled ? "CANCELLED" : "CONFIRMED"}`, "END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,116 @@
+import { openDatabase } from "./db";
+import { migrate, migrationStatus } from "./migrate";
+import { MIGRATIONS } from "./migrations";
+import { DEMO_PASSWORD, seedDemoData } from "./seed";
+import { REPORT_ACTIONS, REPORT_TARGETS, type ReportAction, type ReportTarget } from "./moderation";
+import { ReportRepository } from "./repositories/reports";
+import { AdminRepository } from "./repositories/admin";
+
+const USAGE = `Usage: tsx server/cli.ts <command> [options]
+
+Commands:
+  migrate               Apply pending migrations
+  status                List migrations and whether each has been applied
+  seed [--lat --lng]    Apply migrations, then add demo users, posts and jobs around a point
+                        (defaults to central London)
+  reports               List the moderation queue: open reports grouped by post, job, user or review
+  resolve <post|job|user|review> <id> <dismiss|uphold>
+                        Close the open reports against a post, job, user or review. Dismissing
+                        un-hides a post, job or review; upholding keeps it hidden, or hides all of
+                        a reported user's posts and jobs
+  grant-admin <email>   Let the account open the admin panel
+  revoke-admin <email>  Take admin access away again
+
+Options:
+  --db <path>           Database file (default: DATABASE_PATH or worknearby.db; ":memory:" works)`;
+
+function option(args: string[], name: string): string | undefined {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args[i + 1] : undefined;
+}
+
+function coordinate(args: string[], name: string, fallback: number, limit: number): number {
+  const raw = option(args, name);
+  const value = raw === undefined ? fallback : Number(raw);
+  if (!Number.isFinite(value) || Math.abs(value) > limit) throw new Error(`--${name} must be a number between -${limit} and ${limit}`);
+  return value;
+}
+
+function main(args: string[]): number {
+  const [command] = args;
+  const file = option(args, "db");
+
+  switch (command) {
+    case "migrate": {
+      const db = openDatabase(file, { migrate: false });
+      const ran = migrate(db, MIGRATIONS);
+      for (const m of ran) console.log(`applied ${String(m.version).padStart(4, "0")} ${m.name}`);
+      console.log(ran.length ? `${ran.length} migration(s) applied` : "Already up to date");
+      return 0;
+    }
+    case "status": {
+      const db = openDatabase(file, { migrate: false });
+      const status = migrationStatus(db, MIGRATIONS);
+      for (const m of status) {
+        console.log(`${String(m.version).padStart(4, "0")} ${m.name.padEnd(24)} ${m.applied_at ? `applied ${m.applied_at}` : "pending"}`);
+      }
+      const pending = status.filter((m) => !m.applied_at).length;
+      console.log(pending ? `${pending} pending` : "Up to date");
+      return 0;
+    }
+    case "seed": {
+      const center = { lat: coordinate(args, "lat", 51.5074, 90), lng: coordinate(args, "lng", -0.1278, 180) };
+      const db = openDatabase(file);
+      const result = seedDemoData(db, center);
+      console.log(
+        result.created
+          ? `Seeded ${result.users} demo users; sign in as e.g. alex@demo.worknearby.test / ${DEMO_PASSWORD}`
+          : "Demo data already present, nothing to do"
+      );
+      return 0;
+    }
+    case "reports": {
+      const reports = new ReportRepository(openDatabase(file));
+      const queue = reports.queue();
+      for (const item of queue) {
+        const hidden = item.target_type === "post" ? item.post_hidden : item.target_type === "job" ? item.job_hidden : undefined;
+        const state = hidden === undefined ? "" : hidden == null ? " (deleted)" : hidden ? " (hidden)" : "";
+        console.log(`${item.target_type} ${item.target_id}  ${item.target_label ?? "?"}${state}`);
+        console.log(`  ${item.report_count} report(s): ${item.reasons}; first ${item.first_reported_at}`);
+        for (const report of reports.listFor(item.target_type, item.target_id) as { reporter_name: string | null; reason: string; details: string | null }[]) {
+          console.log(`  - ${report.reporter_name ?? "automatic"}: ${report.reason}${report.details ? ` - ${report.details}` : ""}`);
+        }
+      }
+      console.log(queue.length ? `${queue.length} item(s) to review` : "Nothing to review");
+      return 0;
+    }
+    case "resolve": {
+      const [, type, id, action] = args;
+      if (!REPORT_TARGETS.includes(type as ReportTarget) || !id || !REPORT_ACTIONS.includes(action as ReportAction)) {
+        throw new Error("Usage: resolve <post|job|user|review> <id> <dismiss|uphold>");
+      }
+      const closed = new ReportRepository(openDatabase(file)).resolve(type as ReportTarget, id, action as ReportAction);
+      console.log(closed ? `Closed ${closed} report(s)` : `No open reports against ${type} ${id}`);
+      return 0;
+    }
+    case "grant-admin":
+    case "revoke-admin": {
+      const email = args[1]?.trim().toLowerCase();
+      if (!email || email.startsWith("--")) throw new Error(`Usage: ${command} <email>`);
+      const grant = command === "grant-admin";
+      if (!new AdminRepository(openDatabase(file)).setAdmin(email, grant)) throw new Error(`No account with email ${email}`);
+      console.log(grant ? `${email} is now an admin` : `${email} is no longer an admin`);
+      return 0;
+    }
+    default:
+      console.log(USAGE);
+      return command && command !== "help" ? 1 : 0;
+  }
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,46 @@
+import path from "path";
+import { DEFAULT_DATABASE_PATH } from "./db";
+import { UPLOAD_DIR } from "./profiles";
+import { DEFAULT_GAZETTEER_PATH } from "./geocode";
+import { parseWeights, type RecommendationWeights } from "./recommend";
+
+export interface AppConfig {
+  // Where uploaded photos are written and served from
+  uploadDir: string;
+  // Contact (mailto: or https:) sent to push services with each Web Push request
+  vapidSubject: string;
+  // Place list behind the offline geocoder
+  gazetteerPath: string;
+  // Number of reverse proxies in front of the app whose X-Forwarded-For can be believed (0 for none)
+  trustProxy: number;
+  // Overrides for the recommended sort's default factor weights
+  recommendationWeights?: Partial<RecommendationWeights>;
+  // Without a key the post assistant runs the offline rule-based stub
+  geminiApiKey?: string;
+  geminiModel?: string;
+}
+
+export interface ServerConfig extends AppConfig {
+  port: number;
+  databasePath: string;
+  production: boolean;
+}
+
+// Reads the server settings from the environment (see .env.example)
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const port = Number(env.PORT);
+  const trustProxy = Number(env.TRUST_PROXY);
+  return {
+    port: Number.isInteger(port) && port > 0 ? port : 3000,
+    databasePath: env.DATABASE_PATH || DEFAULT_DATABASE_PATH,
+    production: env.NODE_ENV === "production",
+    uploadDir: env.UPLOAD_DIR ? path.resolve(env.UPLOAD_DIR) : UPLOAD_DIR,
+    vapidSubject: env.VAPID_SUBJECT || "mailto:admin@worknearby.local",
+    trustProxy: Number.isInteger(trustProxy) && trustProxy > 0 ? trustProxy : 0,
+    gazetteerPath: env.GAZETTEER_PATH ? path.resolve(env.GAZETTEER_PATH) : DEFAULT_GAZETTEER_PATH,
+    recommendationWeights: parseWeights(env.RECOMMENDATION_WEIGHTS),
+    // The placeholder from .env.example counts as unset
+    geminiApiKey: env.GEMINI_API_KEY && env.GEMINI_API_KEY !== "MY_GEMINI_API_KEY" ? env.GEMINI_API_KEY : undefined,
+    geminiModel: env.GEMINI_MODEL || undefined,
+  };
+}
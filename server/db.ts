@@ -0,0 +1,29 @@
+import Database from "better-sqlite3";
+import { registerGeoFunctions } from "./geo";
+import { registerProfileFunctions } from "./profiles";
+import { registerPrivacyFunctions } from "./privacy";
+import { migrate } from "./migrate";
+import { MIGRATIONS } from "./migrations";
+
+// DATABASE_PATH overrides this; ":memory:" gives a throwaway database (for tests and experiments)
+export const DEFAULT_DATABASE_PATH = "worknearby.db";
+
+/**
+ * Opens the database, registers the SQL functions the queries rely on and, unless told not
+ * to, applies any pending migrations.
+ */
+export function openDatabase(
+  file = process.env.DATABASE_PATH || DEFAULT_DATABASE_PATH,
+  options: { migrate?: boolean } = {}
+): Database.Database {
+  const db = new Database(file);
+  registerGeoFunctions(db);
+  registerProfileFunctions(db);
+  registerPrivacyFunctions(db);
+  if (options.migrate ?? true) {
+    for (const migration of migrate(db, MIGRATIONS)) {
+      console.log(`[db] applied migration ${migration.version} ${migration.name}`);
+    }
+  }
+  return db;
+}
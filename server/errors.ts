@@ -0,0 +1,75 @@
+import type express from "express";
+import { ZodError, type ZodType, type z } from "zod";
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Every API error goes out as `{ error, code, fields? }`: `error` is a human-readable
+ * message, `code` is stable for clients to branch on, and `fields` maps request
+ * fields to their validation messages.
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public fields?: FieldErrors
+  ) {
+    super(message);
+  }
+}
+
+export const badRequest = (message: string, fields?: FieldErrors) => new HttpError(400, "validation_error", message, fields);
+export const unauthorized = (message = "Sign in required") => new HttpError(401, "unauthorized", message);
+export const forbidden = (message: string) => new HttpError(403, "forbidden", message);
+export const notFound = (message: string) => new HttpError(404, "not_found", message);
+export const conflict = (message: string) => new HttpError(409, "conflict", message);
+
+function fieldErrors(error: ZodError): FieldErrors {
+  const fields: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = issue.path.join(".") || "_";
+    fields[key] ??= issue.message;
+  }
+  return fields;
+}
+
+// Parses `input` with `schema`, throwing a 400 with per-field messages if it doesn't fit
+export function parse<S extends ZodType>(schema: S, input: unknown): z.infer<S> {
+  const result = schema.safeParse(input);
+  if (!result.success) throw badRequest("Some fields are invalid", fieldErrors(result.error));
+  return result.data;
+}
+
+// Lets async handlers throw into the error middleware (Express 4 won't catch rejected promises)
+export const asyncHandler =
+  (fn: (req: express.Request, res: express.Response) => Promise<unknown>): express.RequestHandler =>
+  (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+
+export const errorHandler: express.ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    return res.status(err.status).json({ error: err.message, code: err.code, fields: err.fields });
+  }
+  // Malformed JSON bodies from express.json()
+  if (err?.type === "entity.parse.failed") {
+    return res.status(400).json({ error: "Request body is not valid JSON", code: "invalid_json" });
+  }
+  // Other errors from Express middleware (body size limits, missing static files) carry their own 4xx status
+  if (err?.expose && typeof err.status === "number" && err.status >= 400 && err.status < 500) {
+    return res.status(err.status).json({ error: err.message, code: { 404: "not_found", 413: "payload_too_large" }[err.status as number] ?? "bad_request" });
+  }
+  // Constraint violations that slipped past validation are still the client's fault
+  if (typeof err?.code === "string" && err.code.startsWith("SQLITE_CONSTRAINT")) {
+    const status = err.code === "SQLITE_CONSTRAINT_UNIQUE" || err.code === "SQLITE_CONSTRAINT_PRIMARYKEY" ? 409 : 400;
+    return res.status(status).json({ error: "The request conflicts with existing data", code: status === 409 ? "conflict" : "constraint_violation" });
+  }
+  console.error(err);
+  res.status(500).json({ error: "Something went wrong", code: "internal" });
+};
+
+// JSON 404 for unknown /api routes, so they don't fall through to the SPA
+export const apiNotFound: express.RequestHandler = (_req, res) => {
+  res.status(404).json({ error: "No such API route", code: "not_found" });
+};
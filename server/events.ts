@@ -0,0 +1,37 @@
+import type express from "express";
+
+const HEARTBEAT_MS = 25_000;
+
+/**
+ * Server-Sent Events fan-out keyed by user id. A user may have several tabs open,
+ * so each id maps to a set of open responses. Delivery is best-effort: anything
+ * that must survive a disconnect is persisted and re-fetched by the client on reconnect.
+ */
+export class EventHub {
+  private clients = new Map<string, Set<express.Response>>();
+
+  subscribe(userId: string, req: express.Request, res: express.Response) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    });
+    res.write("retry: 3000\n\n");
+
+    let set = this.clients.get(userId);
+    if (!set) this.clients.set(userId, (set = new Set()));
+    set.add(res);
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      set!.delete(res);
+      if (set!.size === 0) this.clients.delete(userId);
+    });
+  }
+
+  publish(userId: string, event: string, data: unknown) {
+    const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    for (const res of this.clients.get(userId) ?? []) res.write(payload);
+  }
+}
@@ -0,0 +1,143 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EARTH_RADIUS_KM, boundingBoxes, boxFilter, haversineKm, registerGeoFunctions, type BoundingBox } from "./geo";
+
+const LONDON = { lat: 51.5074, lng: -0.1278 };
+const PARIS = { lat: 48.8566, lng: 2.3522 };
+const NEW_YORK = { lat: 40.7128, lng: -74.006 };
+const LOS_ANGELES = { lat: 34.0522, lng: -118.2437 };
+const SYDNEY = { lat: -33.8688, lng: 151.2093 };
+const AUCKLAND = { lat: -36.8485, lng: 174.7633 };
+
+// The point `km` away from `from` on the given compass bearing
+function destination(from: { lat: number; lng: number }, bearingDeg: number, km: number) {
+  const rad = Math.PI / 180;
+  const d = km / EARTH_RADIUS_KM;
+  const b = bearingDeg * rad;
+  const lat1 = from.lat * rad;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(d) + Math.cos(lat1) * Math.sin(d) * Math.cos(b));
+  const lng2 = from.lng * rad + Math.atan2(Math.sin(b) * Math.sin(d) * Math.cos(lat1), Math.cos(d) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: lat2 / rad, lng: ((((lng2 / rad + 540) % 360) + 360) % 360) - 180 };
+}
+
+const inBox = (box: BoundingBox, p: { lat: number; lng: number }) =>
+  p.lat >= box.minLat && p.lat <= box.maxLat && p.lng >= box.minLng && p.lng <= box.maxLng;
+
+describe("haversineKm", () => {
+  it.each([
+    ["London", "Paris", 343.6, LONDON, PARIS],
+    ["New York", "Los Angeles", 3935.7, NEW_YORK, LOS_ANGELES],
+    ["Sydney", "Auckland", 2155.9, SYDNEY, AUCKLAND],
+  ])("puts %s and %s %d km apart", (_a, _b, km, a, b) => {
+    expect(haversineKm(a.lat, a.lng, b.lat, b.lng)).toBeCloseTo(km, 0);
+    expect(haversineKm(b.lat, b.lng, a.lat, a.lng)).toBeCloseTo(km, 0);
+  });
+
+  it("is zero for the same point and half the circumference for antipodes", () => {
+    expect(haversineKm(LONDON.lat, LONDON.lng, LONDON.lat, LONDON.lng)).toBe(0);
+    expect(haversineKm(10, 20, -10, -160)).toBeCloseTo(Math.PI * EARTH_RADIUS_KM, 2);
+  });
+
+  it("measures across the antimeridian the short way", () => {
+    expect(haversineKm(0, 179.5, 0, -179.5)).toBeCloseTo((Math.PI / 180) * EARTH_RADIUS_KM, 6);
+  });
+});
+
+describe("boundingBoxes", () => {
+  it("is a single box around an ordinary point that covers the whole circle", () => {
+    const boxes = boundingBoxes(LONDON.lat, LONDON.lng, 25);
+    expect(boxes).toHaveLength(1);
+    for (let bearing = 0; bearing < 360; bearing += 15) {
+      expect(inBox(boxes[0], destination(LONDON, bearing, 24.999))).toBe(true);
+    }
+    expect(inBox(boxes[0], destination(LONDON, 0, 25.1))).toBe(false);
+    expect(inBox(boxes[0], destination(LONDON, 90, 25.1))).toBe(false);
+  });
+
+  it.each([179.9, -179.9])("splits in two at the antimeridian (origin at %d)", (lng) => {
+    const origin = { lat: -17, lng };
+    const boxes = boundingBoxes(origin.lat, origin.lng, 50);
+    expect(boxes).toHaveLength(2);
+    expect(boxes.map((box) => [box.minLng, box.maxLng].filter((edge) => Math.abs(edge) === 180))).toEqual([[180], [-180]]);
+    for (let bearing = 0; bearing < 360; bearing += 15) {
+      const p = destination(origin, bearing, 49.999);
+      expect(boxes.some((box) => inBox(box, p))).toBe(true);
+    }
+  });
+
+  it("takes in every longitude once the circle reaches a pole", () => {
+    expect(boundingBoxes(89.9, 10, 50)).toEqual([{ minLat: expect.closeTo(89.45, 2), maxLat: 90, minLng: -180, maxLng: 180 }]);
+    expect(boundingBoxes(-89.9, 10, 50)).toEqual([{ minLat: -90, maxLat: expect.closeTo(-89.45, 2), minLng: -180, maxLng: 180 }]);
+  });
+});
+
+describe("boxFilter over an R*Tree", () => {
+  let db: Database.Database;
+  beforeEach(() => {
+    db = new Database(":memory:");
+    registerGeoFunctions(db);
+    db.exec(`
+      CREATE TABLE places (id TEXT PRIMARY KEY, lat REAL NOT NULL, lng REAL NOT NULL);
+      CREATE VIRTUAL TABLE places_geo USING rtree(id, min_lat, max_lat, min_lng, max_lng);
+    `);
+  });
+  afterEach(() => db.close());
+
+  const add = (id: string, p: { lat: number; lng: number }) => {
+    const { lastInsertRowid } = db.prepare("INSERT INTO places (id, lat, lng) VALUES (?, ?, ?)").run(id, p.lat, p.lng);
+    db.prepare("INSERT INTO places_geo VALUES (?, ?, ?, ?, ?)").run(lastInsertRowid, p.lat, p.lat, p.lng, p.lng);
+  };
+
+  // The shape of the nearby search: box prefilter, exact distance, nearest first with id breaking ties
+  const within = (origin: { lat: number; lng: number }, radiusKm: number) => {
+    const box = boxFilter("g", boundingBoxes(origin.lat, origin.lng, radiusKm));
+    return db.prepare(`
+      SELECT id, distance FROM (
+        SELECT p.id, haversine_km(?, ?, p.lat, p.lng) AS distance
+        FROM places_geo g JOIN places p ON p.rowid = g.id
+        WHERE ${box.sql}
+      )
+      WHERE distance <= ? ORDER BY distance, id
+    `).all(origin.lat, origin.lng, ...box.params, radiusKm) as { id: string; distance: number }[];
+  };
+
+  it("returns what's inside the radius, nearest first", () => {
+    add("paris", PARIS);
+    add("far", destination(LONDON, 45, 30));
+    add("near", destination(LONDON, 200, 5));
+    add("here", LONDON);
+    // Inside the box's corner but outside the circle
+    add("corner", destination(LONDON, 45, 27));
+
+    expect(within(LONDON, 25).map((row) => row.id)).toEqual(["here", "near"]);
+    expect(within(LONDON, 400).map((row) => row.id)).toEqual(["here", "near", "corner", "far", "paris"]);
+  });
+
+  it("breaks distance ties by id", () => {
+    // On the equator a tenth of a degree is the same distance in every direction
+    add("d", { lat: 0, lng: -0.1 });
+    add("b", { lat: 0.1, lng: 0 });
+    add("a", { lat: 0, lng: 0.1 });
+    add("c", { lat: -0.1, lng: 0 });
+    const rows = within({ lat: 0, lng: 0 }, 20);
+    expect(new Set(rows.map((row) => row.distance)).size).toBe(1);
+    expect(rows.map((row) => row.id)).toEqual(["a", "b", "c", "d"]);
+  });
+
+  it("finds places on the far side of the antimeridian", () => {
+    add("taveuni", { lat: -16.8, lng: -179.95 });
+    add("suva", { lat: -18.1248, lng: 178.4501 });
+    add("tonga", { lat: -21.1394, lng: -175.2049 });
+
+    const rows = within({ lat: -17, lng: 179.9 }, 300);
+    expect(rows.map((row) => row.id)).toEqual(["taveuni", "suva"]);
+    expect(rows[0].distance).toBeLessThan(30);
+  });
+
+  it("finds everything near a pole whatever its longitude", () => {
+    add("east", { lat: 89.8, lng: 170 });
+    add("west", { lat: 89.8, lng: -10 });
+    add("south", { lat: 88, lng: 0 });
+    expect(within({ lat: 89.9, lng: 0 }, 50).map((row) => row.id).sort()).toEqual(["east", "west"]);
+  });
+});
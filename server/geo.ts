@@ -0,0 +1,77 @@
+import type Database from "better-sqlite3";
+
+// Mean Earth radius in km, matching the constant the nearby queries have always used
+export const EARTH_RADIUS_KM = 6371;
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Great-circle distance between two points in km (Haversine)
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Boxes covering every point within `radiusKm` of the origin.
+ * Usually one box; two when the circle crosses the antimeridian.
+ */
+export function boundingBoxes(lat: number, lng: number, radiusKm: number): BoundingBox[] {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  let minLat = lat - toDegrees(angular);
+  let maxLat = lat + toDegrees(angular);
+
+  // Circle reaches a pole: every longitude is in range
+  if (minLat <= -90 || maxLat >= 90) {
+    return [{ minLat: Math.max(minLat, -90), maxLat: Math.min(maxLat, 90), minLng: -180, maxLng: 180 }];
+  }
+
+  const dLng = toDegrees(Math.asin(Math.min(1, Math.sin(angular) / Math.cos(toRadians(lat)))));
+  const minLng = lng - dLng;
+  const maxLng = lng + dLng;
+
+  if (minLng < -180) {
+    return [
+      { minLat, maxLat, minLng: minLng + 360, maxLng: 180 },
+      { minLat, maxLat, minLng: -180, maxLng },
+    ];
+  }
+  if (maxLng > 180) {
+    return [
+      { minLat, maxLat, minLng, maxLng: 180 },
+      { minLat, maxLat, minLng: -180, maxLng: maxLng - 360 },
+    ];
+  }
+  return [{ minLat, maxLat, minLng, maxLng }];
+}
+
+/**
+ * Builds the R*Tree prefilter for `boundingBoxes`. `alias` is the rtree table alias;
+ * the returned params bind in the same order as the placeholders.
+ */
+export function boxFilter(alias: string, boxes: BoundingBox[]): { sql: string; params: number[] } {
+  const clauses = boxes.map(
+    () => `(${alias}.min_lat <= ? AND ${alias}.max_lat >= ? AND ${alias}.min_lng <= ? AND ${alias}.max_lng >= ?)`
+  );
+  const params = boxes.flatMap((b) => [b.maxLat, b.minLat, b.maxLng, b.minLng]);
+  return { sql: `(${clauses.join(" OR ")})`, params };
+}
+
+// Registers `haversine_km(lat1, lng1, lat2, lng2)` for the distance checks in SQL
+export function registerGeoFunctions(db: Database.Database) {
+  db.function("haversine_km", { deterministic: true }, (lat1, lng1, lat2, lng2) => {
+    if (lat1 == null || lng1 == null || lat2 == null || lng2 == null) return null;
+    return haversineKm(Number(lat1), Number(lng1), Number(lat2), Number(lng2));
+  });
+}
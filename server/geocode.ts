@@ -0,0 +1,141 @@
+import fs from "fs";
+import { fileURLToPath } from "url";
+import { haversineKm } from "./geo";
+
+export const PLACE_KINDS = ["city", "district", "postcode", "point"] as const;
+export type PlaceKind = (typeof PLACE_KINDS)[number];
+
+export interface Place {
+  name: string;
+  // Display form, e.g. "Camden Town, London, GB"
+  label: string;
+  kind: PlaceKind;
+  lat: number;
+  lng: number;
+}
+
+// Turns typed addresses and postal codes into coordinates, and coordinates back into a place name
+export interface Geocoder {
+  search(query: string, limit?: number): Promise<Place[]>;
+  reverse(lat: number, lng: number): Promise<Place | null>;
+}
+
+export const DEFAULT_GAZETTEER_PATH = fileURLToPath(new URL("./data/gazetteer.tsv", import.meta.url));
+export const MAX_SAVED_LOCATIONS = 10;
+// Reverse lookups further than this from every known place just describe the point
+export const REVERSE_MAX_KM = 50;
+
+interface Entry extends Place {
+  region: string;
+  country: string;
+  population: number;
+  // Normalized name and aliases
+  names: string[];
+  // Normalized region and country, for "Portland, Maine" style disambiguation
+  qualifiers: string[];
+}
+
+// Lowercase, no accents or punctuation, single spaces
+export function normalizePlaceText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9,]+/g, " ")
+    .replace(/\s*,\s*/g, ",")
+    .trim();
+}
+
+// "SW1A 1AA", "sw1a1aa", "M1" and "EC" all resolve to their postcode area
+const UK_POSTCODE = /^([a-z]{1,2})\d[a-z\d]?(\s?\d[a-z]{2})?$|^([a-z]{1,2})$/;
+
+export function formatPoint(lat: number, lng: number): string {
+  return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+}
+
+function parseGazetteer(text: string): Entry[] {
+  const entries: Entry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim() || line.startsWith("#")) continue;
+    const [kind, name, region, country, lat, lng, population, aliases = ""] = line.split("\t");
+    if (!PLACE_KINDS.includes(kind as PlaceKind) || !Number.isFinite(Number(lat)) || !Number.isFinite(Number(lng))) continue;
+    const label = kind === "postcode" ? `${name} (${region}), ${country}` : [name, region !== name && region, country].filter(Boolean).join(", ");
+    entries.push({
+      name,
+      label,
+      kind: kind as PlaceKind,
+      lat: Number(lat),
+      lng: Number(lng),
+      region,
+      country,
+      population: Number(population) || 0,
+      names: [name, ...aliases.split("|").filter(Boolean)].map(normalizePlaceText),
+      qualifiers: [region, country].map(normalizePlaceText),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Offline geocoder over a bundled gazetteer of cities, districts and postal codes
+ * (server/data/gazetteer.tsv, or GAZETTEER_PATH). Coarse, but needs no network or API key;
+ * a remote provider can implement `Geocoder` alongside it.
+ */
+export class GazetteerGeocoder implements Geocoder {
+  private entries?: Entry[];
+
+  constructor(private file = DEFAULT_GAZETTEER_PATH) {}
+
+  // Read on first lookup so apps that never geocode don't pay for it
+  private load(): Entry[] {
+    this.entries ??= parseGazetteer(fs.readFileSync(this.file, "utf8"));
+    return this.entries;
+  }
+
+  async search(query: string, limit = 5): Promise<Place[]> {
+    const [head, ...rest] = normalizePlaceText(query).split(",").filter(Boolean);
+    if (!head) return [];
+    const qualifiers = rest.join(" ");
+    const postcode = head.match(UK_POSTCODE);
+    const compact = head.replace(/ /g, "");
+
+    const scored: { entry: Entry; score: number }[] = [];
+    for (const entry of this.load()) {
+      let score = 0;
+      if (entry.kind === "postcode") {
+        const code = entry.names[0].replace(/ /g, "");
+        if (compact === code) score = 100;
+        else if (entry.country === "GB" && postcode && (postcode[1] ?? postcode[3]) === code) score = 90;
+      } else {
+        for (const name of entry.names) {
+          if (head === name) score = Math.max(score, 100);
+          else if (name.startsWith(head)) score = Math.max(score, 60);
+          else if (` ${name} `.includes(` ${head} `) || ` ${head} `.includes(` ${name} `)) score = Math.max(score, 40);
+        }
+      }
+      if (!score) continue;
+      // "Portland, Maine" beats "Portland, Oregon"; an unmatched qualifier counts against the place
+      if (qualifiers) score += entry.qualifiers.some((q) => q && ` ${qualifiers} `.includes(` ${q} `)) ? 30 : -20;
+      scored.push({ entry, score });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || b.entry.population - a.entry.population)
+      .slice(0, limit)
+      .map(({ entry }) => toPlace(entry));
+  }
+
+  async reverse(lat: number, lng: number): Promise<Place | null> {
+    let nearest: { entry: Entry; km: number } | null = null;
+    for (const entry of this.load()) {
+      if (entry.kind === "postcode") continue;
+      const km = haversineKm(lat, lng, entry.lat, entry.lng);
+      if (km <= REVERSE_MAX_KM && (!nearest || km < nearest.km)) nearest = { entry, km };
+    }
+    if (!nearest) return null;
+    // The point itself, named after what it's near
+    return { name: `Near ${nearest.entry.name}`, label: nearest.entry.label, kind: "point", lat, lng };
+  }
+}
+
+const toPlace = ({ name, label, kind, lat, lng }: Entry): Place => ({ name, label, kind, lat, lng });
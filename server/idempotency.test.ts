@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MAX_IDEMPOTENCY_KEY_LENGTH } from "./idempotency";
+import { startTestApp, type TestApp, type TestUser } from "./testing";
+
+const garden = { title: "Garden tidy", description: "Weeding and lawn mowing this weekend.", category: "Manual Labor", lat: 51.5074, lng: -0.1278 };
+const key = (value: string) => ({ "Idempotency-Key": value });
+
+describe("idempotency keys", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+  });
+  afterEach(() => t.close());
+
+  it("replays the stored response to a repeated key instead of writing again", async () => {
+    const first = await worker.post("/api/posts", garden, key("write-1"));
+    expect(first.status).toBe(201);
+    expect(first.headers.get("idempotent-replayed")).toBeNull();
+
+    const again = await worker.post("/api/posts", garden, key("write-1"));
+    expect(again.status).toBe(201);
+    expect(again.headers.get("idempotent-replayed")).toBe("true");
+    expect(again.body).toEqual(first.body);
+    expect((await worker.get("/api/posts/mine")).body).toHaveLength(1);
+  });
+
+  it("rejects a key reused for a different request", async () => {
+    const { id } = (await worker.post("/api/posts", garden, key("write-1"))).body;
+    const reused = await worker.patch(`/api/posts/${id}`, { status: "filled" }, key("write-1"));
+    expect(reused.status).toBe(422);
+    expect(reused.body.code).toBe("idempotency_key_reused");
+    expect((await worker.get(`/api/posts/mine`)).body[0].status).toBe("open");
+
+    expect((await worker.delete(`/api/posts/${id}`, undefined, key("write-1"))).status).toBe(422);
+  });
+
+  it("keeps keys apart per user", async () => {
+    const other = await t.register("worker");
+    await worker.post("/api/posts", garden, key("write-1"));
+    const theirs = await other.post("/api/posts", { ...garden, title: "Dog walking", description: "Morning walks around the park." }, key("write-1"));
+    expect(theirs.status).toBe(201);
+    expect(theirs.headers.get("idempotent-replayed")).toBeNull();
+  });
+
+  it("doesn't store failures the client should retry for real", async () => {
+    await t.close();
+    t = await startTestApp({ rateLimits: { listing: { capacity: 1, perHour: 1 } } });
+    worker = await t.register("worker");
+    await worker.post("/api/posts", garden);
+    expect((await worker.post("/api/posts", garden, key("write-2"))).status).toBe(429);
+    expect(t.db.prepare("SELECT COUNT(*) FROM idempotency_keys").pluck().get()).toBe(0);
+  });
+
+  it("refuses overlong keys", async () => {
+    expect((await worker.post("/api/posts", garden, key("k".repeat(MAX_IDEMPOTENCY_KEY_LENGTH + 1)))).status).toBe(400);
+  });
+});
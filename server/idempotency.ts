@@ -0,0 +1,52 @@
+import type Database from "better-sqlite3";
+import type express from "express";
+import { HttpError, badRequest } from "./errors";
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+// Long enough to cover a phone that spends the day offline with writes queued
+export const IDEMPOTENCY_TTL_HOURS = 48;
+
+const WRITE_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+
+/**
+ * Lets signed-in clients retry a write safely. The first response to a given
+ * Idempotency-Key is stored; repeats of that key get the stored response back
+ * (with Idempotent-Replayed: true) instead of running the handler again.
+ * Server errors and rate limits aren't stored, so those can be retried for real.
+ * Keys are per user, and one key can't be reused for a different route.
+ */
+export function idempotency(db: Database.Database): express.RequestHandler {
+  const find = db.prepare("SELECT method, path, status, body FROM idempotency_keys WHERE user_id = ? AND key = ?");
+  const store = db.prepare("INSERT OR IGNORE INTO idempotency_keys (user_id, key, method, path, status, body) VALUES (?, ?, ?, ?, ?, ?)");
+  const prune = db.prepare(`DELETE FROM idempotency_keys WHERE created_at < datetime('now', '-${IDEMPOTENCY_TTL_HOURS} hours')`);
+
+  return (req, res, next) => {
+    const key = req.get(IDEMPOTENCY_HEADER);
+    if (!key || !req.user || !WRITE_METHODS.has(req.method)) return next();
+    if (key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return next(badRequest(`${IDEMPOTENCY_HEADER} must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`));
+    }
+
+    const userId = req.user.id;
+    const path = req.originalUrl.split("?")[0];
+    const previous = find.get(userId, key) as { method: string; path: string; status: number; body: string | null } | undefined;
+    if (previous) {
+      if (previous.method !== req.method || previous.path !== path) {
+        return next(new HttpError(422, "idempotency_key_reused", `This ${IDEMPOTENCY_HEADER} was already used for a different request`));
+      }
+      res.set("Idempotent-Replayed", "true");
+      return res.status(previous.status).type("json").send(previous.body ?? "null");
+    }
+
+    const json = res.json.bind(res);
+    res.json = (body?: unknown) => {
+      if (res.statusCode < 500 && res.statusCode !== 429) {
+        prune.run();
+        store.run(userId, key, req.method, path, res.statusCode, JSON.stringify(body ?? null));
+      }
+      return json(body);
+    };
+    next();
+  };
+}
@@ -0,0 +1,39 @@
+import type Database from "better-sqlite3";
+
+// The same lifecycle as posts: "expired" is only ever set by the sweeper; employers move jobs between the other three
+export const JOB_STATUSES = ["open", "filled", "closed", "expired"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+const envDays = Number(process.env.JOB_TTL_DAYS);
+// Jobs without an expiry date lapse this many days after they were last edited
+export const JOB_TTL_DAYS = Number.isFinite(envDays) && envDays > 0 ? envDays : 30;
+export const JOB_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// When a job lapses: its own expiry date, or the TTL counted from its last edit
+export function jobExpiry(alias: string, ttlDays = JOB_TTL_DAYS): string {
+  return `COALESCE(${alias}.expires_at, datetime(COALESCE(${alias}.updated_at, ${alias}.created_at), '+${ttlDays} days'))`;
+}
+
+// SQL condition for jobs that should still show up and take applications: open, not hidden for moderation and not past their expiry, even between sweeps
+export function liveJobClause(alias: string): string {
+  return `${alias}.status = 'open' AND ${alias}.hidden = 0 AND ${jobExpiry(alias)} > CURRENT_TIMESTAMP`;
+}
+
+// Marks open jobs past their expiry as expired; returns how many were
+export function sweepExpiredJobs(db: Database.Database): number {
+  return db.prepare(`UPDATE jobs SET status = 'expired' WHERE status = 'open' AND ${jobExpiry("jobs")} <= CURRENT_TIMESTAMP`).run().changes;
+}
+
+// Runs the sweep now and then every `intervalMs` without keeping the process alive
+export function startJobSweeper(db: Database.Database, intervalMs = JOB_SWEEP_INTERVAL_MS): NodeJS.Timeout {
+  const sweep = () => {
+    try {
+      const expired = sweepExpiredJobs(db);
+      if (expired > 0) console.log(`[jobs] expired ${expired} job(s)`);
+    } catch (err) {
+      console.error("[jobs] sweep failed", err);
+    }
+  };
+  sweep();
+  return setInterval(sweep, intervalMs).unref();
+}
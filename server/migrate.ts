@@ -0,0 +1,79 @@
+import type Database from "better-sqlite3";
+
+/**
+ * One schema change. `version` orders migrations and is recorded in `schema_migrations` once
+ * `up` has run; each migration runs in its own transaction, so a failure leaves the database
+ * at the previous version. Migrations are never edited after release — add a new one instead.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+/**
+ * Adds a column unless it's already there. The early migrations also adopt databases created
+ * before versioning existed, which may already have some of their tables and columns.
+ */
+export function addColumn(db: Database.Database, table: string, column: string, definition: string) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
+
+function ensureMigrationsTable(db: Database.Database) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+function appliedVersions(db: Database.Database): Map<number, string> {
+  ensureMigrationsTable(db);
+  const rows = db.prepare("SELECT version, applied_at FROM schema_migrations").all() as { version: number; applied_at: string }[];
+  return new Map(rows.map((row) => [row.version, row.applied_at]));
+}
+
+function checkOrder(migrations: Migration[]) {
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) is out of order`);
+    }
+  });
+}
+
+// Applies every pending migration in version order and returns the ones that ran
+export function migrate(db: Database.Database, migrations: Migration[]): Migration[] {
+  checkOrder(migrations);
+  const applied = appliedVersions(db);
+  const latest = migrations.at(-1)?.version ?? 0;
+  const ahead = [...applied.keys()].filter((version) => version > latest);
+  if (ahead.length > 0) {
+    throw new Error(`Database has migration ${Math.max(...ahead)} applied, but this code only knows up to ${latest}`);
+  }
+
+  const record = db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)");
+  const ran: Migration[] = [];
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+    db.transaction(() => {
+      migration.up(db);
+      record.run(migration.version, migration.name);
+    })();
+    ran.push(migration);
+  }
+  return ran;
+}
+
+export function migrationStatus(db: Database.Database, migrations: Migration[]): MigrationStatus[] {
+  const applied = appliedVersions(db);
+  return migrations.map(({ version, name }) => ({ version, name, applied_at: applied.get(version) ?? null }));
+}
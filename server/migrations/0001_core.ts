@@ -0,0 +1,89 @@
+import type { Migration } from "../migrate";
+
+// Users, listings, applications and messaging
+export default {
+  version: 1,
+  name: "core",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS users (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT CHECK(role IN ('worker', 'employer')) NOT NULL,
+        lat REAL,
+        lng REAL,
+        last_active DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+
+      CREATE TABLE IF NOT EXISTS posts (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        category TEXT,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        employer_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        description TEXT,
+        category TEXT NOT NULL,
+        pay_rate REAL NOT NULL,
+        pay_type TEXT CHECK(pay_type IN ('hourly', 'fixed')) NOT NULL,
+        start_time DATETIME,
+        duration_hours REAL,
+        headcount INTEGER NOT NULL DEFAULT 1,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(employer_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS jobs_employer ON jobs(employer_id);
+
+      CREATE TABLE IF NOT EXISTS applications (
+        id TEXT PRIMARY KEY,
+        job_id TEXT NOT NULL,
+        worker_id TEXT NOT NULL,
+        status TEXT CHECK(status IN ('invited', 'applied', 'shortlisted', 'hired', 'completed', 'rejected', 'withdrawn')) NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(job_id, worker_id),
+        FOREIGN KEY(job_id) REFERENCES jobs(id),
+        FOREIGN KEY(worker_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS applications_worker ON applications(worker_id);
+
+      -- One thread per pair of users; user_a is always the smaller id
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        user_a TEXT NOT NULL,
+        user_b TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_message_at DATETIME,
+        UNIQUE(user_a, user_b),
+        CHECK(user_a < user_b),
+        FOREIGN KEY(user_a) REFERENCES users(id),
+        FOREIGN KEY(user_b) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS conversations_user_b ON conversations(user_b);
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        conversation_id TEXT NOT NULL,
+        sender_id TEXT NOT NULL,
+        body TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        read_at DATETIME,
+        FOREIGN KEY(conversation_id) REFERENCES conversations(id),
+        FOREIGN KEY(sender_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS messages_conversation ON messages(conversation_id, created_at);
+    `);
+  },
+} satisfies Migration;
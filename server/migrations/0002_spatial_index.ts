@@ -0,0 +1,39 @@
+import type { Migration } from "../migrate";
+
+/**
+ * An R*Tree per table with lat/lng columns, keyed by the owning table's rowid and kept in
+ * sync by triggers, so callers never write to it directly.
+ */
+export default {
+  version: 2,
+  name: "spatial_index",
+  up(db) {
+    for (const table of ["posts", "users", "jobs"]) {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${table}_geo USING rtree(id, min_lat, max_lat, min_lng, max_lng);
+
+        CREATE TRIGGER IF NOT EXISTS ${table}_geo_insert AFTER INSERT ON ${table}
+        WHEN NEW.lat IS NOT NULL AND NEW.lng IS NOT NULL BEGIN
+          INSERT INTO ${table}_geo VALUES (NEW.rowid, NEW.lat, NEW.lat, NEW.lng, NEW.lng);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS ${table}_geo_update AFTER UPDATE OF lat, lng ON ${table} BEGIN
+          DELETE FROM ${table}_geo WHERE id = OLD.rowid;
+          INSERT INTO ${table}_geo
+            SELECT NEW.rowid, NEW.lat, NEW.lat, NEW.lng, NEW.lng
+            WHERE NEW.lat IS NOT NULL AND NEW.lng IS NOT NULL;
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS ${table}_geo_delete AFTER DELETE ON ${table} BEGIN
+          DELETE FROM ${table}_geo WHERE id = OLD.rowid;
+        END;
+
+        -- Backfill rows written before the index existed
+        INSERT INTO ${table}_geo
+          SELECT t.rowid, t.lat, t.lat, t.lng, t.lng FROM ${table} t
+          WHERE t.lat IS NOT NULL AND t.lng IS NOT NULL
+            AND NOT EXISTS (SELECT 1 FROM ${table}_geo g WHERE g.id = t.rowid);
+      `);
+    }
+  },
+} satisfies Migration;
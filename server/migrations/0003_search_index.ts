@@ -0,0 +1,32 @@
+import type { Migration } from "../migrate";
+
+// External-content FTS5 index of title/description for posts and jobs, kept in step by triggers
+export default {
+  version: 3,
+  name: "search_index",
+  up(db) {
+    for (const table of ["posts", "jobs"]) {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS ${table}_fts USING fts5(
+          title, description, content='${table}', content_rowid='rowid', tokenize='porter unicode61'
+        );
+
+        CREATE TRIGGER IF NOT EXISTS ${table}_fts_insert AFTER INSERT ON ${table} BEGIN
+          INSERT INTO ${table}_fts (rowid, title, description) VALUES (NEW.rowid, NEW.title, NEW.description);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS ${table}_fts_delete AFTER DELETE ON ${table} BEGIN
+          INSERT INTO ${table}_fts (${table}_fts, rowid, title, description) VALUES ('delete', OLD.rowid, OLD.title, OLD.description);
+        END;
+
+        CREATE TRIGGER IF NOT EXISTS ${table}_fts_update AFTER UPDATE OF title, description ON ${table} BEGIN
+          INSERT INTO ${table}_fts (${table}_fts, rowid, title, description) VALUES ('delete', OLD.rowid, OLD.title, OLD.description);
+          INSERT INTO ${table}_fts (rowid, title, description) VALUES (NEW.rowid, NEW.title, NEW.description);
+        END;
+
+        -- Index whatever is already in the table
+        INSERT INTO ${table}_fts (${table}_fts) VALUES ('rebuild');
+      `);
+    }
+  },
+} satisfies Migration;
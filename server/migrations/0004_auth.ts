@@ -0,0 +1,31 @@
+import type { Migration } from "../migrate";
+
+// Login credentials, sessions and one-time email codes
+export default {
+  version: 4,
+  name: "auth",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS credentials (
+        user_id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        password_hash TEXT,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+
+      CREATE TABLE IF NOT EXISTS login_codes (
+        email TEXT PRIMARY KEY COLLATE NOCASE,
+        code_hash TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at INTEGER NOT NULL
+      );
+    `);
+  },
+} satisfies Migration;
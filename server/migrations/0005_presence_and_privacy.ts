@@ -0,0 +1,17 @@
+import { addColumn, type Migration } from "../migrate";
+
+// Worker availability for presence, and how precisely each user's location is shown to others
+export default {
+  version: 5,
+  name: "presence_and_privacy",
+  up(db) {
+    addColumn(db, "users", "availability", "TEXT NOT NULL DEFAULT 'available' CHECK(availability IN ('available', 'busy', 'offline'))");
+    addColumn(
+      db,
+      "users",
+      "location_precision",
+      "TEXT NOT NULL DEFAULT '500m' CHECK(location_precision IN ('exact', '500m', '2km', 'neighbourhood'))"
+    );
+    db.exec("CREATE INDEX IF NOT EXISTS users_last_active ON users(last_active)");
+  },
+} satisfies Migration;
@@ -0,0 +1,49 @@
+import type { Migration } from "../migrate";
+
+// Reviews between the two sides of an engagement, flags against them, and per-user aggregates
+export default {
+  version: 6,
+  name: "reviews",
+  up(db) {
+    db.exec(`
+      -- One review per reviewer per engagement (application); the reviewee is the other party
+      CREATE TABLE IF NOT EXISTS reviews (
+        id TEXT PRIMARY KEY,
+        application_id TEXT NOT NULL,
+        reviewer_id TEXT NOT NULL,
+        reviewee_id TEXT NOT NULL,
+        rating INTEGER NOT NULL CHECK(rating BETWEEN 1 AND 5),
+        body TEXT,
+        flag_count INTEGER NOT NULL DEFAULT 0,
+        hidden INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(application_id, reviewer_id),
+        FOREIGN KEY(application_id) REFERENCES applications(id),
+        FOREIGN KEY(reviewer_id) REFERENCES users(id),
+        FOREIGN KEY(reviewee_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS reviews_reviewee ON reviews(reviewee_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS review_flags (
+        review_id TEXT NOT NULL,
+        user_id TEXT NOT NULL,
+        reason TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY(review_id, user_id),
+        FOREIGN KEY(review_id) REFERENCES reviews(id),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+
+      -- Aggregates over visible reviews, refreshed whenever a user's reviews change
+      CREATE TABLE IF NOT EXISTS reputation (
+        user_id TEXT PRIMARY KEY,
+        review_count INTEGER NOT NULL,
+        rating_avg REAL,
+        rating_weighted REAL,
+        rating_trend TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+    `);
+  },
+} satisfies Migration;
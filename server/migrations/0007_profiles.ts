@@ -0,0 +1,53 @@
+import type { Migration } from "../migrate";
+
+// Worker profiles: bio and rates, skills, weekly schedule and portfolio photos
+export default {
+  version: 7,
+  name: "profiles",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS profiles (
+        user_id TEXT PRIMARY KEY,
+        bio TEXT,
+        rate_min REAL,
+        rate_max REAL,
+        languages TEXT NOT NULL DEFAULT '[]',
+        travel_radius_km REAL,
+        timezone TEXT NOT NULL DEFAULT 'UTC',
+        avatar_url TEXT,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK(rate_min IS NULL OR rate_max IS NULL OR rate_min <= rate_max),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+
+      -- Skills are free-form names, each filed under one of the listing categories
+      CREATE TABLE IF NOT EXISTS user_skills (
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL COLLATE NOCASE,
+        category TEXT NOT NULL,
+        PRIMARY KEY(user_id, name),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS user_skills_name ON user_skills(name);
+
+      -- Weekly schedule in the user's own timezone, as minutes from Monday 00:00 (end exclusive)
+      CREATE TABLE IF NOT EXISTS availability_slots (
+        user_id TEXT NOT NULL,
+        start_minute INTEGER NOT NULL,
+        end_minute INTEGER NOT NULL,
+        CHECK(start_minute >= 0 AND start_minute < end_minute AND end_minute <= 10080),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS availability_slots_user ON availability_slots(user_id);
+
+      CREATE TABLE IF NOT EXISTS portfolio_images (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS portfolio_images_user ON portfolio_images(user_id);
+    `);
+  },
+} satisfies Migration;
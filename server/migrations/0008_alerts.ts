@@ -0,0 +1,59 @@
+import type { Migration } from "../migrate";
+
+// Saved searches and their notification inbox, Web Push subscriptions, and app-wide settings
+export default {
+  version: 8,
+  name: "alerts",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS saved_searches (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        target TEXT CHECK(target IN ('posts', 'jobs')) NOT NULL,
+        q TEXT,
+        categories TEXT NOT NULL DEFAULT '[]',
+        radius REAL NOT NULL,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS saved_searches_user ON saved_searches(user_id);
+
+      -- Bounding boxes of each search's circle (two across the antimeridian), so a new
+      -- listing only has to be checked against searches whose area could contain it
+      CREATE VIRTUAL TABLE IF NOT EXISTS saved_searches_geo USING rtree(
+        id, min_lat, max_lat, min_lng, max_lng, +search_id TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS notifications (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        title TEXT NOT NULL,
+        body TEXT,
+        data TEXT NOT NULL DEFAULT '{}',
+        read_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS notifications_user ON notifications(user_id, created_at);
+
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        endpoint TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS push_subscriptions_user ON push_subscriptions(user_id);
+
+      CREATE TABLE IF NOT EXISTS app_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+  },
+} satisfies Migration;
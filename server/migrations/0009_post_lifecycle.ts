@@ -0,0 +1,16 @@
+import { addColumn, type Migration } from "../migrate";
+
+// Post status (open/filled/closed/expired), an optional expiry date and last-edit time
+export default {
+  version: 9,
+  name: "post_lifecycle",
+  up(db) {
+    addColumn(db, "posts", "status", "TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'filled', 'closed', 'expired'))");
+    addColumn(db, "posts", "expires_at", "DATETIME");
+    addColumn(db, "posts", "updated_at", "DATETIME");
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS posts_user ON posts(user_id);
+      CREATE INDEX IF NOT EXISTS posts_status ON posts(status);
+    `);
+  },
+} satisfies Migration;
@@ -0,0 +1,23 @@
+import type { Migration } from "../migrate";
+
+// Responses to writes sent with an Idempotency-Key, so a retried request is answered rather than re-applied
+export default {
+  version: 10,
+  name: "idempotency",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        user_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        method TEXT NOT NULL,
+        path TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        body TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (user_id, key),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS idempotency_keys_created ON idempotency_keys(created_at);
+    `);
+  },
+} satisfies Migration;
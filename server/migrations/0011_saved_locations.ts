@@ -0,0 +1,22 @@
+import type { Migration } from "../migrate";
+
+// Named places ("Home", "Site A") a user can search around instead of their live position
+export default {
+  version: 11,
+  name: "saved_locations",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS saved_locations (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        name TEXT NOT NULL,
+        label TEXT,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (user_id, name),
+        FOREIGN KEY(user_id) REFERENCES users(id)
+      );
+    `);
+  },
+} satisfies Migration;
@@ -0,0 +1,29 @@
+import { addColumn, type Migration } from "../migrate";
+
+// Reports against posts and users that make up the moderation queue, and hiding for reported or spammy posts
+export default {
+  version: 12,
+  name: "moderation",
+  up(db) {
+    addColumn(db, "posts", "report_count", "INTEGER NOT NULL DEFAULT 0");
+    addColumn(db, "posts", "hidden", "INTEGER NOT NULL DEFAULT 0");
+    db.exec(`
+      -- reporter_id is NULL for reports raised automatically (e.g. a post held by the spam filter)
+      CREATE TABLE IF NOT EXISTS reports (
+        id TEXT PRIMARY KEY,
+        reporter_id TEXT,
+        target_type TEXT NOT NULL CHECK(target_type IN ('post', 'user')),
+        target_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        details TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'dismissed', 'upheld')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        UNIQUE(reporter_id, target_type, target_id),
+        FOREIGN KEY(reporter_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS reports_status ON reports(status, created_at);
+      CREATE INDEX IF NOT EXISTS reports_target ON reports(target_type, target_id);
+    `);
+  },
+} satisfies Migration;
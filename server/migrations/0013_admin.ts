@@ -0,0 +1,29 @@
+import { addColumn, type Migration } from "../migrate";
+
+// Admin accounts, suspensions, sign-up dates for metrics, and who resolved each report
+export default {
+  version: 13,
+  name: "admin",
+  up(db) {
+    // A flag rather than a third role: admins are ordinary workers or employers who can also moderate
+    addColumn(db, "users", "is_admin", "INTEGER NOT NULL DEFAULT 0");
+    addColumn(db, "users", "suspended_at", "DATETIME");
+    addColumn(db, "users", "suspended_reason", "TEXT");
+    // ADD COLUMN can't default to CURRENT_TIMESTAMP; new accounts set it on insert, existing ones get
+    // their earliest known activity
+    addColumn(db, "users", "created_at", "DATETIME");
+    addColumn(db, "reports", "resolved_by", "TEXT REFERENCES users(id)");
+    db.exec(`
+      UPDATE users SET created_at = COALESCE(
+        (SELECT MIN(t) FROM (
+          SELECT created_at AS t FROM posts WHERE user_id = users.id
+          UNION ALL SELECT created_at FROM jobs WHERE employer_id = users.id
+          UNION ALL SELECT created_at FROM applications WHERE worker_id = users.id
+          UNION ALL SELECT users.last_active
+        )),
+        CURRENT_TIMESTAMP
+      ) WHERE created_at IS NULL;
+      CREATE INDEX IF NOT EXISTS users_created ON users(created_at);
+    `);
+  },
+} satisfies Migration;
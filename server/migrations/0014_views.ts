@@ -0,0 +1,21 @@
+import type { Migration } from "../migrate";
+
+// What each user has looked at, one row per item, feeding the recommended sort
+export default {
+  version: 14,
+  name: "views",
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS views (
+        viewer_id TEXT NOT NULL,
+        target_type TEXT CHECK(target_type IN ('post', 'job', 'user')) NOT NULL,
+        target_id TEXT NOT NULL,
+        view_count INTEGER NOT NULL DEFAULT 1,
+        first_viewed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        last_viewed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (viewer_id, target_type, target_id),
+        FOREIGN KEY(viewer_id) REFERENCES users(id)
+      );
+    `);
+  },
+} satisfies Migration;
@@ -0,0 +1,52 @@
+import type { Migration } from "../migrate";
+
+// Bookings of a worker by an employer, their shifts with check-in/out, and approved timesheets
+export default {
+  version: 15,
+  name: "bookings",
+  up(db) {
+    db.exec(`
+      -- Made from a hired application (listing_type 'job') or straight from a worker's availability
+      -- post. The listing's title and position are copied so check-ins keep working if it's edited
+      -- or deleted. approved_* is the timesheet as the employer signed it off.
+      CREATE TABLE IF NOT EXISTS bookings (
+        id TEXT PRIMARY KEY,
+        worker_id TEXT NOT NULL,
+        employer_id TEXT NOT NULL,
+        listing_type TEXT NOT NULL CHECK(listing_type IN ('job', 'post')),
+        listing_id TEXT NOT NULL,
+        application_id TEXT UNIQUE,
+        title TEXT NOT NULL,
+        lat REAL NOT NULL,
+        lng REAL NOT NULL,
+        hourly_rate REAL NOT NULL,
+        status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'cancelled')),
+        approved_at DATETIME,
+        approved_minutes INTEGER,
+        approved_amount REAL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY(worker_id) REFERENCES users(id),
+        FOREIGN KEY(employer_id) REFERENCES users(id)
+      );
+      CREATE INDEX IF NOT EXISTS bookings_worker ON bookings(worker_id);
+      CREATE INDEX IF NOT EXISTS bookings_employer ON bookings(employer_id);
+
+      -- Times are UTC "YYYY-MM-DD HH:MM:SS"; distances are from the booking's position in metres
+      CREATE TABLE IF NOT EXISTS shifts (
+        id TEXT PRIMARY KEY,
+        booking_id TEXT NOT NULL,
+        starts_at DATETIME NOT NULL,
+        ends_at DATETIME NOT NULL,
+        status TEXT NOT NULL DEFAULT 'scheduled' CHECK(status IN ('scheduled', 'cancelled')),
+        check_in_at DATETIME,
+        check_in_distance_m INTEGER,
+        check_out_at DATETIME,
+        check_out_distance_m INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK(ends_at > starts_at),
+        FOREIGN KEY(booking_id) REFERENCES bookings(id)
+      );
+      CREATE INDEX IF NOT EXISTS shifts_booking ON shifts(booking_id, starts_at);
+    `);
+  },
+} satisfies Migration;
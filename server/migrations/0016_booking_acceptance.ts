@@ -0,0 +1,16 @@
+import { addColumn, type Migration } from "../migrate";
+
+// When the worker agreed to a booking. Bookings from a hire count as agreed; ones made straight
+// from a worker's post wait for the worker to accept before their shifts hold the time.
+export default {
+  version: 16,
+  name: "booking_acceptance",
+  up(db) {
+    addColumn(db, "bookings", "accepted_at", "DATETIME");
+    // Post bookings the worker has already turned up for were plainly agreed to
+    db.exec(`
+      UPDATE bookings SET accepted_at = created_at
+      WHERE listing_type = 'job' OR EXISTS (SELECT 1 FROM shifts s WHERE s.booking_id = bookings.id AND s.check_in_at IS NOT NULL)
+    `);
+  },
+} satisfies Migration;
@@ -0,0 +1,36 @@
+import { newId } from "../auth";
+import type { Migration } from "../migrate";
+
+// Reviews hidden by flags go to the report queue, which means rebuilding `reports` to widen
+// its target CHECK; reviews already hidden are queued for a moderator to look at
+export default {
+  version: 17,
+  name: "review_moderation",
+  up(db) {
+    db.exec(`
+      CREATE TABLE reports_new (
+        id TEXT PRIMARY KEY,
+        reporter_id TEXT,
+        target_type TEXT NOT NULL CHECK(target_type IN ('post', 'user', 'review')),
+        target_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        details TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'dismissed', 'upheld')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        resolved_by TEXT REFERENCES users(id),
+        UNIQUE(reporter_id, target_type, target_id),
+        FOREIGN KEY(reporter_id) REFERENCES users(id)
+      );
+      INSERT INTO reports_new (id, reporter_id, target_type, target_id, reason, details, status, created_at, resolved_at, resolved_by)
+        SELECT id, reporter_id, target_type, target_id, reason, details, status, created_at, resolved_at, resolved_by FROM reports;
+      DROP TABLE reports;
+      ALTER TABLE reports_new RENAME TO reports;
+      CREATE INDEX IF NOT EXISTS reports_status ON reports(status, created_at);
+      CREATE INDEX IF NOT EXISTS reports_target ON reports(target_type, target_id);
+    `);
+    const hidden = db.prepare("SELECT id, flag_count FROM reviews WHERE hidden = 1").all() as { id: string; flag_count: number }[];
+    const queue = db.prepare("INSERT INTO reports (id, reporter_id, target_type, target_id, reason, details) VALUES (?, NULL, 'review', ?, 'other', ?)");
+    for (const review of hidden) queue.run(newId("report"), review.id, `Hidden after ${review.flag_count} flags`);
+  },
+} satisfies Migration;
@@ -0,0 +1,34 @@
+import { addColumn, type Migration } from "../migrate";
+
+// Jobs get the same reporting and hiding as posts, which means rebuilding `reports` again to
+// let it point at them
+export default {
+  version: 18,
+  name: "job_moderation",
+  up(db) {
+    addColumn(db, "jobs", "report_count", "INTEGER NOT NULL DEFAULT 0");
+    addColumn(db, "jobs", "hidden", "INTEGER NOT NULL DEFAULT 0");
+    db.exec(`
+      CREATE TABLE reports_new (
+        id TEXT PRIMARY KEY,
+        reporter_id TEXT,
+        target_type TEXT NOT NULL CHECK(target_type IN ('post', 'user', 'review', 'job')),
+        target_id TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        details TEXT,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'dismissed', 'upheld')),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        resolved_at DATETIME,
+        resolved_by TEXT REFERENCES users(id),
+        UNIQUE(reporter_id, target_type, target_id),
+        FOREIGN KEY(reporter_id) REFERENCES users(id)
+      );
+      INSERT INTO reports_new (id, reporter_id, target_type, target_id, reason, details, status, created_at, resolved_at, resolved_by)
+        SELECT id, reporter_id, target_type, target_id, reason, details, status, created_at, resolved_at, resolved_by FROM reports;
+      DROP TABLE reports;
+      ALTER TABLE reports_new RENAME TO reports;
+      CREATE INDEX IF NOT EXISTS reports_status ON reports(status, created_at);
+      CREATE INDEX IF NOT EXISTS reports_target ON reports(target_type, target_id);
+    `);
+  },
+} satisfies Migration;
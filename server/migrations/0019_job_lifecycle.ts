@@ -0,0 +1,13 @@
+import { addColumn, type Migration } from "../migrate";
+
+// Job status (open/filled/closed/expired), an optional expiry date and last-edit time, as posts have
+export default {
+  version: 19,
+  name: "job_lifecycle",
+  up(db) {
+    addColumn(db, "jobs", "status", "TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'filled', 'closed', 'expired'))");
+    addColumn(db, "jobs", "expires_at", "DATETIME");
+    addColumn(db, "jobs", "updated_at", "DATETIME");
+    db.exec("CREATE INDEX IF NOT EXISTS jobs_status ON jobs(status)");
+  },
+} satisfies Migration;
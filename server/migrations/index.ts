@@ -0,0 +1,43 @@
+import type { Migration } from "../migrate";
+import core from "./0001_core";
+import spatialIndex from "./0002_spatial_index";
+import searchIndex from "./0003_search_index";
+import auth from "./0004_auth";
+import presenceAndPrivacy from "./0005_presence_and_privacy";
+import reviews from "./0006_reviews";
+import profiles from "./0007_profiles";
+import alerts from "./0008_alerts";
+import postLifecycle from "./0009_post_lifecycle";
+import idempotency from "./0010_idempotency";
+import savedLocations from "./0011_saved_locations";
+import moderation from "./0012_moderation";
+import admin from "./0013_admin";
+import views from "./0014_views";
+import bookings from "./0015_bookings";
+import bookingAcceptance from "./0016_booking_acceptance";
+import reviewModeration from "./0017_review_moderation";
+import jobModeration from "./0018_job_moderation";
+import jobLifecycle from "./0019_job_lifecycle";
+
+// Every migration, oldest first. New ones go at the end with the next version number.
+export const MIGRATIONS: Migration[] = [
+  core,
+  spatialIndex,
+  searchIndex,
+  auth,
+  presenceAndPrivacy,
+  reviews,
+  profiles,
+  alerts,
+  postLifecycle,
+  idempotency,
+  savedLocations,
+  moderation,
+  admin,
+  views,
+  bookings,
+  bookingAcceptance,
+  reviewModeration,
+  jobModeration,
+  jobLifecycle,
+];
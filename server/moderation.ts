@@ -0,0 +1,13 @@
+// Reviews only come in by being hidden after enough flags; they're never reported directly
+export const REPORT_TARGETS = ["post", "user", "review", "job"] as const;
+export type ReportTarget = (typeof REPORT_TARGETS)[number];
+
+export const REPORT_REASONS = ["spam", "scam", "offensive", "fake", "other"] as const;
+export type ReportReason = (typeof REPORT_REASONS)[number];
+
+// "dismiss" clears the reports (and un-hides a post, job or review); "uphold" keeps it hidden, or hides a reported user's posts and jobs
+export const REPORT_ACTIONS = ["dismiss", "uphold"] as const;
+export type ReportAction = (typeof REPORT_ACTIONS)[number];
+
+// Posts and jobs reported by this many different users are hidden until a moderator reviews them
+export const REPORT_HIDE_THRESHOLD = 3;
@@ -0,0 +1,39 @@
+import type Database from "better-sqlite3";
+
+// "expired" is only ever set by the sweeper; owners move posts between the other three
+export const POST_STATUSES = ["open", "filled", "closed", "expired"] as const;
+export type PostStatus = (typeof POST_STATUSES)[number];
+
+const envDays = Number(process.env.POST_TTL_DAYS);
+// Posts without an expiry date lapse this many days after they were last edited
+export const POST_TTL_DAYS = Number.isFinite(envDays) && envDays > 0 ? envDays : 30;
+export const POST_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+// When a post lapses: its own expiry date, or the TTL counted from its last edit
+export function postExpiry(alias: string, ttlDays = POST_TTL_DAYS): string {
+  return `COALESCE(${alias}.expires_at, datetime(COALESCE(${alias}.updated_at, ${alias}.created_at), '+${ttlDays} days'))`;
+}
+
+// SQL condition for posts that should still show up: open, not hidden for moderation and not past their expiry, even between sweeps
+export function livePostClause(alias: string): string {
+  return `${alias}.status = 'open' AND ${alias}.hidden = 0 AND ${postExpiry(alias)} > CURRENT_TIMESTAMP`;
+}
+
+// Marks open posts past their expiry as expired; returns how many were
+export function sweepExpiredPosts(db: Database.Database): number {
+  return db.prepare(`UPDATE posts SET status = 'expired' WHERE status = 'open' AND ${postExpiry("posts")} <= CURRENT_TIMESTAMP`).run().changes;
+}
+
+// Runs the sweep now and then every `intervalMs` without keeping the process alive
+export function startPostSweeper(db: Database.Database, intervalMs = POST_SWEEP_INTERVAL_MS): NodeJS.Timeout {
+  const sweep = () => {
+    try {
+      const expired = sweepExpiredPosts(db);
+      if (expired > 0) console.log(`[posts] expired ${expired} post(s)`);
+    } catch (err) {
+      console.error("[posts] sweep failed", err);
+    }
+  };
+  sweep();
+  return setInterval(sweep, intervalMs).unref();
+}
@@ -0,0 +1,27 @@
+export const AVAILABILITY = ["available", "busy", "offline"] as const;
+export type Availability = (typeof AVAILABILITY)[number];
+
+const envMinutes = Number(process.env.PRESENCE_WINDOW_MINUTES);
+// Workers not heard from within this many minutes drop out of nearby results
+export const PRESENCE_WINDOW_MINUTES = Number.isFinite(envMinutes) && envMinutes > 0 ? envMinutes : 15;
+// Clients heartbeat roughly once a minute; anything much faster is a runaway watchPosition loop
+export const HEARTBEAT_MIN_INTERVAL_MS = 10_000;
+
+// SQL condition for workers that should still show up: not offline and seen recently
+export function presenceClause(alias: string, windowMinutes = PRESENCE_WINDOW_MINUTES): string {
+  return `${alias}.availability != 'offline' AND ${alias}.last_active >= datetime('now', '-${Math.round(windowMinutes * 60)} seconds')`;
+}
+
+/**
+ * Per-user heartbeat throttle. Returns how many ms the caller still has to wait,
+ * or 0 if the heartbeat may go through (and records it).
+ */
+export function heartbeatThrottle(minIntervalMs = HEARTBEAT_MIN_INTERVAL_MS) {
+  const lastSeen = new Map<string, number>();
+  return (userId: string, now = Date.now()): number => {
+    const last = lastSeen.get(userId);
+    if (last !== undefined && now - last < minIntervalMs) return minIntervalMs - (now - last);
+    lastSeen.set(userId, now);
+    return 0;
+  };
+}
@@ -0,0 +1,124 @@
+import type Database from "better-sqlite3";
+import { haversineKm } from "./geo";
+
+export const LOCATION_PRECISIONS = ["exact", "500m", "2km", "neighbourhood"] as const;
+export type LocationPrecision = (typeof LOCATION_PRECISIONS)[number];
+
+// New and existing accounts start out approximate; exact has to be chosen
+export const DEFAULT_PRECISION: LocationPrecision = "500m";
+
+const KM_PER_DEGREE_LAT = 111.32;
+
+/**
+ * Grid cell size per precision level, in km. Shown positions snap to the centre of their
+ * cell instead of being jittered, so repeated queries can't be averaged back to the true point.
+ */
+const CELL_KM: Record<LocationPrecision, number> = {
+  exact: 0,
+  "500m": 0.5,
+  "2km": 2,
+  neighbourhood: 5,
+};
+
+// The largest cell, i.e. how far a shown position can sit from the true one in either axis
+export const MAX_CELL_KM = Math.max(...Object.values(CELL_KM));
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Snaps a point to the centre of its cell on a grid of roughly `cellKm`-sized squares
+export function snapToGrid(lat: number, lng: number, cellKm: number): { lat: number; lng: number } {
+  const latStep = cellKm / KM_PER_DEGREE_LAT;
+  const cellLat = Math.min(90, Math.max(-90, (Math.floor(lat / latStep) + 0.5) * latStep));
+  // Longitude degrees shrink toward the poles; size the cell at the snapped latitude so every
+  // point in a row of cells agrees on the grid
+  const lngStep = latStep / Math.max(Math.cos((cellLat * Math.PI) / 180), 0.01);
+  const cellLng = Math.min(180, Math.max(-180, (Math.floor(lng / lngStep) + 0.5) * lngStep));
+  return { lat: round(cellLat, 5), lng: round(cellLng, 5) };
+}
+
+// Snaps a point to the centre of its grid cell for the given precision
+export function coarsen(lat: number, lng: number, precision: LocationPrecision): { lat: number; lng: number } {
+  const cellKm = CELL_KM[precision];
+  return cellKm ? snapToGrid(lat, lng, cellKm) : { lat, lng };
+}
+
+// Distance rounded up to the precision's band, e.g. 3.2 km at "2km" becomes 4
+export function distanceBand(km: number, precision: LocationPrecision): number {
+  const cellKm = CELL_KM[precision];
+  if (!cellKm) return km;
+  return Math.max(cellKm, Math.ceil(km / cellKm) * cellKm);
+}
+
+const asPrecision = (precision: unknown): LocationPrecision =>
+  LOCATION_PRECISIONS.includes(precision as LocationPrecision) ? (precision as LocationPrecision) : DEFAULT_PRECISION;
+
+/**
+ * Registers `shown_distance(lat, lng, row_lat, row_lng, precision)`: the distance from a point
+ * to where the row is shown, i.e. the centre of its cell at the owner's precision. Searches
+ * filter and order on it so that, however the origin or radius is moved, the only thing that
+ * can be found out about an approximate location is which cell it's in.
+ */
+export function registerPrivacyFunctions(db: Database.Database) {
+  db.function(
+    "shown_distance",
+    { deterministic: true },
+    (lat: unknown, lng: unknown, rowLat: unknown, rowLng: unknown, precision: unknown) => {
+      if (lat == null || lng == null || rowLat == null || rowLng == null) return null;
+      const shown = coarsen(Number(rowLat), Number(rowLng), asPrecision(precision));
+      return haversineKm(Number(lat), Number(lng), shown.lat, shown.lng);
+    }
+  );
+}
+
+export interface Located {
+  lat: number | null;
+  lng: number | null;
+  distance?: number;
+  // Distance to the shown position, set by searches; replaces `distance` when coarsened
+  shown_distance?: number;
+}
+
+/**
+ * Builds the per-request location filter for API responses. True coordinates stay in the
+ * database; what goes out is coarsened to the owner's chosen precision, unless the viewer is
+ * the owner or has a confirmed hire with them.
+ */
+export function locationPrivacy(db: Database.Database) {
+  const precisionOf = db.prepare("SELECT location_precision FROM users WHERE id = ?").pluck();
+  // Anyone the viewer has hired or been hired by (hired or completed engagements)
+  const counterparties = db
+    .prepare(`
+      SELECT j.employer_id FROM applications a JOIN jobs j ON j.id = a.job_id
+      WHERE a.worker_id = @viewer AND a.status IN ('hired', 'completed')
+      UNION
+      SELECT a.worker_id FROM applications a JOIN jobs j ON j.id = a.job_id
+      WHERE j.employer_id = @viewer AND a.status IN ('hired', 'completed')
+    `)
+    .pluck();
+
+  return (viewerId: string | undefined) => {
+    const revealed = new Set<string>(viewerId ? (counterparties.all({ viewer: viewerId }) as string[]) : []);
+    const precisions = new Map<string, LocationPrecision>();
+
+    return <T extends Located>(located: T, ownerId: string): T & { location_approximate: boolean } => {
+      // Only used in place of `distance` below; never sent as is
+      const { shown_distance, ...rest } = located;
+      const row = rest as T;
+      if (ownerId === viewerId || revealed.has(ownerId)) return { ...row, location_approximate: false };
+      let precision = precisions.get(ownerId);
+      if (!precision) {
+        precision = (precisionOf.get(ownerId) as LocationPrecision | undefined) ?? DEFAULT_PRECISION;
+        precisions.set(ownerId, precision);
+      }
+      if (precision === "exact") return { ...row, location_approximate: false };
+
+      const shown = row.lat != null && row.lng != null ? coarsen(row.lat, row.lng, precision) : { lat: row.lat, lng: row.lng };
+      return {
+        ...row,
+        ...shown,
+        ...(row.distance !== undefined && { distance: shown_distance ?? distanceBand(row.distance, precision) }),
+        location_approximate: true,
+      };
+    };
+  };
+}
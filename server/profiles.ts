@@ -0,0 +1,87 @@
+import type Database from "better-sqlite3";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || "uploads");
+export const UPLOAD_URL_PREFIX = "/uploads";
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+export const MAX_PORTFOLIO_IMAGES = 12;
+
+export const MINUTES_PER_DAY = 24 * 60;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+export function registerProfileFunctions(db: Database.Database) {
+  // weekly_minute(iso, tz): where an instant falls in the week, in minutes from Monday 00:00 local time
+  db.function("weekly_minute", { deterministic: true }, (iso: unknown, tz: unknown) =>
+    typeof iso === "string" && typeof tz === "string" ? weeklyMinute(new Date(iso), tz) : null
+  );
+}
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function weeklyMinute(date: Date, tz: string): number | null {
+  if (Number.isNaN(date.getTime())) return null;
+  let formatter = formatters.get(tz);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: isValidTimezone(tz) ? tz : "UTC",
+      weekday: "short",
+      hour: "numeric",
+      minute: "numeric",
+      hourCycle: "h23",
+    });
+    formatters.set(tz, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((p) => [p.type, p.value]));
+  return WEEKDAYS.indexOf(parts.weekday) * MINUTES_PER_DAY + Number(parts.hour) * 60 + Number(parts.minute);
+}
+
+// "HH:MM" on a weekday (0 = Monday) <-> minutes from Monday 00:00
+export const toWeekMinute = (day: number, time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return day * MINUTES_PER_DAY + h * 60 + m;
+};
+const pad = (n: number) => String(n).padStart(2, "0");
+export const fromWeekMinutes = (start: number, end: number) => {
+  const day = Math.floor(start / MINUTES_PER_DAY);
+  const endOfDay = end - day * MINUTES_PER_DAY;
+  return {
+    day,
+    start: `${pad(Math.floor((start % MINUTES_PER_DAY) / 60))}:${pad(start % 60)}`,
+    end: `${pad(Math.floor(endOfDay / 60))}:${pad(endOfDay % 60)}`,
+  };
+};
+
+// Sniffs the file type from its first bytes rather than trusting the client's Content-Type
+export function imageExtension(data: Buffer): string | null {
+  if (data.length < 12) return null;
+  if (data[0] === 0x89 && data.toString("ascii", 1, 4) === "PNG") return "png";
+  if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) return "jpg";
+  if (data.toString("ascii", 0, 4) === "GIF8") return "gif";
+  if (data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") return "webp";
+  return null;
+}
+
+// Stores an upload in dir under a random name and returns its public URL
+export function saveUpload(dir: string, data: Buffer, extension: string): string {
+  const name = `${crypto.randomBytes(16).toString("hex")}.${extension}`;
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(path.join(dir, name), data);
+  return `${UPLOAD_URL_PREFIX}/${name}`;
+}
+
+export function removeUpload(dir: string, url: string | null | undefined) {
+  if (!url?.startsWith(`${UPLOAD_URL_PREFIX}/`)) return;
+  fs.rm(path.join(dir, path.basename(url)), { force: true }, () => {});
+}
@@ -0,0 +1,78 @@
+import type Database from "better-sqlite3";
+import webpush from "web-push";
+
+export interface PushTarget {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url?: string;
+  tag?: string;
+}
+
+// Browser push services, matched on the host and its subdomains: FCM (Chrome, Opera, Samsung), Mozilla, WNS (Edge) and Apple
+export const PUSH_SERVICE_HOSTS = ["fcm.googleapis.com", "android.googleapis.com", "push.services.mozilla.com", "notify.windows.com", "push.apple.com"];
+
+/**
+ * Whether an endpoint belongs to a known browser push service. The server POSTs to whatever a
+ * subscription names, so anything else (internal hosts, cloud metadata, raw IPs) is refused.
+ */
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:" || url.port !== "" || url.username !== "" || url.password !== "") return false;
+  return PUSH_SERVICE_HOSTS.some((host) => url.hostname === host || url.hostname.endsWith(`.${host}`));
+}
+
+// Delivers Web Push messages. "gone" means the browser dropped the subscription and it should be deleted.
+export interface PushSender {
+  readonly publicKey: string;
+  send(target: PushTarget, payload: PushPayload): Promise<"sent" | "gone">;
+}
+
+export class WebPushSender implements PushSender {
+  constructor(private keys: { publicKey: string; privateKey: string }, private subject: string) {}
+
+  get publicKey() {
+    return this.keys.publicKey;
+  }
+
+  async send(target: PushTarget, payload: PushPayload) {
+    // Subscriptions saved before endpoints were checked are treated as dropped
+    if (!isPushServiceEndpoint(target.endpoint)) return "gone" as const;
+    try {
+      await webpush.sendNotification(
+        { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+        JSON.stringify(payload),
+        { vapidDetails: { subject: this.subject, ...this.keys }, TTL: 24 * 60 * 60 }
+      );
+      return "sent" as const;
+    } catch (err) {
+      if (err instanceof webpush.WebPushError && (err.statusCode === 404 || err.statusCode === 410)) return "gone" as const;
+      throw err;
+    }
+  }
+}
+
+/**
+ * The VAPID key pair: VAPID_PUBLIC_KEY/VAPID_PRIVATE_KEY if set, otherwise a pair generated on
+ * first start and kept in the database, so existing browser subscriptions stay valid across restarts.
+ */
+export function loadVapidKeys(db: Database.Database): { publicKey: string; privateKey: string } {
+  if (process.env.VAPID_PUBLIC_KEY && process.env.VAPID_PRIVATE_KEY) {
+    return { publicKey: process.env.VAPID_PUBLIC_KEY, privateKey: process.env.VAPID_PRIVATE_KEY };
+  }
+  const stored = db.prepare("SELECT value FROM app_settings WHERE key = 'vapid_keys'").pluck().get() as string | undefined;
+  if (stored) return JSON.parse(stored);
+  const keys = webpush.generateVAPIDKeys();
+  db.prepare("INSERT INTO app_settings (key, value) VALUES ('vapid_keys', ?)").run(JSON.stringify(keys));
+  return keys;
+}
@@ -0,0 +1,70 @@
+import type express from "express";
+import { HttpError } from "./errors";
+
+// A bucket holds up to `capacity` requests and refills at `perHour`
+export interface RateLimit {
+  capacity: number;
+  perHour: number;
+}
+
+export const RATE_LIMITS = {
+  // Accounts created per IP
+  signup: { capacity: 5, perHour: 5 },
+  // Password and one-time code sign-in attempts per IP
+  login: { capacity: 10, perHour: 30 },
+  // New posts and jobs per user, and per IP with more headroom for shared networks
+  listing: { capacity: 5, perHour: 10 },
+  listingPerIp: { capacity: 20, perHour: 40 },
+  // Reports filed per user
+  report: { capacity: 10, perHour: 20 },
+  // Post assistant suggestions per user; each may be a paid model call
+  assistant: { capacity: 10, perHour: 30 },
+} satisfies Record<string, RateLimit>;
+
+export type RateLimits = Record<keyof typeof RATE_LIMITS, RateLimit>;
+
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory token bucket per key. Returns how many ms the caller still has to wait, or 0 if
+ * the request may go through (and takes a token). Buckets that have refilled are dropped.
+ */
+export function tokenBucket(limit: RateLimit) {
+  const buckets = new Map<string, { tokens: number; at: number }>();
+  const perMs = limit.perHour / 3_600_000;
+  const level = (bucket: { tokens: number; at: number }, now: number) => Math.min(limit.capacity, bucket.tokens + (now - bucket.at) * perMs);
+  let prunedAt = 0;
+
+  return (key: string, now = Date.now()): number => {
+    if (now - prunedAt > PRUNE_INTERVAL_MS) {
+      for (const [k, bucket] of buckets) if (level(bucket, now) >= limit.capacity) buckets.delete(k);
+      prunedAt = now;
+    }
+    const bucket = buckets.get(key);
+    const tokens = bucket ? level(bucket, now) : limit.capacity;
+    if (tokens < 1) return Math.ceil((1 - tokens) / perMs);
+    buckets.set(key, { tokens: tokens - 1, at: now });
+    return 0;
+  };
+}
+
+export const byUser = (req: express.Request) => req.user?.id;
+export const byIp = (req: express.Request) => req.ip;
+
+// Answers 429 with Retry-After once the bucket for the request's key is empty
+export function rateLimiter(
+  limit: RateLimit,
+  keyOf: (req: express.Request) => string | undefined,
+  message = "Too many requests; try again later"
+): express.RequestHandler {
+  const take = tokenBucket(limit);
+  return (req, res, next) => {
+    const key = keyOf(req);
+    const waitMs = key ? take(key) : 0;
+    if (waitMs > 0) {
+      res.set("Retry-After", String(Math.ceil(waitMs / 1000)));
+      return next(new HttpError(429, "rate_limited", message));
+    }
+    next();
+  };
+}
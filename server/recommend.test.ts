@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  emptySignals,
+  parseWeights,
+  rankCandidates,
+  scoreCandidate,
+  type Candidate,
+  type ViewerSignals,
+} from "./recommend";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+
+// A cleaning post 5 km away, three days old, by someone the viewer has messaged
+const candidate: Candidate = {
+  id: "post_1",
+  type: "post",
+  ownerId: "user_ann",
+  ownerName: "Ann",
+  distance: 5,
+  categories: ["Cleaning"],
+  text: "Deep clean and ironing\nEnd of tenancy cleans, weekends only",
+  time: "2026-10-16 12:00:00",
+};
+
+const signals = (): ViewerSignals => ({
+  categories: new Map([["Cleaning", { interest: 0.8, source: "skill" }]]),
+  terms: ["ironing", "deep clean", "plumbing"],
+  people: new Map([["user_ann", { affinity: 0.6, reason: "You've messaged {name}" }]]),
+  items: new Map(),
+});
+
+describe("scoreCandidate", () => {
+  it("blends every factor and explains the biggest first", () => {
+    expect(scoreCandidate(candidate, signals(), DEFAULT_RECOMMENDATION_WEIGHTS, NOW)).toEqual({
+      score: 64,
+      factors: { distance: 17.5, category: 20, skills: 10, recency: 7.5, interaction: 9 },
+      reasons: [
+        "Matches your Cleaning skills",
+        "5.0 km away",
+        "Mentions ironing, deep clean",
+        "You've messaged Ann",
+        "Posted 3 days ago",
+      ],
+    });
+  });
+
+  it("gives the same answer every time", () => {
+    const first = scoreCandidate(candidate, signals(), DEFAULT_RECOMMENDATION_WEIGHTS, NOW);
+    expect(scoreCandidate(candidate, signals(), DEFAULT_RECOMMENDATION_WEIGHTS, NOW)).toEqual(first);
+  });
+
+  it("scores a stranger on distance and age alone", () => {
+    const result = scoreCandidate(candidate, emptySignals(), DEFAULT_RECOMMENDATION_WEIGHTS, NOW);
+    expect(result.factors).toEqual({ distance: 17.5, category: 0, skills: 0, recency: 7.5, interaction: 0 });
+    expect(result.reasons).toEqual(["5.0 km away", "Posted 3 days ago"]);
+  });
+
+  it("prefers the stronger of an item and a person interaction", () => {
+    const withItem = signals();
+    withItem.items.set("post:post_1", { affinity: 0.9, reason: "You viewed this" });
+    const result = scoreCandidate(candidate, withItem, DEFAULT_RECOMMENDATION_WEIGHTS, NOW);
+    expect(result.factors.interaction).toBe(13.5);
+    expect(result.reasons).toContain("You viewed this");
+    expect(result.reasons).not.toContain("You've messaged Ann");
+  });
+
+  it("only matches skill terms as whole words", () => {
+    const result = scoreCandidate({ ...candidate, text: "Deep cleaner, no ironingboards" }, signals(), DEFAULT_RECOMMENDATION_WEIGHTS, NOW);
+    expect(result.factors.skills).toBe(0);
+  });
+
+  it("leaves out factors worth less than a point and times it can't read", () => {
+    const result = scoreCandidate({ ...candidate, distance: 150, time: "not a time" }, emptySignals(), DEFAULT_RECOMMENDATION_WEIGHTS, NOW);
+    expect(result.factors.recency).toBe(0);
+    expect(result.reasons).toEqual(["150 km away"]);
+  });
+
+  it("follows weight overrides", () => {
+    const distanceOnly = { ...DEFAULT_RECOMMENDATION_WEIGHTS, ...parseWeights("distance=1,category=0,skills=0,recency=0,interaction=0") };
+    expect(scoreCandidate(candidate, signals(), distanceOnly, NOW)).toMatchObject({ score: 50, reasons: ["5.0 km away"] });
+
+    // Only the ratios matter
+    const doubled = Object.fromEntries(Object.entries(DEFAULT_RECOMMENDATION_WEIGHTS).map(([k, v]) => [k, v * 2])) as typeof DEFAULT_RECOMMENDATION_WEIGHTS;
+    expect(scoreCandidate(candidate, signals(), doubled, NOW).score).toBe(64);
+
+    const none = { distance: 0, category: 0, skills: 0, recency: 0, interaction: 0 };
+    expect(scoreCandidate(candidate, signals(), none, NOW)).toMatchObject({ score: 0, reasons: [] });
+  });
+});
+
+describe("parseWeights", () => {
+  it("reads known factors and skips anything else", () => {
+    expect(parseWeights("distance=0.5, category = 0.3")).toEqual({ distance: 0.5, category: 0.3 });
+    expect(parseWeights("distance=0.5,bogus=3,category=-1,skills=abc,recency=,interaction")).toEqual({ distance: 0.5 });
+    expect(parseWeights(undefined)).toEqual({});
+    expect(parseWeights("")).toEqual({});
+  });
+});
+
+describe("rankCandidates", () => {
+  it("puts the best match first and breaks ties by id", () => {
+    const entry = (id: string, score: number) => ({
+      candidate: { ...candidate, id },
+      recommendation: { score, factors: DEFAULT_RECOMMENDATION_WEIGHTS, reasons: [] },
+    });
+    const input = [entry("c", 40), entry("b", 70), entry("a", 40), entry("d", 90)];
+    expect(rankCandidates(input).map((e) => e.candidate.id)).toEqual(["d", "b", "a", "c"]);
+    expect(input.map((e) => e.candidate.id)).toEqual(["c", "b", "a", "d"]);
+  });
+});
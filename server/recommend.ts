@@ -0,0 +1,151 @@
+import { parseDbTime } from "./time";
+import { mentions } from "./text";
+
+// Signals blended into the recommended sort. Each scores a result from 0 to 1 and is weighted;
+// the weights are relative, so only their ratios matter.
+export const RECOMMENDATION_FACTORS = ["distance", "category", "skills", "recency", "interaction"] as const;
+export type RecommendationFactor = (typeof RECOMMENDATION_FACTORS)[number];
+export type RecommendationWeights = Record<RecommendationFactor, number>;
+
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+  distance: 0.35,
+  category: 0.25,
+  skills: 0.1,
+  recency: 0.15,
+  interaction: 0.15,
+};
+
+// Distance score halves at this many km; recency score halves every RECENCY_HALF_LIFE_HOURS
+export const DISTANCE_HALF_KM = 5;
+export const RECENCY_HALF_LIFE_HOURS = 72;
+// The recommended sort ranks the nearest this many results within the radius
+export const RECOMMENDATION_POOL = 300;
+
+/**
+ * Parses RECOMMENDATION_WEIGHTS, e.g. "distance=0.5,category=0.3". Unknown factors and
+ * values that aren't non-negative numbers are ignored; unset factors keep their default.
+ */
+export function parseWeights(raw: string | undefined): Partial<RecommendationWeights> {
+  const weights: Partial<RecommendationWeights> = {};
+  for (const entry of (raw ?? "").split(",")) {
+    const [name, value] = entry.split("=").map((part) => part.trim());
+    const weight = Number(value);
+    if (RECOMMENDATION_FACTORS.includes(name as RecommendationFactor) && value && Number.isFinite(weight) && weight >= 0) {
+      weights[name as RecommendationFactor] = weight;
+    }
+  }
+  return weights;
+}
+
+// Where the viewer's interest in a category comes from, for the explanation
+export type InterestSource = "skill" | "listing" | "activity";
+
+/** What's known about the person asking: built from their profile, listings and history. */
+export interface ViewerSignals {
+  // Category -> interest from 0 to 1
+  categories: Map<string, { interest: number; source: InterestSource }>;
+  // Lower-case skill names and keywords, matched against a result's text
+  terms: string[];
+  // Past dealings with a user, or with one item (keyed "type:id"); strongest first wins
+  people: Map<string, { affinity: number; reason: string }>;
+  items: Map<string, { affinity: number; reason: string }>;
+}
+
+export const emptySignals = (): ViewerSignals => ({ categories: new Map(), terms: [], people: new Map(), items: new Map() });
+
+export interface Candidate {
+  id: string;
+  type: "post" | "job" | "user";
+  ownerId: string;
+  ownerName: string;
+  distance: number;
+  categories: string[];
+  text: string;
+  // created_at for listings, last_active for workers
+  time: string;
+}
+
+export interface Recommendation {
+  // 0-100 overall match
+  score: number;
+  // Points each factor contributed, summing to roughly `score`
+  factors: RecommendationWeights;
+  // Human-readable reasons, biggest contribution first
+  reasons: string[];
+}
+
+function ageText(hours: number): string {
+  if (hours < 1) return "in the last hour";
+  if (hours < 24) return `${Math.floor(hours)} h ago`;
+  const days = Math.floor(hours / 24);
+  return days === 1 ? "yesterday" : `${days} days ago`;
+}
+
+function categoryReason(category: string, source: InterestSource): string {
+  if (source === "skill") return `Matches your ${category} skills`;
+  if (source === "listing") return `Same category as your own listings (${category})`;
+  return `Like ${category} listings you've viewed or applied to`;
+}
+
+/**
+ * Scores one result for a viewer at time `now`. Pure and deterministic: the same candidate,
+ * signals, weights and clock always give the same score and reasons.
+ */
+export function scoreCandidate(
+  candidate: Candidate,
+  signals: ViewerSignals,
+  weights: RecommendationWeights,
+  now: number
+): Recommendation {
+  const values = {} as RecommendationWeights;
+  const reasons = {} as Record<RecommendationFactor, string | null>;
+
+  values.distance = 1 / (1 + candidate.distance / DISTANCE_HALF_KM);
+  reasons.distance = `${candidate.distance < 10 ? candidate.distance.toFixed(1) : Math.round(candidate.distance)} km away`;
+
+  let best: { interest: number; source: InterestSource; category: string } | null = null;
+  for (const category of candidate.categories) {
+    const interest = signals.categories.get(category);
+    if (interest && (!best || interest.interest > best.interest)) best = { ...interest, category };
+  }
+  values.category = best?.interest ?? 0;
+  reasons.category = best ? categoryReason(best.category, best.source) : null;
+
+  const text = candidate.text.toLowerCase();
+  const matched = signals.terms.filter((term) => mentions(text, term));
+  values.skills = Math.min(1, matched.length / 2);
+  reasons.skills = matched.length ? `Mentions ${matched.slice(0, 3).join(", ")}` : null;
+
+  const hours = Math.max(0, (now - parseDbTime(candidate.time)) / 3_600_000);
+  values.recency = Number.isFinite(hours) ? 0.5 ** (hours / RECENCY_HALF_LIFE_HOURS) : 0;
+  reasons.recency = Number.isFinite(hours) ? `${candidate.type === "user" ? "Active" : "Posted"} ${ageText(hours)}` : null;
+
+  const item = signals.items.get(`${candidate.type}:${candidate.id}`);
+  const person = signals.people.get(candidate.ownerId);
+  const strongest = [item, person].filter((x) => x !== undefined).sort((a, b) => b.affinity - a.affinity)[0];
+  values.interaction = strongest?.affinity ?? 0;
+  reasons.interaction = strongest ? strongest.reason.replace("{name}", candidate.ownerName) : null;
+
+  const total = RECOMMENDATION_FACTORS.reduce((sum, factor) => sum + weights[factor], 0) || 1;
+  const factors = {} as RecommendationWeights;
+  for (const factor of RECOMMENDATION_FACTORS) {
+    factors[factor] = Math.round((1000 * weights[factor] * values[factor]) / total) / 10;
+  }
+  const score = Math.round(RECOMMENDATION_FACTORS.reduce((sum, factor) => sum + factors[factor], 0) * 10) / 10;
+
+  return {
+    score,
+    factors,
+    reasons: RECOMMENDATION_FACTORS
+      .filter((factor) => factors[factor] >= 1 && reasons[factor])
+      .sort((a, b) => factors[b] - factors[a])
+      .map((factor) => reasons[factor]!),
+  };
+}
+
+// Best match first, then by id, so the order is stable and pages can resume from (score, id)
+export function rankCandidates<T extends { candidate: Candidate; recommendation: Recommendation }>(scored: T[]): T[] {
+  return [...scored].sort((a, b) =>
+    b.recommendation.score - a.recommendation.score || (a.candidate.id < b.candidate.id ? -1 : a.candidate.id > b.candidate.id ? 1 : 0)
+  );
+}
@@ -0,0 +1,169 @@
+import type Database from "better-sqlite3";
+import { likePattern } from "../search";
+import { livePostClause, type PostStatus } from "../posts";
+import { presenceClause } from "../presence";
+import { snapToGrid } from "../privacy";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PostSearch {
+  q?: string;
+  status?: PostStatus;
+  hidden?: boolean;
+  limit: number;
+}
+
+// Account lookup, suspensions and marketplace aggregates for the admin panel
+export class AdminRepository {
+  constructor(private db: Database.Database) {}
+
+  // Matches name, email or exact id; newest accounts first
+  searchUsers(q: string | undefined, limit: number) {
+    return this.db.prepare(`
+      SELECT u.id, u.name, u.role, c.email, u.is_admin, u.suspended_at, u.suspended_reason, u.created_at, u.last_active,
+        (SELECT COUNT(*) FROM posts WHERE user_id = u.id) AS post_count,
+        (SELECT COUNT(*) FROM jobs WHERE employer_id = u.id) AS job_count,
+        (SELECT COUNT(*) FROM reports WHERE target_type = 'user' AND target_id = u.id AND status = 'open') AS open_reports
+      FROM users u LEFT JOIN credentials c ON c.user_id = u.id
+      WHERE @q IS NULL OR u.name LIKE @pattern ESCAPE '\\' OR c.email LIKE @pattern ESCAPE '\\' OR u.id = @q
+      ORDER BY u.created_at DESC, u.id
+      LIMIT @limit
+    `).all({ q: q ?? null, pattern: q ? likePattern(q) : null, limit });
+  }
+
+  // Every post, hidden or not, matching title/description text and the given status
+  searchPosts({ q, status, hidden, limit }: PostSearch) {
+    return this.db.prepare(`
+      SELECT p.id, p.user_id, u.name AS user_name, p.title, p.description, p.category, p.status, p.hidden, p.report_count,
+        p.created_at, u.suspended_at AS owner_suspended_at
+      FROM posts p JOIN users u ON u.id = p.user_id
+      WHERE (@q IS NULL OR p.title LIKE @pattern ESCAPE '\\' OR p.description LIKE @pattern ESCAPE '\\' OR p.id = @q)
+        AND (@status IS NULL OR p.status = @status)
+        AND (@hidden IS NULL OR p.hidden = @hidden)
+      ORDER BY p.created_at DESC, p.id
+      LIMIT @limit
+    `).all({ q: q ?? null, pattern: q ? likePattern(q) : null, status: status ?? null, hidden: hidden === undefined ? null : Number(hidden), limit });
+  }
+
+  find(userId: string) {
+    return this.db.prepare("SELECT id, name, is_admin, suspended_at FROM users WHERE id = ?").get(userId) as
+      | { id: string; name: string; is_admin: number; suspended_at: string | null }
+      | undefined;
+  }
+
+  // Suspended users can't sign in, their sessions end and their listings drop out of search
+  suspend(userId: string, reason: string | null) {
+    this.db.transaction(() => {
+      this.db.prepare("UPDATE users SET suspended_at = CURRENT_TIMESTAMP, suspended_reason = ? WHERE id = ?").run(reason, userId);
+      this.db.prepare("DELETE FROM sessions WHERE user_id = ?").run(userId);
+    })();
+  }
+
+  unsuspend(userId: string) {
+    this.db.prepare("UPDATE users SET suspended_at = NULL, suspended_reason = NULL WHERE id = ?").run(userId);
+  }
+
+  // Grants or revokes admin by sign-in email; returns false if there's no such account
+  setAdmin(email: string, admin: boolean): boolean {
+    return this.db
+      .prepare("UPDATE users SET is_admin = ? WHERE id = (SELECT user_id FROM credentials WHERE email = ?)")
+      .run(admin ? 1 : 0, email).changes > 0;
+  }
+
+  // New accounts per UTC day over the last `days` days, including days with none
+  signupsPerDay(days: number) {
+    const rows = this.db.prepare(`
+      SELECT date(created_at) AS day, SUM(role = 'worker') AS workers, SUM(role = 'employer') AS employers
+      FROM users WHERE created_at >= date('now', ?)
+      GROUP BY day
+    `).all(`-${days - 1} days`) as { day: string; workers: number; employers: number }[];
+    const byDay = new Map(rows.map((row) => [row.day, row]));
+    const today = Date.parse(new Date().toISOString().slice(0, 10));
+    return Array.from({ length: days }, (_, i) => {
+      const day = new Date(today - (days - 1 - i) * DAY_MS).toISOString().slice(0, 10);
+      return byDay.get(day) ?? { day, workers: 0, employers: 0 };
+    });
+  }
+
+  /**
+   * Workers seen in the last `days` days, counted per grid cell of roughly `cellKm`. `available_now`
+   * is how many of them would show up in nearby search right now. Busiest cells first.
+   */
+  activeWorkersByArea(days: number, cellKm: number, limit = 50) {
+    const workers = this.db.prepare(`
+      SELECT u.lat, u.lng, (${presenceClause("u")}) AS live FROM users u
+      WHERE u.role = 'worker' AND u.suspended_at IS NULL AND u.lat IS NOT NULL AND u.lng IS NOT NULL
+        AND u.last_active >= datetime('now', ?)
+    `).all(`-${days} days`) as { lat: number; lng: number; live: number }[];
+
+    const cells = new Map<string, { lat: number; lng: number; workers: number; available_now: number }>();
+    for (const { lat, lng, live } of workers) {
+      const centre = snapToGrid(lat, lng, cellKm);
+      const key = `${centre.lat}:${centre.lng}`;
+      const cell = cells.get(key) ?? { ...centre, workers: 0, available_now: 0 };
+      cell.workers++;
+      cell.available_now += live ? 1 : 0;
+      cells.set(key, cell);
+    }
+    return [...cells.values()].sort((a, b) => b.workers - a.workers).slice(0, limit);
+  }
+
+  // Posts (all and currently live) and jobs per category
+  categories() {
+    return this.db.prepare(`
+      SELECT category, SUM(posts) AS posts, SUM(live_posts) AS live_posts, SUM(jobs) AS jobs FROM (
+        SELECT p.category, 1 AS posts, (${livePostClause("p")}) AS live_posts, 0 AS jobs FROM posts p
+        UNION ALL
+        SELECT category, 0, 0, 1 FROM jobs
+      )
+      GROUP BY category
+      ORDER BY posts + jobs DESC
+    `).all();
+  }
+
+  /**
+   * Fill rates for listings created in the last `days` days. Jobs: hired or completed places out
+   * of headcount. Posts: the share marked filled among those no longer open.
+   */
+  fillRates(days: number) {
+    const since = `-${days} days`;
+    const jobs = this.db.prepare(`
+      SELECT j.category, COUNT(*) AS jobs, SUM(j.headcount) AS positions,
+        SUM(MIN(j.headcount, (SELECT COUNT(*) FROM applications a WHERE a.job_id = j.id AND a.status IN ('hired', 'completed')))) AS hired
+      FROM jobs j WHERE j.created_at >= datetime('now', ?)
+      GROUP BY j.category
+    `).all(since) as { category: string; jobs: number; positions: number; hired: number }[];
+    const posts = this.db.prepare(`
+      SELECT category, COUNT(*) AS posts, SUM(status = 'filled') AS filled, SUM(status != 'open') AS finished
+      FROM posts WHERE created_at >= datetime('now', ?)
+      GROUP BY category
+    `).all(since) as { category: string; posts: number; filled: number; finished: number }[];
+
+    const rate = (part: number, whole: number) => (whole ? Math.round((part / whole) * 1000) / 1000 : null);
+    const sum = <T>(rows: T[], pick: (row: T) => number) => rows.reduce((total, row) => total + pick(row), 0);
+    const categories = [...new Set([...jobs.map((j) => j.category), ...posts.map((p) => p.category)])].sort();
+    return {
+      days,
+      jobs: {
+        jobs: sum(jobs, (j) => j.jobs),
+        positions: sum(jobs, (j) => j.positions),
+        hired: sum(jobs, (j) => j.hired),
+        fill_rate: rate(sum(jobs, (j) => j.hired), sum(jobs, (j) => j.positions)),
+      },
+      posts: {
+        posts: sum(posts, (p) => p.posts),
+        filled: sum(posts, (p) => p.filled),
+        fill_rate: rate(sum(posts, (p) => p.filled), sum(posts, (p) => p.finished)),
+      },
+      by_category: categories.map((category) => {
+        const j = jobs.find((row) => row.category === category);
+        const p = posts.find((row) => row.category === category);
+        return {
+          category,
+          job_fill_rate: j ? rate(j.hired, j.positions) : null,
+          post_fill_rate: p ? rate(p.filled, p.finished) : null,
+        };
+      }),
+    };
+  }
+}
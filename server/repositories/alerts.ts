@@ -0,0 +1,105 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+import { indexSavedSearch, unindexSavedSearch, type AlertTarget } from "../alerts";
+
+export interface NewSavedSearch {
+  name: string;
+  target: AlertTarget;
+  q: string | null;
+  categories: string[];
+  radius: number;
+  lat: number;
+  lng: number;
+}
+
+interface SavedSearchRow extends Omit<NewSavedSearch, "categories"> {
+  id: string;
+  user_id: string;
+  // JSON array
+  categories: string;
+  created_at: string;
+}
+
+export type SavedSearch = Omit<SavedSearchRow, "categories"> & { categories: string[] };
+
+const withCategories = (search: SavedSearchRow): SavedSearch => ({ ...search, categories: JSON.parse(search.categories) as string[] });
+
+export class SavedSearchRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    const search = this.db.prepare("SELECT * FROM saved_searches WHERE id = ?").get(id) as SavedSearchRow | undefined;
+    return search ? withCategories(search) : undefined;
+  }
+
+  listFor(userId: string) {
+    const searches = this.db.prepare("SELECT * FROM saved_searches WHERE user_id = ? ORDER BY created_at DESC, id ASC").all(userId) as SavedSearchRow[];
+    return searches.map(withCategories);
+  }
+
+  countFor(userId: string): number {
+    return this.db.prepare("SELECT COUNT(*) FROM saved_searches WHERE user_id = ?").pluck().get(userId) as number;
+  }
+
+  // Stores the search and adds it to the spatial index new listings are matched against
+  create(userId: string, search: NewSavedSearch): string {
+    const id = newId("srch");
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO saved_searches (id, user_id, name, target, q, categories, radius, lat, lng)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(id, userId, search.name, search.target, search.q, JSON.stringify(search.categories), search.radius, search.lat, search.lng);
+      indexSavedSearch(this.db, { id, lat: search.lat, lng: search.lng, radius: search.radius });
+    })();
+    return id;
+  }
+
+  delete(id: string) {
+    this.db.transaction(() => {
+      unindexSavedSearch(this.db, id);
+      this.db.prepare("DELETE FROM saved_searches WHERE id = ?").run(id);
+    })();
+  }
+}
+
+export class NotificationRepository {
+  constructor(private db: Database.Database) {}
+
+  // The latest 100, newest first
+  listFor(userId: string) {
+    const items = this.db
+      .prepare("SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 100")
+      .all(userId) as { data: string }[];
+    return items.map((item) => ({ ...item, data: JSON.parse(item.data) }));
+  }
+
+  unreadCount(userId: string): number {
+    return this.db.prepare("SELECT COUNT(*) FROM notifications WHERE user_id = ? AND read_at IS NULL").pluck().get(userId) as number;
+  }
+
+  // Marks the given notifications (or all of them) as read
+  markRead(userId: string, ids?: string[]) {
+    if (ids) {
+      const mark = this.db.prepare("UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND read_at IS NULL");
+      this.db.transaction(() => ids.forEach((id) => mark.run(id, userId)))();
+    } else {
+      this.db.prepare("UPDATE notifications SET read_at = CURRENT_TIMESTAMP WHERE user_id = ? AND read_at IS NULL").run(userId);
+    }
+  }
+}
+
+export class PushSubscriptionRepository {
+  constructor(private db: Database.Database) {}
+
+  // A browser endpoint belongs to whoever registered it last
+  save(userId: string, subscription: { endpoint: string; keys: { p256dh: string; auth: string } }) {
+    this.db.prepare(`
+      INSERT INTO push_subscriptions (endpoint, user_id, p256dh, auth) VALUES (?, ?, ?, ?)
+      ON CONFLICT(endpoint) DO UPDATE SET user_id = excluded.user_id, p256dh = excluded.p256dh, auth = excluded.auth
+    `).run(subscription.endpoint, userId, subscription.keys.p256dh, subscription.keys.auth);
+  }
+
+  delete(userId: string, endpoint: string) {
+    this.db.prepare("DELETE FROM push_subscriptions WHERE endpoint = ? AND user_id = ?").run(endpoint, userId);
+  }
+}
@@ -0,0 +1,52 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+import type { ApplicationStatus, Party } from "../applications";
+
+export interface ApplicationRow {
+  id: string;
+  job_id: string;
+  worker_id: string;
+  employer_id: string;
+  status: ApplicationStatus;
+}
+
+const APPLICATION_SELECT = `
+  SELECT a.*, j.title AS job_title, j.employer_id, e.name AS employer_name, w.name AS worker_name,
+    (SELECT id FROM bookings WHERE application_id = a.id) AS booking_id
+  FROM applications a
+  JOIN jobs j ON j.id = a.job_id
+  JOIN users e ON e.id = j.employer_id
+  JOIN users w ON w.id = a.worker_id
+`;
+
+// Links between a worker and a job, from invitation or application through to completion
+export class ApplicationRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    return this.db.prepare(`${APPLICATION_SELECT} WHERE a.id = ?`).get(id) as ApplicationRow | undefined;
+  }
+
+  // Whether the worker already applied to (or was invited to) the job
+  exists(jobId: string, workerId: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM applications WHERE job_id = ? AND worker_id = ?").get(jobId, workerId);
+  }
+
+  // Workers see their own applications; employers see applicants across their jobs
+  listFor(userId: string, party: Party) {
+    const column = party === "worker" ? "a.worker_id" : "j.employer_id";
+    return this.db
+      .prepare(`${APPLICATION_SELECT} WHERE ${column} = ? ORDER BY a.updated_at DESC, a.id ASC`)
+      .all(userId) as ApplicationRow[];
+  }
+
+  create(jobId: string, workerId: string, status: "applied" | "invited", note: string | null): string {
+    const id = newId("app");
+    this.db.prepare("INSERT INTO applications (id, job_id, worker_id, status, note) VALUES (?, ?, ?, ?, ?)").run(id, jobId, workerId, status, note);
+    return id;
+  }
+
+  setStatus(id: string, status: ApplicationStatus) {
+    this.db.prepare("UPDATE applications SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?").run(status, id);
+  }
+}
@@ -0,0 +1,117 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+import type { BookingRow, ShiftRow } from "../bookings";
+
+export interface NewBooking {
+  workerId: string;
+  employerId: string;
+  listingType: "job" | "post";
+  listingId: string;
+  applicationId: string | null;
+  title: string;
+  lat: number;
+  lng: number;
+  hourlyRate: number;
+  // Hires are agreed already; bookings from a post wait for the worker
+  accepted: boolean;
+}
+
+export interface ShiftTimes {
+  starts_at: string;
+  ends_at: string;
+}
+
+const BOOKING_SELECT = `
+  SELECT b.*, w.name AS worker_name, e.name AS employer_name FROM bookings b
+  JOIN users w ON w.id = b.worker_id
+  JOIN users e ON e.id = b.employer_id
+`;
+
+// Bookings between a worker and an employer, their shifts and the check-ins against them
+export class BookingRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    return this.db.prepare(`${BOOKING_SELECT} WHERE b.id = ?`).get(id) as BookingRow | undefined;
+  }
+
+  // Bookings on either side, newest first
+  listFor(userId: string) {
+    return this.db
+      .prepare(`${BOOKING_SELECT} WHERE b.worker_id = @user OR b.employer_id = @user ORDER BY b.created_at DESC, b.id ASC`)
+      .all({ user: userId }) as BookingRow[];
+  }
+
+  forApplication(applicationId: string): string | undefined {
+    return this.db.prepare("SELECT id FROM bookings WHERE application_id = ?").pluck().get(applicationId) as string | undefined;
+  }
+
+  create(booking: NewBooking, shifts: ShiftTimes[]): string {
+    const id = newId("booking");
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO bookings (id, worker_id, employer_id, listing_type, listing_id, application_id, title, lat, lng, hourly_rate, accepted_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? THEN CURRENT_TIMESTAMP END)
+      `).run(
+        id, booking.workerId, booking.employerId, booking.listingType, booking.listingId, booking.applicationId,
+        booking.title, booking.lat, booking.lng, booking.hourlyRate, booking.accepted ? 1 : 0
+      );
+      for (const shift of shifts) this.addShift(id, shift);
+    })();
+    return id;
+  }
+
+  accept(id: string) {
+    this.db.prepare("UPDATE bookings SET accepted_at = CURRENT_TIMESTAMP WHERE id = ?").run(id);
+  }
+
+  // Cancels the booking along with its shifts that haven't been checked into
+  cancel(id: string) {
+    this.db.transaction(() => {
+      this.db.prepare("UPDATE bookings SET status = 'cancelled' WHERE id = ?").run(id);
+      this.db.prepare("UPDATE shifts SET status = 'cancelled' WHERE booking_id = ? AND check_in_at IS NULL").run(id);
+    })();
+  }
+
+  approve(id: string, minutes: number, amount: number) {
+    this.db
+      .prepare("UPDATE bookings SET approved_at = CURRENT_TIMESTAMP, approved_minutes = ?, approved_amount = ? WHERE id = ?")
+      .run(minutes, amount, id);
+  }
+
+  shifts(bookingId: string) {
+    return this.db.prepare("SELECT * FROM shifts WHERE booking_id = ? ORDER BY starts_at, id").all(bookingId) as ShiftRow[];
+  }
+
+  findShift(id: string) {
+    return this.db.prepare("SELECT * FROM shifts WHERE id = ?").get(id) as ShiftRow | undefined;
+  }
+
+  addShift(bookingId: string, shift: ShiftTimes): string {
+    const id = newId("shift");
+    this.db.prepare("INSERT INTO shifts (id, booking_id, starts_at, ends_at) VALUES (?, ?, ?, ?)").run(id, bookingId, shift.starts_at, shift.ends_at);
+    return id;
+  }
+
+  cancelShift(id: string) {
+    this.db.prepare("UPDATE shifts SET status = 'cancelled' WHERE id = ?").run(id);
+  }
+
+  checkIn(id: string, distanceM: number) {
+    this.db.prepare("UPDATE shifts SET check_in_at = CURRENT_TIMESTAMP, check_in_distance_m = ? WHERE id = ?").run(distanceM, id);
+  }
+
+  checkOut(id: string, distanceM: number) {
+    this.db.prepare("UPDATE shifts SET check_out_at = CURRENT_TIMESTAMP, check_out_distance_m = ? WHERE id = ?").run(distanceM, id);
+  }
+
+  // The first of the worker's live shifts, on any active booking they've accepted, that overlaps `times`
+  firstConflict(workerId: string, times: ShiftTimes) {
+    return this.db.prepare(`
+      SELECT s.starts_at, s.ends_at FROM shifts s
+      JOIN bookings b ON b.id = s.booking_id
+      WHERE b.worker_id = ? AND b.status = 'active' AND b.accepted_at IS NOT NULL AND s.status = 'scheduled' AND s.starts_at < ? AND s.ends_at > ?
+      ORDER BY s.starts_at LIMIT 1
+    `).get(workerId, times.ends_at, times.starts_at) as ShiftTimes | undefined;
+  }
+}
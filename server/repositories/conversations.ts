@@ -0,0 +1,57 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+
+const CONVERSATION_SELECT = `
+  SELECT c.id, c.created_at, c.last_message_at,
+    o.id AS other_user_id, o.name AS other_user_name, o.role AS other_user_role,
+    (SELECT body FROM messages WHERE conversation_id = c.id ORDER BY created_at DESC, rowid DESC LIMIT 1) AS last_message,
+    (SELECT COUNT(*) FROM messages WHERE conversation_id = c.id AND sender_id != @me AND read_at IS NULL) AS unread_count
+  FROM conversations c
+  JOIN users o ON o.id = CASE WHEN c.user_a = @me THEN c.user_b ELSE c.user_a END
+  WHERE (c.user_a = @me OR c.user_b = @me)
+`;
+
+// One-to-one message threads, always seen from one participant's side
+export class ConversationRepository {
+  constructor(private db: Database.Database) {}
+
+  // The thread if the user takes part in it
+  find(id: string, me: string) {
+    return this.db.prepare(`${CONVERSATION_SELECT} AND c.id = @id`).get({ me, id }) as { id: string; other_user_id: string } | undefined;
+  }
+
+  listFor(me: string) {
+    return this.db
+      .prepare(`${CONVERSATION_SELECT} ORDER BY COALESCE(c.last_message_at, c.created_at) DESC, c.id ASC`)
+      .all({ me });
+  }
+
+  // Opens (or reuses) the thread between two users and returns its id
+  open(me: string, other: string): string {
+    const [a, b] = [me, other].sort();
+    this.db.prepare("INSERT INTO conversations (id, user_a, user_b) VALUES (?, ?, ?) ON CONFLICT(user_a, user_b) DO NOTHING").run(newId("conv"), a, b);
+    return this.db.prepare("SELECT id FROM conversations WHERE user_a = ? AND user_b = ?").pluck().get(a, b) as string;
+  }
+
+  messages(conversationId: string) {
+    return this.db
+      .prepare("SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at ASC, rowid ASC")
+      .all(conversationId);
+  }
+
+  addMessage(conversationId: string, senderId: string, body: string) {
+    const id = newId("msg");
+    this.db.transaction(() => {
+      this.db.prepare("INSERT INTO messages (id, conversation_id, sender_id, body) VALUES (?, ?, ?, ?)").run(id, conversationId, senderId, body);
+      this.db.prepare("UPDATE conversations SET last_message_at = CURRENT_TIMESTAMP WHERE id = ?").run(conversationId);
+    })();
+    return this.db.prepare("SELECT * FROM messages WHERE id = ?").get(id);
+  }
+
+  // Marks everything the other side sent as read; returns how many messages changed
+  markRead(conversationId: string, readerId: string): number {
+    return this.db
+      .prepare("UPDATE messages SET read_at = CURRENT_TIMESTAMP WHERE conversation_id = ? AND sender_id != ? AND read_at IS NULL")
+      .run(conversationId, readerId).changes;
+  }
+}
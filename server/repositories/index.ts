@@ -0,0 +1,37 @@
+import type Database from "better-sqlite3";
+import { UserRepository } from "./users";
+import { ProfileRepository } from "./profiles";
+import { PostRepository } from "./posts";
+import { JobRepository } from "./jobs";
+import { ApplicationRepository } from "./applications";
+import { ReviewRepository } from "./reviews";
+import { ConversationRepository } from "./conversations";
+import { LocationRepository } from "./locations";
+import { ReportRepository } from "./reports";
+import { AdminRepository } from "./admin";
+import { RecommendationRepository } from "./recommendations";
+import { BookingRepository } from "./bookings";
+import { NotificationRepository, PushSubscriptionRepository, SavedSearchRepository } from "./alerts";
+
+// Data access for the route modules, one repository per resource
+export function createRepositories(db: Database.Database) {
+  return {
+    users: new UserRepository(db),
+    profiles: new ProfileRepository(db),
+    posts: new PostRepository(db),
+    jobs: new JobRepository(db),
+    applications: new ApplicationRepository(db),
+    reviews: new ReviewRepository(db),
+    conversations: new ConversationRepository(db),
+    savedSearches: new SavedSearchRepository(db),
+    notifications: new NotificationRepository(db),
+    pushSubscriptions: new PushSubscriptionRepository(db),
+    locations: new LocationRepository(db),
+    reports: new ReportRepository(db),
+    admin: new AdminRepository(db),
+    recommendations: new RecommendationRepository(db),
+    bookings: new BookingRepository(db),
+  };
+}
+
+export type Repositories = ReturnType<typeof createRepositories>;
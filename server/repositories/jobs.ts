@@ -0,0 +1,120 @@
+import type Database from "better-sqlite3";
+import type { NewListing } from "../alerts";
+import { newId } from "../auth";
+import { liveJobClause, type JobStatus } from "../jobs";
+import type { Located } from "../privacy";
+import { DUPLICATE_AREA_DAYS, DUPLICATE_AREA_KM, DUPLICATE_OWN_DAYS } from "../spam";
+
+export interface NewJob {
+  title: string;
+  description?: string | null;
+  category: string;
+  pay_rate: number;
+  pay_type: "hourly" | "fixed";
+  start_time?: string | null;
+  duration_hours?: number | null;
+  headcount: number;
+  lat: number;
+  lng: number;
+  expires_at?: string | null;
+}
+
+export type JobChanges = Partial<NewJob> & { status?: Exclude<JobStatus, "expired"> };
+
+const JOB_SELECT = `
+  SELECT j.*, 'job' AS kind, u.name AS employer_name FROM jobs j
+  JOIN users u ON u.id = j.employer_id
+`;
+
+// Employers' job listings
+export class JobRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    return this.db.prepare(`${JOB_SELECT} WHERE j.id = ?`).get(id) as
+      | (Located & { id: string; employer_id: string; title: string; description: string | null; lat: number; lng: number; pay_rate: number; pay_type: "hourly" | "fixed"; hidden: number })
+      | undefined;
+  }
+
+  /**
+   * Who posted a job, its current text and position, whether it's hidden for moderation,
+   * whether its explicit expiry date has passed and whether it's live (taking applications)
+   */
+  ownership(id: string) {
+    return this.db
+      .prepare(`SELECT j.employer_id, j.title, j.description, j.lat, j.lng, j.hidden, j.expires_at <= CURRENT_TIMESTAMP AS past_expiry, ${liveJobClause("j")} AS live FROM jobs j WHERE j.id = ?`)
+      .get(id) as
+      | { employer_id: string; title: string; description: string | null; lat: number; lng: number; hidden: number; past_expiry: number | null; live: number }
+      | undefined;
+  }
+
+  // A job as saved-search alerts see it, whether it's hidden, and whether it shows up in search
+  forAlerts(id: string) {
+    return this.db
+      .prepare(`SELECT j.id, j.employer_id AS owner_id, j.title, j.category, j.lat, j.lng, j.hidden, ${liveJobClause("j")} AS live FROM jobs j WHERE j.id = ?`)
+      .get(id) as (Omit<NewListing, "table"> & { hidden: number; live: number }) | undefined;
+  }
+
+  listByEmployer(employerId: string) {
+    return this.db.prepare(`${JOB_SELECT} WHERE j.employer_id = ? ORDER BY j.created_at DESC, j.id ASC`).all(employerId);
+  }
+
+  // `hidden` jobs (held by the spam filter) only show up for their employer until a moderator clears them
+  create(employerId: string, job: NewJob, hidden = false): string {
+    const id = newId("job");
+    this.db.prepare(`
+      INSERT INTO jobs (id, employer_id, title, description, category, pay_rate, pay_type, start_time, duration_hours, headcount, lat, lng, expires_at, hidden)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime(?), ?)
+    `).run(
+      id, employerId, job.title, job.description ?? null, job.category, job.pay_rate, job.pay_type,
+      job.start_time ?? null, job.duration_hours ?? null, job.headcount, job.lat, job.lng, job.expires_at ?? null, hidden ? 1 : 0
+    );
+    return id;
+  }
+
+  /**
+   * Recent jobs a new one could be a copy of: the employer's own from the last DUPLICATE_OWN_DAYS,
+   * and anyone's within DUPLICATE_AREA_KM from the last DUPLICATE_AREA_DAYS.
+   */
+  duplicateCandidates(employerId: string, at: { lat: number; lng: number }, excludeId?: string) {
+    return this.db.prepare(`
+      SELECT id, title, COALESCE(description, '') AS description FROM jobs
+      WHERE id != @excludeId AND (
+        (employer_id = @employerId AND created_at >= datetime('now', '-${DUPLICATE_OWN_DAYS} days'))
+        OR (created_at >= datetime('now', '-${DUPLICATE_AREA_DAYS} days') AND haversine_km(lat, lng, @lat, @lng) <= @km)
+      )
+      ORDER BY created_at DESC LIMIT 200
+    `).all({ employerId, lat: at.lat, lng: at.lng, km: DUPLICATE_AREA_KM, excludeId: excludeId ?? "" }) as { id: string; title: string; description: string }[];
+  }
+
+  hide(id: string) {
+    this.db.prepare("UPDATE jobs SET hidden = 1 WHERE id = ?").run(id);
+  }
+
+  update(id: string, changes: JobChanges) {
+    const fields = Object.entries(changes).filter(([, value]) => value !== undefined);
+
+    // Keys come from the schema, so they're safe to splice into the statement. Editing restarts the TTL.
+    const assignments = fields.map(([field]) => (field === "expires_at" ? "expires_at = datetime(?)" : `${field} = ?`));
+    this.db.prepare(`UPDATE jobs SET ${[...assignments, "updated_at = CURRENT_TIMESTAMP"].join(", ")} WHERE id = ?`).run(
+      ...fields.map(([, value]) => value),
+      id
+    );
+  }
+
+  // Removes the job along with everyone's applications to it; callers check nobody was hired first
+  delete(id: string) {
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM applications WHERE job_id = ?").run(id);
+      this.db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+    })();
+  }
+
+  // Positions on the job and how many of them are taken
+  staffing(id: string) {
+    return this.db.prepare(`
+      SELECT j.headcount, (SELECT COUNT(*) FROM applications WHERE job_id = j.id AND status IN ('hired', 'completed')) AS hired
+      FROM jobs j WHERE j.id = ?
+    `).get(id) as { headcount: number; hired: number };
+  }
+}
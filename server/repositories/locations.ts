@@ -0,0 +1,42 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+
+export interface NewSavedLocation {
+  name: string;
+  label: string | null;
+  lat: number;
+  lng: number;
+}
+
+export class LocationRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    return this.db.prepare("SELECT * FROM saved_locations WHERE id = ?").get(id) as { id: string; user_id: string } | undefined;
+  }
+
+  listFor(userId: string) {
+    return this.db.prepare("SELECT * FROM saved_locations WHERE user_id = ? ORDER BY name COLLATE NOCASE, id").all(userId);
+  }
+
+  countFor(userId: string): number {
+    return this.db.prepare("SELECT COUNT(*) FROM saved_locations WHERE user_id = ?").pluck().get(userId) as number;
+  }
+
+  hasName(userId: string, name: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM saved_locations WHERE user_id = ? AND name = ?").get(userId, name);
+  }
+
+  // Saving under an existing name moves that location rather than adding a second one
+  save(userId: string, location: NewSavedLocation): string {
+    return this.db.prepare(`
+      INSERT INTO saved_locations (id, user_id, name, label, lat, lng) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, name) DO UPDATE SET label = excluded.label, lat = excluded.lat, lng = excluded.lng
+      RETURNING id
+    `).pluck().get(newId("loc"), userId, location.name, location.label, location.lat, location.lng) as string;
+  }
+
+  delete(id: string) {
+    this.db.prepare("DELETE FROM saved_locations WHERE id = ?").run(id);
+  }
+}
@@ -0,0 +1,99 @@
+import type Database from "better-sqlite3";
+import type { NewListing } from "../alerts";
+import { newId } from "../auth";
+import { livePostClause, type PostStatus } from "../posts";
+import { DUPLICATE_AREA_DAYS, DUPLICATE_AREA_KM, DUPLICATE_OWN_DAYS } from "../spam";
+
+export interface NewPost {
+  title: string;
+  description: string;
+  category: string;
+  lat: number;
+  lng: number;
+  expires_at?: string | null;
+}
+
+export type PostChanges = Partial<NewPost> & { status?: Exclude<PostStatus, "expired"> };
+
+const POST_SELECT = `
+  SELECT p.*, 'availability' AS kind, u.name AS user_name FROM posts p
+  JOIN users u ON u.id = p.user_id
+`;
+
+// Workers' availability posts
+export class PostRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    return this.db.prepare(`${POST_SELECT} WHERE p.id = ?`).get(id);
+  }
+
+  // Who owns a post, its current text and whether its explicit expiry date has passed
+  ownership(id: string) {
+    return this.db.prepare("SELECT user_id, title, description, lat, lng, expires_at <= CURRENT_TIMESTAMP AS past_expiry FROM posts WHERE id = ?").get(id) as
+      | { user_id: string; title: string; description: string; lat: number; lng: number; past_expiry: number | null }
+      | undefined;
+  }
+
+  // What a booking copies from a post, and whether the post is still up
+  bookable(id: string) {
+    return this.db.prepare(`SELECT p.user_id, p.title, p.lat, p.lng, ${livePostClause("p")} AS live FROM posts p WHERE p.id = ?`).get(id) as
+      | { user_id: string; title: string; lat: number; lng: number; live: number }
+      | undefined;
+  }
+
+  // A post as saved-search alerts see it, whether it's hidden, and whether it shows up in search
+  forAlerts(id: string) {
+    return this.db
+      .prepare(`SELECT p.id, p.user_id AS owner_id, p.title, p.category, p.lat, p.lng, p.hidden, ${livePostClause("p")} AS live FROM posts p WHERE p.id = ?`)
+      .get(id) as (Omit<NewListing, "table"> & { hidden: number; live: number }) | undefined;
+  }
+
+  // Every post of a user, whatever its status, newest first
+  listByOwner(userId: string) {
+    return this.db.prepare(`${POST_SELECT} WHERE p.user_id = ? ORDER BY p.created_at DESC, p.id ASC`).all(userId);
+  }
+
+  // `hidden` posts (held by the spam filter) only show up for their owner until a moderator clears them
+  create(userId: string, post: NewPost, hidden = false): string {
+    const id = newId("post");
+    this.db
+      .prepare("INSERT INTO posts (id, user_id, title, description, category, lat, lng, expires_at, hidden) VALUES (?, ?, ?, ?, ?, ?, ?, datetime(?), ?)")
+      .run(id, userId, post.title, post.description, post.category, post.lat, post.lng, post.expires_at ?? null, hidden ? 1 : 0);
+    return id;
+  }
+
+  /**
+   * Recent posts a new one could be a copy of: the user's own from the last DUPLICATE_OWN_DAYS,
+   * and anyone's within DUPLICATE_AREA_KM from the last DUPLICATE_AREA_DAYS.
+   */
+  duplicateCandidates(userId: string, at: { lat: number; lng: number }, excludeId?: string) {
+    return this.db.prepare(`
+      SELECT id, title, description FROM posts
+      WHERE id != @excludeId AND (
+        (user_id = @userId AND created_at >= datetime('now', '-${DUPLICATE_OWN_DAYS} days'))
+        OR (created_at >= datetime('now', '-${DUPLICATE_AREA_DAYS} days') AND haversine_km(lat, lng, @lat, @lng) <= @km)
+      )
+      ORDER BY created_at DESC LIMIT 200
+    `).all({ userId, lat: at.lat, lng: at.lng, km: DUPLICATE_AREA_KM, excludeId: excludeId ?? "" }) as { id: string; title: string; description: string }[];
+  }
+
+  hide(id: string) {
+    this.db.prepare("UPDATE posts SET hidden = 1 WHERE id = ?").run(id);
+  }
+
+  update(id: string, changes: PostChanges) {
+    const fields = Object.entries(changes).filter(([, value]) => value !== undefined);
+
+    // Keys come from the schema, so they're safe to splice into the statement. Editing restarts the TTL.
+    const assignments = fields.map(([field]) => (field === "expires_at" ? "expires_at = datetime(?)" : `${field} = ?`));
+    this.db.prepare(`UPDATE posts SET ${[...assignments, "updated_at = CURRENT_TIMESTAMP"].join(", ")} WHERE id = ?`).run(
+      ...fields.map(([, value]) => value),
+      id
+    );
+  }
+
+  delete(id: string) {
+    this.db.prepare("DELETE FROM posts WHERE id = ?").run(id);
+  }
+}
@@ -0,0 +1,100 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+import { fromWeekMinutes, toWeekMinute } from "../profiles";
+
+export interface ProfileFields {
+  bio?: string | null;
+  rate_min?: number | null;
+  rate_max?: number | null;
+  languages: string[];
+  skills: { name: string; category: string }[];
+  schedule: { day: number; start: string; end: string }[];
+  travel_radius_km?: number | null;
+  timezone: string;
+}
+
+// Worker profiles: the editable fields, skills, weekly schedule and portfolio
+export class ProfileRepository {
+  constructor(private db: Database.Database) {}
+
+  // Public profile with reputation, or undefined if there's no such user
+  load(userId: string) {
+    const user = this.db.prepare(`
+      SELECT u.id, u.name, u.role, u.availability, u.last_active, pr.bio, pr.rate_min, pr.rate_max, pr.languages,
+        pr.travel_radius_km, COALESCE(pr.timezone, 'UTC') AS timezone, pr.avatar_url,
+        COALESCE(rep.review_count, 0) AS review_count, rep.rating_avg, rep.rating_trend
+      FROM users u
+      LEFT JOIN profiles pr ON pr.user_id = u.id
+      LEFT JOIN reputation rep ON rep.user_id = u.id
+      WHERE u.id = ?
+    `).get(userId) as { languages: string | null } | undefined;
+    if (!user) return undefined;
+    const slots = this.db
+      .prepare("SELECT start_minute, end_minute FROM availability_slots WHERE user_id = ? ORDER BY start_minute")
+      .all(userId) as { start_minute: number; end_minute: number }[];
+    return {
+      ...user,
+      languages: JSON.parse(user.languages ?? "[]") as string[],
+      skills: this.db.prepare("SELECT name, category FROM user_skills WHERE user_id = ? ORDER BY category, name").all(userId),
+      schedule: slots.map((slot) => fromWeekMinutes(slot.start_minute, slot.end_minute)),
+      portfolio: this.db.prepare("SELECT id, url FROM portfolio_images WHERE user_id = ? ORDER BY created_at, id").all(userId),
+    };
+  }
+
+  // Replaces the whole editable profile, including every skill and schedule slot
+  replace(userId: string, profile: ProfileFields) {
+    const { db } = this;
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO profiles (user_id, bio, rate_min, rate_max, languages, travel_radius_km, timezone, updated_at)
+        VALUES (@me, @bio, @rate_min, @rate_max, @languages, @travel_radius_km, @timezone, CURRENT_TIMESTAMP)
+        ON CONFLICT(user_id) DO UPDATE SET
+          bio = excluded.bio, rate_min = excluded.rate_min, rate_max = excluded.rate_max, languages = excluded.languages,
+          travel_radius_km = excluded.travel_radius_km, timezone = excluded.timezone, updated_at = excluded.updated_at
+      `).run({
+        me: userId,
+        bio: profile.bio ?? null,
+        rate_min: profile.rate_min ?? null,
+        rate_max: profile.rate_max ?? null,
+        languages: JSON.stringify([...new Set(profile.languages)]),
+        travel_radius_km: profile.travel_radius_km ?? null,
+        timezone: profile.timezone,
+      });
+      db.prepare("DELETE FROM user_skills WHERE user_id = ?").run(userId);
+      const addSkill = db.prepare("INSERT OR IGNORE INTO user_skills (user_id, name, category) VALUES (?, ?, ?)");
+      for (const skill of profile.skills) addSkill.run(userId, skill.name, skill.category);
+      db.prepare("DELETE FROM availability_slots WHERE user_id = ?").run(userId);
+      const addSlot = db.prepare("INSERT INTO availability_slots (user_id, start_minute, end_minute) VALUES (?, ?, ?)");
+      for (const slot of profile.schedule) addSlot.run(userId, toWeekMinute(slot.day, slot.start), toWeekMinute(slot.day, slot.end));
+    })();
+  }
+
+  avatarUrl(userId: string): string | null {
+    return (this.db.prepare("SELECT avatar_url FROM profiles WHERE user_id = ?").pluck().get(userId) as string | null | undefined) ?? null;
+  }
+
+  setAvatar(userId: string, url: string) {
+    this.db.prepare(`
+      INSERT INTO profiles (user_id, avatar_url) VALUES (?, ?)
+      ON CONFLICT(user_id) DO UPDATE SET avatar_url = excluded.avatar_url, updated_at = CURRENT_TIMESTAMP
+    `).run(userId, url);
+  }
+
+  portfolioCount(userId: string): number {
+    return this.db.prepare("SELECT COUNT(*) FROM portfolio_images WHERE user_id = ?").pluck().get(userId) as number;
+  }
+
+  addPortfolioImage(userId: string, url: string): string {
+    const id = newId("img");
+    this.db.prepare("INSERT INTO portfolio_images (id, user_id, url) VALUES (?, ?, ?)").run(id, userId, url);
+    return id;
+  }
+
+  portfolioImage(id: string, userId: string) {
+    return this.db.prepare("SELECT url FROM portfolio_images WHERE id = ? AND user_id = ?").get(id, userId) as { url: string } | undefined;
+  }
+
+  deletePortfolioImage(id: string) {
+    this.db.prepare("DELETE FROM portfolio_images WHERE id = ?").run(id);
+  }
+}
@@ -0,0 +1,106 @@
+import type Database from "better-sqlite3";
+import { emptySignals, type ViewerSignals } from "../recommend";
+
+export type ViewTarget = "post" | "job" | "user";
+
+// Views and applications in a category until interest from activity alone tops out
+const ACTIVITY_SATURATION = 6;
+// Interest learned from activity never outranks categories the viewer works or hires in
+const ACTIVITY_MAX_INTEREST = 0.8;
+// Job-title words shorter than this ("help", "for") say little about the work
+const MIN_KEYWORD_LENGTH = 5;
+
+// Listing views and the per-viewer signals the recommended sort is scored from
+export class RecommendationRepository {
+  constructor(private db: Database.Database) {}
+
+  recordView(viewerId: string, targetType: ViewTarget, targetId: string) {
+    this.db.prepare(`
+      INSERT INTO views (viewer_id, target_type, target_id) VALUES (?, ?, ?)
+      ON CONFLICT (viewer_id, target_type, target_id)
+      DO UPDATE SET view_count = view_count + 1, last_viewed_at = CURRENT_TIMESTAMP
+    `).run(viewerId, targetType, targetId);
+  }
+
+  targetExists(targetType: ViewTarget, targetId: string): boolean {
+    const table = targetType === "post" ? "posts" : targetType === "job" ? "jobs" : "users";
+    return !!this.db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(targetId);
+  }
+
+  /**
+   * Everything the recommended sort knows about a viewer: categories from their skills and
+   * own listings (full interest) and from what they've viewed or applied to (partial), skill
+   * names and job-title keywords, and the people and items they've dealt with before.
+   */
+  signals(viewerId: string): ViewerSignals {
+    const signals = emptySignals();
+
+    const declared = this.db.prepare(`
+      SELECT category, 'skill' AS source FROM user_skills WHERE user_id = @viewer
+      UNION SELECT category, 'listing' FROM posts WHERE user_id = @viewer
+      UNION SELECT category, 'listing' FROM jobs WHERE employer_id = @viewer
+      ORDER BY source DESC
+    `).all({ viewer: viewerId }) as { category: string; source: "skill" | "listing" }[];
+    for (const { category, source } of declared) {
+      if (!signals.categories.has(category)) signals.categories.set(category, { interest: 1, source });
+    }
+
+    // Applications weigh three views
+    const activity = this.db.prepare(`
+      SELECT category, SUM(weight) AS weight FROM (
+        SELECT p.category, 1 AS weight FROM views v JOIN posts p ON v.target_type = 'post' AND p.id = v.target_id WHERE v.viewer_id = @viewer
+        UNION ALL
+        SELECT j.category, 1 FROM views v JOIN jobs j ON v.target_type = 'job' AND j.id = v.target_id WHERE v.viewer_id = @viewer
+        UNION ALL
+        SELECT j.category, 3 FROM applications a JOIN jobs j ON j.id = a.job_id WHERE a.worker_id = @viewer
+      )
+      GROUP BY category
+    `).all({ viewer: viewerId }) as { category: string; weight: number }[];
+    for (const { category, weight } of activity) {
+      if (signals.categories.has(category)) continue;
+      signals.categories.set(category, { interest: ACTIVITY_MAX_INTEREST * Math.min(1, weight / ACTIVITY_SATURATION), source: "activity" });
+    }
+
+    const skills = this.db.prepare("SELECT lower(name) FROM user_skills WHERE user_id = ?").pluck().all(viewerId) as string[];
+    const titles = this.db
+      .prepare("SELECT title FROM jobs WHERE employer_id = ? ORDER BY created_at DESC LIMIT 10")
+      .pluck()
+      .all(viewerId) as string[];
+    const keywords = titles.flatMap((title) => title.toLowerCase().match(/\p{L}+/gu) ?? []).filter((word) => word.length >= MIN_KEYWORD_LENGTH);
+    signals.terms = [...new Set([...skills, ...keywords])];
+
+    // People: worked together, applied to or invited, or looked at their profile
+    const people = this.db.prepare(`
+      SELECT other, MAX(affinity) AS affinity, kind FROM (
+        SELECT j.employer_id AS other, CASE WHEN a.status IN ('hired', 'completed') THEN 1 ELSE 0.6 END AS affinity,
+          CASE WHEN a.status IN ('hired', 'completed') THEN 'worked' ELSE 'applied' END AS kind
+        FROM applications a JOIN jobs j ON j.id = a.job_id WHERE a.worker_id = @viewer
+        UNION ALL
+        SELECT a.worker_id, CASE WHEN a.status IN ('hired', 'completed') THEN 1 ELSE 0.6 END,
+          CASE WHEN a.status IN ('hired', 'completed') THEN 'worked' ELSE 'invited' END
+        FROM applications a JOIN jobs j ON j.id = a.job_id WHERE j.employer_id = @viewer
+        UNION ALL
+        SELECT target_id, 0.4, 'viewed' FROM views WHERE viewer_id = @viewer AND target_type = 'user'
+      )
+      GROUP BY other
+    `).all({ viewer: viewerId }) as { other: string; affinity: number; kind: "worked" | "applied" | "invited" | "viewed" }[];
+    const personReasons = {
+      worked: "You've worked with {name} before",
+      applied: "You've applied to {name}'s jobs before",
+      invited: "You've invited {name} to a job before",
+      viewed: "You looked at {name}'s profile",
+    };
+    for (const { other, affinity, kind } of people) {
+      if (other !== viewerId) signals.people.set(other, { affinity, reason: personReasons[kind] });
+    }
+
+    const viewed = this.db
+      .prepare("SELECT target_type, target_id FROM views WHERE viewer_id = ? AND target_type != 'user'")
+      .all(viewerId) as { target_type: ViewTarget; target_id: string }[];
+    for (const { target_type, target_id } of viewed) {
+      signals.items.set(`${target_type}:${target_id}`, { affinity: 0.5, reason: "You looked at this before" });
+    }
+
+    return signals;
+  }
+}
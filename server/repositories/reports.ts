@@ -0,0 +1,107 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+import { refreshReputation } from "../reviews";
+import { REPORT_HIDE_THRESHOLD, type ReportAction, type ReportReason, type ReportTarget } from "../moderation";
+
+export interface NewReport {
+  // null for reports raised automatically
+  reporterId: string | null;
+  targetType: ReportTarget;
+  targetId: string;
+  reason: ReportReason;
+  details: string | null;
+}
+
+// Reports against posts, jobs and users, reviews hidden by flags, and the moderation queue they make up
+export class ReportRepository {
+  constructor(private db: Database.Database) {}
+
+  hasReported(reporterId: string, targetType: ReportTarget, targetId: string): boolean {
+    return !!this.db
+      .prepare("SELECT 1 FROM reports WHERE reporter_id = ? AND target_type = ? AND target_id = ?")
+      .get(reporterId, targetType, targetId);
+  }
+
+  // Enough distinct user reports hide a post or job pending review
+  create(report: NewReport): string {
+    const id = newId("report");
+    this.db.transaction(() => {
+      this.db
+        .prepare("INSERT INTO reports (id, reporter_id, target_type, target_id, reason, details) VALUES (?, ?, ?, ?, ?, ?)")
+        .run(id, report.reporterId, report.targetType, report.targetId, report.reason, report.details);
+      if ((report.targetType === "post" || report.targetType === "job") && report.reporterId) {
+        this.db
+          .prepare(`UPDATE ${report.targetType}s SET report_count = report_count + 1, hidden = CASE WHEN report_count + 1 >= ? THEN 1 ELSE hidden END WHERE id = ?`)
+          .run(REPORT_HIDE_THRESHOLD, report.targetId);
+      }
+    })();
+    return id;
+  }
+
+  // Open reports grouped by what they're about, most reported first
+  queue(limit = 100) {
+    return this.db.prepare(`
+      SELECT r.target_type, r.target_id, COUNT(*) AS report_count, group_concat(DISTINCT r.reason) AS reasons,
+        MIN(r.created_at) AS first_reported_at, MAX(r.created_at) AS last_reported_at,
+        CASE r.target_type WHEN 'post' THEN p.title WHEN 'job' THEN j.title WHEN 'review' THEN 'Review of ' || reviewee.name ELSE u.name END AS target_label,
+        p.hidden AS post_hidden, j.hidden AS job_hidden
+      FROM reports r
+      LEFT JOIN posts p ON r.target_type = 'post' AND p.id = r.target_id
+      LEFT JOIN jobs j ON r.target_type = 'job' AND j.id = r.target_id
+      LEFT JOIN users u ON r.target_type = 'user' AND u.id = r.target_id
+      LEFT JOIN reviews rv ON r.target_type = 'review' AND rv.id = r.target_id
+      LEFT JOIN users reviewee ON reviewee.id = rv.reviewee_id
+      WHERE r.status = 'open'
+      GROUP BY r.target_type, r.target_id
+      ORDER BY report_count DESC, first_reported_at ASC
+      LIMIT ?
+    `).all(limit) as {
+      target_type: ReportTarget;
+      target_id: string;
+      report_count: number;
+      reasons: string;
+      first_reported_at: string;
+      last_reported_at: string;
+      target_label: string | null;
+      post_hidden: number | null;
+      job_hidden: number | null;
+    }[];
+  }
+
+  // The individual open reports against one target, oldest first
+  listFor(targetType: ReportTarget, targetId: string) {
+    return this.db.prepare(`
+      SELECT r.id, r.reporter_id, u.name AS reporter_name, r.reason, r.details, r.created_at
+      FROM reports r LEFT JOIN users u ON u.id = r.reporter_id
+      WHERE r.target_type = ? AND r.target_id = ? AND r.status = 'open'
+      ORDER BY r.created_at, r.id
+    `).all(targetType, targetId);
+  }
+
+  /**
+   * Closes every open report against the target. Dismissing un-hides a post, job or review and
+   * resets its count; upholding keeps it hidden, or for a user hides all of their posts and
+   * jobs. Returns how many reports were closed.
+   */
+  resolve(targetType: ReportTarget, targetId: string, action: ReportAction, resolvedBy: string | null = null): number {
+    return this.db.transaction(() => {
+      const { changes } = this.db
+        .prepare("UPDATE reports SET status = ?, resolved_at = CURRENT_TIMESTAMP, resolved_by = ? WHERE target_type = ? AND target_id = ? AND status = 'open'")
+        .run(action === "dismiss" ? "dismissed" : "upheld", resolvedBy, targetType, targetId);
+      if (targetType === "post" || targetType === "job") {
+        if (action === "dismiss") this.db.prepare(`UPDATE ${targetType}s SET hidden = 0, report_count = 0 WHERE id = ?`).run(targetId);
+        else this.db.prepare(`UPDATE ${targetType}s SET hidden = 1 WHERE id = ?`).run(targetId);
+      } else if (targetType === "review") {
+        // Past flaggers stay recorded, so only new ones can hide it again
+        const review = this.db
+          .prepare(`UPDATE reviews SET ${action === "dismiss" ? "hidden = 0, flag_count = 0" : "hidden = 1"} WHERE id = ? RETURNING reviewee_id`)
+          .get(targetId) as { reviewee_id: string } | undefined;
+        if (review) refreshReputation(this.db, review.reviewee_id);
+      } else if (action === "uphold") {
+        this.db.prepare("UPDATE posts SET hidden = 1 WHERE user_id = ?").run(targetId);
+        this.db.prepare("UPDATE jobs SET hidden = 1 WHERE employer_id = ?").run(targetId);
+      }
+      return changes;
+    })();
+  }
+}
@@ -0,0 +1,99 @@
+import type Database from "better-sqlite3";
+import { newId } from "../auth";
+import { FLAG_HIDE_THRESHOLD, refreshReputation } from "../reviews";
+
+export interface NewReview {
+  applicationId: string;
+  reviewerId: string;
+  revieweeId: string;
+  rating: number;
+  body: string | null;
+}
+
+// Reviews left after completed engagements, the flags raised against them and the reputation they add up to
+export class ReviewRepository {
+  constructor(private db: Database.Database) {}
+
+  find(id: string) {
+    return this.db.prepare("SELECT id, reviewer_id, reviewee_id FROM reviews WHERE id = ?").get(id) as
+      | { id: string; reviewer_id: string; reviewee_id: string }
+      | undefined;
+  }
+
+  hasReviewed(applicationId: string, reviewerId: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM reviews WHERE application_id = ? AND reviewer_id = ?").get(applicationId, reviewerId);
+  }
+
+  // Stores the review and recomputes the reviewee's score; returns the stored row
+  create(review: NewReview) {
+    const id = newId("review");
+    this.db.transaction(() => {
+      this.db.prepare("INSERT INTO reviews (id, application_id, reviewer_id, reviewee_id, rating, body) VALUES (?, ?, ?, ?, ?, ?)").run(
+        id,
+        review.applicationId,
+        review.reviewerId,
+        review.revieweeId,
+        review.rating,
+        review.body
+      );
+      refreshReputation(this.db, review.revieweeId);
+    })();
+    return this.db.prepare("SELECT * FROM reviews WHERE id = ?").get(id);
+  }
+
+  reputation(userId: string) {
+    return this.db
+      .prepare("SELECT review_count, rating_avg, rating_weighted, rating_trend FROM reputation WHERE user_id = ?")
+      .get(userId) ?? { review_count: 0, rating_avg: null, rating_weighted: null, rating_trend: null };
+  }
+
+  // Reviews about a user that haven't been hidden by flags, newest first
+  listFor(userId: string) {
+    return this.db.prepare(`
+      SELECT r.id, r.reviewer_id, u.name AS reviewer_name, j.title AS job_title, r.rating, r.body, r.created_at
+      FROM reviews r
+      JOIN users u ON u.id = r.reviewer_id
+      JOIN applications a ON a.id = r.application_id
+      JOIN jobs j ON j.id = a.job_id
+      WHERE r.reviewee_id = ? AND r.hidden = 0
+      ORDER BY r.created_at DESC, r.id ASC
+    `).all(userId);
+  }
+
+  // Only the person reviewed and people who've had a confirmed hire with them can flag, so a
+  // handful of fresh accounts can't take a review down
+  canFlag(review: { reviewee_id: string }, userId: string): boolean {
+    if (userId === review.reviewee_id) return true;
+    return !!this.db.prepare(`
+      SELECT 1 FROM applications a JOIN jobs j ON j.id = a.job_id
+      WHERE a.status IN ('hired', 'completed')
+        AND ((a.worker_id = @user AND j.employer_id = @reviewee) OR (j.employer_id = @user AND a.worker_id = @reviewee))
+    `).get({ user: userId, reviewee: review.reviewee_id });
+  }
+
+  hasFlagged(reviewId: string, userId: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM review_flags WHERE review_id = ? AND user_id = ?").get(reviewId, userId);
+  }
+
+  /**
+   * Enough distinct flags hide a review (and drop it from the score) pending moderation.
+   * Returns the reasons given across its flags if this flag was the one that hid it, else null.
+   */
+  flag(review: { id: string; reviewee_id: string }, userId: string, reason: string | null): string[] | null {
+    return this.db.transaction(() => {
+      this.db.prepare("INSERT INTO review_flags (review_id, user_id, reason) VALUES (?, ?, ?)").run(review.id, userId, reason);
+      const { changes } = this.db
+        .prepare("UPDATE reviews SET flag_count = flag_count + 1, hidden = 1 WHERE id = ? AND hidden = 0 AND flag_count + 1 >= ?")
+        .run(review.id, FLAG_HIDE_THRESHOLD);
+      if (!changes) {
+        this.db.prepare("UPDATE reviews SET flag_count = flag_count + 1 WHERE id = ?").run(review.id);
+        return null;
+      }
+      refreshReputation(this.db, review.reviewee_id);
+      return this.db
+        .prepare("SELECT reason FROM review_flags WHERE review_id = ? AND reason IS NOT NULL ORDER BY created_at, rowid")
+        .pluck()
+        .all(review.id) as string[];
+    })();
+  }
+}
@@ -0,0 +1,81 @@
+import type Database from "better-sqlite3";
+import { newId, type SessionUser } from "../auth";
+import type { Availability } from "../presence";
+import type { LocationPrecision } from "../privacy";
+
+export interface NewAccount {
+  name: string;
+  role: SessionUser["role"];
+  email: string;
+  passwordHash: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface AccountChanges {
+  name?: string;
+  role?: SessionUser["role"];
+  availability?: Availability;
+  location_precision?: LocationPrecision;
+  lat?: number;
+  lng?: number;
+}
+
+// Accounts and their credentials
+export class UserRepository {
+  constructor(private db: Database.Database) {}
+
+  // The signed-in user's own view of their account
+  account(id: string) {
+    return this.db.prepare(`
+      SELECT u.id, u.name, u.role, u.availability, u.location_precision, u.lat, u.lng, u.last_active, u.is_admin, pr.avatar_url
+      FROM users u LEFT JOIN profiles pr ON pr.user_id = u.id
+      WHERE u.id = ?
+    `).get(id);
+  }
+
+  exists(id: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM users WHERE id = ?").get(id);
+  }
+
+  isWorker(id: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM users WHERE id = ? AND role = 'worker'").get(id);
+  }
+
+  emailTaken(email: string): boolean {
+    return !!this.db.prepare("SELECT 1 FROM credentials WHERE email = ?").get(email);
+  }
+
+  credentials(email: string) {
+    return this.db.prepare(`
+      SELECT c.user_id, c.password_hash, u.suspended_at FROM credentials c JOIN users u ON u.id = c.user_id WHERE c.email = ?
+    `).get(email) as { user_id: string; password_hash: string | null; suspended_at: string | null } | undefined;
+  }
+
+  create(account: NewAccount): string {
+    const id = newId("user");
+    this.db.transaction(() => {
+      this.db.prepare("INSERT INTO users (id, name, role, lat, lng, created_at) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)").run(id, account.name, account.role, account.lat, account.lng);
+      this.db.prepare("INSERT INTO credentials (user_id, email, password_hash) VALUES (?, ?, ?)").run(id, account.email, account.passwordHash);
+    })();
+    return id;
+  }
+
+  // Applies the given fields and counts as activity
+  update(id: string, changes: AccountChanges) {
+    const { name, role, availability, location_precision, lat, lng } = changes;
+    this.db.prepare(`
+      UPDATE users SET
+        name = COALESCE(?, name), role = COALESCE(?, role), availability = COALESCE(?, availability),
+        location_precision = COALESCE(?, location_precision),
+        lat = COALESCE(?, lat), lng = COALESCE(?, lng), last_active = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(name ?? null, role ?? null, availability ?? null, location_precision ?? null, lat ?? null, lng ?? null, id);
+  }
+
+  // Presence heartbeat: marks the user active and optionally moves them
+  touch(id: string, position: { lat?: number; lng?: number }) {
+    this.db.prepare("UPDATE users SET lat = COALESCE(?, lat), lng = COALESCE(?, lng), last_active = CURRENT_TIMESTAMP WHERE id = ?")
+      .run(position.lat ?? null, position.lng ?? null, id);
+  }
+}
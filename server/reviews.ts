@@ -0,0 +1,97 @@
+import type Database from "better-sqlite3";
+
+// Reviews flagged by this many different users are hidden until a moderator clears them
+export const FLAG_HIDE_THRESHOLD = 3;
+
+// A review loses half its weight in the score every HALF_LIFE_DAYS
+const HALF_LIFE_DAYS = 180;
+// Scores start from PRIOR_WEIGHT imaginary reviews of PRIOR_MEAN, so one 5-star review
+// doesn't outrank a long record of 4.8s
+const PRIOR_MEAN = 3.5;
+const PRIOR_WEIGHT = 2;
+// Trend compares the average over the last TREND_WINDOW_DAYS with everything before it
+const TREND_WINDOW_DAYS = 90;
+const TREND_THRESHOLD = 0.3;
+// Decay and the trend window move with the clock, so stored scores are recomputed once
+// they're this old even when no review has changed
+const REPUTATION_MAX_AGE_HOURS = 24;
+export const REPUTATION_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RatingTrend = "up" | "down" | "steady";
+
+export interface Reputation {
+  review_count: number;
+  rating_avg: number | null;
+  rating_weighted: number | null;
+  rating_trend: RatingTrend | null;
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+
+export function computeReputation(reviews: { rating: number; age_days: number }[]): Reputation {
+  if (reviews.length === 0) return { review_count: 0, rating_avg: null, rating_weighted: null, rating_trend: null };
+
+  let weightedSum = PRIOR_MEAN * PRIOR_WEIGHT;
+  let weightTotal = PRIOR_WEIGHT;
+  for (const { rating, age_days } of reviews) {
+    const weight = 0.5 ** (Math.max(0, age_days) / HALF_LIFE_DAYS);
+    weightedSum += rating * weight;
+    weightTotal += weight;
+  }
+
+  const recent = mean(reviews.filter((r) => r.age_days <= TREND_WINDOW_DAYS).map((r) => r.rating));
+  const earlier = mean(reviews.filter((r) => r.age_days > TREND_WINDOW_DAYS).map((r) => r.rating));
+  let trend: RatingTrend | null = null;
+  if (recent !== null && earlier !== null) {
+    trend = recent - earlier >= TREND_THRESHOLD ? "up" : earlier - recent >= TREND_THRESHOLD ? "down" : "steady";
+  }
+
+  return {
+    review_count: reviews.length,
+    rating_avg: Math.round(mean(reviews.map((r) => r.rating))! * 100) / 100,
+    rating_weighted: Math.round((weightedSum / weightTotal) * 100) / 100,
+    rating_trend: trend,
+  };
+}
+
+// Recomputes and stores a user's reputation from their visible reviews
+export function refreshReputation(db: Database.Database, userId: string): Reputation {
+  const reviews = db
+    .prepare("SELECT rating, julianday('now') - julianday(created_at) AS age_days FROM reviews WHERE reviewee_id = ? AND hidden = 0")
+    .all(userId) as { rating: number; age_days: number }[];
+  const reputation = computeReputation(reviews);
+  db.prepare(`
+    INSERT INTO reputation (user_id, review_count, rating_avg, rating_weighted, rating_trend, updated_at)
+    VALUES (@user_id, @review_count, @rating_avg, @rating_weighted, @rating_trend, CURRENT_TIMESTAMP)
+    ON CONFLICT(user_id) DO UPDATE SET
+      review_count = excluded.review_count, rating_avg = excluded.rating_avg, rating_weighted = excluded.rating_weighted,
+      rating_trend = excluded.rating_trend, updated_at = excluded.updated_at
+  `).run({ user_id: userId, ...reputation });
+  return reputation;
+}
+
+// Recomputes every stored reputation older than REPUTATION_MAX_AGE_HOURS; returns how many were
+export function refreshStaleReputations(db: Database.Database): number {
+  const stale = db
+    .prepare(`SELECT user_id FROM reputation WHERE updated_at <= datetime('now', '-${REPUTATION_MAX_AGE_HOURS} hours')`)
+    .pluck()
+    .all() as string[];
+  db.transaction(() => {
+    for (const userId of stale) refreshReputation(db, userId);
+  })();
+  return stale.length;
+}
+
+// Runs the refresh now and then every `intervalMs` without keeping the process alive
+export function startReputationSweeper(db: Database.Database, intervalMs = REPUTATION_SWEEP_INTERVAL_MS): NodeJS.Timeout {
+  const sweep = () => {
+    try {
+      const refreshed = refreshStaleReputations(db);
+      if (refreshed > 0) console.log(`[reviews] refreshed ${refreshed} reputation(s)`);
+    } catch (err) {
+      console.error("[reviews] reputation sweep failed", err);
+    }
+  };
+  sweep();
+  return setInterval(sweep, intervalMs).unref();
+}
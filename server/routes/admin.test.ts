@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { coarsen } from "../privacy";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const origin = "lat=51.5074&lng=-0.1278";
+const garden = { title: "Garden tidy", description: "Weeding and hedge trimming this weekend.", category: "Manual Labor", lat: 51.5074, lng: -0.1278 };
+
+describe("admin routes", () => {
+  let t: TestApp;
+  let admin: TestUser;
+  let worker: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    admin = await t.register("employer", { name: "Ada Admin" });
+    t.db.prepare("UPDATE users SET is_admin = 1 WHERE id = ?").run(admin.id);
+    worker = await t.register("worker", { name: "Wendy" });
+  });
+  afterEach(() => t.close());
+
+  it("is closed to everyone else", async () => {
+    expect((await worker.get("/api/admin/users")).status).toBe(403);
+    expect((await t.anonymous.get("/api/admin/reports")).status).toBe(401);
+  });
+
+  it("finds accounts and suspends them, hiding their posts", async () => {
+    await worker.post("/api/posts", garden);
+    const found = await admin.get("/api/admin/users?q=wendy");
+    expect(found.body.items.map((u: any) => [u.id, u.email])).toEqual([[worker.id, worker.email]]);
+
+    expect((await admin.post(`/api/admin/users/${worker.id}/suspend`, { reason: "Scam reports" })).status).toBe(200);
+    expect((await t.anonymous.get(`/api/posts/nearby?${origin}`)).body.items).toEqual([]);
+    expect((await t.anonymous.post("/api/auth/login", { email: worker.email, password: t.password })).status).toBe(403);
+
+    expect((await admin.post(`/api/admin/users/${worker.id}/unsuspend`)).status).toBe(200);
+    expect((await t.anonymous.get(`/api/posts/nearby?${origin}`)).body.items).toHaveLength(1);
+  });
+
+  it("won't suspend itself or another admin", async () => {
+    expect((await admin.post(`/api/admin/users/${admin.id}/suspend`, {})).status).toBe(400);
+    const other = await t.register("employer");
+    t.db.prepare("UPDATE users SET is_admin = 1 WHERE id = ?").run(other.id);
+    expect((await admin.post(`/api/admin/users/${other.id}/suspend`, {})).status).toBe(403);
+  });
+
+  it("works through the report queue", async () => {
+    const { id } = (await worker.post("/api/posts", garden)).body;
+    const reporters = [await t.register("worker"), await t.register("worker"), await t.register("worker")];
+    for (const reporter of reporters) await reporter.post(`/api/posts/${id}/reports`, { reason: "fake" });
+    // Three reports hide the post until someone looks at it
+    expect((await t.anonymous.get(`/api/posts/nearby?${origin}`)).body.items).toEqual([]);
+
+    const queue = await admin.get("/api/admin/reports");
+    expect(queue.body.items).toEqual([expect.objectContaining({ target_type: "post", target_id: id, report_count: 3, post_hidden: 1 })]);
+
+    const dismissed = await admin.post(`/api/admin/reports/post/${id}/resolve`, { action: "dismiss" });
+    expect(dismissed.body).toEqual({ success: true, resolved: 3 });
+    expect((await admin.get("/api/admin/reports")).body.items).toEqual([]);
+    expect((await t.anonymous.get(`/api/posts/nearby?${origin}`)).body.items).toHaveLength(1);
+    expect((await admin.post(`/api/admin/reports/post/${id}/resolve`, { action: "dismiss" })).status).toBe(404);
+
+    expect((await admin.delete(`/api/admin/posts/${id}`)).status).toBe(200);
+    expect((await worker.get("/api/posts/mine")).body).toEqual([]);
+  });
+
+  it("queues held jobs next to posts and users", async () => {
+    const job = { title: "Shop help", description: "Earn extra with passive income, visit www.example-deals.xyz", category: "General", pay_rate: 12, pay_type: "hourly", headcount: 1, lat: 51.5074, lng: -0.1278 };
+    const { id } = (await admin.post("/api/jobs", job)).body;
+    await admin.post(`/api/users/${worker.id}/reports`, { reason: "fake" });
+
+    const queue = (await admin.get("/api/admin/reports")).body.items;
+    expect(queue).toContainEqual(expect.objectContaining({ target_type: "job", target_id: id, target_label: "Shop help", job_hidden: 1, reasons: "spam" }));
+    expect(queue).toContainEqual(expect.objectContaining({ target_type: "user", target_id: worker.id, target_label: "Wendy" }));
+    const [held] = (await admin.get(`/api/admin/reports/job/${id}`)).body.items;
+    expect(held.details).toMatch(/^Held by the spam filter: /);
+
+    expect((await admin.post(`/api/admin/reports/job/${id}/resolve`, { action: "uphold" })).body.resolved).toBe(1);
+    expect((await admin.get("/api/admin/reports")).body.items.map((item: any) => item.target_type)).toEqual(["user"]);
+    expect((await worker.get(`/api/jobs/${id}`)).status).toBe(404);
+  });
+
+  it("reports marketplace metrics", async () => {
+    await worker.post("/api/users/me/heartbeat", { lat: 51.5074, lng: -0.1278 });
+    await worker.post("/api/posts", garden);
+
+    const signups = (await admin.get("/api/admin/metrics/signups?days=7")).body.items;
+    expect(signups).toHaveLength(7);
+    expect(signups.at(-1)).toMatchObject({ workers: 1, employers: 1 });
+
+    const areas = (await admin.get("/api/admin/metrics/active-workers?cell_km=5")).body.items;
+    // Cells line up with the "neighbourhood" grid workers' positions are shown on
+    expect(areas).toEqual([{ ...coarsen(51.5074, -0.1278, "neighbourhood"), workers: 1, available_now: 1, label: expect.any(String) }]);
+
+    const categories = (await admin.get("/api/admin/metrics/categories")).body.items;
+    expect(categories).toContainEqual(expect.objectContaining({ category: "Manual Labor", posts: 1, live_posts: 1 }));
+    expect((await admin.get("/api/admin/metrics/fill-rates")).status).toBe(200);
+  });
+});
@@ -0,0 +1,109 @@
+import express from "express";
+import { requireAdmin } from "../auth";
+import { asyncHandler, badRequest, forbidden, notFound, parse } from "../errors";
+import { formatPoint } from "../geocode";
+import type { ReportTarget } from "../moderation";
+import {
+  AdminPostQuery,
+  AdminUserQuery,
+  AreaMetricsQuery,
+  MetricsQuery,
+  ReportTargetParams,
+  ResolveReportBody,
+  SuspendBody,
+} from "../schemas";
+import type { AppContext } from "../app";
+
+// The admin panel: account and post lookup, suspensions, the report queue and marketplace metrics
+export function adminRoutes(ctx: AppContext): express.Router {
+  const { repos, geocoder } = ctx;
+  const router = express.Router();
+  router.use("/admin", requireAdmin);
+
+  router.get("/admin/users", (req, res) => {
+    const { q, limit } = parse(AdminUserQuery, req.query);
+    res.json({ items: repos.admin.searchUsers(q, limit) });
+  });
+
+  router.post("/admin/users/:id/suspend", (req, res) => {
+    const { reason } = parse(SuspendBody, req.body);
+    const user = repos.admin.find(req.params.id);
+    if (!user) throw notFound("User not found");
+    if (user.id === req.user!.id) throw badRequest("You can't suspend your own account");
+    if (user.is_admin) throw forbidden("Revoke admin access before suspending this account");
+    repos.admin.suspend(user.id, reason);
+    res.json({ success: true });
+  });
+
+  router.post("/admin/users/:id/unsuspend", (req, res) => {
+    if (!repos.admin.find(req.params.id)) throw notFound("User not found");
+    repos.admin.unsuspend(req.params.id);
+    res.json({ success: true });
+  });
+
+  router.get("/admin/posts", (req, res) => {
+    res.json({ items: repos.admin.searchPosts(parse(AdminPostQuery, req.query)) });
+  });
+
+  // Removing a post closes its open reports as upheld
+  router.delete("/admin/posts/:id", (req, res) => {
+    if (!repos.posts.ownership(req.params.id)) throw notFound("Post not found");
+    repos.reports.resolve("post", req.params.id, "uphold", req.user!.id);
+    repos.posts.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  // Posts and jobs as saved-search alerts see them; the other report targets aren't listings
+  const listingFor = (type: ReportTarget, id: string) =>
+    type === "post" ? repos.posts.forAlerts(id) : type === "job" ? repos.jobs.forAlerts(id) : undefined;
+
+  router.get("/admin/reports", (_req, res) => {
+    res.json({ items: repos.reports.queue() });
+  });
+
+  router.get("/admin/reports/:type/:id", (req, res) => {
+    const { type, id } = parse(ReportTargetParams, req.params);
+    res.json({ items: repos.reports.listFor(type, id) });
+  });
+
+  router.post("/admin/reports/:type/:id/resolve", (req, res) => {
+    const { type, id } = parse(ReportTargetParams, req.params);
+    const { action } = parse(ResolveReportBody, req.body);
+    const held = listingFor(type, id)?.hidden;
+    const resolved = repos.reports.resolve(type, id, action, req.user!.id);
+    if (!resolved) throw notFound("No open reports for that target");
+    // A listing released from moderation goes out to saved searches as if it had just been posted
+    if (held && action === "dismiss") {
+      const released = listingFor(type, id);
+      if (released?.live) ctx.notifySavedSearches({ ...released, table: type === "post" ? "posts" : "jobs" });
+    }
+    res.json({ success: true, resolved });
+  });
+
+  router.get("/admin/metrics/signups", (req, res) => {
+    const { days } = parse(MetricsQuery, req.query);
+    res.json({ items: repos.admin.signupsPerDay(days) });
+  });
+
+  // Grid cells are labelled with the nearest known place
+  router.get("/admin/metrics/active-workers", asyncHandler(async (req, res) => {
+    const { days, cell_km } = parse(AreaMetricsQuery, req.query);
+    const cells = repos.admin.activeWorkersByArea(days, cell_km);
+    const items = await Promise.all(cells.map(async (cell) => {
+      const place = await geocoder.reverse(cell.lat, cell.lng);
+      return { ...cell, label: place?.label ?? formatPoint(cell.lat, cell.lng) };
+    }));
+    res.json({ items });
+  }));
+
+  router.get("/admin/metrics/categories", (_req, res) => {
+    res.json({ items: repos.admin.categories() });
+  });
+
+  router.get("/admin/metrics/fill-rates", (req, res) => {
+    const { days } = parse(MetricsQuery, req.query);
+    res.json(repos.admin.fillRates(days));
+  });
+
+  return router;
+}
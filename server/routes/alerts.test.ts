@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const subscription = {
+  endpoint: "https://fcm.googleapis.com/fcm/send/abc:APA91b",
+  keys: { p256dh: "BNcRdreALRFXTkOOUHK1EtK2wtaz5Ry4YfYCA_0QTpQtUbVlUls0VJXg7A8u-Ts1XbjhazAkj7I99e8QcYP7DkM", auth: "tBHItJI5svbpez7KI4CCXg" },
+};
+
+describe("alert routes", () => {
+  let t: TestApp;
+  let employer: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    employer = await t.register("employer");
+  });
+  afterEach(() => t.close());
+
+  it("pushes new matches for a saved search to the subscribed browser", async () => {
+    expect((await employer.post("/api/push/subscriptions", subscription)).status).toBe(201);
+    expect((await employer.post("/api/saved-searches", { target: "posts", categories: ["Cleaning"], radius: 10, lat: 51.5074, lng: -0.1278 })).status).toBe(201);
+
+    const worker = await t.register("worker");
+    await worker.post("/api/posts", { title: "Deep clean and ironing", description: "Weekends only, own supplies.", category: "Cleaning", lat: 51.51, lng: -0.13 });
+
+    expect(t.pushes).toEqual([{ target: { endpoint: subscription.endpoint, p256dh: subscription.keys.p256dh, auth: subscription.keys.auth }, payload: expect.objectContaining({ body: "Deep clean and ironing" }) }]);
+    expect((await employer.get("/api/notifications")).body.unread).toBe(1);
+  });
+
+  it("alerts on a held post once a moderator releases it, and only once", async () => {
+    await employer.post("/api/saved-searches", { target: "posts", categories: ["Cleaning"], radius: 10, lat: 51.5074, lng: -0.1278 });
+    const worker = await t.register("worker");
+    const held = await worker.post("/api/posts", { title: "Cleaning work", description: "Earn extra with passive income, visit www.example-deals.xyz", category: "Cleaning", lat: 51.51, lng: -0.13 });
+    expect(held.body.held).toBe(true);
+    expect((await employer.get("/api/notifications")).body.unread).toBe(0);
+
+    const admin = await t.register("employer");
+    t.db.prepare("UPDATE users SET is_admin = 1 WHERE id = ?").run(admin.id);
+    await admin.post(`/api/admin/reports/post/${held.body.id}/resolve`, { action: "dismiss" });
+    const { items, unread } = (await employer.get("/api/notifications")).body;
+    expect(unread).toBe(1);
+    expect(items[0]).toMatchObject({ type: "search_match", body: "Cleaning work", data: { listing_id: held.body.id } });
+
+    // Held again on an edit and released again: nothing new to tell
+    await worker.patch(`/api/posts/${held.body.id}`, { description: "Passive income, see www.example-deals.xyz" });
+    expect((await admin.post(`/api/admin/reports/post/${held.body.id}/resolve`, { action: "dismiss" })).body.resolved).toBe(1);
+    expect((await employer.get("/api/notifications")).body.unread).toBe(1);
+  });
+
+  it("only takes subscriptions on a browser push service", async () => {
+    for (const endpoint of ["http://fcm.googleapis.com/fcm/send/abc", "https://169.254.169.254/latest/meta-data/", "https://internal.example/hook"]) {
+      const res = await employer.post("/api/push/subscriptions", { ...subscription, endpoint });
+      expect(res.status).toBe(400);
+      expect(res.body.fields).toHaveProperty("endpoint");
+    }
+    expect(t.db.prepare("SELECT COUNT(*) FROM push_subscriptions").pluck().get()).toBe(0);
+  });
+});
@@ -0,0 +1,63 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { conflict, notFound, parse } from "../errors";
+import { MAX_SAVED_SEARCHES } from "../alerts";
+import { MarkReadBody, PushSubscriptionBody, PushUnsubscribeBody, SavedSearchBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Saved searches, the notification inbox they fill and the Web Push subscriptions that mirror it
+export function alertRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+
+  // Saved searches: new posts and jobs that match one notify its owner
+  router.get("/saved-searches", requireAuth, (req, res) => {
+    res.json(repos.savedSearches.listFor(req.user!.id));
+  });
+
+  router.post("/saved-searches", requireAuth, (req, res) => {
+    const { name, target, q, categories, radius, lat, lng } = parse(SavedSearchBody, req.body);
+    if (repos.savedSearches.countFor(req.user!.id) >= MAX_SAVED_SEARCHES) throw conflict(`You can save at most ${MAX_SAVED_SEARCHES} searches`);
+
+    const label = name ?? (q || categories.join(", ") || (target === "jobs" ? "Jobs nearby" : "Workers nearby"));
+    const id = repos.savedSearches.create(req.user!.id, { name: label, target, q, categories, radius, lat, lng });
+    res.status(201).json(repos.savedSearches.find(id));
+  });
+
+  router.delete("/saved-searches/:id", requireAuth, (req, res) => {
+    const search = repos.savedSearches.find(req.params.id);
+    if (!search || search.user_id !== req.user!.id) throw notFound("Saved search not found");
+    repos.savedSearches.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  // Notification inbox, newest first
+  router.get("/notifications", requireAuth, (req, res) => {
+    res.json({ items: repos.notifications.listFor(req.user!.id), unread: repos.notifications.unreadCount(req.user!.id) });
+  });
+
+  // Marks the given notifications (or all of them) as read
+  router.post("/notifications/read", requireAuth, (req, res) => {
+    const { ids } = parse(MarkReadBody, req.body ?? {});
+    repos.notifications.markRead(req.user!.id, ids);
+    res.json({ success: true });
+  });
+
+  // Web Push: the client subscribes with the server's VAPID public key and registers the subscription here
+  router.get("/push/public-key", (_req, res) => {
+    res.json({ publicKey: ctx.pushSender.publicKey });
+  });
+
+  router.post("/push/subscriptions", requireAuth, (req, res) => {
+    repos.pushSubscriptions.save(req.user!.id, parse(PushSubscriptionBody, req.body));
+    res.status(201).json({ success: true });
+  });
+
+  router.delete("/push/subscriptions", requireAuth, (req, res) => {
+    const { endpoint } = parse(PushUnsubscribeBody, req.body);
+    repos.pushSubscriptions.delete(req.user!.id, endpoint);
+    res.json({ success: true });
+  });
+
+  return router;
+}
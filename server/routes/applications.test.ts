@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const job = { title: "Bar staff", category: "General", pay_rate: 12, pay_type: "hourly", headcount: 1, lat: 51.5074, lng: -0.1278 };
+
+describe("application routes", () => {
+  let t: TestApp;
+  let employer: TestUser;
+  let worker: TestUser;
+  let jobId: string;
+  beforeEach(async () => {
+    t = await startTestApp();
+    employer = await t.register("employer");
+    worker = await t.register("worker");
+    jobId = (await employer.post("/api/jobs", job)).body.id;
+  });
+  afterEach(() => t.close());
+
+  it("takes a worker from application to hire and completion, then a review each way", async () => {
+    const applied = await worker.post(`/api/jobs/${jobId}/applications`, { note: "Free all week" });
+    expect(applied.status).toBe(201);
+    expect(applied.body).toMatchObject({ status: "applied", next_statuses: ["withdrawn"] });
+    const id = applied.body.id;
+
+    const listed = await employer.get("/api/applications");
+    expect(listed.body.map((a: any) => [a.id, a.next_statuses])).toEqual([[id, ["shortlisted", "rejected"]]]);
+
+    for (const status of ["shortlisted", "hired", "completed"]) {
+      expect((await employer.patch(`/api/applications/${id}`, { status })).body.status).toBe(status);
+    }
+
+    expect((await worker.post(`/api/applications/${id}/reviews`, { rating: 5, body: "Great to work for" })).status).toBe(201);
+    expect((await employer.post(`/api/applications/${id}/reviews`, { rating: 4 })).status).toBe(201);
+    expect((await employer.post(`/api/applications/${id}/reviews`, { rating: 4 })).status).toBe(409);
+    expect((await t.anonymous.get(`/api/users/${worker.id}/reviews`)).body.reputation).toMatchObject({ review_count: 1, rating_avg: 4 });
+  });
+
+  it("refuses duplicate applications and moves out of turn", async () => {
+    const { id } = (await worker.post(`/api/jobs/${jobId}/applications`, {})).body;
+    expect((await worker.post(`/api/jobs/${jobId}/applications`, {})).status).toBe(409);
+
+    const selfHire = await worker.patch(`/api/applications/${id}`, { status: "shortlisted" });
+    expect(selfHire.status).toBe(403);
+    const skip = await employer.patch(`/api/applications/${id}`, { status: "completed" });
+    expect(skip.status).toBe(409);
+    expect(skip.body.code).toBe("invalid_transition");
+
+    const stranger = await t.register("employer");
+    expect((await stranger.patch(`/api/applications/${id}`, { status: "rejected" })).status).toBe(404);
+  });
+
+  it("stops hiring once the headcount is filled", async () => {
+    const second = await t.register("worker");
+    const ids: string[] = [];
+    for (const applicant of [worker, second]) {
+      const { id } = (await applicant.post(`/api/jobs/${jobId}/applications`, {})).body;
+      await employer.patch(`/api/applications/${id}`, { status: "shortlisted" });
+      ids.push(id);
+    }
+    expect((await employer.patch(`/api/applications/${ids[0]}`, { status: "hired" })).status).toBe(200);
+    expect((await employer.patch(`/api/applications/${ids[1]}`, { status: "hired" })).status).toBe(409);
+  });
+
+  it("lets employers invite workers to their own jobs", async () => {
+    const invited = await employer.post(`/api/jobs/${jobId}/invitations`, { workerId: worker.id });
+    expect(invited.status).toBe(201);
+    expect((await worker.get("/api/applications")).body[0]).toMatchObject({ status: "invited", next_statuses: ["shortlisted", "withdrawn"] });
+
+    const rival = await t.register("employer");
+    expect((await rival.post(`/api/jobs/${jobId}/invitations`, { workerId: worker.id })).status).toBe(403);
+    expect((await employer.post(`/api/jobs/${jobId}/invitations`, { workerId: rival.id })).status).toBe(404);
+  });
+});
@@ -0,0 +1,71 @@
+import express from "express";
+import { requireAuth, requireRole } from "../auth";
+import { HttpError, conflict, forbidden, notFound, parse } from "../errors";
+import { checkTransition, nextStatuses, type Party } from "../applications";
+import type { ApplicationRow } from "../repositories/applications";
+import { ApplicationBody, InvitationBody, TransitionBody } from "../schemas";
+import type { AppContext } from "../app";
+
+export function applicationRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+
+  // Attaches the moves the viewing party may make next, so the client doesn't duplicate the rules,
+  // and whether they've already reviewed the other side
+  const withActions = (row: ApplicationRow, party: Party) => ({
+    ...row,
+    next_statuses: nextStatuses(row.status, party),
+    reviewed: repos.reviews.hasReviewed(row.id, party === "worker" ? row.worker_id : row.employer_id),
+  });
+
+  router.post("/jobs/:id/applications", requireRole("worker"), (req, res) => {
+    const { note } = parse(ApplicationBody, req.body);
+    const job = repos.jobs.ownership(req.params.id);
+    if (!job || job.hidden) throw notFound("Job not found");
+    if (!job.live) throw conflict("This job isn't taking applications");
+    if (repos.applications.exists(req.params.id, req.user!.id)) throw conflict("You've already applied to this job");
+
+    const id = repos.applications.create(req.params.id, req.user!.id, "applied", note ?? null);
+    res.status(201).json(withActions(repos.applications.find(id)!, "worker"));
+  });
+
+  router.post("/jobs/:id/invitations", requireRole("employer"), (req, res) => {
+    const { workerId, note } = parse(InvitationBody, req.body);
+    const job = repos.jobs.ownership(req.params.id);
+    if (!job) throw notFound("Job not found");
+    if (job.employer_id !== req.user!.id) throw forbidden("You can only invite workers to your own jobs");
+    if (!job.live) throw conflict("This job isn't taking applications");
+    if (!repos.users.isWorker(workerId)) throw notFound("Worker not found");
+    if (repos.applications.exists(req.params.id, workerId)) throw conflict("This worker is already linked to that job");
+
+    const id = repos.applications.create(req.params.id, workerId, "invited", note ?? null);
+    res.status(201).json(withActions(repos.applications.find(id)!, "employer"));
+  });
+
+  // Workers see their own applications; employers see applicants across their jobs
+  router.get("/applications", requireAuth, (req, res) => {
+    const party = req.user!.role;
+    res.json(repos.applications.listFor(req.user!.id, party).map((row) => withActions(row, party)));
+  });
+
+  router.patch("/applications/:id", requireAuth, (req, res) => {
+    const { status: to } = parse(TransitionBody, req.body);
+    const application = repos.applications.find(req.params.id);
+    const party: Party | null =
+      application?.worker_id === req.user!.id ? "worker" : application?.employer_id === req.user!.id ? "employer" : null;
+    if (!application || !party) throw notFound("Application not found");
+
+    const denied = checkTransition(application.status, to, party);
+    if (denied) throw new HttpError(denied.status, denied.status === 409 ? "invalid_transition" : "forbidden", denied.error);
+
+    if (to === "hired") {
+      const { headcount, hired } = repos.jobs.staffing(application.job_id);
+      if (hired >= headcount) throw conflict("All positions for this job are filled");
+    }
+
+    repos.applications.setStatus(application.id, to);
+    res.json(withActions(repos.applications.find(application.id)!, party));
+  });
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { assistantUnavailable } from "../assistant";
+import { startTestApp, type TestApp } from "../testing";
+
+const notes = { notes: "Hi, I can do deep clean and ironing, weekends in Hackney." };
+
+describe("assistant routes", () => {
+  let t: TestApp;
+  afterEach(() => t.close());
+
+  it("suggests a post from notes without saving anything", async () => {
+    t = await startTestApp();
+    const worker = await t.register("worker");
+
+    const res = await worker.post("/api/assistant/post", notes);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ title: "Deep clean and ironing", category: "Cleaning" });
+    expect((await worker.get("/api/posts/mine")).body).toEqual([]);
+  });
+
+  it("needs a signed-in user and some notes", async () => {
+    t = await startTestApp();
+    expect((await t.anonymous.post("/api/assistant/post", notes)).status).toBe(401);
+    const worker = await t.register("worker");
+    const res = await worker.post("/api/assistant/post", { notes: "  hi  " });
+    expect(res.status).toBe(400);
+    expect(res.body.fields).toHaveProperty("notes");
+  });
+
+  it("limits suggestions per user", async () => {
+    t = await startTestApp({ rateLimits: { assistant: { capacity: 2, perHour: 1 } } });
+    const worker = await t.register("worker");
+    const other = await t.register("worker");
+
+    expect((await worker.post("/api/assistant/post", notes)).status).toBe(200);
+    expect((await worker.post("/api/assistant/post", notes)).status).toBe(200);
+    const limited = await worker.post("/api/assistant/post", notes);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toMatch(/^\d+$/);
+    // Someone else on the same network still has their own allowance
+    expect((await other.post("/api/assistant/post", notes)).status).toBe(200);
+  });
+
+  it("passes on a 502 when the assistant fails", async () => {
+    t = await startTestApp({ assistant: { suggestPost: async () => Promise.reject(assistantUnavailable()) } });
+    const worker = await t.register("worker");
+    const res = await worker.post("/api/assistant/post", notes);
+    expect(res.status).toBe(502);
+    expect(res.body.code).toBe("assistant_unavailable");
+  });
+});
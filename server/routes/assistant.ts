@@ -0,0 +1,19 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { asyncHandler, parse } from "../errors";
+import { byUser, rateLimiter } from "../ratelimit";
+import { PostAssistBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Writing help for listings. Suggestions are only returned, never saved; the client posts as usual.
+export function assistantRoutes(ctx: AppContext): express.Router {
+  const router = express.Router();
+  const limitSuggestions = rateLimiter(ctx.rateLimits.assistant, byUser, "You've asked for a lot of suggestions; try again later");
+
+  router.post("/assistant/post", requireAuth, limitSuggestions, asyncHandler(async (req, res) => {
+    const { notes } = parse(PostAssistBody, req.body);
+    res.json(await ctx.assistant.suggestPost(notes));
+  }));
+
+  return router;
+}
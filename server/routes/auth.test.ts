@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp } from "../testing";
+
+describe("auth routes", () => {
+  let t: TestApp;
+  beforeEach(async () => {
+    t = await startTestApp();
+  });
+  afterEach(() => t.close());
+
+  it("signs a new account in and reports it from /auth/me", async () => {
+    const worker = await t.register("worker", { name: "Wendy" });
+
+    const me = await worker.get("/api/auth/me");
+    expect(me.status).toBe(200);
+    expect(me.body).toMatchObject({ id: worker.id, name: "Wendy", role: "worker", is_admin: 0 });
+    expect((await t.anonymous.get("/api/auth/me")).status).toBe(401);
+  });
+
+  it("refuses a second account on the same email", async () => {
+    const worker = await t.register("worker");
+    const res = await t.anonymous.post("/api/auth/register", { name: "Again", email: worker.email.toUpperCase(), password: t.password, role: "worker" });
+    expect(res.status).toBe(409);
+    expect(res.body.fields).toEqual({ email: "Already registered" });
+  });
+
+  it("reports every invalid field on sign-up", async () => {
+    const res = await t.anonymous.post("/api/auth/register", { name: "", email: "nope", password: "short", role: "admin", lat: 91 });
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe("validation_error");
+    expect(Object.keys(res.body.fields).sort()).toEqual(["email", "lat", "name", "password", "role"]);
+  });
+
+  it("logs in with a password and out again", async () => {
+    const worker = await t.register("worker");
+    expect((await t.anonymous.post("/api/auth/login", { email: worker.email, password: "wrong password" })).status).toBe(401);
+
+    const login = await t.anonymous.post("/api/auth/login", { email: worker.email, password: t.password });
+    expect(login.status).toBe(200);
+    const session = t.as(login.headers.get("set-cookie")!.split(";")[0]);
+    expect((await session.get("/api/auth/me")).body.id).toBe(worker.id);
+
+    expect((await session.post("/api/auth/logout")).status).toBe(200);
+    expect((await session.get("/api/auth/me")).status).toBe(401);
+  });
+
+  it("sends one-time codes only to known accounts and accepts each code once", async () => {
+    const worker = await t.register("worker");
+    expect((await t.anonymous.post("/api/auth/code", { email: "nobody@example.com" })).status).toBe(200);
+    expect(t.codes).toHaveLength(0);
+
+    await t.anonymous.post("/api/auth/code", { email: worker.email });
+    expect(t.codes).toHaveLength(1);
+    const { code } = t.codes[0];
+
+    const verified = await t.anonymous.post("/api/auth/code/verify", { email: worker.email, code });
+    expect(verified.status).toBe(200);
+    expect(verified.body.id).toBe(worker.id);
+    expect((await t.anonymous.post("/api/auth/code/verify", { email: worker.email, code })).status).toBe(401);
+  });
+
+  it("keeps suspended accounts out", async () => {
+    const worker = await t.register("worker");
+    t.db.prepare("UPDATE users SET suspended_at = CURRENT_TIMESTAMP WHERE id = ?").run(worker.id);
+
+    const res = await t.anonymous.post("/api/auth/login", { email: worker.email, password: t.password });
+    expect(res.status).toBe(403);
+    expect(res.body.code).toBe("account_suspended");
+  });
+
+  it("limits sign-ups per network", async () => {
+    await t.close();
+    t = await startTestApp({ rateLimits: { signup: { capacity: 2, perHour: 1 } } });
+    await t.register("worker");
+    await t.register("worker");
+
+    const res = await t.anonymous.post("/api/auth/register", { name: "Third", email: "third@example.com", password: t.password, role: "worker" });
+    expect(res.status).toBe(429);
+  });
+});
@@ -0,0 +1,83 @@
+import express from "express";
+import {
+  clearSessionCookie,
+  consumeLoginCode,
+  createSession,
+  destroySession,
+  hashPassword,
+  issueLoginCode,
+  readSessionToken,
+  requireAuth,
+  setSessionCookie,
+  verifyPassword,
+} from "../auth";
+import { HttpError, asyncHandler, parse, unauthorized } from "../errors";
+import { byIp, rateLimiter } from "../ratelimit";
+import { CodeRequestBody, CodeVerifyBody, LoginBody, RegisterBody } from "../schemas";
+import type { AppContext } from "../app";
+
+export function authRoutes(ctx: AppContext): express.Router {
+  const { db, repos } = ctx;
+  const router = express.Router();
+  const issueCode = issueLoginCode(db);
+  // Per IP, since there's no user yet
+  const limitSignups = rateLimiter(ctx.rateLimits.signup, byIp, "Too many sign-ups from this network; try again later");
+  const limitLogins = rateLimiter(ctx.rateLimits.login, byIp, "Too many sign-in attempts; try again later");
+
+  const suspended = () => new HttpError(403, "account_suspended", "This account has been suspended. Contact support if you think this is a mistake.");
+
+  const signIn = (res: express.Response, userId: string) => {
+    setSessionCookie(res, createSession(db, userId));
+    res.json(repos.users.account(userId));
+  };
+
+  router.post("/auth/register", limitSignups, (req, res) => {
+    const { name, email, password, role, lat, lng } = parse(RegisterBody, req.body);
+    if (repos.users.emailTaken(email)) {
+      throw new HttpError(409, "conflict", "An account with that email already exists", { email: "Already registered" });
+    }
+    signIn(res, repos.users.create({ name, role, email, passwordHash: hashPassword(password), lat: lat ?? null, lng: lng ?? null }));
+  });
+
+  router.post("/auth/login", limitLogins, (req, res) => {
+    const { email, password } = parse(LoginBody, req.body);
+    const cred = repos.users.credentials(email);
+    if (!cred?.password_hash || !verifyPassword(password, cred.password_hash)) {
+      throw unauthorized("Incorrect email or password");
+    }
+    if (cred.suspended_at) throw suspended();
+    signIn(res, cred.user_id);
+  });
+
+  // One-time code login. Always answers 200 so the route can't be used to probe for accounts.
+  router.post("/auth/code", limitLogins, asyncHandler(async (req, res) => {
+    const { email } = parse(CodeRequestBody, req.body);
+    if (repos.users.emailTaken(email)) {
+      await ctx.codeSender.send(email, issueCode(email));
+    }
+    res.json({ success: true });
+  }));
+
+  router.post("/auth/code/verify", limitLogins, (req, res) => {
+    const { email, code } = parse(CodeVerifyBody, req.body);
+    const cred = repos.users.credentials(email);
+    if (!cred || !consumeLoginCode(db, email, code)) {
+      throw unauthorized("Invalid or expired code");
+    }
+    if (cred.suspended_at) throw suspended();
+    signIn(res, cred.user_id);
+  });
+
+  router.post("/auth/logout", (req, res) => {
+    const token = readSessionToken(req);
+    if (token) destroySession(db, token);
+    clearSessionCookie(res);
+    res.json({ success: true });
+  });
+
+  router.get("/auth/me", requireAuth, (req, res) => {
+    res.json(repos.users.account(req.user!.id));
+  });
+
+  return router;
+}
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const site = { lat: 51.5074, lng: -0.1278 };
+const job = { title: "Stock room help", category: "Manual Labor", pay_rate: 15, pay_type: "hourly", headcount: 2, ...site };
+// ISO time this many minutes from now
+const at = (minutes: number) => new Date(Date.now() + minutes * 60_000).toISOString();
+
+describe("booking routes", () => {
+  let t: TestApp;
+  let employer: TestUser;
+  let worker: TestUser;
+  let applicationId: string;
+
+  // A job of the employer's, numbered so repeats don't read as duplicates
+  let jobs = 0;
+  const postJob = async () => (await employer.post("/api/jobs", { ...job, title: `${job.title} ${++jobs}` })).body.id as string;
+
+  // Takes `applicant` through to a hire on a new job of the employer's
+  const hire = async (applicant: TestUser) => {
+    const jobId = await postJob();
+    const { id } = (await applicant.post(`/api/jobs/${jobId}/applications`, {})).body;
+    await employer.patch(`/api/applications/${id}`, { status: "shortlisted" });
+    await employer.patch(`/api/applications/${id}`, { status: "hired" });
+    return id as string;
+  };
+
+  // A post of the worker's that employers can book straight from
+  const offer = async () =>
+    (await worker.post("/api/posts", { title: "Deep cleaning", description: "Deep cleans, weekends only.", category: "Cleaning", ...site })).body.id as string;
+
+  beforeEach(async () => {
+    t = await startTestApp();
+    jobs = 0;
+    employer = await t.register("employer");
+    worker = await t.register("worker");
+    applicationId = await hire(worker);
+  });
+  afterEach(() => t.close());
+
+  it("books a hired worker at the job's rate and shows it to both sides", async () => {
+    const booked = await employer.post("/api/bookings", { applicationId, shifts: [{ starts_at: at(60), ends_at: at(180) }] });
+    expect(booked.status).toBe(201);
+    expect(booked.body).toMatchObject({ hourly_rate: 15, status: "active", ...site });
+    expect(booked.body.shifts).toHaveLength(1);
+
+    expect((await worker.get("/api/bookings")).body.items.map((b: any) => b.id)).toEqual([booked.body.id]);
+    expect((await employer.post("/api/bookings", { applicationId })).status).toBe(409);
+    const outsider = await t.register("worker");
+    expect((await outsider.get(`/api/bookings/${booked.body.id}`)).status).toBe(404);
+  });
+
+  it("only books hires", async () => {
+    const jobId = await postJob();
+    const { id } = (await worker.post(`/api/jobs/${jobId}/applications`, {})).body;
+    expect((await employer.post("/api/bookings", { applicationId: id })).status).toBe(409);
+    expect((await worker.post("/api/bookings", { applicationId })).status).toBe(403);
+  });
+
+  it("refuses shifts that clash with the worker's other bookings", async () => {
+    await employer.post("/api/bookings", { applicationId, shifts: [{ starts_at: at(60), ends_at: at(180) }] });
+    const second = await hire(worker);
+
+    const clash = await employer.post("/api/bookings", { applicationId: second, shifts: [{ starts_at: at(120), ends_at: at(240) }] });
+    expect(clash.status).toBe(409);
+    expect(clash.body.code).toBe("shift_conflict");
+
+    // Back to back is fine
+    expect((await employer.post("/api/bookings", { applicationId: second, shifts: [{ starts_at: at(180), ends_at: at(240) }] })).status).toBe(201);
+  });
+
+  it("checks the worker in and out on site and approves the timesheet", async () => {
+    const booking = (await employer.post("/api/bookings", { applicationId, shifts: [{ starts_at: at(-10), ends_at: at(110) }] })).body;
+    const shiftId = booking.shifts[0].id;
+
+    const far = await worker.post(`/api/shifts/${shiftId}/check-in`, { lat: site.lat + 0.05, lng: site.lng });
+    expect(far.status).toBe(403);
+    expect(far.body.code).toBe("too_far");
+    expect((await employer.post(`/api/shifts/${shiftId}/check-in`, site)).status).toBe(403);
+    expect((await worker.post(`/api/shifts/${shiftId}/check-in`, site)).status).toBe(200);
+    expect((await employer.post(`/api/bookings/${booking.id}/cancel`)).status).toBe(409);
+
+    // Pretend the two hours have passed
+    t.db.prepare("UPDATE shifts SET starts_at = datetime('now', '-130 minutes'), ends_at = datetime('now', '-10 minutes'), check_in_at = datetime('now', '-130 minutes') WHERE id = ?").run(shiftId);
+    expect((await employer.post(`/api/bookings/${booking.id}/timesheet/approve`)).status).toBe(409);
+    expect((await worker.post(`/api/shifts/${shiftId}/check-out`, site)).status).toBe(200);
+
+    expect((await worker.post(`/api/bookings/${booking.id}/timesheet/approve`)).status).toBe(403);
+    const approved = await employer.post(`/api/bookings/${booking.id}/timesheet/approve`);
+    expect(approved.status).toBe(200);
+    expect(approved.body.timesheet).toMatchObject({ total_minutes: 130, total_amount: 32.5, unfinished: 0 });
+    expect((await employer.post(`/api/bookings/${booking.id}/shifts`, { starts_at: at(60), ends_at: at(120) })).status).toBe(409);
+  });
+
+  it("exports upcoming shifts as iCalendar", async () => {
+    await employer.post("/api/bookings", { applicationId, shifts: [{ starts_at: at(60), ends_at: at(180) }] });
+    const ics = await worker.get("/api/calendar.ics");
+    expect(ics.status).toBe(200);
+    expect(ics.headers.get("content-type")).toMatch(/^text\/calendar/);
+    expect(ics.body).toContain("BEGIN:VEVENT");
+    expect(ics.body).toContain("SUMMARY:Stock room help 1 (Employer 1)");
+  });
+
+  it("holds a booking made from a post until the worker accepts it", async () => {
+    const postId = await offer();
+    const shift = { starts_at: at(-10), ends_at: at(110) };
+    const proposed = await employer.post("/api/bookings", { postId, hourly_rate: 20, shifts: [shift] });
+    expect(proposed.status).toBe(201);
+    expect(proposed.body).toMatchObject({ status: "active", accepted_at: null });
+    const shiftId = proposed.body.shifts[0].id;
+
+    // Until accepted it neither blocks the worker's time nor lets anyone check in
+    expect((await employer.post("/api/bookings", { applicationId, shifts: [shift] })).status).toBe(201);
+    expect((await worker.post(`/api/shifts/${shiftId}/check-in`, site)).status).toBe(409);
+    expect((await worker.get("/api/calendar.ics")).body).not.toContain("Deep cleaning");
+
+    // Accepting checks the shifts against the time the worker has already agreed to
+    const clash = await worker.post(`/api/bookings/${proposed.body.id}/accept`);
+    expect(clash.status).toBe(409);
+    expect(clash.body.code).toBe("shift_conflict");
+    expect((await employer.post(`/api/bookings/${proposed.body.id}/accept`)).status).toBe(403);
+
+    await employer.delete(`/api/shifts/${shiftId}`);
+    await employer.post(`/api/bookings/${proposed.body.id}/shifts`, { starts_at: at(200), ends_at: at(260) });
+    const accepted = await worker.post(`/api/bookings/${proposed.body.id}/accept`);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.accepted_at).toEqual(expect.any(String));
+    expect((await worker.post(`/api/bookings/${proposed.body.id}/accept`)).status).toBe(409);
+    expect((await worker.get("/api/calendar.ics")).body).toContain("Deep cleaning");
+  });
+
+  it("lets the worker turn a proposed booking down", async () => {
+    const postId = await offer();
+    const { id } = (await employer.post("/api/bookings", { postId, hourly_rate: 20, shifts: [{ starts_at: at(60), ends_at: at(120) }] })).body;
+    expect((await worker.post(`/api/bookings/${id}/cancel`)).body.status).toBe("cancelled");
+    expect((await worker.post(`/api/bookings/${id}/accept`)).status).toBe(409);
+  });
+
+  it("doesn't let shifts on a proposed booking overlap each other", async () => {
+    const postId = await offer();
+    const { id } = (await employer.post("/api/bookings", { postId, hourly_rate: 20, shifts: [{ starts_at: at(60), ends_at: at(120) }] })).body;
+    expect((await employer.post(`/api/bookings/${id}/shifts`, { starts_at: at(90), ends_at: at(150) })).status).toBe(409);
+  });
+});
@@ -0,0 +1,241 @@
+import express from "express";
+import { requireAuth, requireRole } from "../auth";
+import { asyncHandler, badRequest, conflict, forbidden, notFound, parse } from "../errors";
+import { haversineKm } from "../geo";
+import { formatPoint } from "../geocode";
+import { toICalendar, type CalendarEvent } from "../calendar";
+import {
+  CHECK_IN_EARLY_MINUTES,
+  CHECK_IN_RADIUS_KM,
+  buildTimesheet,
+  overlaps,
+  shiftConflict,
+  showsPosition,
+  tooFar,
+  type BookingRow,
+} from "../bookings";
+import type { NewBooking, ShiftTimes } from "../repositories/bookings";
+import { BookingBody, CheckInBody, ShiftBody } from "../schemas";
+import { parseDbTime } from "../time";
+import type { AppContext } from "../app";
+
+// Bookings: shifts agreed between an employer and a worker, check-in/out on site, timesheets and a calendar export
+export function bookingRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+
+  // The booking with its shifts and running timesheet, and its position only for those who may see it
+  const present = (booking: BookingRow, viewerId: string) => {
+    const shifts = repos.bookings.shifts(booking.id);
+    const { lat, lng, approved_minutes, approved_amount, ...rest } = booking;
+    return { ...rest, ...(showsPosition(booking, viewerId) ? { lat, lng } : {}), shifts, timesheet: buildTimesheet(booking, shifts) };
+  };
+
+  // Either side of a booking may see it; to anyone else it doesn't exist
+  const loadBooking = (id: string, userId: string) => {
+    const booking = repos.bookings.find(id);
+    if (!booking || (booking.worker_id !== userId && booking.employer_id !== userId)) throw notFound("Booking not found");
+    return booking;
+  };
+
+  const loadShift = (id: string, userId: string) => {
+    const shift = repos.bookings.findShift(id);
+    const booking = shift && repos.bookings.find(shift.booking_id);
+    if (!shift || !booking || (booking.worker_id !== userId && booking.employer_id !== userId)) throw notFound("Shift not found");
+    return { shift, booking };
+  };
+
+  // Cancelled bookings and approved timesheets are closed to further changes
+  const ensureOpen = (booking: BookingRow) => {
+    if (booking.status === "cancelled") throw conflict("This booking was cancelled");
+    if (booking.approved_at) throw conflict("The timesheet for this booking has been approved");
+  };
+
+  // New shifts may not overlap each other, the booking's own shifts, or any live shift on the worker's accepted bookings
+  const checkShifts = (workerId: string, shifts: ShiftTimes[], booked: ShiftTimes[] = []) => {
+    shifts.forEach((shift, i) => {
+      const twin = shifts.slice(0, i).findIndex((earlier) => overlaps(earlier, shift));
+      if (twin >= 0) throw badRequest("Two of the shifts overlap", { [`shifts.${i}.starts_at`]: `Overlaps shift ${twin + 1}` });
+      const clash = booked.find((other) => overlaps(other, shift)) ?? repos.bookings.firstConflict(workerId, shift);
+      if (clash) throw shiftConflict(clash);
+    });
+  };
+
+  // Scheduled shifts on the booking that nobody has turned up for yet
+  const pendingShifts = (booking: BookingRow) =>
+    repos.bookings.shifts(booking.id).filter((shift) => shift.status === "scheduled" && !shift.check_in_at);
+
+  // Where the worker is, from the booking's position, or a 403 if they're too far away to check in or out
+  const distanceOnSite = (booking: BookingRow, body: unknown) => {
+    const { lat, lng } = parse(CheckInBody, body);
+    const distanceKm = haversineKm(lat, lng, booking.lat, booking.lng);
+    if (distanceKm > CHECK_IN_RADIUS_KM) throw tooFar(distanceKm);
+    return Math.round(distanceKm * 1000);
+  };
+
+  router.post("/bookings", requireRole("employer"), (req, res) => {
+    const { applicationId, postId, hourly_rate, shifts } = parse(BookingBody, req.body);
+    const me = req.user!.id;
+
+    let booking: NewBooking;
+    if (applicationId) {
+      const application = repos.applications.find(applicationId);
+      if (!application || application.employer_id !== me) throw notFound("Application not found");
+      if (application.status !== "hired") throw conflict("You can only book a worker once they're hired");
+      if (repos.bookings.forApplication(application.id)) throw conflict("This hire already has a booking");
+      const job = repos.jobs.find(application.job_id)!;
+      const rate = hourly_rate ?? (job.pay_type === "hourly" ? job.pay_rate : null);
+      if (rate == null) throw badRequest("Set an hourly rate for this booking", { hourly_rate: "Required for fixed-price jobs" });
+      booking = {
+        workerId: application.worker_id, employerId: me, listingType: "job", listingId: job.id, applicationId: application.id,
+        title: job.title, lat: job.lat, lng: job.lng, hourlyRate: rate, accepted: true,
+      };
+    } else {
+      const post = repos.posts.bookable(postId!);
+      if (!post) throw notFound("Post not found");
+      if (!post.live) throw conflict("This post is no longer open");
+      if (hourly_rate == null) throw badRequest("Set an hourly rate for this booking", { hourly_rate: "Required when booking from a post" });
+      booking = {
+        workerId: post.user_id, employerId: me, listingType: "post", listingId: postId!, applicationId: null,
+        title: post.title, lat: post.lat, lng: post.lng, hourlyRate: hourly_rate, accepted: false,
+      };
+    }
+
+    checkShifts(booking.workerId, shifts);
+    const id = repos.bookings.create(booking, shifts);
+    res.status(201).json(present(repos.bookings.find(id)!, me));
+  });
+
+  router.get("/bookings", requireAuth, (req, res) => {
+    res.json({ items: repos.bookings.listFor(req.user!.id).map((booking) => present(booking, req.user!.id)) });
+  });
+
+  router.get("/bookings/:id", requireAuth, (req, res) => {
+    res.json(present(loadBooking(req.params.id, req.user!.id), req.user!.id));
+  });
+
+  router.post("/bookings/:id/shifts", requireAuth, (req, res) => {
+    const booking = loadBooking(req.params.id, req.user!.id);
+    if (booking.employer_id !== req.user!.id) throw forbidden("Only the employer can add shifts");
+    ensureOpen(booking);
+    const shift = parse(ShiftBody, req.body);
+    checkShifts(booking.worker_id, [shift], pendingShifts(booking));
+    repos.bookings.addShift(booking.id, shift);
+    res.status(201).json(present(booking, req.user!.id));
+  });
+
+  // The worker agrees to a booking made from their post; until then its shifts don't hold their time.
+  // Turning it down is a cancel.
+  router.post("/bookings/:id/accept", requireRole("worker"), (req, res) => {
+    const booking = loadBooking(req.params.id, req.user!.id);
+    if (booking.worker_id !== req.user!.id) throw notFound("Booking not found");
+    ensureOpen(booking);
+    if (booking.accepted_at) throw conflict("You've already accepted this booking");
+    checkShifts(booking.worker_id, pendingShifts(booking));
+    repos.bookings.accept(booking.id);
+    res.json(present(repos.bookings.find(booking.id)!, req.user!.id));
+  });
+
+  // Either side can call off a booking, though not halfway through a shift
+  router.post("/bookings/:id/cancel", requireAuth, (req, res) => {
+    const booking = loadBooking(req.params.id, req.user!.id);
+    ensureOpen(booking);
+    if (repos.bookings.shifts(booking.id).some((shift) => shift.check_in_at && !shift.check_out_at)) {
+      throw conflict("A shift is under way; check out before cancelling");
+    }
+    repos.bookings.cancel(booking.id);
+    res.json(present(repos.bookings.find(booking.id)!, req.user!.id));
+  });
+
+  // Either side can call off a shift that hasn't been checked into
+  router.delete("/shifts/:id", requireAuth, (req, res) => {
+    const { shift, booking } = loadShift(req.params.id, req.user!.id);
+    ensureOpen(booking);
+    if (shift.status === "cancelled") throw conflict("This shift is already cancelled");
+    if (shift.check_in_at) throw conflict("This shift has already started");
+    repos.bookings.cancelShift(shift.id);
+    res.json(present(booking, req.user!.id));
+  });
+
+  router.post("/shifts/:id/check-in", requireRole("worker"), (req, res) => {
+    const { shift, booking } = loadShift(req.params.id, req.user!.id);
+    if (booking.worker_id !== req.user!.id) throw notFound("Shift not found");
+    ensureOpen(booking);
+    if (!booking.accepted_at) throw conflict("Accept the booking before checking in");
+    if (shift.status === "cancelled") throw conflict("This shift was cancelled");
+    if (shift.check_in_at) throw conflict("You've already checked in to this shift");
+    const now = Date.now();
+    if (now < parseDbTime(shift.starts_at) - CHECK_IN_EARLY_MINUTES * 60_000) {
+      throw conflict(`Check-in opens ${CHECK_IN_EARLY_MINUTES} minutes before the shift starts`);
+    }
+    if (now >= parseDbTime(shift.ends_at)) throw conflict("This shift is already over");
+
+    repos.bookings.checkIn(shift.id, distanceOnSite(booking, req.body));
+    res.json(present(booking, req.user!.id));
+  });
+
+  // Check-out is allowed after the shift's scheduled end, so overruns are recorded
+  router.post("/shifts/:id/check-out", requireRole("worker"), (req, res) => {
+    const { shift, booking } = loadShift(req.params.id, req.user!.id);
+    if (booking.worker_id !== req.user!.id) throw notFound("Shift not found");
+    ensureOpen(booking);
+    if (!shift.check_in_at) throw conflict("Check in to this shift first");
+    if (shift.check_out_at) throw conflict("You've already checked out of this shift");
+
+    repos.bookings.checkOut(shift.id, distanceOnSite(booking, req.body));
+    res.json(present(booking, req.user!.id));
+  });
+
+  router.get("/bookings/:id/timesheet", requireAuth, (req, res) => {
+    const booking = loadBooking(req.params.id, req.user!.id);
+    res.json(buildTimesheet(booking, repos.bookings.shifts(booking.id)));
+  });
+
+  // The employer signs off the worked hours once no shift is under way or still to come; the totals are then fixed
+  router.post("/bookings/:id/timesheet/approve", requireAuth, (req, res) => {
+    const booking = loadBooking(req.params.id, req.user!.id);
+    if (booking.employer_id !== req.user!.id) throw forbidden("Only the employer can approve the timesheet");
+    if (booking.approved_at) throw conflict("This timesheet is already approved");
+    const timesheet = buildTimesheet(booking, repos.bookings.shifts(booking.id));
+    if (timesheet.unfinished > 0) throw conflict("Some shifts are still under way or yet to come");
+    if (timesheet.total_minutes === 0) throw conflict("There's no worked time to approve");
+
+    repos.bookings.approve(booking.id, timesheet.total_minutes, timesheet.total_amount);
+    res.json(present(repos.bookings.find(booking.id)!, req.user!.id));
+  });
+
+  // Upcoming shifts on either side's accepted bookings as an iCalendar file; shifts called off stay in as cancelled so re-imports drop them
+  router.get("/calendar.ics", requireAuth, asyncHandler(async (req, res) => {
+    const me = req.user!.id;
+    const now = Date.now();
+    const events: CalendarEvent[] = [];
+    for (const booking of repos.bookings.listFor(me)) {
+      if (!booking.accepted_at) continue;
+      const upcoming = repos.bookings.shifts(booking.id).filter((shift) => parseDbTime(shift.ends_at) > now);
+      if (upcoming.length === 0) continue;
+
+      const other = booking.worker_id === me ? booking.employer_name : booking.worker_name;
+      const shown = showsPosition(booking, me);
+      const place = shown ? await ctx.geocoder.reverse(booking.lat, booking.lng) : null;
+      for (const shift of upcoming) {
+        events.push({
+          uid: `${shift.id}@worknearby`,
+          start: shift.starts_at,
+          end: shift.ends_at,
+          summary: `${booking.title} (${other})`,
+          description: `Booked with ${other} at $${booking.hourly_rate.toFixed(2)}/hr`,
+          location: shown ? (place?.label ?? formatPoint(booking.lat, booking.lng)) : undefined,
+          geo: shown ? { lat: booking.lat, lng: booking.lng } : undefined,
+          cancelled: shift.status === "cancelled",
+        });
+      }
+    }
+    events.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+
+    res.set("Content-Type", "text/calendar; charset=utf-8");
+    res.set("Content-Disposition", 'attachment; filename="worknearby-shifts.ics"');
+    res.send(toICalendar("WorkNearby shifts", events));
+  }));
+
+  return router;
+}
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { sweepExpiredJobs } from "../jobs";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const stockRoom = {
+  title: "Stock room help",
+  description: "Unpacking deliveries and restocking shelves.",
+  category: "Manual Labor",
+  pay_rate: 14,
+  pay_type: "hourly",
+  headcount: 1,
+  lat: 51.5074,
+  lng: -0.1278,
+};
+
+describe("job routes", () => {
+  let t: TestApp;
+  let employer: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    employer = await t.register("employer");
+  });
+  afterEach(() => t.close());
+
+  it("creates a job and shows it to anyone", async () => {
+    const created = await employer.post("/api/jobs", stockRoom);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ title: stockRoom.title, employer_id: employer.id, pay_rate: 14 });
+
+    expect((await t.anonymous.get(`/api/jobs/${created.body.id}`)).body.title).toBe(stockRoom.title);
+    expect((await employer.get("/api/jobs/mine")).body.map((job: any) => job.id)).toEqual([created.body.id]);
+    expect((await t.anonymous.get("/api/jobs/nearby?lat=51.5&lng=-0.12")).body.items).toHaveLength(1);
+  });
+
+  it("is for employers only", async () => {
+    const worker = await t.register("worker");
+    expect((await worker.post("/api/jobs", stockRoom)).status).toBe(403);
+    expect((await t.anonymous.post("/api/jobs", stockRoom)).status).toBe(401);
+  });
+
+  it("rejects spam", async () => {
+    const res = await employer.post("/api/jobs", { ...stockRoom, description: "Guaranteed income from crypto and forex, click here: http://a.com http://b.com" });
+    expect(res.status).toBe(422);
+  });
+
+  it("holds borderline spam for review and refuses copies", async () => {
+    const held = await employer.post("/api/jobs", { ...stockRoom, title: "Shop help", description: "Earn extra with passive income, visit www.example-deals.xyz" });
+    expect(held.status).toBe(201);
+    expect(held.body.hidden).toBe(1);
+    const worker = await t.register("worker");
+    expect((await t.anonymous.get(`/api/jobs/${held.body.id}`)).status).toBe(404);
+    expect((await worker.post(`/api/jobs/${held.body.id}/applications`, {})).status).toBe(404);
+    expect((await employer.get(`/api/jobs/${held.body.id}`)).body.hidden).toBe(1);
+
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    expect((await t.anonymous.get("/api/jobs/nearby?lat=51.5&lng=-0.12")).body.items.map((job: any) => job.id)).toEqual([id]);
+    const copy = await (await t.register("employer")).post("/api/jobs", { ...stockRoom, pay_rate: 15 });
+    expect(copy.status).toBe(409);
+    expect(copy.body.code).toBe("duplicate_post");
+  });
+
+  it("hides a job reported by enough people until a moderator looks at it", async () => {
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    expect((await employer.post(`/api/jobs/${id}/reports`, { reason: "fake" })).status).toBe(403);
+    for (let i = 0; i < 3; i++) {
+      expect((await (await t.register("worker")).post(`/api/jobs/${id}/reports`, { reason: "scam" })).status).toBe(201);
+    }
+    expect((await t.anonymous.get("/api/jobs/nearby?lat=51.5&lng=-0.12")).body.items).toEqual([]);
+
+    const admin = await t.register("employer");
+    t.db.prepare("UPDATE users SET is_admin = 1 WHERE id = ?").run(admin.id);
+    expect((await admin.post(`/api/admin/reports/job/${id}/resolve`, { action: "dismiss" })).body.resolved).toBe(3);
+    expect((await t.anonymous.get("/api/jobs/nearby?lat=51.5&lng=-0.12")).body.items).toHaveLength(1);
+  });
+
+  it("screens edited text like a new job", async () => {
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    const res = await employer.patch(`/api/jobs/${id}`, { description: "Guaranteed income from crypto and forex, click here: http://a.com http://b.com" });
+    expect(res.status).toBe(422);
+    expect(res.body.code).toBe("spam_detected");
+    expect((await t.anonymous.get(`/api/jobs/${id}`)).body.description).toBe(stockRoom.description);
+    expect((await employer.patch(`/api/jobs/${id}`, { title: "Stock room and tills" })).status).toBe(200);
+  });
+
+  it("lets only the owner edit or delete a job", async () => {
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    const rival = await t.register("employer");
+    expect((await rival.patch(`/api/jobs/${id}`, { pay_rate: 1 })).status).toBe(403);
+    expect((await rival.delete(`/api/jobs/${id}`)).status).toBe(403);
+
+    const edited = await employer.patch(`/api/jobs/${id}`, { pay_rate: 16.5 });
+    expect(edited.status).toBe(200);
+    expect(edited.body.pay_rate).toBe(16.5);
+
+    expect((await employer.delete(`/api/jobs/${id}`)).status).toBe(200);
+    expect((await t.anonymous.get(`/api/jobs/${id}`)).status).toBe(404);
+  });
+
+  it("keeps a job on record once someone has been hired", async () => {
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    const worker = await t.register("worker");
+    const other = await t.register("worker");
+    const hire = (await worker.post(`/api/jobs/${id}/applications`, {})).body.id;
+    await other.post(`/api/jobs/${id}/applications`, {});
+    for (const status of ["shortlisted", "hired", "completed"]) await employer.patch(`/api/applications/${hire}`, { status });
+    await worker.post(`/api/applications/${hire}/reviews`, { rating: 5 });
+
+    const refused = await employer.delete(`/api/jobs/${id}`);
+    expect(refused.status).toBe(409);
+    expect(refused.body.code).toBe("conflict");
+    expect((await t.anonymous.get(`/api/jobs/${id}`)).status).toBe(200);
+    expect((await employer.get("/api/applications")).body).toHaveLength(2);
+  });
+
+  it("takes open applications with it when deleted", async () => {
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    const worker = await t.register("worker");
+    await worker.post(`/api/jobs/${id}/applications`, {});
+    expect((await employer.delete(`/api/jobs/${id}`)).status).toBe(200);
+    expect((await worker.get("/api/applications")).body).toEqual([]);
+  });
+
+  it("won't drop the headcount below the workers already hired", async () => {
+    const { id } = (await employer.post("/api/jobs", { ...stockRoom, headcount: 2 })).body;
+    for (const worker of [await t.register("worker"), await t.register("worker")]) {
+      const application = (await worker.post(`/api/jobs/${id}/applications`, {})).body.id;
+      for (const status of ["shortlisted", "hired"]) await employer.patch(`/api/applications/${application}`, { status });
+    }
+    const refused = await employer.patch(`/api/jobs/${id}`, { headcount: 1 });
+    expect(refused.status).toBe(400);
+    expect(refused.body.fields).toHaveProperty("headcount");
+    expect((await employer.patch(`/api/jobs/${id}`, { headcount: 3 })).body.headcount).toBe(3);
+  });
+
+  it("stops showing and taking applications once filled, closed or expired", async () => {
+    const { id } = (await employer.post("/api/jobs", stockRoom)).body;
+    const worker = await t.register("worker");
+    const nearby = async () => (await t.anonymous.get("/api/jobs/nearby?lat=51.5&lng=-0.12")).body.items.map((job: any) => job.id);
+
+    expect((await employer.patch(`/api/jobs/${id}`, { status: "closed" })).body.status).toBe("closed");
+    expect(await nearby()).toEqual([]);
+    const refused = await worker.post(`/api/jobs/${id}/applications`, {});
+    expect(refused.status).toBe(409);
+    expect((await employer.patch(`/api/jobs/${id}`, { status: "open" })).body.status).toBe("open");
+    expect(await nearby()).toEqual([id]);
+
+    // Past its expiry it drops out straight away, and the sweeper marks it expired
+    t.db.prepare("UPDATE jobs SET expires_at = datetime('now', '-1 day') WHERE id = ?").run(id);
+    expect(await nearby()).toEqual([]);
+    expect(sweepExpiredJobs(t.db)).toBe(1);
+    expect((await employer.get(`/api/jobs/${id}`)).body.status).toBe("expired");
+
+    const reopened = await employer.patch(`/api/jobs/${id}`, { status: "open" });
+    expect(reopened.status).toBe(400);
+    expect(reopened.body.fields).toHaveProperty("expires_at");
+    const expiresAt = new Date(Date.now() + 7 * 86_400_000).toISOString();
+    expect((await employer.patch(`/api/jobs/${id}`, { status: "open", expires_at: expiresAt })).body.status).toBe("open");
+    expect((await worker.post(`/api/jobs/${id}/applications`, {})).status).toBe(201);
+  });
+});
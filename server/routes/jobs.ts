@@ -0,0 +1,101 @@
+import express from "express";
+import { requireRole } from "../auth";
+import { badRequest, conflict, forbidden, notFound, parse } from "../errors";
+import { byIp, byUser, rateLimiter } from "../ratelimit";
+import { SPAM_HOLD_SCORE, SPAM_REJECT_SCORE, duplicateRejected, findNearDuplicate, spamRejected, spamScore, type SpamVerdict } from "../spam";
+import { JobBody, JobPatchBody } from "../schemas";
+import { NEARBY_SOURCES, nearbyRoute, type NearbyJob } from "./nearby";
+import type { AppContext } from "../app";
+
+// Jobs: screened for spam and duplicates like posts, hidden when held or reported enough, and
+// open until the employer marks them filled or closed, or they pass their expiry
+export function jobRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+  const message = "You're posting too quickly; try again later";
+  const limitPerUser = rateLimiter(ctx.rateLimits.listing, byUser, message);
+  const limitPerIp = rateLimiter(ctx.rateLimits.listingPerIp, byIp, message);
+
+  const loadOwnJob = (id: string, userId: string, action: string) => {
+    const job = repos.jobs.ownership(id);
+    if (!job) throw notFound("Job not found");
+    if (job.employer_id !== userId) throw forbidden(`You can only ${action} your own jobs`);
+    return job;
+  };
+
+  // Spammy text is refused outright or held for review, the same as posts
+  const screen = (text: { title: string; description?: string | null }) => {
+    const verdict = spamScore({ title: text.title, description: text.description ?? "" });
+    if (verdict.score >= SPAM_REJECT_SCORE) throw spamRejected();
+    return verdict.score >= SPAM_HOLD_SCORE ? verdict : null;
+  };
+
+  const queueHeld = (jobId: string, verdict: SpamVerdict) => {
+    repos.reports.create({ reporterId: null, targetType: "job", targetId: jobId, reason: "spam", details: `Held by the spam filter: ${verdict.reasons.join("; ")}` });
+  };
+
+  router.post("/jobs", requireRole("employer"), limitPerUser, limitPerIp, (req, res) => {
+    const job = parse(JobBody, req.body);
+    const employerId = req.user!.id;
+    const text = { title: job.title, description: job.description ?? "" };
+    if (findNearDuplicate(text, repos.jobs.duplicateCandidates(employerId, job))) throw duplicateRejected();
+    const held = screen(job);
+
+    const id = repos.jobs.create(employerId, job, !!held);
+    if (held) queueHeld(id, held);
+    else ctx.notifySavedSearches({ table: "jobs", id, owner_id: employerId, title: job.title, category: job.category, lat: job.lat, lng: job.lng });
+    res.status(201).json(repos.jobs.find(id));
+  });
+
+  router.get("/jobs/mine", requireRole("employer"), (req, res) => {
+    res.json(repos.jobs.listByEmployer(req.user!.id));
+  });
+
+  router.get("/jobs/nearby", nearbyRoute<NearbyJob>(ctx, NEARBY_SOURCES.jobs, (job) => job.employer_id));
+
+  // Hidden jobs are only there for their employer
+  router.get("/jobs/:id", (req, res) => {
+    const job = repos.jobs.find(req.params.id);
+    if (!job || (job.hidden && job.employer_id !== req.user?.id)) throw notFound("Job not found");
+    res.json(ctx.showLocations(req.user?.id)(job, job.employer_id));
+  });
+
+  router.patch("/jobs/:id", requireRole("employer"), (req, res) => {
+    const job = loadOwnJob(req.params.id, req.user!.id, "edit");
+    const changes = parse(JobPatchBody, req.body);
+    if (changes.status === "open" && changes.expires_at === undefined && job.past_expiry) {
+      throw badRequest("Set a new expiry date to reopen this job", { expires_at: "Set a new expiry date to reopen this job" });
+    }
+    if (changes.headcount !== undefined) {
+      const { hired } = repos.jobs.staffing(req.params.id);
+      if (changes.headcount < hired) {
+        const message = `${hired} worker${hired === 1 ? " is" : "s are"} already hired, so headcount can't go below ${hired}`;
+        throw badRequest(message, { headcount: message });
+      }
+    }
+    // Edited text goes through the same duplicate check and screening as new jobs
+    let held: SpamVerdict | null = null;
+    if (changes.title !== undefined || changes.description !== undefined) {
+      const text = { title: changes.title ?? job.title, description: (changes.description !== undefined ? changes.description : job.description) ?? "" };
+      const at = { lat: changes.lat ?? job.lat, lng: changes.lng ?? job.lng };
+      if (findNearDuplicate(text, repos.jobs.duplicateCandidates(req.user!.id, at, req.params.id))) throw duplicateRejected();
+      held = screen(text);
+    }
+    repos.jobs.update(req.params.id, changes);
+    if (held) {
+      repos.jobs.hide(req.params.id);
+      queueHeld(req.params.id, held);
+    }
+    res.json(repos.jobs.find(req.params.id));
+  });
+
+  router.delete("/jobs/:id", requireRole("employer"), (req, res) => {
+    loadOwnJob(req.params.id, req.user!.id, "delete");
+    // Hires carry bookings, timesheets and reviews, so the job has to stay on record
+    if (repos.jobs.staffing(req.params.id).hired > 0) throw conflict("Jobs with hired workers can't be deleted");
+    repos.jobs.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MAX_SAVED_LOCATIONS } from "../geocode";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+describe("location routes", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+  });
+  afterEach(() => t.close());
+
+  describe("geocoding", () => {
+    it("finds places by name and postcode without signing in", async () => {
+      const city = await t.anonymous.get("/api/geocode?q=manchester&limit=1");
+      expect(city.status).toBe(200);
+      expect(city.body.items).toEqual([{ name: "Manchester", label: "Manchester, England, GB", kind: "city", lat: 53.4808, lng: -2.2426 }]);
+
+      // Full postcodes resolve to their area
+      const postcode = await t.anonymous.get(`/api/geocode?q=${encodeURIComponent("M1 1AE")}`);
+      expect(postcode.body.items[0]).toMatchObject({ kind: "postcode", name: "M", lat: 53.48, lng: -2.24 });
+    });
+
+    it("finds nothing for an unknown postcode or place", async () => {
+      expect((await t.anonymous.get(`/api/geocode?q=${encodeURIComponent("ZZ9 9ZZ")}`)).body.items).toEqual([]);
+      expect((await t.anonymous.get("/api/geocode?q=Atlantis")).body.items).toEqual([]);
+    });
+
+    it("validates the query", async () => {
+      expect((await t.anonymous.get("/api/geocode?q=%20%20")).body.fields).toHaveProperty("q");
+      expect((await t.anonymous.get("/api/geocode?q=London&limit=50")).body.fields).toHaveProperty("limit");
+    });
+
+    it("names a point after the nearest place, or by its coordinates far from any", async () => {
+      const near = await t.anonymous.get("/api/geocode/reverse?lat=51.54&lng=-0.143");
+      expect(near.body.place).toMatchObject({ name: "Near Camden Town", kind: "point", lat: 51.54, lng: -0.143 });
+
+      const ocean = await t.anonymous.get("/api/geocode/reverse?lat=-40&lng=-30");
+      expect(ocean.body.place).toEqual({ name: "-40.0000, -30.0000", label: "-40.0000, -30.0000", kind: "point", lat: -40, lng: -30 });
+    });
+
+    it("refuses coordinates out of range", async () => {
+      const res = await t.anonymous.get("/api/geocode/reverse?lat=91&lng=-181");
+      expect(res.status).toBe(400);
+      expect(Object.keys(res.body.fields).sort()).toEqual(["lat", "lng"]);
+    });
+  });
+
+  describe("saved locations", () => {
+    const home = { name: "Home", label: "Camden Town, London, GB", lat: 51.539, lng: -0.1426 };
+
+    it("saves, lists and deletes a user's own places", async () => {
+      const saved = await worker.post("/api/locations", home);
+      expect(saved.status).toBe(201);
+      expect(saved.body).toMatchObject(home);
+      expect((await worker.get("/api/locations")).body.map((l: { id: string }) => l.id)).toEqual([saved.body.id]);
+
+      const other = await t.register("worker");
+      expect((await other.get("/api/locations")).body).toEqual([]);
+      expect((await other.delete(`/api/locations/${saved.body.id}`)).status).toBe(404);
+      expect((await worker.delete(`/api/locations/${saved.body.id}`)).status).toBe(200);
+      expect((await worker.get("/api/locations")).body).toEqual([]);
+      expect((await t.anonymous.get("/api/locations")).status).toBe(401);
+    });
+
+    it("updates a place saved again under the same name", async () => {
+      const first = await worker.post("/api/locations", home);
+      const moved = await worker.post("/api/locations", { ...home, label: null, lat: 51.5, lng: -0.1 });
+      expect(moved.body).toMatchObject({ id: first.body.id, label: null, lat: 51.5, lng: -0.1 });
+      expect((await worker.get("/api/locations")).body).toHaveLength(1);
+    });
+
+    it("limits how many places are kept and checks the fields", async () => {
+      for (let i = 0; i < MAX_SAVED_LOCATIONS; i++) await worker.post("/api/locations", { ...home, name: `Place ${i}` });
+      expect((await worker.post("/api/locations", { ...home, name: "One more" })).status).toBe(409);
+      // Saving over an existing name doesn't add one
+      expect((await worker.post("/api/locations", { ...home, name: "Place 0" })).status).toBe(201);
+
+      const bad = await worker.post("/api/locations", { name: "", lat: 100, lng: 0 });
+      expect(Object.keys(bad.body.fields).sort()).toEqual(["lat", "name"]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { asyncHandler, conflict, notFound, parse } from "../errors";
+import { MAX_SAVED_LOCATIONS, formatPoint } from "../geocode";
+import { GeocodeQuery, ReverseGeocodeQuery, SavedLocationBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Address lookup for people without GPS, and the named places they search around
+export function locationRoutes(ctx: AppContext): express.Router {
+  const { repos, geocoder } = ctx;
+  const router = express.Router();
+
+  // Public, so the location can be set before signing up
+  router.get("/geocode", asyncHandler(async (req, res) => {
+    const { q, limit } = parse(GeocodeQuery, req.query);
+    res.json({ items: await geocoder.search(q, limit) });
+  }));
+
+  // Names a point picked on the map; falls back to its coordinates away from every known place
+  router.get("/geocode/reverse", asyncHandler(async (req, res) => {
+    const { lat, lng } = parse(ReverseGeocodeQuery, req.query);
+    const place = await geocoder.reverse(lat, lng);
+    res.json({ place: place ?? { name: formatPoint(lat, lng), label: formatPoint(lat, lng), kind: "point", lat, lng } });
+  }));
+
+  router.get("/locations", requireAuth, (req, res) => {
+    res.json(repos.locations.listFor(req.user!.id));
+  });
+
+  router.post("/locations", requireAuth, (req, res) => {
+    const location = parse(SavedLocationBody, req.body);
+    const userId = req.user!.id;
+    if (!repos.locations.hasName(userId, location.name) && repos.locations.countFor(userId) >= MAX_SAVED_LOCATIONS) {
+      throw conflict(`You can save at most ${MAX_SAVED_LOCATIONS} locations`);
+    }
+    const id = repos.locations.save(userId, location);
+    res.status(201).json(repos.locations.find(id));
+  });
+
+  router.delete("/locations/:id", requireAuth, (req, res) => {
+    const location = repos.locations.find(req.params.id);
+    if (!location || location.user_id !== req.user!.id) throw notFound("Location not found");
+    repos.locations.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventHub } from "../events";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+// Keeps what was published so tests can check who was told what
+class RecordingHub extends EventHub {
+  published: { userId: string; event: string; data: any }[] = [];
+
+  publish(userId: string, event: string, data: unknown) {
+    this.published.push({ userId, event, data });
+    super.publish(userId, event, data);
+  }
+}
+
+describe("messaging routes", () => {
+  let t: TestApp;
+  let events: RecordingHub;
+  let worker: TestUser;
+  let employer: TestUser;
+  beforeEach(async () => {
+    events = new RecordingHub();
+    t = await startTestApp({ events });
+    worker = await t.register("worker");
+    employer = await t.register("employer");
+  });
+  afterEach(() => t.close());
+
+  it("opens one thread per pair of users", async () => {
+    const opened = await employer.post("/api/conversations", { userId: worker.id });
+    expect(opened.status).toBe(200);
+    expect(opened.body.other_user_id).toBe(worker.id);
+
+    const reopened = await worker.post("/api/conversations", { userId: employer.id });
+    expect(reopened.body.id).toBe(opened.body.id);
+    expect((await worker.post("/api/conversations", { userId: worker.id })).status).toBe(400);
+    expect((await worker.post("/api/conversations", { userId: "user_missing" })).status).toBe(404);
+  });
+
+  it("delivers messages to both sides and tracks reads", async () => {
+    const { id } = (await employer.post("/api/conversations", { userId: worker.id })).body;
+    const sent = await employer.post(`/api/conversations/${id}/messages`, { body: "Can you start Monday?" });
+    expect(sent.status).toBe(201);
+    expect(events.published.map(({ userId, event }) => [userId, event])).toEqual([
+      [worker.id, "chat.message"],
+      [employer.id, "chat.message"],
+    ]);
+
+    expect((await worker.get(`/api/conversations/${id}/messages`)).body.map((m: any) => m.body)).toEqual(["Can you start Monday?"]);
+    expect((await worker.get("/api/conversations")).body[0].unread_count).toBe(1);
+
+    events.published = [];
+    await worker.post(`/api/conversations/${id}/read`);
+    expect((await worker.get("/api/conversations")).body[0].unread_count).toBe(0);
+    expect(events.published.find((e) => e.userId === employer.id)).toMatchObject({ event: "chat.read", data: { reader_id: worker.id } });
+
+    // Nothing new to read, so nobody is told again
+    events.published = [];
+    await worker.post(`/api/conversations/${id}/read`);
+    expect(events.published).toEqual([]);
+  });
+
+  it("hides threads from everyone else", async () => {
+    const { id } = (await employer.post("/api/conversations", { userId: worker.id })).body;
+    const outsider = await t.register("worker");
+    expect((await outsider.get(`/api/conversations/${id}/messages`)).status).toBe(404);
+    expect((await outsider.post(`/api/conversations/${id}/messages`, { body: "Hello" })).status).toBe(404);
+    expect((await t.anonymous.get("/api/conversations")).status).toBe(401);
+  });
+
+  it("streams a user's events to them and nobody else", async () => {
+    const { id } = (await employer.post("/api/conversations", { userId: worker.id })).body;
+    const stream = await fetch(`${t.url}/api/events`, { headers: { Cookie: worker.cookie } });
+    expect(stream.status).toBe(200);
+    expect(stream.headers.get("content-type")).toBe("text/event-stream");
+
+    const reader = stream.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let received = "";
+    // Reads until the stream has carried `text`
+    const readUntil = async (text: string) => {
+      while (!received.includes(text)) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error(`The stream ended before "${text}"`);
+        received += value;
+      }
+    };
+    await readUntil("retry:");
+    await employer.post(`/api/conversations/${id}/messages`, { body: "Can you start Monday?" });
+    await readUntil("Can you start Monday?");
+    expect(received).toMatch(/event: chat\.message\ndata: \{.*"body":"Can you start Monday\?"/);
+    await reader.cancel();
+
+    expect((await fetch(`${t.url}/api/events`)).status).toBe(401);
+  });
+});
@@ -0,0 +1,62 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { badRequest, notFound, parse } from "../errors";
+import { ConversationBody, MessageBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// The live event stream and one-to-one conversations
+export function messagingRoutes(ctx: AppContext): express.Router {
+  const { repos, events } = ctx;
+  const router = express.Router();
+
+  router.get("/events", requireAuth, (req, res) => {
+    events.subscribe(req.user!.id, req, res);
+  });
+
+  router.get("/conversations", requireAuth, (req, res) => {
+    res.json(repos.conversations.listFor(req.user!.id));
+  });
+
+  // Opens (or reuses) the thread with another user
+  router.post("/conversations", requireAuth, (req, res) => {
+    const { userId: other } = parse(ConversationBody, req.body);
+    if (other === req.user!.id) throw badRequest("You can't message yourself", { userId: "You can't message yourself" });
+    if (!repos.users.exists(other)) throw notFound("User not found");
+
+    const id = repos.conversations.open(req.user!.id, other);
+    res.json(repos.conversations.find(id, req.user!.id));
+  });
+
+  router.get("/conversations/:id/messages", requireAuth, (req, res) => {
+    if (!repos.conversations.find(req.params.id, req.user!.id)) throw notFound("Conversation not found");
+    res.json(repos.conversations.messages(req.params.id));
+  });
+
+  router.post("/conversations/:id/messages", requireAuth, (req, res) => {
+    const { body } = parse(MessageBody, req.body);
+    const conversation = repos.conversations.find(req.params.id, req.user!.id);
+    if (!conversation) throw notFound("Conversation not found");
+
+    const message = repos.conversations.addMessage(conversation.id, req.user!.id, body);
+
+    // Offline recipients pick the message up from the database when they reconnect
+    events.publish(conversation.other_user_id, "chat.message", message);
+    events.publish(req.user!.id, "chat.message", message);
+    res.status(201).json(message);
+  });
+
+  // Marks everything the other side sent as read and tells them so
+  router.post("/conversations/:id/read", requireAuth, (req, res) => {
+    const conversation = repos.conversations.find(req.params.id, req.user!.id);
+    if (!conversation) throw notFound("Conversation not found");
+
+    if (repos.conversations.markRead(conversation.id, req.user!.id) > 0) {
+      const receipt = { conversation_id: conversation.id, reader_id: req.user!.id, read_at: new Date().toISOString() };
+      events.publish(conversation.other_user_id, "chat.read", receipt);
+      events.publish(req.user!.id, "chat.read", receipt);
+    }
+    res.json({ success: true });
+  });
+
+  return router;
+}
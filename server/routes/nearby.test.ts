@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { haversineKm } from "../geo";
+import { coarsen } from "../privacy";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+// Trafalgar Square, and posts at growing distances due north of it
+const origin = { lat: 51.508, lng: -0.128 };
+const north = (km: number) => ({ lat: origin.lat + km / 111.32, lng: origin.lng });
+const near = `lat=${origin.lat}&lng=${origin.lng}`;
+
+describe("nearby routes", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  const post = (user: TestUser, title: string, km: number, category = "General") =>
+    user.post("/api/posts", { title, description: `${title}, any day this week.`, category, ...north(km) }).then((res) => res.body.id as string);
+
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+  });
+  afterEach(() => t.close());
+
+  it("orders by distance within the radius and filters by category and text", async () => {
+    const far = await post(worker, "Window cleaning", 30, "Cleaning");
+    const middle = await post(worker, "Moving boxes", 5, "Manual Labor");
+    const close = await post(worker, "Dog walking", 1);
+
+    const all = await t.anonymous.get(`/api/posts/nearby?${near}`);
+    expect(all.body.items.map((item: any) => item.id)).toEqual([close, middle, far]);
+    expect((await t.anonymous.get(`/api/posts/nearby?${near}&radius=10`)).body.items.map((item: any) => item.id)).toEqual([close, middle]);
+    expect((await t.anonymous.get(`/api/posts/nearby?${near}&category=Cleaning`)).body.items.map((item: any) => item.id)).toEqual([far]);
+    expect((await t.anonymous.get(`/api/posts/nearby?${near}&q=boxes`)).body.items.map((item: any) => item.id)).toEqual([middle]);
+  });
+
+  it("pages with an opaque cursor", async () => {
+    const ids = [await post(worker, "Dog walking", 1), await post(worker, "Moving boxes", 2), await post(worker, "Ironing", 3)];
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page: any = (await t.anonymous.get(`/api/posts/nearby?${near}&limit=2${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ""}`)).body;
+      seen.push(...page.items.map((item: any) => item.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(ids);
+
+    expect((await t.anonymous.get(`/api/posts/nearby?${near}&cursor=garbage`)).status).toBe(400);
+  });
+
+  it("coarsens positions for everyone but the owner", async () => {
+    await post(worker, "Dog walking", 1.234);
+    const exact = north(1.234);
+
+    const mine = (await worker.get(`/api/posts/nearby?${near}`)).body.items[0];
+    expect(mine).toMatchObject({ ...exact, location_approximate: false });
+
+    const theirs = (await t.anonymous.get(`/api/posts/nearby?${near}`)).body.items[0];
+    expect(theirs.location_approximate).toBe(true);
+    expect(haversineKm(theirs.lat, theirs.lng, exact.lat, exact.lng)).toBeLessThan(0.5);
+    expect(theirs.lat).not.toBe(exact.lat);
+    // Measured to where it's shown, not to where it is
+    expect(theirs.distance).toBeCloseTo(haversineKm(origin.lat, origin.lng, theirs.lat, theirs.lng), 6);
+  });
+
+  it("doesn't let the radius or the order narrow an approximate location down", async () => {
+    const employer = await t.register("employer");
+    const twin = await t.register("worker");
+    // Two workers 1.6 km apart in the same 2 km cell, which is all anyone else should learn
+    const cell = coarsen(north(4.1176499119).lat, origin.lng, "2km");
+    const hidden = { lat: cell.lat + 0.8 / 111.32, lng: cell.lng };
+    const other = { lat: cell.lat - 0.8 / 111.32, lng: cell.lng };
+    expect(coarsen(other.lat, other.lng, "2km")).toEqual(coarsen(hidden.lat, hidden.lng, "2km"));
+    for (const [user, at] of [[worker, hidden], [twin, other]] as const) {
+      await user.patch("/api/users/me", { location_precision: "2km" });
+      await user.post("/api/users/me/heartbeat", at);
+    }
+    const ids = (res: { body: any }) => res.body.items.map((item: any) => item.id).sort();
+
+    // Sliding the origin past them at a fixed radius, they come and go together, exactly
+    // when the cell's centre crosses the radius
+    for (let km = -2; km <= 10; km += 0.5) {
+      const from = north(km);
+      const res = await employer.get(`/api/workers/nearby?lat=${from.lat}&lng=${from.lng}&radius=3`);
+      const inside = haversineKm(from.lat, from.lng, cell.lat, cell.lng) <= 3;
+      expect(ids(res)).toEqual(inside ? [worker.id, twin.id].sort() : []);
+    }
+
+    // Workers sharing their exact position either side of the hidden one can't bracket it
+    const shown = haversineKm(origin.lat, origin.lng, cell.lat, cell.lng);
+    for (const km of [4.5, 5]) {
+      const exact = await t.register("worker");
+      await exact.patch("/api/users/me", { location_precision: "exact" });
+      await exact.post("/api/users/me/heartbeat", north(km));
+    }
+    const sorted = await employer.get(`/api/workers/nearby?${near}&radius=10`);
+    const distances = sorted.body.items.map((item: any) => item.distance);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    const found = sorted.body.items.filter((item: any) => item.location_approximate);
+    expect(found.map((item: any) => item.distance)).toEqual([shown, shown]);
+
+    for (const res of [sorted, await employer.get(`/api/workers/nearby?${near}&sort=recommended`)]) {
+      const text = JSON.stringify(res.body);
+      for (const at of [hidden, other]) expect(text).not.toContain(String(at.lat).slice(0, 7));
+    }
+  });
+
+  it("finds workers who are active and not offline", async () => {
+    const employer = await t.register("employer");
+    await worker.post("/api/users/me/heartbeat", north(2));
+    const found = await employer.get(`/api/workers/nearby?${near}`);
+    expect(found.body.items.map((item: any) => item.id)).toEqual([worker.id]);
+    // Only public fields: nothing about admin rights, suspensions or when the account was made
+    expect(Object.keys(found.body.items[0]).sort()).toEqual([
+      "availability", "avatar_url", "bio", "categories", "distance", "id", "last_active", "lat", "lng", "location_approximate",
+      "name", "rate_max", "rate_min", "rating", "rating_avg", "rating_trend", "review_count", "role", "skill_names",
+    ]);
+
+    await worker.patch("/api/users/me", { availability: "offline" });
+    expect((await employer.get(`/api/workers/nearby?${near}`)).body.items).toEqual([]);
+  });
+
+  it("explains recommended results", async () => {
+    await post(worker, "Dog walking", 1);
+    const res = await t.anonymous.get(`/api/posts/nearby?${near}&sort=recommended`);
+    expect(res.status).toBe(200);
+    expect(res.body.items[0].recommendation).toMatchObject({ score: expect.any(Number), reasons: expect.any(Array) });
+  });
+
+  it("validates the query", async () => {
+    const res = await t.anonymous.get("/api/posts/nearby?lat=95&lng=0&radius=500");
+    expect(res.status).toBe(400);
+    expect(Object.keys(res.body.fields).sort()).toEqual(["lat", "radius"]);
+  });
+});
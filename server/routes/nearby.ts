@@ -0,0 +1,117 @@
+import type express from "express";
+import { ftsQuery, likePattern, pageRanked, parseNearbyQuery, searchNearby, type NearbySource } from "../search";
+import { RECOMMENDATION_POOL, emptySignals, rankCandidates, scoreCandidate, type Candidate } from "../recommend";
+import { presenceClause } from "../presence";
+import { livePostClause } from "../posts";
+import { liveJobClause } from "../jobs";
+import type { Located } from "../privacy";
+import type { AppContext } from "../app";
+
+export const NEARBY_SOURCES: Record<"posts" | "jobs" | "workers", NearbySource> = {
+  posts: {
+    table: "posts",
+    alias: "p",
+    owner: "p.user_id",
+    select: "'availability' AS kind, u.name AS user_name",
+    joins: "JOIN users u ON p.user_id = u.id",
+    where: `${livePostClause("p")} AND u.suspended_at IS NULL`,
+    timeColumn: "created_at",
+    categoryClause: "p.category = ?",
+    textClause: "p.rowid IN (SELECT rowid FROM posts_fts WHERE posts_fts MATCH ?)",
+    textParam: ftsQuery,
+  },
+  jobs: {
+    table: "jobs",
+    alias: "j",
+    owner: "j.employer_id",
+    select: "'job' AS kind, u.name AS employer_name",
+    joins: "JOIN users u ON u.id = j.employer_id",
+    where: `${liveJobClause("j")} AND u.suspended_at IS NULL`,
+    timeColumn: "created_at",
+    categoryClause: "j.category = ?",
+    textClause: "j.rowid IN (SELECT rowid FROM jobs_fts WHERE jobs_fts MATCH ?)",
+    textParam: ftsQuery,
+  },
+  // Workers match a category through their profile skills or what they've posted availability for.
+  // Offline workers and anyone who hasn't checked in recently are left out. Only the public
+  // columns of users go out: admin and suspension fields stay server-side.
+  workers: {
+    table: "users",
+    alias: "u",
+    owner: "u.id",
+    columns: ["id", "name", "role", "lat", "lng", "availability", "last_active"],
+    select: `pr.bio, pr.rate_min, pr.rate_max, pr.avatar_url,
+      (SELECT group_concat(name, ', ') FROM user_skills WHERE user_id = u.id) AS skill_names,
+      (SELECT group_concat(category) FROM (SELECT category FROM user_skills WHERE user_id = u.id
+        UNION SELECT category FROM posts WHERE user_id = u.id)) AS categories`,
+    joins: "LEFT JOIN profiles pr ON pr.user_id = u.id",
+    where: `u.role = 'worker' AND u.suspended_at IS NULL AND ${presenceClause("u")}`,
+    timeColumn: "last_active",
+    categoryClause: "? IN (SELECT category FROM posts WHERE user_id = u.id UNION SELECT category FROM user_skills WHERE user_id = u.id)",
+    textClause: "u.name LIKE ? ESCAPE '\\'",
+    textParam: likePattern,
+  },
+};
+
+export type NearbyRow = Located & { id: string; distance: number; [column: string]: unknown };
+export type NearbyFilter = { sql: string; params: unknown[] };
+
+// The columns each source's rows carry that the routes and the recommender read
+export type NearbyPost = NearbyRow & { user_id: string; user_name: string; title: string; description: string; category: string; created_at: string };
+export type NearbyJob = NearbyRow & { employer_id: string; employer_name: string; title: string; description: string | null; category: string; created_at: string };
+export type NearbyWorker = NearbyRow & { name: string; last_active: string; bio: string | null; skill_names: string | null; categories: string | null };
+
+// What the recommender needs from a nearby row of each source
+function toCandidate(source: NearbySource, row: NearbyRow, ownerId: string): Candidate {
+  const base = { id: row.id, ownerId, distance: row.distance ?? 0 };
+  switch (source.table) {
+    case "posts": {
+      const post = row as NearbyPost;
+      return { ...base, type: "post", ownerName: post.user_name, categories: [post.category], text: `${post.title}\n${post.description}`, time: post.created_at };
+    }
+    case "jobs": {
+      const job = row as NearbyJob;
+      return { ...base, type: "job", ownerName: job.employer_name, categories: [job.category], text: `${job.title}\n${job.description ?? ""}`, time: job.created_at };
+    }
+    case "users": {
+      const worker = row as NearbyWorker;
+      return { ...base, type: "user", ownerName: worker.name, categories: worker.categories?.split(",") ?? [], text: `${worker.skill_names ?? ""}\n${worker.bio ?? ""}`, time: worker.last_active };
+    }
+  }
+}
+
+// Nearby routes take lat/lng plus optional radius, q, category, since, min_rating, sort
+// (distance|newest|rating|recommended), cursor and limit, and return { items, nextCursor }.
+// Positions are coarsened to each owner's location precision, and distances, the radius and
+// the distance order all go by the coarsened position.
+//
+// The recommended sort scores the nearest RECOMMENDATION_POOL matches for the viewer and adds
+// a `recommendation` ({ score, factors, reasons }) to each. It's scored on the coarsened
+// distance, so the explanation can't reveal more than the row already shows.
+export const nearbyRoute = <T extends NearbyRow>(
+  ctx: AppContext,
+  source: NearbySource,
+  ownerOf: (row: T) => string,
+  filtersFor: (query: express.Request["query"]) => NearbyFilter[] = () => []
+): express.RequestHandler => (req, res) => {
+  const params = parseNearbyQuery(req.query);
+  const show = ctx.showLocations(req.user?.id);
+
+  if (params.sort === "recommended") {
+    const pool = searchNearby<T>(ctx.db, source, { ...params, sort: "distance", cursor: undefined, limit: RECOMMENDATION_POOL }, filtersFor(req.query));
+    const at = params.cursor?.at ?? Date.now();
+    const signals = req.user ? ctx.repos.recommendations.signals(req.user.id) : emptySignals();
+    const weights = ctx.recommendationWeights;
+    const ranked = rankCandidates(pool.items.map((row) => {
+      const shown = show(row, ownerOf(row));
+      const candidate = toCandidate(source, shown, ownerOf(row));
+      return { candidate, recommendation: scoreCandidate(candidate, signals, weights, at), id: row.id, row: shown };
+    }));
+    const { items, nextCursor } = pageRanked(ranked, (r) => r.recommendation.score, params, at);
+    res.json({ items: items.map(({ row, recommendation }) => ({ ...row, recommendation })), nextCursor });
+    return;
+  }
+
+  const { items, nextCursor } = searchNearby<T>(ctx.db, source, params, filtersFor(req.query));
+  res.json({ items: items.map((row) => show(row, ownerOf(row))), nextCursor });
+};
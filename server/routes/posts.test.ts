@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const garden = {
+  title: "Garden tidy",
+  description: "Happy to help with weeding, hedge trimming and lawn mowing this weekend.",
+  category: "Manual Labor",
+  lat: 51.5074,
+  lng: -0.1278,
+};
+
+describe("post routes", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+  });
+  afterEach(() => t.close());
+
+  it("publishes a post and lists it for its owner and nearby", async () => {
+    const created = await worker.post("/api/posts", garden);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ success: true, held: false });
+
+    const mine = await worker.get("/api/posts/mine");
+    expect(mine.body.map((post: any) => post.id)).toEqual([created.body.id]);
+
+    const nearby = await t.anonymous.get("/api/posts/nearby?lat=51.51&lng=-0.12");
+    expect(nearby.status).toBe(200);
+    expect(nearby.body.items.map((post: any) => post.id)).toEqual([created.body.id]);
+  });
+
+  it("needs a signed-in user and valid fields", async () => {
+    expect((await t.anonymous.post("/api/posts", garden)).status).toBe(401);
+    const res = await worker.post("/api/posts", { ...garden, category: "Astrology", lat: 100 });
+    expect(res.status).toBe(400);
+    expect(Object.keys(res.body.fields).sort()).toEqual(["category", "lat"]);
+  });
+
+  it("refuses near-copies of a recent post", async () => {
+    await worker.post("/api/posts", garden);
+    const again = await worker.post("/api/posts", { ...garden, description: `${garden.description}!` });
+    expect(again.status).toBe(409);
+    expect(again.body.code).toBe("duplicate_post");
+  });
+
+  it("refuses edits that turn a post into a copy of another", async () => {
+    await worker.post("/api/posts", garden);
+    const { id } = (await worker.post("/api/posts", { ...garden, title: "Dog walking", description: "Morning and evening dog walks around Regent's Park." })).body;
+
+    const copied = await worker.patch(`/api/posts/${id}`, { title: garden.title, description: garden.description });
+    expect(copied.status).toBe(409);
+    expect(copied.body.code).toBe("duplicate_post");
+    expect((await t.anonymous.get("/api/posts/nearby?lat=51.5&lng=-0.12&q=dog")).body.items).toHaveLength(1);
+
+    // A post isn't a copy of itself
+    expect((await worker.patch(`/api/posts/${id}`, { description: "Morning and evening dog walks around Regent's Park!" })).status).toBe(200);
+  });
+
+  it("rejects clear spam and holds borderline posts back from search", async () => {
+    const spam = await worker.post("/api/posts", {
+      ...garden,
+      title: "MAKE MONEY FAST!!!!",
+      description: "Bitcoin forex crypto investment opportunity http://a.com http://b.com",
+    });
+    expect(spam.status).toBe(422);
+    expect(spam.body.code).toBe("spam_detected");
+
+    const held = await worker.post("/api/posts", { ...garden, title: "Cleaning work", description: "Earn extra with passive income, visit www.example-deals.xyz" });
+    expect(held.status).toBe(201);
+    expect(held.body.held).toBe(true);
+    expect((await t.anonymous.get("/api/posts/nearby?lat=51.5&lng=-0.12")).body.items).toEqual([]);
+  });
+
+  it("lets only the owner edit or delete a post", async () => {
+    const { id } = (await worker.post("/api/posts", garden)).body;
+    const other = await t.register("worker");
+    expect((await other.patch(`/api/posts/${id}`, { status: "filled" })).status).toBe(403);
+    expect((await other.delete(`/api/posts/${id}`)).status).toBe(403);
+
+    const filled = await worker.patch(`/api/posts/${id}`, { status: "filled" });
+    expect(filled.status).toBe(200);
+    expect(filled.body.status).toBe("filled");
+    expect((await t.anonymous.get("/api/posts/nearby?lat=51.5&lng=-0.12")).body.items).toEqual([]);
+
+    expect((await worker.delete(`/api/posts/${id}`)).status).toBe(200);
+    expect((await worker.patch(`/api/posts/${id}`, { status: "open" })).status).toBe(404);
+  });
+
+  it("asks for a new expiry before reopening an expired post", async () => {
+    const { id } = (await worker.post("/api/posts", garden)).body;
+    t.db.prepare("UPDATE posts SET status = 'closed', expires_at = datetime('now', '-1 day') WHERE id = ?").run(id);
+
+    const reopened = await worker.patch(`/api/posts/${id}`, { status: "open" });
+    expect(reopened.status).toBe(400);
+    expect(reopened.body.fields).toHaveProperty("expires_at");
+
+    const expiresAt = new Date(Date.now() + 7 * 86_400_000).toISOString();
+    expect((await worker.patch(`/api/posts/${id}`, { status: "open", expires_at: expiresAt })).status).toBe(200);
+  });
+});
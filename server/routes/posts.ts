@@ -0,0 +1,84 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { badRequest, forbidden, notFound, parse } from "../errors";
+import { byIp, byUser, rateLimiter } from "../ratelimit";
+import { SPAM_HOLD_SCORE, SPAM_REJECT_SCORE, duplicateRejected, findNearDuplicate, spamRejected, spamScore, type SpamVerdict } from "../spam";
+import { PostBody, PostPatchBody } from "../schemas";
+import { NEARBY_SOURCES, nearbyRoute, type NearbyPost } from "./nearby";
+import type { AppContext } from "../app";
+
+// Posts: open until the owner marks them filled or closed, or they pass their expiry
+export function postRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+  const message = "You're posting too quickly; try again later";
+  const limitPerUser = rateLimiter(ctx.rateLimits.listing, byUser, message);
+  const limitPerIp = rateLimiter(ctx.rateLimits.listingPerIp, byIp, message);
+
+  const loadOwnPost = (id: string, userId: string, action: string) => {
+    const post = repos.posts.ownership(id);
+    if (!post) throw notFound("Post not found");
+    if (post.user_id !== userId) throw forbidden(`You can only ${action} your own posts`);
+    return post;
+  };
+
+  // Spammy text is refused outright or held for review, depending on how sure we are
+  const screen = (text: { title: string; description: string }) => {
+    const verdict = spamScore(text);
+    if (verdict.score >= SPAM_REJECT_SCORE) throw spamRejected();
+    return verdict.score >= SPAM_HOLD_SCORE ? verdict : null;
+  };
+
+  const queueHeld = (postId: string, verdict: SpamVerdict) => {
+    repos.reports.create({ reporterId: null, targetType: "post", targetId: postId, reason: "spam", details: `Held by the spam filter: ${verdict.reasons.join("; ")}` });
+  };
+
+  router.post("/posts", requireAuth, limitPerUser, limitPerIp, (req, res) => {
+    const post = parse(PostBody, req.body);
+    const userId = req.user!.id;
+    if (findNearDuplicate(post, repos.posts.duplicateCandidates(userId, post))) throw duplicateRejected();
+    const held = screen(post);
+
+    const id = repos.posts.create(userId, post, !!held);
+    if (held) queueHeld(id, held);
+    else ctx.notifySavedSearches({ table: "posts", id, owner_id: userId, title: post.title, category: post.category, lat: post.lat, lng: post.lng });
+    res.status(201).json({ success: true, id, held: !!held });
+  });
+
+  // Every post of the signed-in user, whatever its status, newest first
+  router.get("/posts/mine", requireAuth, (req, res) => {
+    res.json(repos.posts.listByOwner(req.user!.id));
+  });
+
+  router.get("/posts/nearby", nearbyRoute<NearbyPost>(ctx, NEARBY_SOURCES.posts, (post) => post.user_id));
+
+  router.patch("/posts/:id", requireAuth, (req, res) => {
+    const post = loadOwnPost(req.params.id, req.user!.id, "edit");
+    const body = parse(PostPatchBody, req.body);
+    if (body.status === "open" && body.expires_at === undefined && post.past_expiry) {
+      throw badRequest("Set a new expiry date to reopen this post", { expires_at: "Set a new expiry date to reopen this post" });
+    }
+    // Edited text goes through the same duplicate check and screening as new posts
+    let held: SpamVerdict | null = null;
+    if (body.title !== undefined || body.description !== undefined) {
+      const text = { title: body.title ?? post.title, description: body.description ?? post.description };
+      const at = { lat: body.lat ?? post.lat, lng: body.lng ?? post.lng };
+      if (findNearDuplicate(text, repos.posts.duplicateCandidates(req.user!.id, at, req.params.id))) throw duplicateRejected();
+      held = screen(text);
+    }
+    repos.posts.update(req.params.id, body);
+    if (held) {
+      repos.posts.hide(req.params.id);
+      queueHeld(req.params.id, held);
+    }
+    res.json(repos.posts.find(req.params.id));
+  });
+
+  router.delete("/posts/:id", requireAuth, (req, res) => {
+    loadOwnPost(req.params.id, req.user!.id, "delete");
+    repos.posts.delete(req.params.id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
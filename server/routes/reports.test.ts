@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+describe("report routes", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  let employer: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+    employer = await t.register("employer");
+  });
+  afterEach(() => t.close());
+
+  it("queues a report on a user once per reporter", async () => {
+    const sent = await employer.post(`/api/users/${worker.id}/reports`, { reason: "scam", details: "Asked for a deposit up front" });
+    expect(sent.status).toBe(201);
+    expect((await employer.post(`/api/users/${worker.id}/reports`, { reason: "scam" })).status).toBe(409);
+
+    const rows = t.db.prepare("SELECT reporter_id, target_type, reason, details FROM reports WHERE target_id = ?").all(worker.id);
+    expect(rows).toEqual([{ reporter_id: employer.id, target_type: "user", reason: "scam", details: "Asked for a deposit up front" }]);
+  });
+
+  it("refuses reports on yourself, on nobody, or without a known reason", async () => {
+    expect((await worker.post(`/api/users/${worker.id}/reports`, { reason: "spam" })).status).toBe(403);
+    expect((await worker.post("/api/users/user_missing/reports", { reason: "spam" })).status).toBe(404);
+    expect((await worker.post(`/api/users/${employer.id}/reports`, { reason: "rude" })).body.fields).toHaveProperty("reason");
+    expect((await t.anonymous.post(`/api/users/${employer.id}/reports`, { reason: "spam" })).status).toBe(401);
+  });
+
+  it("limits how many reports one user sends", async () => {
+    await t.close();
+    t = await startTestApp({ rateLimits: { report: { capacity: 1, perHour: 1 } } });
+    const reporter = await t.register("employer");
+    const [first, second] = [await t.register("worker"), await t.register("worker")];
+    expect((await reporter.post(`/api/users/${first.id}/reports`, { reason: "spam" })).status).toBe(201);
+    expect((await reporter.post(`/api/users/${second.id}/reports`, { reason: "spam" })).status).toBe(429);
+  });
+});
@@ -0,0 +1,31 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { conflict, forbidden, notFound, parse } from "../errors";
+import { byUser, rateLimiter } from "../ratelimit";
+import type { ReportTarget } from "../moderation";
+import { ReportBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Reporting posts, jobs and users to the moderation queue; listings reported by enough people are hidden until reviewed
+export function reportRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+  const limitReports = rateLimiter(ctx.rateLimits.report, byUser, "You've sent a lot of reports; try again later");
+
+  const report = (targetType: ReportTarget, ownerOf: (id: string) => string | undefined): express.RequestHandler => (req, res) => {
+    const { reason, details } = parse(ReportBody, req.body);
+    const ownerId = ownerOf(req.params.id);
+    if (!ownerId) throw notFound(`${targetType === "user" ? "User" : targetType === "job" ? "Job" : "Post"} not found`);
+    if (ownerId === req.user!.id) throw forbidden(`You can't report your own ${targetType === "user" ? "account" : targetType}`);
+    if (repos.reports.hasReported(req.user!.id, targetType, req.params.id)) throw conflict(`You've already reported this ${targetType}`);
+
+    repos.reports.create({ reporterId: req.user!.id, targetType, targetId: req.params.id, reason, details });
+    res.status(201).json({ success: true });
+  };
+
+  router.post("/posts/:id/reports", requireAuth, limitReports, report("post", (id) => repos.posts.ownership(id)?.user_id));
+  router.post("/jobs/:id/reports", requireAuth, limitReports, report("job", (id) => repos.jobs.ownership(id)?.employer_id));
+  router.post("/users/:id/reports", requireAuth, limitReports, report("user", (id) => (repos.users.exists(id) ? id : undefined)));
+
+  return router;
+}
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { refreshStaleReputations } from "../reviews";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const job = { title: "Bar staff", category: "General", pay_rate: 12, pay_type: "hourly", headcount: 1, lat: 51.5074, lng: -0.1278 };
+
+describe("review routes", () => {
+  let t: TestApp;
+  let employer: TestUser;
+  let worker: TestUser;
+  let applicationId: string;
+  beforeEach(async () => {
+    t = await startTestApp();
+    employer = await t.register("employer");
+    worker = await t.register("worker", { name: "Wendy" });
+    const jobId = (await employer.post("/api/jobs", job)).body.id;
+    applicationId = (await worker.post(`/api/jobs/${jobId}/applications`, {})).body.id;
+    for (const status of ["shortlisted", "hired", "completed"]) await employer.patch(`/api/applications/${applicationId}`, { status });
+  });
+  afterEach(() => t.close());
+
+  // Another employer who has hired the worker, and so can vouch for or against reviews of them
+  const hiredBy = async () => {
+    const other = await t.register("employer");
+    const jobId = (await other.post("/api/jobs", { ...job, title: `Bar staff for ${other.id}` })).body.id;
+    const id = (await worker.post(`/api/jobs/${jobId}/applications`, {})).body.id;
+    for (const status of ["shortlisted", "hired"]) await other.patch(`/api/applications/${id}`, { status });
+    return other;
+  };
+
+  it("lets old reviews decay even when nothing new comes in", async () => {
+    await employer.post(`/api/applications/${applicationId}/reviews`, { rating: 5 });
+    const reputation = async () => (await t.anonymous.get(`/api/users/${worker.id}/reviews`)).body.reputation;
+    expect(await reputation()).toMatchObject({ review_count: 1, rating_weighted: 4 });
+
+    // A year on, the review counts for a quarter as much against the prior
+    t.db.prepare("UPDATE reviews SET created_at = datetime('now', '-360 days')").run();
+    expect(refreshStaleReputations(t.db)).toBe(0);
+    t.db.prepare("UPDATE reputation SET updated_at = datetime('now', '-2 days')").run();
+    expect(refreshStaleReputations(t.db)).toBe(1);
+    expect(await reputation()).toMatchObject({ review_count: 1, rating_avg: 5, rating_weighted: 3.67 });
+  });
+
+  it("only lets the reviewee and people who've worked with them flag, and queues what they hide", async () => {
+    const review = (await employer.post(`/api/applications/${applicationId}/reviews`, { rating: 1, body: "Never again" })).body;
+    const reviews = async () => (await t.anonymous.get(`/api/users/${worker.id}/reviews`)).body;
+
+    expect((await employer.post(`/api/reviews/${review.id}/flags`, {})).status).toBe(403);
+    for (let i = 0; i < 3; i++) {
+      const stranger = await t.register("worker");
+      const refused = await stranger.post(`/api/reviews/${review.id}/flags`, { reason: "Not true" });
+      expect(refused.status).toBe(403);
+    }
+    expect((await reviews()).reviews).toHaveLength(1);
+
+    const flaggers = [worker, await hiredBy(), await hiredBy()];
+    for (const [i, flagger] of flaggers.entries()) {
+      expect((await flagger.post(`/api/reviews/${review.id}/flags`, { reason: `Reason ${i + 1}` })).status).toBe(201);
+    }
+    expect((await worker.post(`/api/reviews/${review.id}/flags`, {})).status).toBe(409);
+    expect(await reviews()).toMatchObject({ reputation: { review_count: 0 }, reviews: [] });
+
+    const admin = await t.register("employer");
+    t.db.prepare("UPDATE users SET is_admin = 1 WHERE id = ?").run(admin.id);
+    const queue = await admin.get("/api/admin/reports");
+    expect(queue.body.items).toEqual([expect.objectContaining({ target_type: "review", target_id: review.id, target_label: "Review of Wendy" })]);
+    const [report] = (await admin.get(`/api/admin/reports/review/${review.id}`)).body.items;
+    expect(report).toMatchObject({ reporter_id: null, details: "Hidden after 3 flags: Reason 1; Reason 2; Reason 3" });
+
+    // Dismissing puts it back, and only new flaggers can take it down again
+    expect((await admin.post(`/api/admin/reports/review/${review.id}/resolve`, { action: "dismiss" })).body.resolved).toBe(1);
+    expect(await reviews()).toMatchObject({ reputation: { review_count: 1 }, reviews: [{ id: review.id }] });
+    expect((await worker.post(`/api/reviews/${review.id}/flags`, {})).status).toBe(409);
+    for (let i = 0; i < 3; i++) await (await hiredBy()).post(`/api/reviews/${review.id}/flags`, {});
+    expect((await reviews()).reviews).toEqual([]);
+
+    // Upholding keeps it hidden for good
+    expect((await admin.post(`/api/admin/reports/review/${review.id}/resolve`, { action: "uphold" })).body.resolved).toBe(1);
+    expect((await admin.get("/api/admin/reports")).body.items).toEqual([]);
+    expect(await reviews()).toMatchObject({ reputation: { review_count: 0 }, reviews: [] });
+  });
+});
@@ -0,0 +1,50 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { conflict, forbidden, notFound, parse } from "../errors";
+import { FLAG_HIDE_THRESHOLD } from "../reviews";
+import { FlagBody, ReviewBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Reviews: either side of a completed engagement may review the other, once
+export function reviewRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+
+  router.post("/applications/:id/reviews", requireAuth, (req, res) => {
+    const { rating, body } = parse(ReviewBody, req.body);
+    const application = repos.applications.find(req.params.id);
+    const me = req.user!.id;
+    if (!application || (application.worker_id !== me && application.employer_id !== me)) throw notFound("Application not found");
+    if (application.status !== "completed") throw conflict("You can only review an engagement once it's completed");
+    if (repos.reviews.hasReviewed(application.id, me)) throw conflict("You've already reviewed this engagement");
+
+    const reviewee = application.worker_id === me ? application.employer_id : application.worker_id;
+    const review = repos.reviews.create({ applicationId: application.id, reviewerId: me, revieweeId: reviewee, rating, body: body ?? null });
+    res.status(201).json(review);
+  });
+
+  router.get("/users/:id/reviews", (req, res) => {
+    if (!repos.users.exists(req.params.id)) throw notFound("User not found");
+    res.json({ reputation: repos.reviews.reputation(req.params.id), reviews: repos.reviews.listFor(req.params.id) });
+  });
+
+  // Flagging: enough distinct flags hide a review (and drop it from the score) and put it in the
+  // report queue. Only the reviewee and people who've worked with them can flag.
+  router.post("/reviews/:id/flags", requireAuth, (req, res) => {
+    const { reason } = parse(FlagBody, req.body);
+    const review = repos.reviews.find(req.params.id);
+    if (!review) throw notFound("Review not found");
+    if (review.reviewer_id === req.user!.id) throw forbidden("You can't flag your own review");
+    if (!repos.reviews.canFlag(review, req.user!.id)) throw forbidden("Only the person reviewed and people who've worked with them can flag a review");
+    if (repos.reviews.hasFlagged(review.id, req.user!.id)) throw conflict("You've already flagged this review");
+
+    const reasons = repos.reviews.flag(review, req.user!.id, reason ?? null);
+    if (reasons) {
+      const details = `Hidden after ${FLAG_HIDE_THRESHOLD} flags${reasons.length ? `: ${reasons.join("; ")}` : ""}`;
+      repos.reports.create({ reporterId: null, targetType: "review", targetId: review.id, reason: "other", details });
+    }
+    res.status(201).json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,92 @@
+import fs from "fs";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MAX_PORTFOLIO_IMAGES } from "../profiles";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+// Enough of a PNG for the type sniffing
+const png = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(16)]);
+const asPng = { "Content-Type": "image/png" };
+
+const profile = {
+  bio: "Ten years of domestic cleaning.",
+  rate_min: 14,
+  rate_max: 20,
+  languages: ["English", "Polish"],
+  skills: [{ name: "Ironing", category: "Cleaning" }, { name: "Deep cleaning", category: "Cleaning" }],
+  schedule: [{ day: 0, start: "09:00", end: "17:00" }],
+  travel_radius_km: 10,
+  timezone: "Europe/London",
+};
+
+describe("user routes", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+  });
+  afterEach(() => t.close());
+
+  it("replaces the profile and shows it to anyone", async () => {
+    const saved = await worker.put("/api/users/me/profile", profile);
+    expect(saved.status).toBe(200);
+    expect(saved.body).toMatchObject({
+      bio: profile.bio,
+      rate_min: 14,
+      rate_max: 20,
+      languages: ["English", "Polish"],
+      skills: [{ name: "Deep cleaning", category: "Cleaning" }, { name: "Ironing", category: "Cleaning" }],
+      schedule: profile.schedule,
+      timezone: "Europe/London",
+    });
+    expect((await t.anonymous.get(`/api/users/${worker.id}/profile`)).body).toEqual(saved.body);
+
+    // Skills and schedule are replaced, not merged
+    const trimmed = await worker.put("/api/users/me/profile", { ...profile, skills: [], schedule: [] });
+    expect(trimmed.body).toMatchObject({ skills: [], schedule: [] });
+    expect((await t.anonymous.get("/api/users/user_missing/profile")).status).toBe(404);
+  });
+
+  it("validates the profile", async () => {
+    const res = await worker.put("/api/users/me/profile", { ...profile, rate_min: 30, timezone: "Mars/Olympus" });
+    expect(res.status).toBe(400);
+    expect(Object.keys(res.body.fields).sort()).toEqual(["rate_min", "timezone"]);
+
+    const slots = await worker.put("/api/users/me/profile", { ...profile, schedule: [{ day: 0, start: "17:00", end: "09:00" }] });
+    expect(slots.body.fields).toHaveProperty("schedule");
+    expect((await t.anonymous.put("/api/users/me/profile", profile)).status).toBe(401);
+  });
+
+  it("stores an avatar and drops the one it replaces", async () => {
+    const first = await worker.put("/api/users/me/avatar", png, asPng);
+    expect(first.status).toBe(200);
+    expect(first.body.avatar_url).toMatch(/^\/uploads\/[0-9a-f]{32}\.png$/);
+    expect((await t.anonymous.get(first.body.avatar_url)).status).toBe(200);
+
+    const second = await worker.put("/api/users/me/avatar", png, asPng);
+    expect((await t.anonymous.get(`/api/users/${worker.id}/profile`)).body.avatar_url).toBe(second.body.avatar_url);
+    await vi.waitFor(() => expect(fs.existsSync(path.join(t.uploadDir, path.basename(first.body.avatar_url)))).toBe(false));
+  });
+
+  it("only takes real images", async () => {
+    const text = await worker.put("/api/users/me/avatar", Buffer.from("definitely a picture"), asPng);
+    expect(text.status).toBe(400);
+    expect(text.body.fields).toHaveProperty("image");
+    expect((await worker.put("/api/users/me/avatar", png, { "Content-Type": "application/octet-stream" })).status).toBe(400);
+  });
+
+  it("keeps a portfolio of limited size that only its owner can change", async () => {
+    const added = await worker.post("/api/users/me/portfolio", png, asPng);
+    expect(added.status).toBe(201);
+    expect((await t.anonymous.get(`/api/users/${worker.id}/profile`)).body.portfolio).toEqual([{ id: added.body.id, url: added.body.url }]);
+
+    const other = await t.register("worker");
+    expect((await other.delete(`/api/users/me/portfolio/${added.body.id}`)).status).toBe(404);
+    expect((await worker.delete(`/api/users/me/portfolio/${added.body.id}`)).status).toBe(200);
+    expect((await t.anonymous.get(`/api/users/${worker.id}/profile`)).body.portfolio).toEqual([]);
+
+    for (let i = 0; i < MAX_PORTFOLIO_IMAGES; i++) await worker.post("/api/users/me/portfolio", png, asPng);
+    expect((await worker.post("/api/users/me/portfolio", png, asPng)).status).toBe(409);
+  });
+});
@@ -0,0 +1,81 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { HttpError, badRequest, conflict, notFound, parse } from "../errors";
+import { heartbeatThrottle } from "../presence";
+import { MAX_PORTFOLIO_IMAGES, MAX_UPLOAD_BYTES, imageExtension, removeUpload, saveUpload } from "../profiles";
+import { HeartbeatBody, ProfileBody, UpdateMeBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Uploads are sent as the raw image body (Content-Type image/*)
+const imageBody = express.raw({ type: "image/*", limit: MAX_UPLOAD_BYTES });
+const readImage = (req: express.Request) => {
+  const extension = Buffer.isBuffer(req.body) ? imageExtension(req.body) : null;
+  if (!extension) throw badRequest("Upload a PNG, JPEG, GIF or WebP image", { image: "Unsupported image" });
+  return { data: req.body as Buffer, extension };
+};
+
+// The signed-in user's account, presence and profile, and everyone's public profiles
+export function userRoutes(ctx: AppContext): express.Router {
+  const { repos, config } = ctx;
+  const router = express.Router();
+
+  router.patch("/users/me", requireAuth, (req, res) => {
+    repos.users.update(req.user!.id, parse(UpdateMeBody, req.body));
+    res.json(repos.users.account(req.user!.id));
+  });
+
+  // Presence: clients call this periodically (and as they move, if sharing live location)
+  const throttleHeartbeat = heartbeatThrottle();
+  router.post("/users/me/heartbeat", requireAuth, (req, res) => {
+    const position = parse(HeartbeatBody, req.body);
+    const waitMs = throttleHeartbeat(req.user!.id);
+    if (waitMs > 0) {
+      res.set("Retry-After", String(Math.ceil(waitMs / 1000)));
+      throw new HttpError(429, "rate_limited", "Too many heartbeats; slow down");
+    }
+    repos.users.touch(req.user!.id, position);
+    res.json({ success: true });
+  });
+
+  // Opening someone else's profile counts as a view in the viewer's recommendation history
+  router.get("/users/:id/profile", (req, res) => {
+    const profile = repos.profiles.load(req.params.id);
+    if (!profile) throw notFound("User not found");
+    if (req.user && req.user.id !== req.params.id) repos.recommendations.recordView(req.user.id, "user", req.params.id);
+    res.json(profile);
+  });
+
+  // Replaces the whole editable profile; skills and schedule are sent in full each time
+  router.put("/users/me/profile", requireAuth, (req, res) => {
+    repos.profiles.replace(req.user!.id, parse(ProfileBody, req.body));
+    res.json(repos.profiles.load(req.user!.id));
+  });
+
+  router.put("/users/me/avatar", requireAuth, imageBody, (req, res) => {
+    const { data, extension } = readImage(req);
+    const me = req.user!.id;
+    const previous = repos.profiles.avatarUrl(me);
+    const url = saveUpload(config.uploadDir, data, extension);
+    repos.profiles.setAvatar(me, url);
+    removeUpload(config.uploadDir, previous);
+    res.json({ avatar_url: url });
+  });
+
+  router.post("/users/me/portfolio", requireAuth, imageBody, (req, res) => {
+    const { data, extension } = readImage(req);
+    const me = req.user!.id;
+    if (repos.profiles.portfolioCount(me) >= MAX_PORTFOLIO_IMAGES) throw conflict(`Portfolios are limited to ${MAX_PORTFOLIO_IMAGES} images`);
+    const url = saveUpload(config.uploadDir, data, extension);
+    res.status(201).json({ id: repos.profiles.addPortfolioImage(me, url), url });
+  });
+
+  router.delete("/users/me/portfolio/:imageId", requireAuth, (req, res) => {
+    const image = repos.profiles.portfolioImage(req.params.imageId, req.user!.id);
+    if (!image) throw notFound("Image not found");
+    repos.profiles.deletePortfolioImage(req.params.imageId);
+    removeUpload(config.uploadDir, image.url);
+    res.json({ success: true });
+  });
+
+  return router;
+}
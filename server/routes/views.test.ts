@@ -0,0 +1,32 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const garden = { title: "Garden tidy", description: "Weeding and lawn mowing this weekend.", category: "Manual Labor", lat: 51.5074, lng: -0.1278 };
+
+describe("view routes", () => {
+  let t: TestApp;
+  let worker: TestUser;
+  let employer: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    worker = await t.register("worker");
+    employer = await t.register("employer");
+  });
+  afterEach(() => t.close());
+
+  it("counts views and feeds them to the recommended sort", async () => {
+    const { id } = (await worker.post("/api/posts", garden)).body;
+    expect((await employer.post("/api/views", { type: "post", id })).status).toBe(200);
+    await employer.post("/api/views", { type: "post", id });
+    expect(t.db.prepare("SELECT view_count FROM views WHERE viewer_id = ? AND target_id = ?").pluck().get(employer.id, id)).toBe(2);
+
+    const feed = await employer.get("/api/posts/nearby?lat=51.5074&lng=-0.1278&sort=recommended");
+    expect(feed.body.items[0].recommendation.reasons).toContain("You looked at this before");
+  });
+
+  it("needs a signed-in viewer and something that exists", async () => {
+    expect((await t.anonymous.post("/api/views", { type: "post", id: "post_missing" })).status).toBe(401);
+    expect((await employer.post("/api/views", { type: "post", id: "post_missing" })).status).toBe(404);
+    expect((await employer.post("/api/views", { type: "photo", id: worker.id })).body.fields).toHaveProperty("type");
+  });
+});
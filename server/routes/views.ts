@@ -0,0 +1,20 @@
+import express from "express";
+import { requireAuth } from "../auth";
+import { notFound, parse } from "../errors";
+import { ViewBody } from "../schemas";
+import type { AppContext } from "../app";
+
+// Records what signed-in users look at; their history feeds the recommended sort
+export function viewRoutes(ctx: AppContext): express.Router {
+  const { repos } = ctx;
+  const router = express.Router();
+
+  router.post("/views", requireAuth, (req, res) => {
+    const { type, id } = parse(ViewBody, req.body);
+    if (!repos.recommendations.targetExists(type, id)) throw notFound("Nothing to view with that id");
+    repos.recommendations.recordView(req.user!.id, type, id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestUser } from "../testing";
+
+const near = "lat=51.5074&lng=-0.1278";
+// A Monday in British Summer Time and US Eastern Daylight Time
+const MONDAY = "2026-07-06";
+
+describe("worker routes", () => {
+  let t: TestApp;
+  let employer: TestUser;
+  beforeEach(async () => {
+    t = await startTestApp();
+    employer = await t.register("employer");
+  });
+  afterEach(() => t.close());
+
+  // A worker who's online now with the given profile
+  const worker = async (name: string, profile: object) => {
+    const user = await t.register("worker", { name });
+    await user.put("/api/users/me/profile", profile);
+    await user.post("/api/users/me/heartbeat", { lat: 51.51, lng: -0.13 });
+    return user;
+  };
+  const found = async (query: string) =>
+    (await employer.get(`/api/workers/nearby?${near}&${query}`)).body.items.map((item: { name: string }) => item.name).sort();
+
+  it("filters on a named skill", async () => {
+    await worker("Ann", { skills: [{ name: "Ironing", category: "Cleaning" }] });
+    await worker("Bo", { skills: [{ name: "Courier", category: "Delivery" }] });
+    expect(await found("skill=Ironing")).toEqual(["Ann"]);
+    expect(await found("skill=Plumbing")).toEqual([]);
+    expect(await found("category=Delivery")).toEqual(["Bo"]);
+  });
+
+  it("matches rates against each worker's range", async () => {
+    await worker("Ann", { rate_min: 12, rate_max: 15 });
+    await worker("Bo", { rate_min: 18, rate_max: 25 });
+    await worker("Cy", {});
+    expect(await found("min_rate=16")).toEqual(["Bo"]);
+    expect(await found("max_rate=14")).toEqual(["Ann"]);
+    expect(await found("min_rate=14&max_rate=20")).toEqual(["Ann", "Bo"]);
+    expect((await employer.get(`/api/workers/nearby?${near}&min_rate=-1`)).status).toBe(400);
+  });
+
+  it("checks available_at against each schedule in the worker's own timezone", async () => {
+    const nineToFive = [{ day: 0, start: "09:00", end: "17:00" }];
+    await worker("London", { schedule: nineToFive, timezone: "Europe/London" });
+    await worker("New York", { schedule: nineToFive, timezone: "America/New_York" });
+    await worker("Unscheduled", {});
+
+    // 09:30 in London is 04:30 in New York
+    expect(await found(`available_at=${MONDAY}T08:30:00Z`)).toEqual(["London"]);
+    // 16:30 in London, 11:30 in New York
+    expect(await found(`available_at=${MONDAY}T15:30:00Z`)).toEqual(["London", "New York"]);
+    // 20:30 in London, 16:30 in New York: only the New York worker, though 20:30 UTC is outside 9 to 5 too
+    expect(await found(`available_at=${MONDAY}T20:30:00Z`)).toEqual(["New York"]);
+    // The end of a slot is exclusive, and Tuesday isn't in either schedule
+    expect(await found(`available_at=${MONDAY}T21:00:00Z`)).toEqual([]);
+    expect(await found(`available_at=2026-07-07T10:00:00Z`)).toEqual([]);
+  });
+});
@@ -0,0 +1,30 @@
+import express from "express";
+import { parse } from "../errors";
+import { WorkerFilterQuery } from "../schemas";
+import { NEARBY_SOURCES, nearbyRoute, type NearbyFilter, type NearbyWorker } from "./nearby";
+import type { AppContext } from "../app";
+
+export function workerRoutes(ctx: AppContext): express.Router {
+  const router = express.Router();
+
+  // Workers also take skill, min_rate/max_rate (against their rate range) and available_at
+  // (an instant, checked against their weekly schedule in their own timezone)
+  router.get("/workers/nearby", nearbyRoute<NearbyWorker>(ctx, NEARBY_SOURCES.workers, (worker) => worker.id, (query) => {
+    const { skill, min_rate, max_rate, available_at } = parse(WorkerFilterQuery, query);
+    const filters: NearbyFilter[] = [];
+    if (skill) filters.push({ sql: "EXISTS (SELECT 1 FROM user_skills WHERE user_id = u.id AND name = ?)", params: [skill] });
+    if (min_rate !== undefined) filters.push({ sql: "pr.rate_max >= ?", params: [min_rate] });
+    if (max_rate !== undefined) filters.push({ sql: "pr.rate_min <= ?", params: [max_rate] });
+    if (available_at) {
+      filters.push({
+        sql: `EXISTS (SELECT 1 FROM availability_slots s WHERE s.user_id = u.id
+          AND weekly_minute(?, COALESCE(pr.timezone, 'UTC')) >= s.start_minute
+          AND weekly_minute(?, COALESCE(pr.timezone, 'UTC')) < s.end_minute)`,
+        params: [available_at, available_at],
+      });
+    }
+    return filters;
+  }));
+
+  return router;
+}
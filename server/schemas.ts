@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { CATEGORIES } from "../src/categories";
+import { AVAILABILITY } from "./presence";
+import { LOCATION_PRECISIONS } from "./privacy";
+import { REPORT_ACTIONS, REPORT_REASONS, REPORT_TARGETS } from "./moderation";
+import { POST_STATUSES } from "./posts";
+import { isPushServiceEndpoint } from "./push";
+import { isValidTimezone, toWeekMinute } from "./profiles";
+import { MAX_SHIFTS_PER_REQUEST, MAX_SHIFT_HOURS } from "./bookings";
+import { toDbTime } from "./time";
+
+export const MAX_RADIUS_KM = 200;
+export const MAX_MESSAGE_LENGTH = 2000;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const lat = z.coerce.number({ invalid_type_error: "Latitude must be a number" }).min(-90, "Latitude must be between -90 and 90").max(90, "Latitude must be between -90 and 90");
+const lng = z.coerce.number({ invalid_type_error: "Longitude must be a number" }).min(-180, "Longitude must be between -180 and 180").max(180, "Longitude must be between -180 and 180");
+const category = z.enum(CATEGORIES, { errorMap: () => ({ message: `Category must be one of: ${CATEGORIES.join(", ")}` }) });
+const email = z.string().trim().toLowerCase().email("Enter a valid email address").max(254);
+const id = z.string().min(1, "Required").max(64);
+const isoDate = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Must be a valid date/time");
+const role = z.enum(["worker", "employer"], { errorMap: () => ({ message: "Role must be worker or employer" }) });
+
+export const RegisterBody = z.object({
+  name: z.string().trim().min(1, "Name is required").max(80, "Name must be at most 80 characters"),
+  email,
+  password: z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(200),
+  role,
+  lat: lat.nullish(),
+  lng: lng.nullish(),
+});
+
+export const LoginBody = z.object({ email, password: z.string().min(1, "Password is required") });
+export const CodeRequestBody = z.object({ email });
+export const CodeVerifyBody = z.object({ email, code: z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code") });
+
+export const UpdateMeBody = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  role: role.optional(),
+  availability: z.enum(AVAILABILITY, { errorMap: () => ({ message: "Availability must be available, busy or offline" }) }).optional(),
+  location_precision: z.enum(LOCATION_PRECISIONS, { errorMap: () => ({ message: `Precision must be one of: ${LOCATION_PRECISIONS.join(", ")}` }) }).optional(),
+  lat: lat.optional(),
+  lng: lng.optional(),
+}).refine((body) => (body.lat === undefined) === (body.lng === undefined), { message: "lat and lng must be sent together", path: ["lat"] });
+
+// Position is optional so a worker who isn't sharing live location can still show as active
+export const HeartbeatBody = z.object({
+  lat: lat.optional(),
+  lng: lng.optional(),
+}).refine((body) => (body.lat === undefined) === (body.lng === undefined), { message: "lat and lng must be sent together", path: ["lat"] });
+
+const title = z.string().trim().min(3, "Title must be at least 3 characters").max(100, "Title must be at most 100 characters");
+const description = z.string().trim().max(2000, "Description must be at most 2000 characters");
+
+const expiresAt = isoDate.refine((value) => Date.parse(value) > Date.now(), "Expiry must be in the future");
+
+export const PostBody = z.object({
+  title,
+  description: description.min(1, "Description is required"),
+  category,
+  lat,
+  lng,
+  expires_at: expiresAt.nullish(),
+});
+// Owners can edit any field and mark the post filled, closed or open again; null expires_at clears it
+export const PostPatchBody = PostBody.partial().extend({
+  status: z.enum(["open", "filled", "closed"], { errorMap: () => ({ message: "Status must be open, filled or closed" }) }).optional(),
+});
+
+const jobFields = {
+  title,
+  description: description.nullish(),
+  category,
+  pay_rate: z.coerce.number().min(0, "Pay rate can't be negative").max(100_000, "Pay rate is too high"),
+  pay_type: z.enum(["hourly", "fixed"], { errorMap: () => ({ message: "Pay type must be hourly or fixed" }) }),
+  start_time: isoDate.nullish(),
+  duration_hours: z.coerce.number().positive("Duration must be positive").max(1000).nullish(),
+  headcount: z.coerce.number().int("Headcount must be a whole number").min(1, "Headcount must be at least 1").max(100).default(1),
+  lat,
+  lng,
+  expires_at: expiresAt.nullish(),
+};
+export const JobBody = z.object(jobFields);
+// Employers can edit any field and mark the job filled, closed or open again; null expires_at clears it
+export const JobPatchBody = z.object(jobFields).partial().omit({ headcount: true }).extend({
+  headcount: jobFields.headcount.optional(),
+  status: z.enum(["open", "filled", "closed"], { errorMap: () => ({ message: "Status must be open, filled or closed" }) }).optional(),
+});
+
+export const ApplicationBody = z.object({ note: z.string().trim().max(500).nullish() });
+export const InvitationBody = ApplicationBody.extend({ workerId: id });
+export const TransitionBody = z.object({
+  status: z.enum(["invited", "applied", "shortlisted", "hired", "completed", "rejected", "withdrawn"], {
+    errorMap: () => ({ message: "Unknown status" }),
+  }),
+});
+
+export const ConversationBody = z.object({ userId: id });
+export const MessageBody = z.object({
+  body: z.string().trim().min(1, "Message can't be empty").max(MAX_MESSAGE_LENGTH, `Messages are limited to ${MAX_MESSAGE_LENGTH} characters`),
+});
+
+export const ReviewBody = z.object({
+  rating: z.coerce.number().int("Rating must be a whole number").min(1, "Rating must be between 1 and 5").max(5, "Rating must be between 1 and 5"),
+  body: z.string().trim().max(1000, "Reviews are limited to 1000 characters").nullish(),
+});
+export const FlagBody = z.object({ reason: z.string().trim().max(200).nullish() });
+export const ReportBody = z.object({
+  reason: z.enum(REPORT_REASONS, { errorMap: () => ({ message: `Reason must be one of: ${REPORT_REASONS.join(", ")}` }) }),
+  details: z.string().trim().max(500, "Details must be at most 500 characters").nullish().transform((v) => v || null),
+});
+
+const rate = z.coerce.number().min(0, "Rates can't be negative").max(10_000, "Rate is too high");
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Use HH:MM");
+
+export const ProfileBody = z.object({
+  bio: z.string().trim().max(1000, "Bio must be at most 1000 characters").nullish(),
+  rate_min: rate.nullish(),
+  rate_max: rate.nullish(),
+  languages: z.array(z.string().trim().min(1).max(40)).max(10, "List at most 10 languages").default([]),
+  skills: z
+    .array(z.object({ name: z.string().trim().min(1, "Skill name is required").max(50), category }))
+    .max(20, "List at most 20 skills")
+    .default([]),
+  // One entry per block of time; day 0 is Monday and times are local to `timezone`
+  schedule: z
+    .array(z.object({ day: z.number().int().min(0).max(6), start: clockTime, end: clockTime }))
+    .max(50)
+    .default([])
+    .refine((slots) => slots.every((s) => toWeekMinute(s.day, s.start) < toWeekMinute(s.day, s.end)), "Each slot must end after it starts"),
+  travel_radius_km: z.coerce.number().positive("Travel radius must be positive").max(MAX_RADIUS_KM).nullish(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").default("UTC"),
+}).refine((body) => body.rate_min == null || body.rate_max == null || body.rate_min <= body.rate_max, {
+  message: "Minimum rate can't be above the maximum",
+  path: ["rate_min"],
+});
+
+// Extra filters for /api/workers/nearby on top of NearbyQuery
+export const WorkerFilterQuery = z.object({
+  skill: z.string().trim().max(50).optional().transform((v) => v || undefined),
+  min_rate: rate.optional(),
+  max_rate: rate.optional(),
+  available_at: isoDate.optional(),
+});
+
+export const NearbyQuery = z.object({
+  lat,
+  lng,
+  radius: z.coerce.number().positive("Radius must be positive").max(MAX_RADIUS_KM, `Radius can be at most ${MAX_RADIUS_KM} km`).default(50),
+  q: z.string().trim().max(100, "Search text must be at most 100 characters").optional().transform((v) => v || undefined),
+  category: category.optional(),
+  since: isoDate.optional(),
+  min_rating: z.coerce.number().min(0).max(5, "Ratings go up to 5").optional(),
+  sort: z.enum(["distance", "newest", "rating", "recommended"]).default("distance"),
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const SavedSearchBody = z.object({
+  name: z.string().trim().max(80, "Name must be at most 80 characters").optional().transform((v) => v || undefined),
+  target: z.enum(["posts", "jobs"], { errorMap: () => ({ message: "Target must be posts or jobs" }) }),
+  q: z.string().trim().max(100, "Search text must be at most 100 characters").nullish().transform((v) => v || null),
+  categories: z.array(category).max(CATEGORIES.length).default([]),
+  radius: NearbyQuery.shape.radius,
+  lat,
+  lng,
+});
+
+export const PushSubscriptionBody = z.object({
+  endpoint: z.string().url("Endpoint must be a URL").max(1000).refine(isPushServiceEndpoint, "Endpoint must be a browser push service"),
+  keys: z.object({ p256dh: z.string().min(1).max(200), auth: z.string().min(1).max(100) }),
+});
+export const PushUnsubscribeBody = z.object({ endpoint: z.string().max(1000) });
+
+export const MarkReadBody = z.object({ ids: z.array(id).max(200).optional() });
+
+export const GeocodeQuery = z.object({
+  q: z.string().trim().min(1, "Enter an address, place or postal code").max(200, "Search text must be at most 200 characters"),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+});
+export const ReverseGeocodeQuery = z.object({ lat, lng });
+
+export const SavedLocationBody = z.object({
+  name: z.string().trim().min(1, "Name is required").max(40, "Name must be at most 40 characters"),
+  label: z.string().trim().max(200).nullish().transform((v) => v || null),
+  lat,
+  lng,
+});
+
+const adminSearch = z.string().trim().max(100, "Search text must be at most 100 characters").optional().transform((v) => v || undefined);
+const adminLimit = z.coerce.number().int().min(1).max(200).default(50);
+
+export const AdminUserQuery = z.object({ q: adminSearch, limit: adminLimit });
+export const AdminPostQuery = z.object({
+  q: adminSearch,
+  status: z.enum(POST_STATUSES, { errorMap: () => ({ message: `Status must be one of: ${POST_STATUSES.join(", ")}` }) }).optional(),
+  hidden: z.enum(["true", "false"]).optional().transform((v) => (v === undefined ? undefined : v === "true")),
+  limit: adminLimit,
+});
+export const SuspendBody = z.object({ reason: z.string().trim().max(500, "Reason must be at most 500 characters").nullish().transform((v) => v || null) });
+export const ResolveReportBody = z.object({
+  action: z.enum(REPORT_ACTIONS, { errorMap: () => ({ message: `Action must be one of: ${REPORT_ACTIONS.join(", ")}` }) }),
+});
+export const ReportTargetParams = z.object({
+  type: z.enum(REPORT_TARGETS, { errorMap: () => ({ message: `Target must be one of: ${REPORT_TARGETS.join(", ")}` }) }),
+  id,
+});
+
+const metricDays = z.coerce.number().int().min(1, "Days must be at least 1").max(365, "Days can be at most 365");
+export const MetricsQuery = z.object({ days: metricDays.default(30) });
+export const AreaMetricsQuery = z.object({
+  days: metricDays.default(7),
+  cell_km: z.coerce.number().min(1, "Cells must be at least 1 km").max(500, "Cells can be at most 500 km").default(10),
+});
+
+export const ViewBody = z.object({
+  type: z.enum(["post", "job", "user"], { errorMap: () => ({ message: "Type must be post, job or user" }) }),
+  id,
+});
+
+export const PostAssistBody = z.object({
+  notes: z.string().trim().min(10, "Write a few words about what you can do").max(2000, "Notes must be at most 2000 characters"),
+});
+
+// Shift times come in as ISO and are stored as UTC database times
+export const ShiftBody = z.object({ starts_at: isoDate, ends_at: isoDate })
+  .refine((shift) => Date.parse(shift.ends_at) > Date.parse(shift.starts_at), { message: "A shift must end after it starts", path: ["ends_at"] })
+  .refine((shift) => Date.parse(shift.ends_at) - Date.parse(shift.starts_at) <= MAX_SHIFT_HOURS * 3_600_000, {
+    message: `Shifts can be at most ${MAX_SHIFT_HOURS} hours long`,
+    path: ["ends_at"],
+  })
+  .refine((shift) => Date.parse(shift.ends_at) > Date.now(), { message: "This shift would already be over", path: ["ends_at"] })
+  .transform((shift) => ({ starts_at: toDbTime(shift.starts_at), ends_at: toDbTime(shift.ends_at) }));
+
+// Employers book from a hired application or straight from a worker's availability post
+export const BookingBody = z.object({
+  applicationId: id.optional(),
+  postId: id.optional(),
+  hourly_rate: rate.nullish(),
+  shifts: z.array(ShiftBody).max(MAX_SHIFTS_PER_REQUEST, `Add at most ${MAX_SHIFTS_PER_REQUEST} shifts at a time`).default([]),
+}).refine((body) => !body.applicationId !== !body.postId, { message: "Book either a hired application or an availability post", path: ["applicationId"] });
+
+export const CheckInBody = z.object({ lat, lng });
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { ftsQuery, likePattern, pageRanked, parseNearbyQuery } from "./search";
+
+const AT = Date.parse("2026-10-19T12:00:00Z");
+
+type Row = { id: string; score: number };
+
+// Ranked best first, with a tie at 80 broken by id
+const ranked: Row[] = [
+  { id: "a", score: 90 },
+  { id: "b", score: 80 },
+  { id: "c", score: 80 },
+  { id: "d", score: 70 },
+  { id: "e", score: 60 },
+];
+const score = (row: Row) => row.score;
+
+// Decodes a cursor the way the next request would
+const resume = (cursor: string) => parseNearbyQuery({ lat: "51.5", lng: "-0.1", cursor }).cursor;
+
+describe("pageRanked", () => {
+  it("pages through in order without repeats or gaps", () => {
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = pageRanked(ranked, score, { cursor: cursor ? resume(cursor) : undefined, limit: 2 }, AT);
+      seen.push(...page.items.map((row) => row.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+    expect(seen).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("carries the scoring time in the cursor", () => {
+    const { nextCursor } = pageRanked(ranked, score, { limit: 2 }, AT);
+    expect(resume(nextCursor!)).toEqual({ key: 80, id: "b", at: AT });
+  });
+
+  it("resumes after the cursor even if that row has gone", () => {
+    const { nextCursor } = pageRanked(ranked, score, { limit: 3 }, AT);
+    const without = ranked.filter((row) => row.id !== "c");
+    expect(pageRanked(without, score, { cursor: resume(nextCursor!), limit: 3 }, AT).items.map((row) => row.id)).toEqual(["d", "e"]);
+  });
+
+  it("has no next page on the last one", () => {
+    expect(pageRanked(ranked, score, { limit: 5 }, AT).nextCursor).toBeNull();
+    expect(pageRanked([], score, { limit: 5 }, AT)).toEqual({ items: [], nextCursor: null });
+  });
+});
+
+describe("parseNearbyQuery", () => {
+  it("refuses cursors it didn't issue", () => {
+    const { nextCursor } = pageRanked(ranked, score, { limit: 1 }, AT);
+    const tampered = `${nextCursor!.slice(0, -2)}${nextCursor!.endsWith("AA") ? "AB" : "AA"}`;
+    expect(() => resume(tampered)).toThrow("Invalid cursor");
+    expect(() => resume("not-a-cursor")).toThrow("Invalid cursor");
+  });
+});
+
+describe("text search helpers", () => {
+  it("turns free text into a prefix match on every word", () => {
+    expect(ftsQuery('  deep  "clean" ')).toBe('"deep"* """clean"""*');
+  });
+
+  it("escapes LIKE wildcards", () => {
+    expect(likePattern("50%_off\\")).toBe("%50\\%\\_off\\\\%");
+  });
+});
@@ -0,0 +1,201 @@
+import type Database from "better-sqlite3";
+import type express from "express";
+import crypto from "crypto";
+import { boundingBoxes, boxFilter } from "./geo";
+import { badRequest, parse } from "./errors";
+import { NearbyQuery } from "./schemas";
+import { MAX_CELL_KM } from "./privacy";
+import { toDbTime } from "./time";
+
+export type NearbySort = "distance" | "newest" | "rating" | "recommended";
+
+export interface NearbyParams {
+  lat: number;
+  lng: number;
+  radius: number;
+  q?: string;
+  category?: string;
+  since?: string;
+  min_rating?: number;
+  sort: NearbySort;
+  cursor?: NearbyCursor;
+  limit: number;
+}
+
+// Keyset position of the last row on a page: the sort key plus id as the tie-breaker.
+// Recommended pages also carry the time the first page was scored at, so later pages agree.
+export interface NearbyCursor {
+  key: number | string;
+  id: string;
+  at?: number;
+}
+
+/**
+ * A table the nearby search can run over. `columns` limits the table's own columns to the ones
+ * safe to return (all of them by default), `select` and `joins` add per-source columns,
+ * `where` is a fixed condition, and the category/text clauses each bind a single parameter.
+ * `owner` is the column holding the user a row belongs to, whose reputation it's ranked by.
+ */
+export interface NearbySource {
+  table: "posts" | "jobs" | "users";
+  alias: string;
+  owner: string;
+  columns?: string[];
+  select?: string;
+  joins?: string;
+  where?: string;
+  timeColumn: string;
+  categoryClause: string;
+  textClause: string;
+  textParam: (q: string) => string;
+}
+
+// Turns free text into an FTS5 query: every word must match, as a prefix, with syntax characters neutralised
+export function ftsQuery(q: string): string {
+  return q
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => `"${word.replace(/"/g, '""')}"*`)
+    .join(" ");
+}
+
+export const likePattern = (q: string) => `%${q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+// Cursors are sealed with AES-GCM so clients can neither read the sort keys in them nor forge
+// positions to probe from. Without CURSOR_SECRET the key is per-process and outstanding cursors
+// stop working on restart.
+const CURSOR_KEY = process.env.CURSOR_SECRET
+  ? crypto.createHash("sha256").update(process.env.CURSOR_SECRET).digest()
+  : crypto.randomBytes(32);
+
+function encodeCursor(cursor: NearbyCursor): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", CURSOR_KEY, iv);
+  const sealed = Buffer.concat([cipher.update(JSON.stringify(cursor)), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), sealed]).toString("base64url");
+}
+
+function decodeCursor(raw: string): NearbyCursor | null {
+  try {
+    const data = Buffer.from(raw, "base64url");
+    const decipher = crypto.createDecipheriv("aes-256-gcm", CURSOR_KEY, data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const cursor = JSON.parse(Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString());
+    if (typeof cursor?.id !== "string" || !["number", "string"].includes(typeof cursor?.key)) return null;
+    if (cursor.at !== undefined && typeof cursor.at !== "number") return null;
+    return cursor;
+  } catch {
+    return null;
+  }
+}
+
+// Parses the query string shared by the nearby routes, throwing a 400 if it's unusable
+export function parseNearbyQuery(query: express.Request["query"]): NearbyParams {
+  const { cursor, ...params } = parse(NearbyQuery, query);
+  const decoded = cursor ? decodeCursor(cursor) : undefined;
+  if (decoded === null) throw badRequest("Invalid cursor", { cursor: "Invalid cursor" });
+  return { ...params, cursor: decoded };
+}
+
+/**
+ * Runs a nearby search: R*Tree bounding-box prefilter, optional category/text/since filters,
+ * any route-specific `filters`, exact Haversine distance, then keyset pagination over
+ * (sort key, id). Every row carries its owner's reputation, with `rating` being the
+ * weighted score (0 when unrated).
+ *
+ * The radius and the distance sort go by `shown_distance`, the distance to the row's shown
+ * position at its owner's location precision, and the box is padded by a cell so it never
+ * cuts off on the true position. Sliding the origin or the radius only ever reveals which
+ * cell an approximate location is in, which the response shows anyway.
+ */
+export function searchNearby<T extends { id: string; distance: number }>(
+  db: Database.Database,
+  source: NearbySource,
+  params: NearbyParams,
+  filters: { sql: string; params: unknown[] }[] = []
+): { items: T[]; nextCursor: string | null } {
+  const { alias: a } = source;
+  const box = boxFilter("g", boundingBoxes(params.lat, params.lng, params.radius + MAX_CELL_KM));
+  const where = [box.sql];
+  const whereParams: unknown[] = [...box.params];
+
+  // Source-specific filters built by the route
+  for (const filter of filters) {
+    where.push(filter.sql);
+    whereParams.push(...filter.params);
+  }
+
+  if (source.where) where.push(source.where);
+  if (params.category) {
+    where.push(source.categoryClause);
+    whereParams.push(params.category);
+  }
+  if (params.q) {
+    where.push(source.textClause);
+    whereParams.push(source.textParam(params.q));
+  }
+  if (params.since) {
+    where.push(`${a}.${source.timeColumn} >= ?`);
+    whereParams.push(toDbTime(params.since));
+  }
+
+  const descending = params.sort !== "distance";
+  const sortKey = params.sort === "newest" ? source.timeColumn : params.sort === "rating" ? "rating" : "shown_distance";
+  const outer = ["shown_distance <= ?"];
+  const outerParams: unknown[] = [params.radius];
+  if (params.min_rating !== undefined) {
+    outer.push("rating >= ?");
+    outerParams.push(params.min_rating);
+  }
+  if (params.cursor) {
+    outer.push(`(${sortKey} ${descending ? "<" : ">"} ? OR (${sortKey} = ? AND id > ?))`);
+    outerParams.push(params.cursor.key, params.cursor.key, params.cursor.id);
+  }
+
+  const rows = db
+    .prepare(`
+      SELECT * FROM (
+        SELECT ${source.columns?.map((column) => `${a}.${column}`).join(", ") ?? `${a}.*`}${source.select ? `, ${source.select}` : ""},
+          COALESCE(rep.review_count, 0) AS review_count, rep.rating_avg, rep.rating_trend,
+          COALESCE(rep.rating_weighted, 0) AS rating,
+          haversine_km(?, ?, ${a}.lat, ${a}.lng) AS distance,
+          shown_distance(?, ?, ${a}.lat, ${a}.lng, (SELECT location_precision FROM users WHERE id = ${source.owner})) AS shown_distance
+        FROM ${source.table}_geo g
+        JOIN ${source.table} ${a} ON ${a}.rowid = g.id
+        ${source.joins ?? ""}
+        LEFT JOIN reputation rep ON rep.user_id = ${source.owner}
+        WHERE ${where.join(" AND ")}
+      )
+      WHERE ${outer.join(" AND ")}
+      ORDER BY ${sortKey} ${descending ? "DESC" : "ASC"}, id ASC
+      LIMIT ?
+    `)
+    .all(params.lat, params.lng, params.lat, params.lng, ...whereParams, ...outerParams, params.limit + 1) as T[];
+
+  const hasMore = rows.length > params.limit;
+  const items = hasMore ? rows.slice(0, params.limit) : rows;
+  const last = items[items.length - 1] as (T & Record<string, unknown>) | undefined;
+  const nextCursor = hasMore && last ? encodeCursor({ key: last[sortKey] as NearbyCursor["key"], id: last.id }) : null;
+  return { items, nextCursor };
+}
+
+/**
+ * Pages through rows already ranked in memory by a descending numeric key (the recommended
+ * sort), resuming after the cursor's (key, id). `at` is carried into the next cursor.
+ */
+export function pageRanked<T extends { id: string }>(
+  rows: T[],
+  keyOf: (row: T) => number,
+  params: Pick<NearbyParams, "cursor" | "limit">,
+  at: number
+): { items: T[]; nextCursor: string | null } {
+  const { cursor } = params;
+  const start = cursor ? rows.findIndex((row) => keyOf(row) < Number(cursor.key) || (keyOf(row) === cursor.key && row.id > cursor.id)) : 0;
+  const rest = start < 0 ? [] : rows.slice(start);
+  const items = rest.slice(0, params.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    nextCursor: rest.length > params.limit && last ? encodeCursor({ key: keyOf(last), id: last.id, at }) : null,
+  };
+}
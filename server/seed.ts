@@ -0,0 +1,84 @@
+import type Database from "better-sqlite3";
+import { hashPassword, newId } from "./auth";
+
+export const DEMO_PASSWORD = "demo-password";
+const DEMO_EMAIL_DOMAIN = "demo.worknearby.test";
+
+const WORKERS = [
+  { name: "Alex Rivera", bio: "Reliable mover with my own van.", rates: [18, 25], skills: [["Furniture moving", "Manual Labor"], ["Van delivery", "Delivery"]] },
+  { name: "Sam Okafor", bio: "Deep cleans, end-of-tenancy and offices.", rates: [15, 20], skills: [["Deep cleaning", "Cleaning"], ["Office cleaning", "Cleaning"]] },
+  { name: "Priya Shah", bio: "IT support, network setup and small repairs.", rates: [30, 45], skills: [["Network setup", "Technical"], ["Laptop repair", "Technical"]] },
+  { name: "Jordan Lee", bio: "Happy to help with odd jobs around the house.", rates: [14, 18], skills: [["Gardening", "General"], ["Flat-pack assembly", "Manual Labor"]] },
+] as const;
+
+const POSTS = [
+  ["Man with a van this weekend", "Free Saturday and Sunday for moves and collections.", "Delivery"],
+  ["End-of-tenancy cleaning", "Fully equipped, can start tomorrow.", "Cleaning"],
+  ["Home network and Wi-Fi fixes", "Mesh setups, dead spots, printer woes.", "Technical"],
+  ["Garden tidy-ups", "Mowing, hedges and green waste removal.", "General"],
+] as const;
+
+const JOBS = [
+  ["Warehouse loader for Saturday", "Loading vans at our depot, 8am start.", "Manual Labor", 16, "hourly", 2],
+  ["Office deep clean", "Two-floor office, evening shift.", "Cleaning", 120, "fixed", 1],
+  ["Parcel courier, weekday mornings", "Own bike or scooter preferred.", "Delivery", 14, "hourly", 3],
+  ["Set up POS terminals", "Configure four tills and the back-office PC.", "Technical", 200, "fixed", 1],
+] as const;
+
+// Scatter points within roughly `km` of the centre so the demo data shows up in nearby searches
+const near = (lat: number, lng: number, km: number) => {
+  const dLat = ((Math.random() * 2 - 1) * km) / 111.32;
+  const dLng = ((Math.random() * 2 - 1) * km) / (111.32 * Math.cos((lat * Math.PI) / 180));
+  return { lat: lat + dLat, lng: lng + dLng };
+};
+
+/**
+ * Inserts demo workers, employers, availability posts and jobs around (lat, lng). Accounts sign
+ * in as <first name>@demo.worknearby.test with DEMO_PASSWORD. Does nothing if demo data exists.
+ */
+export function seedDemoData(db: Database.Database, center: { lat: number; lng: number }): { created: boolean; users: number } {
+  const existing = db.prepare("SELECT COUNT(*) FROM credentials WHERE email LIKE ?").pluck().get(`%@${DEMO_EMAIL_DOMAIN}`) as number;
+  if (existing > 0) return { created: false, users: existing };
+
+  const passwordHash = hashPassword(DEMO_PASSWORD);
+  const insertUser = db.prepare("INSERT INTO users (id, name, role, lat, lng, created_at) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)");
+  const insertCredentials = db.prepare("INSERT INTO credentials (user_id, email, password_hash) VALUES (?, ?, ?)");
+  const addUser = (name: string, role: "worker" | "employer") => {
+    const id = newId("user");
+    const { lat, lng } = near(center.lat, center.lng, 5);
+    insertUser.run(id, name, role, lat, lng);
+    insertCredentials.run(id, `${name.split(" ")[0].toLowerCase()}@${DEMO_EMAIL_DOMAIN}`, passwordHash);
+    return id;
+  };
+
+  let users = 0;
+  db.transaction(() => {
+    WORKERS.forEach((worker, i) => {
+      const id = addUser(worker.name, "worker");
+      db.prepare("INSERT INTO profiles (user_id, bio, rate_min, rate_max) VALUES (?, ?, ?, ?)").run(id, worker.bio, ...worker.rates);
+      for (const [name, category] of worker.skills) {
+        db.prepare("INSERT INTO user_skills (user_id, name, category) VALUES (?, ?, ?)").run(id, name, category);
+      }
+      // Weekdays 09:00–17:00 (minutes from Monday 00:00)
+      for (let day = 0; day < 5; day++) {
+        db.prepare("INSERT INTO availability_slots (user_id, start_minute, end_minute) VALUES (?, ?, ?)").run(id, day * 1440 + 540, day * 1440 + 1020);
+      }
+      const [title, description, category] = POSTS[i];
+      const { lat, lng } = near(center.lat, center.lng, 5);
+      db.prepare("INSERT INTO posts (id, user_id, title, description, category, lat, lng) VALUES (?, ?, ?, ?, ?, ?, ?)")
+        .run(newId("post"), id, title, description, category, lat, lng);
+      users++;
+    });
+
+    const employers = ["Morgan Blake", "Casey Nguyen"].map((name) => addUser(name, "employer"));
+    users += employers.length;
+    JOBS.forEach(([title, description, category, payRate, payType, headcount], i) => {
+      const { lat, lng } = near(center.lat, center.lng, 8);
+      db.prepare(`
+        INSERT INTO jobs (id, employer_id, title, description, category, pay_rate, pay_type, headcount, lat, lng)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(newId("job"), employers[i % employers.length], title, description, category, payRate, payType, headcount, lat, lng);
+    });
+  })();
+  return { created: true, users };
+}
@@ -0,0 +1,111 @@
+import { HttpError } from "./errors";
+
+// Posts scoring this much are published hidden and queued for review; at SPAM_REJECT_SCORE they're refused
+export const SPAM_HOLD_SCORE = 3;
+export const SPAM_REJECT_SCORE = 6;
+
+// Two posts this similar (Jaccard over word shingles) count as copies
+export const DUPLICATE_SIMILARITY = 0.8;
+// A user's own posts are compared over this window; everyone's posts within DUPLICATE_AREA_KM over a shorter one
+export const DUPLICATE_OWN_DAYS = 7;
+export const DUPLICATE_AREA_DAYS = 2;
+export const DUPLICATE_AREA_KM = 25;
+
+// Phrases that turn up in scams and ads rather than local job listings
+const SPAM_PHRASES = [
+  "bitcoin",
+  "crypto",
+  "forex",
+  "investment opportunity",
+  "guaranteed income",
+  "passive income",
+  "make money fast",
+  "earn money from home",
+  "work from home and earn",
+  "click here",
+  "click the link",
+  "dm me on telegram",
+  "whatsapp me",
+  "casino",
+  "betting tips",
+  "payday loan",
+  "gift card",
+  "wire transfer",
+  "registration fee",
+  "pay upfront",
+  "viagra",
+  "onlyfans",
+];
+
+const URL_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+|\b[a-z0-9-]+\.(?:com|net|org|io|xyz|top|biz|info|ru|cn)\b/gi;
+
+export const spamRejected = () =>
+  new HttpError(422, "spam_detected", "This looks like spam, so it wasn't published. Remove links and promotional wording and try again.");
+
+export const duplicateRejected = () =>
+  new HttpError(409, "duplicate_post", "A nearly identical post was made recently. Edit the existing post instead of posting it again.");
+
+export interface SpamVerdict {
+  score: number;
+  reasons: string[];
+}
+
+const words = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+/**
+ * Heuristic spam score for a listing's text: links, scam phrases, shouting, symbol runs and
+ * repetition each add to it. Coarse on purpose; anything held is looked at by a person.
+ */
+export function spamScore({ title, description }: { title: string; description: string }): SpamVerdict {
+  const text = `${title}\n${description}`;
+  const lower = text.toLowerCase();
+  const reasons: string[] = [];
+  let score = 0;
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  const links = text.match(URL_PATTERN)?.length ?? 0;
+  if (links) add(Math.min(links, 3) * 1.5, links === 1 ? "contains a link" : `contains ${links} links`);
+
+  const phrases = SPAM_PHRASES.filter((phrase) => lower.includes(phrase));
+  if (phrases.length) add(Math.min(phrases.length, 3) * 2, `spam phrases: ${phrases.join(", ")}`);
+
+  const letters = text.replace(/[^\p{L}]/gu, "");
+  if (letters.length >= 20 && letters.replace(/[^\p{Lu}]/gu, "").length / letters.length > 0.6) add(1, "mostly capitals");
+
+  if (/([!?$€£*])\1{3,}/.test(text)) add(1, "runs of symbols");
+
+  const all = words(text);
+  if (all.length >= 12 && new Set(all).size / all.length < 0.4) add(1.5, "repetitive text");
+
+  return { score, reasons };
+}
+
+// Overlapping three-word windows (single words for very short texts)
+function shingles(text: string): Set<string> {
+  const all = words(text);
+  if (all.length < 3) return new Set(all);
+  const out = new Set<string>();
+  for (let i = 0; i + 3 <= all.length; i++) out.add(all.slice(i, i + 3).join(" "));
+  return out;
+}
+
+export function textSimilarity(a: string, b: string): number {
+  const sa = shingles(a);
+  const sb = shingles(b);
+  if (!sa.size && !sb.size) return 1;
+  let shared = 0;
+  for (const s of sa) if (sb.has(s)) shared++;
+  return shared / (sa.size + sb.size - shared);
+}
+
+// The first candidate that's a near-copy of the new listing, if any
+export function findNearDuplicate<T extends { title: string; description: string }>(
+  listing: { title: string; description: string },
+  candidates: T[]
+): T | undefined {
+  const text = `${listing.title}\n${listing.description}`;
+  return candidates.find((c) => textSimilarity(text, `${c.title}\n${c.description}`) >= DUPLICATE_SIMILARITY);
+}
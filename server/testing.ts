@@ -0,0 +1,134 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import { openDatabase } from "./db";
+import { migrate } from "./migrate";
+import { MIGRATIONS } from "./migrations";
+import { createApp, type AppOptions } from "./app";
+import { DEFAULT_GAZETTEER_PATH } from "./geocode";
+import type { PushPayload, PushSender, PushTarget } from "./push";
+
+export interface TestResponse {
+  status: number;
+  // Parsed JSON, or the raw text for anything else
+  body: any;
+  headers: Headers;
+}
+
+// Bodies are sent as JSON, except Buffers, which go as they are with the Content-Type given in `headers`
+export interface TestClient {
+  get(url: string, headers?: Record<string, string>): Promise<TestResponse>;
+  post(url: string, body?: unknown, headers?: Record<string, string>): Promise<TestResponse>;
+  put(url: string, body?: unknown, headers?: Record<string, string>): Promise<TestResponse>;
+  patch(url: string, body?: unknown, headers?: Record<string, string>): Promise<TestResponse>;
+  delete(url: string, body?: unknown, headers?: Record<string, string>): Promise<TestResponse>;
+}
+
+export interface TestUser extends TestClient {
+  id: string;
+  email: string;
+  cookie: string;
+}
+
+const PASSWORD = "correct horse";
+
+// Sign-ups and listings all come from 127.0.0.1, so the per-IP limits are lifted unless a test sets its own
+const LOOSE = { capacity: 1000, perHour: 1000 };
+
+/**
+ * Runs the API on a fresh in-memory database, listening on a free port, with uploads going to
+ * a temporary directory. Push messages and login codes are captured instead of sent. Call
+ * `close()` when done.
+ */
+export async function startTestApp(options: Partial<AppOptions> = {}) {
+  const db = openDatabase(":memory:", { migrate: false });
+  migrate(db, MIGRATIONS);
+  const uploadDir = fs.mkdtempSync(path.join(os.tmpdir(), "worknearby-test-uploads-"));
+
+  const codes: { email: string; code: string }[] = [];
+  const pushes: { target: PushTarget; payload: PushPayload }[] = [];
+  const pushSender: PushSender = {
+    publicKey: "test-public-key",
+    send: async (target, payload) => {
+      pushes.push({ target, payload });
+      return "sent";
+    },
+  };
+
+  const app = createApp({
+    db,
+    config: {
+      uploadDir,
+      vapidSubject: "mailto:test@worknearby.local",
+      gazetteerPath: DEFAULT_GAZETTEER_PATH,
+      trustProxy: 0,
+    },
+    codeSender: { send: async (email, code) => void codes.push({ email, code }) },
+    pushSender,
+    ...options,
+    rateLimits: { signup: LOOSE, login: LOOSE, listing: LOOSE, listingPerIp: LOOSE, ...options.rateLimits },
+  });
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const request = async (cookie: string | null, method: string, url: string, body?: unknown, headers: Record<string, string> = {}): Promise<TestResponse> => {
+    const raw = Buffer.isBuffer(body);
+    const res = await fetch(base + url, {
+      method,
+      headers: { ...(body !== undefined && !raw ? { "Content-Type": "application/json" } : {}), ...(cookie ? { Cookie: cookie } : {}), ...headers },
+      body: raw ? body : body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    const text = await res.text();
+    const json = res.headers.get("content-type")?.includes("application/json");
+    return { status: res.status, body: json && text ? JSON.parse(text) : text, headers: res.headers };
+  };
+
+  const client = (cookie: string | null): TestClient => ({
+    get: (url, headers) => request(cookie, "GET", url, undefined, headers),
+    post: (url, body, headers) => request(cookie, "POST", url, body, headers),
+    put: (url, body, headers) => request(cookie, "PUT", url, body, headers),
+    patch: (url, body, headers) => request(cookie, "PATCH", url, body, headers),
+    delete: (url, body, headers) => request(cookie, "DELETE", url, body, headers),
+  });
+
+  let registered = 0;
+  // Signs up a new account; the position defaults to central London
+  const register = async (role: "worker" | "employer", fields: { name?: string; lat?: number | null; lng?: number | null } = {}): Promise<TestUser> => {
+    registered += 1;
+    const email = `${role}${registered}@example.com`;
+    const res = await request(null, "POST", "/api/auth/register", {
+      name: fields.name ?? `${role === "worker" ? "Worker" : "Employer"} ${registered}`,
+      email,
+      password: PASSWORD,
+      role,
+      lat: fields.lat === undefined ? 51.5074 : fields.lat,
+      lng: fields.lng === undefined ? -0.1278 : fields.lng,
+    });
+    if (res.status !== 200) throw new Error(`Sign-up failed (${res.status}): ${JSON.stringify(res.body)}`);
+    const cookie = res.headers.get("set-cookie")!.split(";")[0];
+    return { id: res.body.id, email, cookie, ...client(cookie) };
+  };
+
+  return {
+    db,
+    url: base,
+    uploadDir,
+    codes,
+    pushes,
+    anonymous: client(null),
+    as: client,
+    register,
+    password: PASSWORD,
+    close: async () => {
+      // fetch keeps connections alive, which would hold close() open
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+      db.close();
+      fs.rmSync(uploadDir, { recursive: true, force: true });
+    },
+  };
+}
+
+export type TestApp = Awaited<ReturnType<typeof startTestApp>>;
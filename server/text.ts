@@ -0,0 +1,4 @@
+export const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whether `text` contains `phrase` as whole words, ignoring case
+export const mentions = (text: string, phrase: string) => new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "iu").test(text);
@@ -0,0 +1,6 @@
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone marker ("YYYY-MM-DD HH:MM:SS"). Times the app
+// writes or compares against in SQL use the same form, so they sort and compare as text.
+export const toDbTime = (value: string | number) => new Date(value).toISOString().slice(0, 19).replace("T", " ");
+
+// Milliseconds since the epoch for a database timestamp; ISO strings pass through as they are
+export const parseDbTime = (value: string) => Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
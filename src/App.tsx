@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   MapPin, 
   Search, 
@@ -14,135 +14,593 @@ import {
   Clock, 
   ChevronRight,
   Filter,
+  LogOut,
+  MessageCircle,
+  LayoutGrid,
+  Map as MapIcon,
+  BookmarkPlus,
+  BookmarkCheck,
   X
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import type { User, Post, Role } from './types';
+import type { User, Job, Post, PostStatus, Listing, Role, Application, ApplicationStatus, Availability, LocationPrecision, Place, ReportTarget } from './types';
+import ResultCard, { type FeedItem } from './components/ResultCard';
+import JobFormModal, { type JobDraft } from './components/JobFormModal';
+import PostFormModal, { type PostDraft } from './components/PostFormModal';
+import ApplicationsList from './components/ApplicationsList';
+import InviteModal from './components/InviteModal';
+import FieldError from './components/FieldError';
+import ChatPanel from './components/ChatPanel';
+import MapView, { type SearchArea } from './components/MapView';
+import PresenceControl from './components/PresenceControl';
+import AccountMenu from './components/AccountMenu';
+import ProfileScreen from './components/ProfileScreen';
+import AdminPanel from './components/AdminPanel';
+import ReviewsModal from './components/ReviewsModal';
+import ReviewFormModal from './components/ReviewFormModal';
+import BookingFormModal, { type BookingInput } from './components/BookingFormModal';
+import BookingsList from './components/BookingsList';
+import NotificationsPanel from './components/NotificationsPanel';
+import OfflineBanner from './components/OfflineBanner';
+import LocationPicker from './components/LocationPicker';
+import ReportModal from './components/ReportModal';
+import { useMessaging } from './hooks/useMessaging';
+import { useNotifications } from './hooks/useNotifications';
+import { usePresence } from './hooks/usePresence';
+import { useOutbox } from './hooks/useOutbox';
+import { useSavedLocations } from './hooks/useSavedLocations';
+import { api, errorMessage, ApiError, type FieldErrors } from './api';
+import { sendOrQueue, type QueuedWrite } from './outbox';
+import { CATEGORIES } from './categories';
 
-// Mock user ID for demo purposes
-const MOCK_USER_ID = 'user_' + Math.random().toString(36).substr(2, 9);
+type AuthMode = 'login' | 'register' | 'code';
+// Workers browse jobs; employers browse workers/availability or manage their own jobs.
+// Both sides track their applications under 'applications' and booked shifts under 'bookings'.
+type Feed = 'jobs' | 'workers' | 'availability' | 'my-jobs' | 'my-posts' | 'applications' | 'bookings';
+
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+const PAGE_SIZE = 20;
+const LIVE_LOCATION_KEY = 'wn_live_location';
+const MANUAL_LOCATION_KEY = 'wn_manual_location';
+const defaultFeed = (role: Role): Feed => (role === 'employer' ? 'workers' : 'jobs');
+
+const FEED_TABS: Record<Role, [Feed, string][]> = {
+  worker: [['jobs', 'Jobs'], ['my-posts', 'My Posts'], ['applications', 'My Applications'], ['bookings', 'Bookings']],
+  employer: [['workers', 'Workers'], ['availability', 'Availability'], ['my-jobs', 'My Jobs'], ['applications', 'Applicants'], ['bookings', 'Bookings']]
+};
 
 export default function App() {
   const [user, setUser] = useState<User | null>(null);
+  const [authChecked, setAuthChecked] = useState(false);
+  const [authMode, setAuthMode] = useState<AuthMode>('login');
+  const [codeSent, setCodeSent] = useState(false);
   const [role, setRole] = useState<Role>('worker');
-  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
-  const [posts, setPosts] = useState<Post[]>([]);
-  const [workers, setWorkers] = useState<User[]>([]);
-  const [isPosting, setIsPosting] = useState(false);
+  const [liveLocation, setLiveLocation] = useState(() => localStorage.getItem(LIVE_LOCATION_KEY) === '1');
+  const { location: gpsLocation, error: locationError } = usePresence(user?.id ?? null, liveLocation);
+  // A place chosen by hand (typed address, map pin or saved location) overrides GPS for searching and posting
+  const [manualPlace, setManualPlace] = useState<Place | null>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(MANUAL_LOCATION_KEY) ?? 'null');
+    } catch {
+      return null;
+    }
+  });
+  const location = manualPlace ?? gpsLocation;
+  const [pickingLocation, setPickingLocation] = useState(false);
+  const savedLocations = useSavedLocations(user?.id ?? null);
+  const [feed, setFeed] = useState<Feed>('jobs');
+  // The user's own listings rather than a nearby search
+  const ownFeed = feed === 'my-jobs' || feed === 'my-posts';
+  const [items, setItems] = useState<FeedItem[]>([]);
+  const [editingPost, setEditingPost] = useState<Post | 'new' | null>(null);
+  // Set when the post editor was opened to give an expired post a new date, so saving reopens it
+  const [reopening, setReopening] = useState(false);
+  const [editingJob, setEditingJob] = useState<Job | 'new' | null>(null);
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [invitingWorker, setInvitingWorker] = useState<User | null>(null);
+  const [reviewing, setReviewing] = useState<Application | null>(null);
+  const [booking, setBooking] = useState<Application | null>(null);
+  const [viewingReviews, setViewingReviews] = useState<{ userId: string; name: string } | null>(null);
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+  const [adminOpen, setAdminOpen] = useState(false);
+  const [reporting, setReporting] = useState<{ type: ReportTarget; id: string; name: string } | null>(null);
+  const [isChatOpen, setIsChatOpen] = useState(false);
+  const messaging = useMessaging(user?.id ?? null);
+  const alerts = useNotifications(user?.id ?? null);
+  // Offline posts and applications show up in their lists once they've been sent
+  const outbox = useOutbox(user?.id ?? null, (write: QueuedWrite) => {
+    if (write.kind === 'application') fetchApplications();
+    if (write.kind === 'post' && feed === 'my-posts') fetchNearby();
+  });
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  // Employer-only filters on the workers feed, debounced together with the search text
+  const [workerFilters, setWorkerFilters] = useState({ skill: '', maxRate: '', availableAt: '' });
+  const [debouncedWorkerFilters, setDebouncedWorkerFilters] = useState(workerFilters);
+  const [category, setCategory] = useState('All');
+  const [radius, setRadius] = useState(50);
+  const [sort, setSort] = useState<'distance' | 'recommended' | 'newest' | 'rating'>('distance');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'list' | 'map'>('list');
+  // Set by "Search this area" on the map; replaces our own position and radius in nearby queries
+  const [searchArea, setSearchArea] = useState<SearchArea | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const requestIdRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  // Errors from actions outside a form (apply, invite, loading results...), shown as a banner
+  const [notice, setNotice] = useState<string | null>(null);
 
-  // Form state
-  const [postTitle, setPostTitle] = useState('');
-  const [postDesc, setPostDesc] = useState('');
-  const [postCategory, setPostCategory] = useState('General');
-
+  // Restore the session from the cookie on reload
   useEffect(() => {
-    if ("geolocation" in navigator) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          setLocation({
-            lat: position.coords.latitude,
-            lng: position.coords.longitude
-          });
-        },
-        (err) => {
-          setError("Location access denied. Please enable GPS to see nearby results.");
-          console.error(err);
-        }
-      );
-    }
+    api<User>('/api/auth/me')
+      .then(me => {
+        setUser(me);
+        setRole(me.role);
+        setFeed(defaultFeed(me.role));
+      })
+      .catch(() => {})
+      .finally(() => setAuthChecked(true));
   }, []);
 
   useEffect(() => {
-    if (location && user) {
+    localStorage.setItem(LIVE_LOCATION_KEY, liveLocation ? '1' : '0');
+  }, [liveLocation]);
+
+  useEffect(() => {
+    if (manualPlace) localStorage.setItem(MANUAL_LOCATION_KEY, JSON.stringify(manualPlace));
+    else localStorage.removeItem(MANUAL_LOCATION_KEY);
+  }, [manualPlace]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedQuery(searchQuery.trim());
+      setDebouncedWorkerFilters(workerFilters);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery, workerFilters]);
+
+  useEffect(() => {
+    if (user && (location || searchArea || ownFeed)) {
       fetchNearby();
     }
-  }, [location, user, role]);
+  }, [location, user, feed, debouncedQuery, debouncedWorkerFilters, category, radius, sort, searchArea]);
+
+  // Infinite scroll: fetch the next page when the sentinel under the grid comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  // Applications back both the "My Applications"/"Applicants" view and the Apply buttons' state
+  useEffect(() => {
+    if (user) fetchApplications();
+  }, [user, feed]);
+
+  const fetchApplications = async () => {
+    try {
+      setApplications(await api<Application[]>('/api/applications'));
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
+
+  // Keep the selected card in view in the map's side list
+  useEffect(() => {
+    if (selectedId) {
+      document.querySelector(`[data-item-id="${selectedId}"]`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [selectedId]);
+
+  // Picking a result counts as looking at it, which tunes the recommended sort; best effort only
+  useEffect(() => {
+    const item = selectedId && items.find(i => i.id === selectedId);
+    if (!user || !item) return;
+    const type = 'kind' in item ? (item.kind === 'job' ? 'job' : 'post') : 'user';
+    api('/api/views', { body: { type, id: item.id } }).catch(() => {});
+  }, [selectedId]);
+
+  const nearbyUrl = (cursor: string | null) => {
+    const anchor = searchArea ?? (location && { ...location, radius });
+    if (!anchor) return null;
+    const path = feed === 'workers' ? 'workers' : feed === 'availability' ? 'posts' : 'jobs';
+    const params = new URLSearchParams({
+      lat: String(anchor.lat),
+      lng: String(anchor.lng),
+      radius: String(anchor.radius),
+      sort,
+      limit: String(PAGE_SIZE)
+    });
+    if (debouncedQuery) params.set('q', debouncedQuery);
+    if (category !== 'All') params.set('category', category);
+    if (feed === 'workers') {
+      const { skill, maxRate, availableAt } = debouncedWorkerFilters;
+      if (skill.trim()) params.set('skill', skill.trim());
+      if (maxRate) params.set('max_rate', maxRate);
+      if (availableAt) params.set('available_at', new Date(availableAt).toISOString());
+    }
+    if (cursor) params.set('cursor', cursor);
+    return `/api/${path}/nearby?${params}`;
+  };
 
   const fetchNearby = async () => {
-    if (!location) return;
+    if (feed === 'applications' || feed === 'bookings') return;
+    // Responses for superseded filters are dropped
+    const requestId = ++requestIdRef.current;
     setLoading(true);
+    setNextCursor(null);
     try {
-      if (role === 'employer') {
-        // Employers search for workers
-        const res = await fetch(`/api/workers/nearby?lat=${location.lat}&lng=${location.lng}`);
-        const data = await res.json();
-        setWorkers(data);
+      if (ownFeed) {
+        const data = await api<FeedItem[]>(feed === 'my-jobs' ? '/api/jobs/mine' : '/api/posts/mine');
+        if (requestId === requestIdRef.current) setItems(data);
       } else {
-        // Workers search for jobs/posts
-        const res = await fetch(`/api/posts/nearby?lat=${location.lat}&lng=${location.lng}`);
-        const data = await res.json();
-        setPosts(data);
+        const url = nearbyUrl(null);
+        if (!url) return;
+        const data = await api<{ items: FeedItem[]; nextCursor: string | null }>(url);
+        if (requestId !== requestIdRef.current) return;
+        setItems(data.items);
+        setNextCursor(data.nextCursor);
       }
     } catch (err) {
-      console.error(err);
+      if (requestId === requestIdRef.current) setNotice(errorMessage(err));
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+    const url = nearbyUrl(nextCursor);
+    if (!url) return;
+    const requestId = requestIdRef.current;
+    setLoadingMore(true);
+    try {
+      const data = await api<{ items: FeedItem[]; nextCursor: string | null }>(url);
+      if (requestId !== requestIdRef.current) return;
+      setItems(prev => [...prev, ...data.items]);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      setNotice(errorMessage(err));
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const handleAuth = async (form: HTMLFormElement) => {
+    const field = (name: string) => (form.elements.namedItem(name) as HTMLInputElement | null)?.value ?? '';
+    let url: string;
+    let body: Record<string, unknown>;
+    if (authMode === 'register') {
+      url = '/api/auth/register';
+      body = { name: field('name'), email: field('email'), password: field('password'), role, lat: location?.lat, lng: location?.lng };
+    } else if (authMode === 'code') {
+      url = codeSent ? '/api/auth/code/verify' : '/api/auth/code';
+      body = { email: field('email'), code: field('code') };
+    } else {
+      url = '/api/auth/login';
+      body = { email: field('email'), password: field('password') };
+    }
+
+    setError(null);
+    setFieldErrors({});
+    try {
+      const data = await api<User>(url, { body });
+      if (authMode === 'code' && !codeSent) {
+        setCodeSent(true);
+        return;
+      }
+      setUser(data);
+      setRole(data.role);
+      setFeed(defaultFeed(data.role));
+    } catch (err) {
+      setError(errorMessage(err));
+      if (err instanceof ApiError) setFieldErrors(err.fields);
+    }
+  };
+
+  const handleAvailability = async (availability: Availability) => {
+    try {
+      setUser(await api<User>('/api/users/me', { method: 'PATCH', body: { availability } }));
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
+
+  const handlePickPlace = async (place: Place) => {
+    setManualPlace(place);
+    setSearchArea(null);
+    setPickingLocation(false);
+    // Without a GPS fix the heartbeat can't place us, so the chosen spot is where we show up in nearby results
+    if (!user || gpsLocation) return;
+    try {
+      setUser(await api<User>('/api/users/me', { method: 'PATCH', body: { lat: place.lat, lng: place.lng } }));
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
+
+  const handleUseGps = () => {
+    setManualPlace(null);
+    setSearchArea(null);
+    setPickingLocation(false);
+  };
+
+  const handlePrecision = async (location_precision: LocationPrecision) => {
+    try {
+      setUser(await api<User>('/api/users/me', { method: 'PATCH', body: { location_precision } }));
+    } catch (err) {
+      setNotice(errorMessage(err));
     }
   };
 
-  const handleJoin = async (name: string) => {
-    if (!location) return;
-    const newUser: User = {
-      id: MOCK_USER_ID,
-      name,
-      role,
-      lat: location.lat,
-      lng: location.lng
+  // The search currently on screen, as a saved search: jobs alert on new jobs, the worker feeds on new availability posts
+  const currentSearch = () => {
+    const anchor = searchArea ?? (location && { ...location, radius });
+    if (!anchor) return null;
+    return {
+      target: feed === 'jobs' ? 'jobs' as const : 'posts' as const,
+      q: debouncedQuery || null,
+      categories: category === 'All' ? [] : [category],
+      lat: anchor.lat,
+      lng: anchor.lng,
+      radius: anchor.radius
     };
-    
+  };
+  const searchSaved = (() => {
+    const search = currentSearch();
+    return !!search && alerts.savedSearches.some(s =>
+      s.target === search.target && s.q === search.q && s.categories.join() === search.categories.join() &&
+      s.lat === search.lat && s.lng === search.lng && s.radius === search.radius
+    );
+  })();
+
+  const handleSaveSearch = async () => {
+    const search = currentSearch();
+    if (!search || searchSaved) return;
     try {
-      await fetch('/api/users', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newUser)
+      await alerts.saveSearch(search);
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await api('/api/auth/logout', { method: 'POST' });
+      // Don't leave this account's results in the offline cache for the next person on the device
+      navigator.serviceWorker?.controller?.postMessage({ type: 'clear-api-cache' });
+    } finally {
+      setUser(null);
+      setItems([]);
+      setAdminOpen(false);
+    }
+  };
+
+  const handleSavePost = async (draft: PostDraft) => {
+    // New listings are placed at our location, so ask for one first
+    if (!location && editingPost === 'new') {
+      setPickingLocation(true);
+      return;
+    }
+    const isNew = editingPost === 'new';
+    setFieldErrors({});
+    setFormError(null);
+    try {
+      // New posts made offline are queued rather than lost; edits need a connection
+      const saved = isNew
+        ? await sendOrQueue({
+            user_id: user!.id,
+            kind: 'post',
+            label: `Post "${draft.title}"`,
+            url: '/api/posts',
+            method: 'POST',
+            body: { ...draft, lat: location!.lat, lng: location!.lng }
+          })
+        : await api(`/api/posts/${(editingPost as Post).id}`, { method: 'PATCH', body: reopening ? { ...draft, status: 'open' } : draft });
+      setEditingPost(null);
+      setReopening(false);
+      if (saved === null) return;
+      if (feed === 'my-posts') fetchNearby();
+      else setFeed('my-posts');
+    } catch (err) {
+      setFormError(errorMessage(err));
+      if (err instanceof ApiError) setFieldErrors(err.fields);
+    }
+  };
+
+  const handleListingStatus = async (listing: Listing, status: PostStatus) => {
+    try {
+      const updated = await api<Listing>(`/api/${listing.kind === 'job' ? 'jobs' : 'posts'}/${listing.id}`, { method: 'PATCH', body: { status } });
+      setItems(items.map(i => (i.id === updated.id ? updated : i)));
+    } catch (err) {
+      // Reopening a listing whose expiry has passed needs a new date: open the editor for it
+      if (err instanceof ApiError && err.fields.expires_at) {
+        setFieldErrors(err.fields);
+        setFormError(null);
+        setReopening(true);
+        if (listing.kind === 'job') setEditingJob(listing);
+        else setEditingPost(listing);
+        return;
+      }
+      setNotice(errorMessage(err));
+    }
+  };
+
+  const handleSaveJob = async (draft: JobDraft) => {
+    // New listings are placed at our location, so ask for one first
+    if (!location && editingJob === 'new') {
+      setPickingLocation(true);
+      return;
+    }
+    const isNew = editingJob === 'new';
+    setFieldErrors({});
+    setFormError(null);
+    try {
+      await api(isNew ? '/api/jobs' : `/api/jobs/${(editingJob as Job).id}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        body: isNew ? { ...draft, lat: location!.lat, lng: location!.lng } : reopening ? { ...draft, status: 'open' } : draft
       });
-      setUser(newUser);
+      setEditingJob(null);
+      setReopening(false);
+      if (feed === 'my-jobs') fetchNearby();
+      else setFeed('my-jobs');
     } catch (err) {
-      console.error(err);
+      setFormError(errorMessage(err));
+      if (err instanceof ApiError) setFieldErrors(err.fields);
     }
   };
 
-  const handleCreatePost = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!user || !location) return;
-
-    const newPost = {
-      id: 'post_' + Math.random().toString(36).substr(2, 9),
-      userId: user.id,
-      title: postTitle,
-      description: postDesc,
-      category: postCategory,
-      lat: location.lat,
-      lng: location.lng
-    };
+  const handleEditListing = (listing: Listing) => {
+    setFieldErrors({});
+    setFormError(null);
+    if (listing.kind === 'job') setEditingJob(listing);
+    else setEditingPost(listing);
+  };
+
+  const handleDeleteListing = async (listing: Listing) => {
+    if (!window.confirm(`Delete "${listing.title}"?`)) return;
+    try {
+      await api(`/api/${listing.kind === 'job' ? 'jobs' : 'posts'}/${listing.id}`, { method: 'DELETE' });
+      setItems(items.filter(i => i.id !== listing.id));
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
 
+  const handleApply = async (job: Job) => {
     try {
-      await fetch('/api/posts', {
+      const created = await sendOrQueue<Application>({
+        user_id: user!.id,
+        kind: 'application',
+        target_id: job.id,
+        label: `Application to "${job.title}"`,
+        url: `/api/jobs/${job.id}/applications`,
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newPost)
+        body: {}
       });
-      setIsPosting(false);
-      setPostTitle('');
-      setPostDesc('');
-      fetchNearby();
+      if (created) setApplications([created, ...applications]);
     } catch (err) {
-      console.error(err);
+      setNotice(errorMessage(err));
     }
   };
 
-  const filteredItems = useMemo(() => {
-    if (role === 'employer') {
-      return workers.filter(w => w.name.toLowerCase().includes(searchQuery.toLowerCase()));
+  const handleInvite = async (job: Job) => {
+    if (!invitingWorker) return;
+    try {
+      await api(`/api/jobs/${job.id}/invitations`, { body: { workerId: invitingWorker.id } });
+      setInvitingWorker(null);
+      fetchApplications();
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
+
+  const handleTransition = async (application: Application, status: ApplicationStatus) => {
+    try {
+      const updated = await api<Application>(`/api/applications/${application.id}`, { method: 'PATCH', body: { status } });
+      setApplications(applications.map(a => (a.id === updated.id ? updated : a)));
+    } catch (err) {
+      setNotice(errorMessage(err));
+    }
+  };
+
+  const handleReview = async (rating: number, body: string) => {
+    if (!reviewing) return;
+    setFieldErrors({});
+    setFormError(null);
+    try {
+      await api(`/api/applications/${reviewing.id}/reviews`, { method: 'POST', body: { rating, body } });
+      setApplications(applications.map(a => (a.id === reviewing.id ? { ...a, reviewed: true } : a)));
+      setReviewing(null);
+    } catch (err) {
+      setFormError(errorMessage(err));
+      if (err instanceof ApiError) setFieldErrors(err.fields);
+    }
+  };
+
+  const handleBook = async ({ hourly_rate, shift }: BookingInput) => {
+    if (!booking) return;
+    setFieldErrors({});
+    setFormError(null);
+    try {
+      await api('/api/bookings', { body: { applicationId: booking.id, hourly_rate, shifts: shift ? [shift] : [] } });
+      setBooking(null);
+      setFeed('bookings');
+    } catch (err) {
+      setFormError(errorMessage(err));
+      if (err instanceof ApiError) setFieldErrors(err.fields);
     }
-    return posts.filter(p => 
-      p.title.toLowerCase().includes(searchQuery.toLowerCase()) || 
-      p.category.toLowerCase().includes(searchQuery.toLowerCase())
+  };
+
+  const handleMessage = (otherUserId: string) => {
+    setIsChatOpen(true);
+    messaging.startConversation(otherUserId);
+  };
+
+  const appliedJobIds = useMemo(() => new Set(applications.map(a => a.job_id)), [applications]);
+  const queuedJobIds = useMemo(
+    () => new Set(outbox.pending.filter(w => w.kind === 'application').map(w => w.target_id)),
+    [outbox.pending]
+  );
+
+  // Nearby feeds are filtered by the server; only the (unpaginated) "My Jobs"/"My Posts" lists filter locally
+  const filteredItems = useMemo(() => {
+    if (!ownFeed) return items;
+    const q = searchQuery.toLowerCase();
+    return items.filter(item =>
+      'kind' in item &&
+      (category === 'All' || item.category === category) &&
+      (item.title.toLowerCase().includes(q) || item.category.toLowerCase().includes(q))
     );
-  }, [workers, posts, searchQuery, role]);
+  }, [items, searchQuery, category, ownFeed]);
+
+  const renderCard = (item: FeedItem) => (
+    <ResultCard
+      item={item}
+      onEdit={ownFeed ? handleEditListing : undefined}
+      onDelete={ownFeed ? handleDeleteListing : undefined}
+      onSetStatus={ownFeed ? handleListingStatus : undefined}
+      onApply={feed === 'jobs' ? handleApply : undefined}
+      onInvite={feed === 'workers' ? setInvitingWorker : undefined}
+      onMessage={!ownFeed ? handleMessage : undefined}
+      onShowReviews={!ownFeed ? (userId, name) => setViewingReviews({ userId, name }) : undefined}
+      onViewProfile={!ownFeed ? setProfileUserId : undefined}
+      onReport={!ownFeed ? (target) => setReporting('kind' in target ? { type: target.kind === 'job' ? 'job' : 'post', id: target.id, name: `"${target.title}"` } : { type: 'user', id: target.id, name: target.name }) : undefined}
+      applied={appliedJobIds.has(item.id)}
+      applyPending={queuedJobIds.has(item.id)}
+      viewerId={user?.id}
+    />
+  );
+
+  const locationPicker = (
+    <AnimatePresence>
+      {pickingLocation && (
+        <LocationPicker
+          current={location}
+          hasGps={!!gpsLocation}
+          saved={user ? savedLocations.locations : undefined}
+          onPick={handlePickPlace}
+          onUseGps={handleUseGps}
+          onSave={user ? savedLocations.save : undefined}
+          onDelete={user ? savedLocations.remove : undefined}
+          onClose={() => setPickingLocation(false)}
+        />
+      )}
+    </AnimatePresence>
+  );
+
+  if (!authChecked) {
+    return <div className="min-h-screen bg-[#F5F5F5]" />;
+  }
 
   if (!user) {
     return (
@@ -160,42 +618,107 @@ export default function App() {
           <h1 className="text-3xl font-semibold text-center mb-2 tracking-tight">WorkNearby</h1>
           <p className="text-neutral-500 text-center mb-8">Connect with opportunities around you.</p>
           
-          <div className="flex p-1 bg-neutral-100 rounded-xl mb-6">
-            <button 
-              onClick={() => setRole('worker')}
-              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${role === 'worker' ? 'bg-white shadow-sm text-black' : 'text-neutral-500'}`}
-            >
-              I need work
-            </button>
-            <button 
-              onClick={() => setRole('employer')}
-              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${role === 'employer' ? 'bg-white shadow-sm text-black' : 'text-neutral-500'}`}
-            >
-              I'm hiring
-            </button>
-          </div>
+          {authMode === 'register' && (
+            <div className="flex p-1 bg-neutral-100 rounded-xl mb-6">
+              <button 
+                onClick={() => setRole('worker')}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${role === 'worker' ? 'bg-white shadow-sm text-black' : 'text-neutral-500'}`}
+              >
+                I need work
+              </button>
+              <button 
+                onClick={() => setRole('employer')}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${role === 'employer' ? 'bg-white shadow-sm text-black' : 'text-neutral-500'}`}
+              >
+                I'm hiring
+              </button>
+            </div>
+          )}
 
           <form onSubmit={(e) => {
             e.preventDefault();
-            const name = (e.currentTarget.elements.namedItem('name') as HTMLInputElement).value;
-            handleJoin(name);
+            handleAuth(e.currentTarget);
           }}>
+            {authMode === 'register' && (
+              <input 
+                name="name"
+                required
+                placeholder="Your Name"
+                className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 mb-4"
+              />
+            )}
+            <FieldError message={fieldErrors.name} className="-mt-3 mb-4" />
             <input 
-              name="name"
+              name="email"
+              type="email"
               required
-              placeholder="Your Name"
+              placeholder="Email"
               className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 mb-4"
             />
+            <FieldError message={fieldErrors.email} className="-mt-3 mb-4" />
+            {authMode !== 'code' ? (
+              <input 
+                name="password"
+                type="password"
+                required
+                minLength={authMode === 'register' ? 8 : undefined}
+                placeholder="Password"
+                className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 mb-4"
+              />
+            ) : codeSent && (
+              <input 
+                name="code"
+                required
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="6-digit code"
+                className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 mb-4"
+              />
+            )}
+            <FieldError message={fieldErrors.password ?? fieldErrors.code} className="-mt-3 mb-4" />
             <button 
               type="submit"
               className="w-full bg-black text-white py-3 rounded-xl font-medium hover:bg-neutral-800 transition-colors"
             >
-              Get Started
+              {authMode === 'register' ? 'Get Started' : authMode === 'code' && !codeSent ? 'Email me a code' : 'Sign In'}
             </button>
           </form>
+
+          <div className="mt-4 flex flex-col items-center gap-1 text-xs text-neutral-500">
+            {authMode !== 'register' && (
+              <button onClick={() => { setAuthMode('register'); setError(null); }} className="hover:text-black">
+                New here? Create an account
+              </button>
+            )}
+            {authMode !== 'login' && (
+              <button onClick={() => { setAuthMode('login'); setError(null); }} className="hover:text-black">
+                Already have an account? Sign in
+              </button>
+            )}
+            {authMode === 'login' && (
+              <button onClick={() => { setAuthMode('code'); setCodeSent(false); setError(null); }} className="hover:text-black">
+                Sign in with a one-time code
+              </button>
+            )}
+          </div>
           
-          {error && <p className="mt-4 text-red-500 text-xs text-center">{error}</p>}
+          {manualPlace ? (
+            <button onClick={() => setPickingLocation(true)} className="mt-4 w-full flex items-center justify-center gap-1.5 text-xs text-neutral-500 hover:text-black">
+              <MapPin className="w-3 h-3" /> {manualPlace.name} · Change
+            </button>
+          ) : locationError && (
+            <button onClick={() => setPickingLocation(true)} className="mt-4 w-full flex items-center justify-center gap-1.5 text-xs font-medium hover:underline">
+              <MapPin className="w-3 h-3" /> Set your location manually
+            </button>
+          )}
+
+          {(error || (!location && locationError)) && <p className="mt-4 text-red-500 text-xs text-center">{error ?? locationError}</p>}
         </motion.div>
+        <AnimatePresence>
+        {reporting && <ReportModal target={reporting} onClose={() => setReporting(null)} />}
+      </AnimatePresence>
+
+      {locationPicker}
       </div>
     );
   }
@@ -210,200 +733,432 @@ export default function App() {
             <span className="font-semibold text-lg tracking-tight">WorkNearby</span>
           </div>
           <div className="flex items-center gap-4">
-            <div className="flex items-center gap-2 px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium">
-              <MapPin className="w-3 h-3" />
-              {location ? 'Nearby' : 'Locating...'}
-            </div>
-            <div className="w-8 h-8 bg-neutral-200 rounded-full flex items-center justify-center">
-              <UserIcon className="w-4 h-4 text-neutral-600" />
-            </div>
+            {searchArea ? (
+              <button
+                onClick={() => setSearchArea(null)}
+                title="Back to my location"
+                className="flex items-center gap-2 px-3 py-1.5 bg-black text-white rounded-full text-xs font-medium"
+              >
+                <MapPin className="w-3 h-3" />
+                Map area
+                <X className="w-3 h-3" />
+              </button>
+            ) : (
+              <button
+                onClick={() => setPickingLocation(true)}
+                title="Change location"
+                className="flex items-center gap-2 px-3 py-1.5 bg-neutral-100 hover:bg-neutral-200 rounded-full text-xs font-medium transition-colors"
+              >
+                <MapPin className="w-3 h-3" />
+                {manualPlace?.name ?? (gpsLocation ? 'Nearby' : locationError ? 'Set location' : 'Locating...')}
+              </button>
+            )}
+            {role === 'worker' && (
+              <PresenceControl
+                availability={user.availability ?? 'available'}
+                live={liveLocation}
+                onAvailabilityChange={handleAvailability}
+                onLiveChange={setLiveLocation}
+              />
+            )}
+            <button 
+              onClick={() => { messaging.openConversation(null); setIsChatOpen(true); }}
+              title="Messages"
+              className="relative p-2 hover:bg-neutral-100 rounded-full transition-colors"
+            >
+              <MessageCircle className="w-4 h-4 text-neutral-600" />
+              {messaging.unreadTotal > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-black text-white text-[9px] font-bold flex items-center justify-center">
+                  {messaging.unreadTotal}
+                </span>
+              )}
+            </button>
+            <NotificationsPanel
+              notifications={alerts.notifications}
+              unread={alerts.unread}
+              savedSearches={alerts.savedSearches}
+              pushState={alerts.pushState}
+              error={alerts.error}
+              onOpen={alerts.markAllRead}
+              onDeleteSearch={alerts.deleteSearch}
+              onEnablePush={alerts.enablePush}
+              onDisablePush={alerts.disablePush}
+            />
+            <AccountMenu
+              avatarUrl={user.avatar_url}
+              precision={user.location_precision ?? '500m'}
+              onChange={handlePrecision}
+              onOpenProfile={() => setProfileUserId(user.id)}
+              onOpenAdmin={user.is_admin ? () => { setAdminOpen(true); setProfileUserId(null); } : undefined}
+            />
+            <button onClick={handleLogout} title="Sign out" className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+              <LogOut className="w-4 h-4 text-neutral-600" />
+            </button>
           </div>
         </div>
       </header>
 
       <main className="max-w-5xl mx-auto px-4 py-8">
-        {/* Search & Actions */}
-        <div className="flex flex-col md:flex-row gap-4 mb-8">
-          <div className="relative flex-1">
-            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
-            <input 
-              type="text"
-              placeholder={role === 'worker' ? "Search for jobs..." : "Search for workers..."}
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-11 pr-4 py-3 bg-white rounded-2xl border border-black/5 shadow-sm focus:outline-none focus:ring-2 focus:ring-black/5"
-            />
-          </div>
-          {role === 'worker' && (
-            <button 
-              onClick={() => setIsPosting(true)}
-              className="bg-black text-white px-6 py-3 rounded-2xl font-medium flex items-center justify-center gap-2 hover:bg-neutral-800 transition-colors shadow-sm"
-            >
-              <Plus className="w-4 h-4" />
-              Post Availability
-            </button>
-          )}
-        </div>
+        <OfflineBanner
+          online={outbox.online}
+          pending={outbox.pending}
+          failed={outbox.failed}
+          onRetry={outbox.replay}
+          onDismissFailure={outbox.dismissFailure}
+        />
 
-        {/* Filters/Tabs */}
-        <div className="flex gap-2 mb-6 overflow-x-auto pb-2 scrollbar-hide">
-          {['All', 'General', 'Delivery', 'Cleaning', 'Technical', 'Manual Labor'].map(cat => (
-            <button 
-              key={cat}
-              className="px-4 py-2 bg-white border border-black/5 rounded-full text-sm font-medium whitespace-nowrap hover:bg-neutral-50 transition-colors shadow-sm"
-            >
-              {cat}
+        {notice && (
+          <div className="mb-6 flex items-center gap-3 px-4 py-3 bg-red-50 border border-red-100 text-red-700 rounded-2xl text-sm">
+            <span className="flex-1">{notice}</span>
+            <button onClick={() => setNotice(null)} className="p-1 hover:bg-red-100 rounded-full transition-colors">
+              <X className="w-4 h-4" />
             </button>
-          ))}
-        </div>
+          </div>
+        )}
 
-        {/* Content Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          <AnimatePresence mode="popLayout">
-            {loading ? (
-              [1, 2, 3].map(i => (
-                <div key={i} className="bg-white p-6 rounded-3xl h-48 animate-pulse border border-black/5" />
-              ))
-            ) : filteredItems.length > 0 ? (
-              filteredItems.map((item) => (
-                <motion.div
-                  layout
-                  initial={{ opacity: 0, scale: 0.95 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.95 }}
-                  key={item.id}
-                  className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm hover:shadow-md transition-all group cursor-pointer"
-                >
-                  <div className="flex justify-between items-start mb-4">
-                    <div className="p-3 bg-neutral-100 rounded-2xl group-hover:bg-black group-hover:text-white transition-colors">
-                      {role === 'worker' ? <Briefcase className="w-5 h-5" /> : <UserIcon className="w-5 h-5" />}
+        {profileUserId && (
+          <ProfileScreen
+            userId={profileUserId}
+            viewerId={user.id}
+            categories={CATEGORIES}
+            onBack={() => setProfileUserId(null)}
+            onMessage={handleMessage}
+            onAvatarChange={(avatar_url) => setUser({ ...user, avatar_url })}
+          />
+        )}
+
+        {adminOpen && !profileUserId && (
+          <AdminPanel viewerId={user.id} onBack={() => setAdminOpen(false)} onViewProfile={setProfileUserId} />
+        )}
+
+        {/* Kept mounted under the profile and admin panel so the feed keeps its results and scroll position */}
+        <div className={profileUserId || adminOpen ? 'hidden' : undefined}>
+          {/* Search & Actions */}
+          <div className="flex flex-col md:flex-row gap-4 mb-8">
+            <div className="relative flex-1">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+              <input 
+                type="text"
+                placeholder={feed === 'jobs' ? "Search for jobs..." : feed === 'workers' ? "Search for workers..." : "Search listings..."}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="w-full pl-11 pr-4 py-3 bg-white rounded-2xl border border-black/5 shadow-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+              />
+            </div>
+            {role === 'worker' && (
+              <button 
+                onClick={() => { setEditingPost('new'); setFieldErrors({}); setFormError(null); }}
+                className="bg-black text-white px-6 py-3 rounded-2xl font-medium flex items-center justify-center gap-2 hover:bg-neutral-800 transition-colors shadow-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Post Availability
+              </button>
+            )}
+            {role === 'employer' && (
+              <button 
+                onClick={() => { setEditingJob('new'); setFieldErrors({}); setFormError(null); }}
+                className="bg-black text-white px-6 py-3 rounded-2xl font-medium flex items-center justify-center gap-2 hover:bg-neutral-800 transition-colors shadow-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Post a Job
+              </button>
+            )}
+          </div>
+
+          <div className="flex p-1 bg-neutral-200/60 rounded-xl mb-6 max-w-lg">
+            {FEED_TABS[role].map(([key, label]) => (
+              <button 
+                key={key}
+                onClick={() => setFeed(key)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${feed === key ? 'bg-white shadow-sm text-black' : 'text-neutral-500'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {feed === 'applications' ? (
+            <ApplicationsList
+              applications={applications}
+              role={role}
+              onTransition={handleTransition}
+              onReview={(application) => { setReviewing(application); setFieldErrors({}); setFormError(null); }}
+              onBook={(application) => { setBooking(application); setFieldErrors({}); setFormError(null); }}
+            />
+          ) : feed === 'bookings' ? (
+            <BookingsList userId={user.id} />
+          ) : (
+            <>
+              {/* Filters/Tabs */}
+              <div className="flex gap-2 mb-6 overflow-x-auto pb-2 scrollbar-hide">
+                {['All', ...CATEGORIES].map(cat => (
+                  <button 
+                    key={cat}
+                    onClick={() => setCategory(cat)}
+                    className={`px-4 py-2 border border-black/5 rounded-full text-sm font-medium whitespace-nowrap transition-colors shadow-sm ${category === cat ? 'bg-black text-white' : 'bg-white hover:bg-neutral-50'}`}
+                  >
+                    {cat}
+                  </button>
+                ))}
+                {!ownFeed && (
+                  <div className="flex gap-2 ml-auto">
+                    <button
+                      onClick={handleSaveSearch}
+                      disabled={!location && !searchArea}
+                      title={searchSaved ? 'You get alerts for this search' : 'Get alerts for new matches'}
+                      className="flex items-center gap-1.5 px-3 py-2 bg-white border border-black/5 rounded-full text-sm font-medium whitespace-nowrap shadow-sm hover:bg-neutral-50 disabled:opacity-50"
+                    >
+                      {searchSaved ? <BookmarkCheck className="w-4 h-4" /> : <BookmarkPlus className="w-4 h-4" />}
+                      {searchSaved ? 'Saved' : 'Save search'}
+                    </button>
+                    <select 
+                      value={radius}
+                      onChange={(e) => { setRadius(Number(e.target.value)); setSearchArea(null); }}
+                      className="px-3 py-2 bg-white border border-black/5 rounded-full text-sm font-medium shadow-sm focus:outline-none"
+                    >
+                      {RADIUS_OPTIONS.map(km => <option key={km} value={km}>Within {km} km</option>)}
+                    </select>
+                    <select 
+                      value={sort}
+                      onChange={(e) => setSort(e.target.value as 'distance' | 'recommended' | 'newest' | 'rating')}
+                      className="px-3 py-2 bg-white border border-black/5 rounded-full text-sm font-medium shadow-sm focus:outline-none"
+                    >
+                      <option value="distance">Nearest</option>
+                      <option value="recommended">Recommended</option>
+                      <option value="newest">Newest</option>
+                      <option value="rating">Top rated</option>
+                    </select>
+                    <div className="flex p-1 bg-white border border-black/5 rounded-full shadow-sm">
+                      <button
+                        onClick={() => setViewMode('list')}
+                        title="List"
+                        className={`p-1.5 rounded-full transition-colors ${viewMode === 'list' ? 'bg-black text-white' : 'text-neutral-500'}`}
+                      >
+                        <LayoutGrid className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setViewMode('map')}
+                        title="Map"
+                        className={`p-1.5 rounded-full transition-colors ${viewMode === 'map' ? 'bg-black text-white' : 'text-neutral-500'}`}
+                      >
+                        <MapIcon className="w-4 h-4" />
+                      </button>
                     </div>
-                    <span className="text-[10px] font-bold uppercase tracking-wider text-neutral-400 bg-neutral-50 px-2 py-1 rounded-md">
-                      {role === 'worker' ? (item as Post).category : 'Worker'}
-                    </span>
                   </div>
-                  
-                  <h3 className="font-semibold text-lg mb-1 group-hover:text-black transition-colors">
-                    {role === 'worker' ? (item as Post).title : (item as User).name}
-                  </h3>
-                  
-                  {role === 'worker' ? (
-                    <p className="text-neutral-500 text-sm line-clamp-2 mb-4">
-                      {(item as Post).description}
-                    </p>
-                  ) : (
-                    <p className="text-neutral-500 text-sm mb-4">
-                      Available for hire in your area.
-                    </p>
-                  )}
+                )}
+              </div>
 
-                  <div className="flex items-center justify-between mt-auto pt-4 border-t border-neutral-50">
-                    <div className="flex items-center gap-1.5 text-neutral-400 text-xs">
-                      <MapPin className="w-3 h-3" />
-                      <span>{item.distance?.toFixed(1)} km away</span>
-                    </div>
-                    <div className="flex items-center gap-1.5 text-neutral-400 text-xs">
-                      <Clock className="w-3 h-3" />
-                      <span>{role === 'worker' ? 'Just now' : 'Active'}</span>
-                    </div>
+              {feed === 'workers' && (
+                <div className="flex flex-wrap gap-2 -mt-3 mb-6">
+                  <input
+                    value={workerFilters.skill}
+                    onChange={(e) => setWorkerFilters({ ...workerFilters, skill: e.target.value })}
+                    placeholder="Skill"
+                    className="px-4 py-2 bg-white border border-black/5 rounded-full text-sm shadow-sm focus:outline-none w-40"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={workerFilters.maxRate}
+                    onChange={(e) => setWorkerFilters({ ...workerFilters, maxRate: e.target.value })}
+                    placeholder="Max $/hr"
+                    className="px-4 py-2 bg-white border border-black/5 rounded-full text-sm shadow-sm focus:outline-none w-32"
+                  />
+                  <label className="flex items-center gap-2 px-4 py-1.5 bg-white border border-black/5 rounded-full text-sm shadow-sm text-neutral-500">
+                    Available at
+                    <input
+                      type="datetime-local"
+                      value={workerFilters.availableAt}
+                      onChange={(e) => setWorkerFilters({ ...workerFilters, availableAt: e.target.value })}
+                      className="bg-transparent text-black focus:outline-none"
+                    />
+                  </label>
+                </div>
+              )}
+
+              {viewMode === 'map' && !ownFeed && location ? (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                  <div className="lg:col-span-2 h-[60vh] lg:h-[70vh]">
+                    <MapView
+                      origin={location}
+                      area={searchArea}
+                      items={filteredItems}
+                      selectedId={selectedId}
+                      onSelect={setSelectedId}
+                      onSearchArea={setSearchArea}
+                    />
+                  </div>
+                  <div className="lg:h-[70vh] overflow-y-auto space-y-3 pr-1">
+                    {filteredItems.map(item => (
+                      <div
+                        key={item.id}
+                        data-item-id={item.id}
+                        onClick={() => setSelectedId(item.id)}
+                        className={`bg-white p-5 rounded-3xl border shadow-sm transition-all cursor-pointer flex flex-col ${selectedId === item.id ? 'border-black ring-2 ring-black/10' : 'border-black/5 hover:shadow-md'}`}
+                      >
+                        {renderCard(item)}
+                      </div>
+                    ))}
+                    {!loading && filteredItems.length === 0 && (
+                      <p className="py-10 text-center text-sm text-neutral-500">Nothing here. Try moving the map or widening the filters.</p>
+                    )}
+                    <div ref={sentinelRef} className="h-1" />
+                    {loadingMore && (
+                      <div className="py-4 text-center text-sm text-neutral-400">Loading more...</div>
+                    )}
                   </div>
-                </motion.div>
-              ))
-            ) : (
-              <div className="col-span-full py-20 text-center">
-                <div className="bg-neutral-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <Search className="w-6 h-6 text-neutral-400" />
                 </div>
-                <h3 className="text-lg font-medium">No results found</h3>
-                <p className="text-neutral-500">Try adjusting your search or filters.</p>
+              ) : (
+              <>
+              {/* Content Grid */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                <AnimatePresence mode="popLayout">
+                  {loading ? (
+                    [1, 2, 3].map(i => (
+                      <div key={i} className="bg-white p-6 rounded-3xl h-48 animate-pulse border border-black/5" />
+                    ))
+                  ) : filteredItems.length > 0 ? (
+                    filteredItems.map((item) => (
+                      <motion.div
+                        layout
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.95 }}
+                        key={item.id}
+                        className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm hover:shadow-md transition-all group cursor-pointer flex flex-col"
+                      >
+                        {renderCard(item)}
+                      </motion.div>
+                    ))
+                  ) : (
+                    <div className="col-span-full py-20 text-center">
+                      <div className="bg-neutral-100 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+                        <Search className="w-6 h-6 text-neutral-400" />
+                      </div>
+                      <h3 className="text-lg font-medium">No results found</h3>
+                      <p className="text-neutral-500">Try adjusting your search or filters.</p>
+                    </div>
+                  )}
+                </AnimatePresence>
               </div>
-            )}
-          </AnimatePresence>
+              <div ref={sentinelRef} className="h-1" />
+              {loadingMore && (
+                <div className="py-6 text-center text-sm text-neutral-400">Loading more...</div>
+              )}
+              </>
+              )}
+            </>
+          )}
         </div>
       </main>
 
-      {/* Post Modal */}
       <AnimatePresence>
-        {isPosting && (
-          <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-            <motion.div 
-              initial={{ opacity: 0 }}
-              animate={{ opacity: 1 }}
-              exit={{ opacity: 0 }}
-              onClick={() => setIsPosting(false)}
-              className="absolute inset-0 bg-black/40 backdrop-blur-sm"
-            />
-            <motion.div 
-              initial={{ opacity: 0, scale: 0.9, y: 20 }}
-              animate={{ opacity: 1, scale: 1, y: 0 }}
-              exit={{ opacity: 0, scale: 0.9, y: 20 }}
-              className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden"
-            >
-              <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
-                <h2 className="text-xl font-semibold">Post Availability</h2>
-                <button onClick={() => setIsPosting(false)} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
-                  <X className="w-5 h-5" />
-                </button>
-              </div>
-              <form onSubmit={handleCreatePost} className="p-6 space-y-4">
-                <div>
-                  <label className="block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5">What can you do?</label>
-                  <input 
-                    required
-                    value={postTitle}
-                    onChange={(e) => setPostTitle(e.target.value)}
-                    placeholder="e.g. Professional House Cleaning"
-                    className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5"
-                  />
-                </div>
-                <div>
-                  <label className="block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5">Category</label>
-                  <select 
-                    value={postCategory}
-                    onChange={(e) => setPostCategory(e.target.value)}
-                    className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 bg-white"
-                  >
-                    <option>General</option>
-                    <option>Delivery</option>
-                    <option>Cleaning</option>
-                    <option>Technical</option>
-                    <option>Manual Labor</option>
-                  </select>
-                </div>
-                <div>
-                  <label className="block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5">Details</label>
-                  <textarea 
-                    required
-                    value={postDesc}
-                    onChange={(e) => setPostDesc(e.target.value)}
-                    placeholder="Describe your experience, tools, and availability..."
-                    rows={4}
-                    className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 resize-none"
-                  />
-                </div>
-                <button 
-                  type="submit"
-                  className="w-full bg-black text-white py-4 rounded-2xl font-semibold hover:bg-neutral-800 transition-colors shadow-lg shadow-black/10"
-                >
-                  Post Now
-                </button>
-              </form>
-            </motion.div>
-          </div>
+        {editingPost && (
+          <PostFormModal
+            post={editingPost === 'new' ? null : editingPost}
+            userId={user.id}
+            categories={CATEGORIES}
+            errors={fieldErrors}
+            formError={formError}
+            onSubmit={handleSavePost}
+            onClose={() => { setEditingPost(null); setReopening(false); }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {editingJob && (
+          <JobFormModal
+            job={editingJob === 'new' ? null : editingJob}
+            categories={CATEGORIES}
+            errors={fieldErrors}
+            formError={formError}
+            onSubmit={handleSaveJob}
+            onClose={() => { setEditingJob(null); setReopening(false); }}
+          />
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {reviewing && (
+          <ReviewFormModal
+            application={reviewing}
+            role={role}
+            errors={fieldErrors}
+            formError={formError}
+            onSubmit={handleReview}
+            onClose={() => setReviewing(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {booking && (
+          <BookingFormModal
+            application={booking}
+            errors={fieldErrors}
+            formError={formError}
+            onSubmit={handleBook}
+            onClose={() => setBooking(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {viewingReviews && (
+          <ReviewsModal
+            userId={viewingReviews.userId}
+            name={viewingReviews.name}
+            viewerId={user.id}
+            onClose={() => setViewingReviews(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {invitingWorker && (
+          <InviteModal worker={invitingWorker} onInvite={handleInvite} onClose={() => setInvitingWorker(null)} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isChatOpen && (
+          <ChatPanel
+            userId={user.id}
+            conversations={messaging.conversations}
+            activeId={messaging.activeId}
+            messages={messaging.messages}
+            pending={outbox.pending.filter(w => w.kind === 'message' && w.target_id === messaging.activeId)}
+            error={messaging.error}
+            onOpen={messaging.openConversation}
+            onSend={messaging.sendMessage}
+            onClose={() => { setIsChatOpen(false); messaging.openConversation(null); }}
+          />
+        )}
+      </AnimatePresence>
+
+      {locationPicker}
+
       {/* Footer Nav (Mobile) */}
       <div className="md:hidden fixed bottom-0 left-0 right-0 bg-white border-t border-black/5 px-6 py-4 flex justify-between items-center z-30">
-        <button className="flex flex-col items-center gap-1 text-black">
+        <button 
+          onClick={() => { setFeed(defaultFeed(role)); setProfileUserId(null); setAdminOpen(false); }}
+          className={`flex flex-col items-center gap-1 ${feed !== 'applications' && !profileUserId && !adminOpen ? 'text-black' : 'text-neutral-400'}`}
+        >
           <Search className="w-5 h-5" />
           <span className="text-[10px] font-medium">Explore</span>
         </button>
-        <button className="flex flex-col items-center gap-1 text-neutral-400">
+        <button 
+          onClick={() => { setFeed('applications'); setProfileUserId(null); setAdminOpen(false); }}
+          className={`flex flex-col items-center gap-1 ${feed === 'applications' && !profileUserId && !adminOpen ? 'text-black' : 'text-neutral-400'}`}
+        >
           <Clock className="w-5 h-5" />
           <span className="text-[10px] font-medium">History</span>
         </button>
-        <button className="flex flex-col items-center gap-1 text-neutral-400">
+        <button 
+          onClick={() => setProfileUserId(user.id)}
+          className={`flex flex-col items-center gap-1 ${profileUserId === user.id ? 'text-black' : 'text-neutral-400'}`}
+        >
           <UserIcon className="w-5 h-5" />
           <span className="text-[10px] font-medium">Profile</span>
         </button>
@@ -0,0 +1,55 @@
+export type FieldErrors = Record<string, string>;
+
+// Mirrors the server's `{ error, code, fields? }` error body
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public fields: FieldErrors = {}
+  ) {
+    super(message);
+  }
+}
+
+export interface ApiOptions {
+  method?: string;
+  body?: unknown;
+  // Sent as the Idempotency-Key header, so a retry of the same write isn't applied twice
+  idempotencyKey?: string;
+}
+
+/**
+ * fetch() for the JSON API: sends `body` as JSON (or a Blob/File as-is, for uploads), parses
+ * the response and throws ApiError for non-2xx answers. Network failures surface as ApiError
+ * with status 0.
+ */
+export async function api<T>(url: string, options: ApiOptions = {}): Promise<T> {
+  const { body, idempotencyKey } = options;
+  const raw = body instanceof Blob;
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = raw ? body.type : 'application/json';
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: options.method ?? (body === undefined ? 'GET' : 'POST'),
+      headers,
+      body: body === undefined ? undefined : raw ? body : JSON.stringify(body)
+    });
+  } catch {
+    throw new ApiError(0, 'network_error', "Couldn't reach the server. Check your connection and try again.");
+  }
+
+  const data = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(res.status, data?.code ?? 'unknown', data?.error ?? `Request failed (${res.status})`, data?.fields);
+  }
+  return data as T;
+}
+
+export const errorMessage = (err: unknown) =>
+  err instanceof ApiError ? err.message : 'Something went wrong. Please try again.';
+
+// Network failures (status 0) are worth retrying later; anything else is the server's answer
+export const isNetworkError = (err: unknown) => err instanceof ApiError && err.status === 0;
@@ -0,0 +1,4 @@
+// Listing categories, shared by the client's pickers and the server's validation
+export const CATEGORIES = ['General', 'Delivery', 'Cleaning', 'Technical', 'Manual Labor'] as const;
+
+export type Category = (typeof CATEGORIES)[number];
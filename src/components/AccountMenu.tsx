@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Check, IdCard, Shield, User as UserIcon } from 'lucide-react';
+import type { LocationPrecision } from '../types';
+
+const OPTIONS: [LocationPrecision, string, string][] = [
+  ['exact', 'Exact', 'Your precise GPS position'],
+  ['500m', 'About 500 m', 'Rounded to the nearest few streets'],
+  ['2km', 'About 2 km', 'Rounded to the surrounding area'],
+  ['neighbourhood', 'Neighbourhood only', 'Roughly which part of town you are in']
+];
+
+interface Props {
+  avatarUrl?: string | null;
+  precision: LocationPrecision;
+  onChange: (precision: LocationPrecision) => void;
+  onOpenProfile: () => void;
+  // Only passed for admins
+  onOpenAdmin?: () => void;
+}
+
+// Account menu behind the header avatar: profile and admin links and location privacy
+export default function AccountMenu({ avatarUrl, precision, onChange, onOpenProfile, onOpenAdmin }: Props) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Account"
+        className="w-8 h-8 bg-neutral-200 rounded-full flex items-center justify-center hover:bg-neutral-300 transition-colors overflow-hidden"
+      >
+        {avatarUrl ? <img src={avatarUrl} alt="" className="w-full h-full object-cover" /> : <UserIcon className="w-4 h-4 text-neutral-600" />}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-2xl shadow-xl border border-black/5 p-2 z-40">
+          <button
+            onClick={() => { onOpenProfile(); setOpen(false); }}
+            className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-sm font-medium hover:bg-neutral-50"
+          >
+            <IdCard className="w-4 h-4" /> My profile
+          </button>
+          {onOpenAdmin && (
+            <button
+              onClick={() => { onOpenAdmin(); setOpen(false); }}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left text-sm font-medium hover:bg-neutral-50"
+            >
+              <Shield className="w-4 h-4" /> Admin panel
+            </button>
+          )}
+          <div className="border-t border-neutral-100 my-1" />
+          <p className="px-3 pt-2 pb-1 text-xs font-bold uppercase tracking-wider text-neutral-400">Show my location as</p>
+          {OPTIONS.map(([value, label, hint]) => (
+            <button
+              key={value}
+              onClick={() => { onChange(value); setOpen(false); }}
+              className="w-full flex items-start gap-3 px-3 py-2 rounded-xl text-left hover:bg-neutral-50"
+            >
+              <Check className={`w-4 h-4 mt-0.5 ${precision === value ? 'text-black' : 'text-transparent'}`} />
+              <span>
+                <span className="block text-sm font-medium">{label}</span>
+                <span className="block text-xs text-neutral-500">{hint}</span>
+              </span>
+            </button>
+          ))}
+          <p className="px-3 pt-1 pb-2 text-xs text-neutral-400">People you've hired or been hired by always see your exact location.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,462 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Ban, Check, Flag, RotateCcw, Search, Trash2 } from 'lucide-react';
+import type {
+  AdminPost,
+  AdminUser,
+  CategoryCount,
+  FillRates,
+  PostStatus,
+  ReportDetail,
+  ReportQueueItem,
+  SignupDay,
+  WorkerArea
+} from '../types';
+import { api, errorMessage } from '../api';
+
+type Tab = 'overview' | 'reports' | 'users' | 'posts';
+
+const TABS: [Tab, string][] = [
+  ['overview', 'Overview'],
+  ['reports', 'Reports'],
+  ['users', 'Users'],
+  ['posts', 'Posts']
+];
+
+interface Props {
+  viewerId: string;
+  onBack: () => void;
+  onViewProfile: (userId: string) => void;
+}
+
+const cardClass = 'bg-white p-6 rounded-3xl border border-black/5 shadow-sm';
+const headingClass = 'text-xs font-bold uppercase tracking-wider text-neutral-400 mb-3';
+const inputClass = 'w-full pl-10 pr-4 py-2.5 rounded-xl border border-neutral-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-black/5';
+const smallButton = 'flex items-center gap-1 px-3 py-1.5 rounded-xl text-xs font-medium transition-colors';
+
+const percent = (rate: number | null) => (rate == null ? '–' : `${Math.round(rate * 100)}%`);
+const shortDate = (value: string | null) => (value ? new Date(value.replace(' ', 'T') + 'Z').toLocaleDateString() : '–');
+
+// Admin-only tools: marketplace metrics, the report queue and account/post moderation
+export default function AdminPanel({ viewerId, onBack, onViewProfile }: Props) {
+  const [tab, setTab] = useState<Tab>('overview');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div>
+      <button onClick={onBack} className="flex items-center gap-1 text-sm text-neutral-500 hover:text-black mb-4">
+        <ArrowLeft className="w-4 h-4" /> Back
+      </button>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-2xl font-semibold">Admin</h2>
+        <div className="flex gap-1 bg-white p-1 rounded-2xl border border-black/5 shadow-sm">
+          {TABS.map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => { setTab(value); setError(null); }}
+              className={`px-4 py-1.5 rounded-xl text-sm font-medium transition-colors ${tab === value ? 'bg-black text-white' : 'text-neutral-500 hover:text-black'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {error && <p className="mb-4 text-red-500 text-sm">{error}</p>}
+
+      {tab === 'overview' && <Overview run={run} />}
+      {tab === 'reports' && <Reports run={run} onViewProfile={onViewProfile} />}
+      {tab === 'users' && <Users run={run} viewerId={viewerId} onViewProfile={onViewProfile} />}
+      {tab === 'posts' && <Posts run={run} />}
+    </div>
+  );
+}
+
+type Run = (action: () => Promise<unknown>) => Promise<void>;
+
+function Overview({ run }: { run: Run }) {
+  const [days, setDays] = useState(30);
+  const [signups, setSignups] = useState<SignupDay[] | null>(null);
+  const [areas, setAreas] = useState<WorkerArea[] | null>(null);
+  const [categories, setCategories] = useState<CategoryCount[] | null>(null);
+  const [fill, setFill] = useState<FillRates | null>(null);
+
+  useEffect(() => {
+    run(async () => {
+      const [s, a, c, f] = await Promise.all([
+        api<{ items: SignupDay[] }>(`/api/admin/metrics/signups?days=${days}`),
+        api<{ items: WorkerArea[] }>(`/api/admin/metrics/active-workers?days=${Math.min(days, 30)}`),
+        api<{ items: CategoryCount[] }>('/api/admin/metrics/categories'),
+        api<FillRates>(`/api/admin/metrics/fill-rates?days=${days}`)
+      ]);
+      setSignups(s.items);
+      setAreas(a.items);
+      setCategories(c.items);
+      setFill(f);
+    });
+  }, [days]);
+
+  const peak = Math.max(1, ...(signups ?? []).map(d => d.workers + d.employers));
+  const totalSignups = (signups ?? []).reduce((sum, d) => sum + d.workers + d.employers, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="px-3 py-2 rounded-xl border border-neutral-200 bg-white text-sm focus:outline-none"
+        >
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+      </div>
+
+      <div className={cardClass}>
+        <h3 className={headingClass}>Signups per day · {totalSignups} total</h3>
+        {signups ? (
+          <>
+            <div className="flex items-end gap-px h-32">
+              {signups.map(d => (
+                <div key={d.day} title={`${d.day}: ${d.workers} workers, ${d.employers} employers`} className="flex-1 flex flex-col justify-end h-full">
+                  <div className="bg-neutral-400" style={{ height: `${(d.employers / peak) * 100}%` }} />
+                  <div className="bg-black" style={{ height: `${(d.workers / peak) * 100}%` }} />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-neutral-400">
+              <span>{signups[0]?.day}</span>
+              <span className="flex gap-3">
+                <span><span className="inline-block w-2 h-2 bg-black mr-1" />Workers</span>
+                <span><span className="inline-block w-2 h-2 bg-neutral-400 mr-1" />Employers</span>
+              </span>
+              <span>{signups[signups.length - 1]?.day}</span>
+            </div>
+          </>
+        ) : <div className="h-32 animate-pulse bg-neutral-100 rounded-xl" />}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className={cardClass}>
+          <h3 className={headingClass}>Fill rates</h3>
+          {fill && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="text-3xl font-semibold">{percent(fill.jobs.fill_rate)}</div>
+                  <div className="text-xs text-neutral-500">{fill.jobs.hired} of {fill.jobs.positions} job places hired</div>
+                </div>
+                <div>
+                  <div className="text-3xl font-semibold">{percent(fill.posts.fill_rate)}</div>
+                  <div className="text-xs text-neutral-500">{fill.posts.filled} of {fill.posts.posts} posts filled</div>
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-neutral-400">
+                    <th className="font-medium pb-1">Category</th>
+                    <th className="font-medium pb-1 text-right">Jobs</th>
+                    <th className="font-medium pb-1 text-right">Posts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fill.by_category.map(row => (
+                    <tr key={row.category} className="border-t border-neutral-100">
+                      <td className="py-1.5">{row.category}</td>
+                      <td className="py-1.5 text-right">{percent(row.job_fill_rate)}</td>
+                      <td className="py-1.5 text-right">{percent(row.post_fill_rate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className={cardClass}>
+          <h3 className={headingClass}>Listings per category</h3>
+          {categories && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-neutral-400">
+                  <th className="font-medium pb-1">Category</th>
+                  <th className="font-medium pb-1 text-right">Posts (live)</th>
+                  <th className="font-medium pb-1 text-right">Jobs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map(row => (
+                  <tr key={row.category} className="border-t border-neutral-100">
+                    <td className="py-1.5">{row.category}</td>
+                    <td className="py-1.5 text-right">{row.posts} ({row.live_posts})</td>
+                    <td className="py-1.5 text-right">{row.jobs}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
+      <div className={cardClass}>
+        <h3 className={headingClass}>Active workers by area</h3>
+        {areas && (areas.length === 0 ? (
+          <p className="text-sm text-neutral-500">No workers active in this period.</p>
+        ) : (
+          <div className="space-y-2">
+            {areas.map(area => (
+              <div key={`${area.lat},${area.lng}`} className="flex items-center gap-3 text-sm">
+                <span className="w-48 truncate">{area.label}</span>
+                <div className="flex-1 h-2 bg-neutral-100 rounded-full overflow-hidden">
+                  <div className="h-full bg-black rounded-full" style={{ width: `${(area.workers / areas[0].workers) * 100}%` }} />
+                </div>
+                <span className="w-24 text-right text-xs text-neutral-500">{area.workers} · {area.available_now} now</span>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Reports({ run, onViewProfile }: { run: Run; onViewProfile: (userId: string) => void }) {
+  const [queue, setQueue] = useState<ReportQueueItem[] | null>(null);
+  const [open, setOpen] = useState<ReportQueueItem | null>(null);
+  const [details, setDetails] = useState<ReportDetail[]>([]);
+
+  const load = () => run(async () => setQueue((await api<{ items: ReportQueueItem[] }>('/api/admin/reports')).items));
+  useEffect(() => { load(); }, []);
+
+  const expand = (item: ReportQueueItem) => run(async () => {
+    if (open?.target_id === item.target_id) {
+      setOpen(null);
+      return;
+    }
+    setDetails((await api<{ items: ReportDetail[] }>(`/api/admin/reports/${item.target_type}/${item.target_id}`)).items);
+    setOpen(item);
+  });
+
+  const act = (item: ReportQueueItem, request: () => Promise<unknown>) => run(async () => {
+    await request();
+    if (open?.target_id === item.target_id) setOpen(null);
+    await load();
+  });
+  const resolve = (item: ReportQueueItem, action: 'dismiss' | 'uphold') =>
+    act(item, () => api(`/api/admin/reports/${item.target_type}/${item.target_id}/resolve`, { body: { action } }));
+
+  if (!queue) return null;
+  if (queue.length === 0) return <p className="text-sm text-neutral-500">Nothing to review.</p>;
+
+  return (
+    <div className="space-y-3">
+      {queue.map(item => (
+        <div key={`${item.target_type}:${item.target_id}`} className={cardClass}>
+          <div className="flex items-start gap-3">
+            <Flag className="w-4 h-4 mt-1 text-red-500 shrink-0" />
+            <button onClick={() => expand(item)} className="flex-1 text-left">
+              <div className="font-medium">
+                {item.target_label ?? 'Deleted'}
+                <span className="ml-2 text-xs font-normal text-neutral-400">
+                  {item.target_type}{item.post_hidden || item.job_hidden ? ' · hidden' : ''}
+                </span>
+              </div>
+              <div className="text-xs text-neutral-500">
+                {item.report_count} report{item.report_count === 1 ? '' : 's'} · {item.reasons.replace(/,/g, ', ')} · since {shortDate(item.first_reported_at)}
+              </div>
+            </button>
+            <div className="flex gap-2">
+              <button onClick={() => resolve(item, 'dismiss')} className={`${smallButton} bg-neutral-100 hover:bg-neutral-200`}>
+                <Check className="w-3.5 h-3.5" /> Dismiss
+              </button>
+              <button onClick={() => resolve(item, 'uphold')} className={`${smallButton} bg-black text-white hover:bg-neutral-800`}>
+                <Ban className="w-3.5 h-3.5" /> Uphold
+              </button>
+              {item.target_type === 'post' && item.post_hidden != null && (
+                <button
+                  onClick={() => confirm('Delete this post?') && act(item, () => api(`/api/admin/posts/${item.target_id}`, { method: 'DELETE' }))}
+                  className={`${smallButton} bg-red-50 text-red-600 hover:bg-red-100`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" /> Remove
+                </button>
+              )}
+              {item.target_type === 'user' && (
+                <button
+                  onClick={() => act(item, async () => {
+                    await api(`/api/admin/users/${item.target_id}/suspend`, { body: { reason: `Reported: ${item.reasons}` } });
+                    await api(`/api/admin/reports/user/${item.target_id}/resolve`, { body: { action: 'uphold' } });
+                  })}
+                  className={`${smallButton} bg-red-50 text-red-600 hover:bg-red-100`}
+                >
+                  <Ban className="w-3.5 h-3.5" /> Suspend
+                </button>
+              )}
+            </div>
+          </div>
+          {open?.target_id === item.target_id && (
+            <div className="mt-4 pl-7 space-y-2">
+              {item.target_type === 'user' && (
+                <button onClick={() => onViewProfile(item.target_id)} className="text-xs font-medium underline">View profile</button>
+              )}
+              {details.map(report => (
+                <div key={report.id} className="text-sm">
+                  <span className="font-medium">{report.reporter_name ?? 'Automatic'}</span>
+                  <span className="text-neutral-500"> · {report.reason} · {shortDate(report.created_at)}</span>
+                  {report.details && <p className="text-neutral-600">{report.details}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function Users({ run, viewerId, onViewProfile }: { run: Run; viewerId: string; onViewProfile: (userId: string) => void }) {
+  const [q, setQ] = useState('');
+  const [users, setUsers] = useState<AdminUser[] | null>(null);
+
+  const load = () => run(async () => setUsers((await api<{ items: AdminUser[] }>(`/api/admin/users?${new URLSearchParams({ q: q.trim() })}`)).items));
+  useEffect(() => {
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [q]);
+
+  const suspend = (user: AdminUser) => {
+    const reason = prompt(`Suspend ${user.name}? Optionally give a reason:`);
+    if (reason === null) return;
+    run(async () => {
+      await api(`/api/admin/users/${user.id}/suspend`, { body: { reason } });
+      await load();
+    });
+  };
+  const unsuspend = (user: AdminUser) => run(async () => {
+    await api(`/api/admin/users/${user.id}/unsuspend`, { method: 'POST' });
+    await load();
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+        <input value={q} onChange={(e) => setQ(e.target.value)} placeholder="Name, email or id" className={inputClass} />
+      </div>
+      <div className={`${cardClass} !p-2`}>
+        {users?.length === 0 && <p className="p-4 text-sm text-neutral-500">No matching users.</p>}
+        {users?.map(user => (
+          <div key={user.id} className="flex items-center gap-3 px-4 py-3 border-b border-neutral-100 last:border-0">
+            <button onClick={() => onViewProfile(user.id)} className="flex-1 text-left min-w-0">
+              <div className="font-medium truncate">
+                {user.name}
+                <span className="ml-2 text-xs font-normal text-neutral-400">
+                  {user.role}{user.is_admin ? ' · admin' : ''}
+                </span>
+              </div>
+              <div className="text-xs text-neutral-500 truncate">
+                {user.email ?? 'no email'} · joined {shortDate(user.created_at)} · {user.post_count} posts · {user.job_count} jobs
+                {user.open_reports > 0 && <span className="text-red-600"> · {user.open_reports} open reports</span>}
+              </div>
+              {user.suspended_at && (
+                <div className="text-xs text-red-600">
+                  Suspended {shortDate(user.suspended_at)}{user.suspended_reason ? `: ${user.suspended_reason}` : ''}
+                </div>
+              )}
+            </button>
+            {user.suspended_at ? (
+              <button onClick={() => unsuspend(user)} className={`${smallButton} bg-neutral-100 hover:bg-neutral-200`}>
+                <RotateCcw className="w-3.5 h-3.5" /> Unsuspend
+              </button>
+            ) : !user.is_admin && user.id !== viewerId && (
+              <button onClick={() => suspend(user)} className={`${smallButton} bg-red-50 text-red-600 hover:bg-red-100`}>
+                <Ban className="w-3.5 h-3.5" /> Suspend
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Posts({ run }: { run: Run }) {
+  const [q, setQ] = useState('');
+  const [status, setStatus] = useState<PostStatus | ''>('');
+  const [hiddenOnly, setHiddenOnly] = useState(false);
+  const [posts, setPosts] = useState<AdminPost[] | null>(null);
+
+  const load = () => run(async () => {
+    const params = new URLSearchParams({ q: q.trim() });
+    if (status) params.set('status', status);
+    if (hiddenOnly) params.set('hidden', 'true');
+    setPosts((await api<{ items: AdminPost[] }>(`/api/admin/posts?${params}`)).items);
+  });
+  useEffect(() => {
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [q, status, hiddenOnly]);
+
+  const remove = (post: AdminPost) => {
+    if (!confirm(`Delete "${post.title}"?`)) return;
+    run(async () => {
+      await api(`/api/admin/posts/${post.id}`, { method: 'DELETE' });
+      await load();
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+          <input value={q} onChange={(e) => setQ(e.target.value)} placeholder="Title, description or id" className={inputClass} />
+        </div>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as PostStatus | '')}
+          className="px-3 py-2 rounded-xl border border-neutral-200 bg-white text-sm focus:outline-none"
+        >
+          <option value="">Any status</option>
+          <option value="open">Open</option>
+          <option value="filled">Filled</option>
+          <option value="closed">Closed</option>
+          <option value="expired">Expired</option>
+        </select>
+        <label className="flex items-center gap-2 px-3 text-sm">
+          <input type="checkbox" checked={hiddenOnly} onChange={(e) => setHiddenOnly(e.target.checked)} /> Hidden only
+        </label>
+      </div>
+      <div className={`${cardClass} !p-2`}>
+        {posts?.length === 0 && <p className="p-4 text-sm text-neutral-500">No matching posts.</p>}
+        {posts?.map(post => (
+          <div key={post.id} className="flex items-start gap-3 px-4 py-3 border-b border-neutral-100 last:border-0">
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">
+                {post.title}
+                <span className="ml-2 text-xs font-normal text-neutral-400">
+                  {post.category} · {post.status}{post.hidden ? ' · hidden' : ''}
+                </span>
+              </div>
+              <div className="text-xs text-neutral-500 truncate">{post.description}</div>
+              <div className="text-xs text-neutral-400">
+                by {post.user_name}{post.owner_suspended_at ? ' (suspended)' : ''} · {shortDate(post.created_at)}
+                {post.report_count > 0 && <span className="text-red-600"> · {post.report_count} reports</span>}
+              </div>
+            </div>
+            <button onClick={() => remove(post)} className={`${smallButton} bg-red-50 text-red-600 hover:bg-red-100`}>
+              <Trash2 className="w-3.5 h-3.5" /> Remove
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React from 'react';
+import { Briefcase, CalendarPlus, Star } from 'lucide-react';
+import type { Application, ApplicationStatus, Role } from '../types';
+import { parseDbTime } from '../time';
+
+interface Props {
+  applications: Application[];
+  role: Role;
+  onTransition: (application: Application, status: ApplicationStatus) => void;
+  onReview: (application: Application) => void;
+  onBook: (application: Application) => void;
+}
+
+const STATUS_STYLES: Record<ApplicationStatus, string> = {
+  invited: 'bg-blue-50 text-blue-700',
+  applied: 'bg-neutral-100 text-neutral-700',
+  shortlisted: 'bg-amber-50 text-amber-700',
+  hired: 'bg-green-50 text-green-700',
+  completed: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-50 text-red-700',
+  withdrawn: 'bg-neutral-100 text-neutral-400'
+};
+
+// Button label for moving to a status, from the point of view of whoever presses it
+const actionLabel = (from: ApplicationStatus, to: ApplicationStatus, role: Role) => {
+  if (from === 'invited' && role === 'worker') return to === 'shortlisted' ? 'Accept invite' : 'Decline';
+  if (from === 'invited' && role === 'employer') return 'Cancel invite';
+  return { shortlisted: 'Shortlist', hired: 'Hire', completed: 'Mark completed', rejected: 'Reject', withdrawn: 'Withdraw' }[to as string] ?? to;
+};
+
+export default function ApplicationsList({ applications, role, onTransition, onReview, onBook }: Props) {
+  if (applications.length === 0) {
+    return (
+      <div className="py-20 text-center">
+        <h3 className="text-lg font-medium">{role === 'worker' ? 'No applications yet' : 'No applicants yet'}</h3>
+        <p className="text-neutral-500">
+          {role === 'worker' ? 'Apply to a job nearby and track it here.' : 'Invite workers or wait for them to apply to your jobs.'}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {applications.map(application => (
+        <div key={application.id} className="bg-white p-5 rounded-3xl border border-black/5 shadow-sm flex flex-col md:flex-row md:items-center gap-4">
+          <div className="p-3 bg-neutral-100 rounded-2xl self-start">
+            <Briefcase className="w-5 h-5" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h3 className="font-semibold truncate">{application.job_title}</h3>
+            <p className="text-neutral-500 text-sm">
+              {role === 'worker' ? application.employer_name : application.worker_name}
+              {' · '}
+              {application.status === 'invited' ? 'Invited' : 'Applied'} {parseDbTime(application.created_at).toLocaleDateString()}
+            </p>
+          </div>
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md self-start md:self-auto ${STATUS_STYLES[application.status]}`}>
+            {application.status}
+          </span>
+          {application.next_statuses.length > 0 && (
+            <div className="flex gap-2">
+              {application.next_statuses.map(status => (
+                <button
+                  key={status}
+                  onClick={() => onTransition(application, status)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-medium ${
+                    status === 'rejected' || status === 'withdrawn'
+                      ? 'bg-neutral-100 text-red-600 hover:bg-red-50'
+                      : 'bg-black text-white hover:bg-neutral-800'
+                  }`}
+                >
+                  {actionLabel(application.status, status, role)}
+                </button>
+              ))}
+            </div>
+          )}
+          {role === 'employer' && application.status === 'hired' && !application.booking_id && (
+            <button
+              onClick={() => onBook(application)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-black text-white hover:bg-neutral-800"
+            >
+              <CalendarPlus className="w-3 h-3" /> Book shifts
+            </button>
+          )}
+          {application.status === 'completed' && !application.reviewed && (
+            <button
+              onClick={() => onReview(application)}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium bg-black text-white hover:bg-neutral-800"
+            >
+              <Star className="w-3 h-3" /> Leave a review
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
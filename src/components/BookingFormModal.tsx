@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { CalendarPlus, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Application } from '../types';
+import type { FieldErrors } from '../api';
+import FieldError from './FieldError';
+
+export interface BookingInput {
+  hourly_rate: number | null;
+  // ISO times; left out to book now and add shifts later
+  shift: { starts_at: string; ends_at: string } | null;
+}
+
+interface Props {
+  application: Application;
+  errors: FieldErrors;
+  formError: string | null;
+  onSubmit: (input: BookingInput) => void;
+  onClose: () => void;
+}
+
+const labelClass = 'block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5';
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5';
+
+// Books a hired worker: the hourly rate (fixed-price jobs need one) and optionally the first shift
+export default function BookingFormModal({ application, errors, formError, onSubmit, onClose }: Props) {
+  const [rate, setRate] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      hourly_rate: rate ? Number(rate) : null,
+      shift: start && end ? { starts_at: new Date(start).toISOString(), ends_at: new Date(end).toISOString() } : null
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Book {application.worker_name}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={submit} className="p-6 space-y-4">
+          <p className="text-sm text-neutral-500">{application.job_title}</p>
+          <div>
+            <label className={labelClass}>Hourly rate ($)</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="The job's hourly rate"
+              className={inputClass}
+            />
+            <FieldError message={errors.hourly_rate} />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>First shift starts</label>
+              <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} />
+              <FieldError message={errors['shifts.0.starts_at']} />
+            </div>
+            <div>
+              <label className={labelClass}>Ends</label>
+              <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClass} />
+              <FieldError message={errors['shifts.0.ends_at']} />
+            </div>
+          </div>
+          <p className="text-xs text-neutral-400">You can add more shifts from Bookings afterwards.</p>
+          {formError && <p className="text-red-500 text-xs text-center">{formError}</p>}
+          <button
+            type="submit"
+            disabled={!start !== !end}
+            className="w-full bg-black text-white py-4 rounded-2xl font-semibold hover:bg-neutral-800 transition-colors shadow-lg shadow-black/10 disabled:bg-neutral-300 flex items-center justify-center gap-2"
+          >
+            <CalendarPlus className="w-4 h-4" /> Book worker
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { CalendarDays, Check, Download, LogIn, LogOut, MapPin, Plus, X } from 'lucide-react';
+import type { Booking, Shift } from '../types';
+import { api, errorMessage } from '../api';
+import { parseDbTime } from '../time';
+
+interface Props {
+  userId: string;
+}
+
+const smallButton = 'flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium transition-colors disabled:opacity-50';
+const inputClass = 'px-3 py-2 rounded-xl border border-neutral-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-black/5';
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+const duration = (minutes: number) => (minutes % 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes / 60} h`);
+const clock = (value: string) => parseDbTime(value).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const shiftTimes = (shift: Shift) =>
+  `${parseDbTime(shift.starts_at).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}, ${clock(shift.starts_at)}–${clock(shift.ends_at)}`;
+
+// Rejects with a message the list can show as is
+const currentPosition = () =>
+  new Promise<{ lat: number; lng: number }>((resolve, reject) => {
+    if (!('geolocation' in navigator)) return reject("This device can't share its location, which checking in needs.");
+    navigator.geolocation.getCurrentPosition(
+      (pos) => resolve({ lat: pos.coords.latitude, lng: pos.coords.longitude }),
+      () => reject('Allow location access to check in and out.'),
+      { enableHighAccuracy: true, timeout: 15_000 }
+    );
+  });
+
+// Both sides' bookings: shifts, on-site check-in/out for the worker, and the timesheet the employer approves
+export default function BookingsList({ userId }: Props) {
+  const [bookings, setBookings] = useState<Booking[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  useEffect(() => {
+    api<{ items: Booking[] }>('/api/bookings')
+      .then((data) => setBookings(data.items))
+      .catch((err) => setError(errorMessage(err)));
+  }, []);
+
+  // Every action answers with the updated booking
+  const run = async (key: string, action: () => Promise<Booking>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      const updated = await action();
+      setBookings((list) => list?.map((b) => (b.id === updated.id ? updated : b)) ?? null);
+    } catch (err) {
+      setError(typeof err === 'string' ? err : errorMessage(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const checkInOut = (shift: Shift, step: 'check-in' | 'check-out') =>
+    run(shift.id, async () => api<Booking>(`/api/shifts/${shift.id}/${step}`, { body: await currentPosition() }));
+
+  if (bookings && bookings.length === 0) {
+    return (
+      <div className="py-20 text-center">
+        <h3 className="text-lg font-medium">No bookings yet</h3>
+        <p className="text-neutral-500">Shifts show up here once a hire is booked.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        {error ? <p className="text-red-500 text-sm">{error}</p> : <span />}
+        <a href="/api/calendar.ics" download className={`${smallButton} bg-white border border-black/5 shadow-sm hover:bg-neutral-50`}>
+          <Download className="w-3 h-3" /> Calendar (.ics)
+        </a>
+      </div>
+      {bookings?.map((booking) => (
+        <div key={booking.id}>
+          <BookingCard booking={booking} userId={userId} busy={busy} run={run} onCheck={checkInOut} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CardProps {
+  booking: Booking;
+  userId: string;
+  busy: string | null;
+  run: (key: string, action: () => Promise<Booking>) => void;
+  onCheck: (shift: Shift, step: 'check-in' | 'check-out') => void;
+}
+
+function BookingCard({ booking, userId, busy, run, onCheck }: CardProps) {
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const isWorker = booking.worker_id === userId;
+  const open = booking.status === 'active' && !booking.approved_at;
+  // Made from the worker's post and not yet accepted: no check-ins until the worker agrees
+  const proposed = open && !booking.accepted_at;
+  const { timesheet } = booking;
+  const now = Date.now();
+
+  const addShift = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(booking.id, async () => {
+      const updated = await api<Booking>(`/api/bookings/${booking.id}/shifts`, {
+        body: { starts_at: new Date(start).toISOString(), ends_at: new Date(end).toISOString() }
+      });
+      setStart('');
+      setEnd('');
+      return updated;
+    });
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-3xl border border-black/5 shadow-sm space-y-4">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-neutral-100 rounded-2xl">
+          <CalendarDays className="w-5 h-5" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold truncate">{booking.title}</h3>
+          <p className="text-neutral-500 text-sm">
+            {isWorker ? booking.employer_name : booking.worker_name} · {money(booking.hourly_rate)}/hr
+          </p>
+        </div>
+        <span
+          className={`text-[10px] font-bold uppercase tracking-wider px-2 py-1 rounded-md ${
+            booking.approved_at
+              ? 'bg-green-100 text-green-800'
+              : booking.status === 'cancelled'
+                ? 'bg-neutral-100 text-neutral-400'
+                : proposed
+                  ? 'bg-amber-50 text-amber-700'
+                  : 'bg-blue-50 text-blue-700'
+          }`}
+        >
+          {booking.approved_at ? 'approved' : proposed ? 'proposed' : booking.status}
+        </span>
+      </div>
+
+      <ul className="divide-y divide-neutral-100">
+        {booking.shifts.map((shift) => {
+          const cancelled = shift.status === 'cancelled';
+          const over = parseDbTime(shift.ends_at).getTime() <= now;
+          return (
+            <li key={shift.id} className="py-2 flex flex-wrap items-center gap-3 text-sm">
+              <span className={`flex-1 min-w-[12rem] ${cancelled ? 'line-through text-neutral-400' : ''}`}>{shiftTimes(shift)}</span>
+              {shift.check_in_at && (
+                <span className="text-xs text-neutral-500 flex items-center gap-1">
+                  <MapPin className="w-3 h-3" />
+                  In {clock(shift.check_in_at)}
+                  {shift.check_out_at ? ` · out ${clock(shift.check_out_at)}` : ' · on site'}
+                </span>
+              )}
+              {open && !proposed && !cancelled && isWorker && !shift.check_in_at && !over && (
+                <button onClick={() => onCheck(shift, 'check-in')} disabled={busy === shift.id} className={`${smallButton} bg-black text-white hover:bg-neutral-800`}>
+                  <LogIn className="w-3 h-3" /> Check in
+                </button>
+              )}
+              {open && isWorker && shift.check_in_at && !shift.check_out_at && (
+                <button onClick={() => onCheck(shift, 'check-out')} disabled={busy === shift.id} className={`${smallButton} bg-black text-white hover:bg-neutral-800`}>
+                  <LogOut className="w-3 h-3" /> Check out
+                </button>
+              )}
+              {open && !cancelled && !shift.check_in_at && !over && (
+                <button
+                  onClick={() => run(shift.id, () => api<Booking>(`/api/shifts/${shift.id}`, { method: 'DELETE' }))}
+                  disabled={busy === shift.id}
+                  title="Cancel shift"
+                  className={`${smallButton} bg-neutral-100 text-red-600 hover:bg-red-50`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+        {booking.shifts.length === 0 && <li className="py-2 text-sm text-neutral-400">No shifts scheduled yet.</li>}
+      </ul>
+
+      {open && !isWorker && (
+        <form onSubmit={addShift} className="flex flex-wrap items-center gap-2">
+          <input type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} className={inputClass} required />
+          <input type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} className={inputClass} required />
+          <button type="submit" disabled={busy === booking.id} className={`${smallButton} bg-black text-white hover:bg-neutral-800`}>
+            <Plus className="w-3 h-3" /> Add shift
+          </button>
+        </form>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 pt-3 border-t border-neutral-100">
+        <p className="flex-1 text-sm">
+          <span className="font-medium">{duration(timesheet.total_minutes)}</span>
+          <span className="text-neutral-500"> worked · </span>
+          <span className="font-medium">{money(timesheet.total_amount)}</span>
+          {timesheet.approved_at && <span className="text-neutral-500"> · approved {parseDbTime(timesheet.approved_at).toLocaleDateString()}</span>}
+        </p>
+        {proposed && isWorker && (
+          <button
+            onClick={() => run(booking.id, () => api<Booking>(`/api/bookings/${booking.id}/accept`, { method: 'POST' }))}
+            disabled={busy === booking.id}
+            className={`${smallButton} bg-black text-white hover:bg-neutral-800`}
+          >
+            <Check className="w-3 h-3" /> Accept booking
+          </button>
+        )}
+        {open && !proposed && !isWorker && (
+          <button
+            onClick={() => run(booking.id, () => api<Booking>(`/api/bookings/${booking.id}/timesheet/approve`, { method: 'POST' }))}
+            disabled={busy === booking.id || timesheet.unfinished > 0 || timesheet.total_minutes === 0}
+            title={timesheet.unfinished > 0 ? 'Some shifts are still under way or yet to come' : undefined}
+            className={`${smallButton} bg-black text-white hover:bg-neutral-800`}
+          >
+            <Check className="w-3 h-3" /> Approve timesheet
+          </button>
+        )}
+        {open && (
+          <button
+            onClick={() => run(booking.id, () => api<Booking>(`/api/bookings/${booking.id}/cancel`, { method: 'POST' }))}
+            disabled={busy === booking.id}
+            className={`${smallButton} bg-neutral-100 text-red-600 hover:bg-red-50`}
+          >
+            {proposed && isWorker ? 'Decline' : 'Cancel booking'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
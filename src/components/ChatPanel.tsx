@@ -0,0 +1,138 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Check, CheckCheck, Clock, Send, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Conversation, Message } from '../types';
+import type { QueuedWrite } from '../outbox';
+import { parseDbTime } from '../time';
+
+interface Props {
+  userId: string;
+  conversations: Conversation[];
+  activeId: string | null;
+  messages: Message[];
+  // Messages written offline for the open conversation, still waiting to go out
+  pending: QueuedWrite[];
+  error: string | null;
+  onOpen: (conversationId: string | null) => void;
+  onSend: (body: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const formatTime = (ts: string) => parseDbTime(ts).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+export default function ChatPanel({ userId, conversations, activeId, messages, pending, error, onOpen, onSend, onClose }: Props) {
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const active = conversations.find(c => c.id === activeId) ?? null;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, pending.length, activeId]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const body = draft.trim();
+    if (!body) return;
+    if (await onSend(body)) setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'spring', damping: 30, stiffness: 300 }}
+        className="relative bg-white w-full max-w-md h-full flex flex-col shadow-2xl"
+      >
+        <div className="p-4 border-b border-neutral-100 flex items-center gap-2">
+          {active && (
+            <button onClick={() => onOpen(null)} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+              <ArrowLeft className="w-5 h-5" />
+            </button>
+          )}
+          <h2 className="text-lg font-semibold flex-1 truncate">{active ? active.other_user_name : 'Messages'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!active ? (
+          <div className="flex-1 overflow-y-auto">
+            {conversations.length === 0 ? (
+              <p className="p-6 text-sm text-neutral-500 text-center">No conversations yet. Message someone from their card.</p>
+            ) : (
+              conversations.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => onOpen(c.id)}
+                  className="w-full text-left px-4 py-3 border-b border-neutral-50 hover:bg-neutral-50 flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{c.other_user_name}</div>
+                    <div className="text-xs text-neutral-500 truncate">{c.last_message ?? 'No messages yet'}</div>
+                  </div>
+                  {c.unread_count > 0 && (
+                    <span className="min-w-5 h-5 px-1.5 rounded-full bg-black text-white text-[10px] font-bold flex items-center justify-center">
+                      {c.unread_count}
+                    </span>
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-neutral-50">
+              {messages.map(m => {
+                const mine = m.sender_id === userId;
+                return (
+                  <div key={m.id} className={`flex ${mine ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[75%] px-3 py-2 rounded-2xl text-sm ${mine ? 'bg-black text-white' : 'bg-white border border-black/5'}`}>
+                      <p className="whitespace-pre-wrap break-words">{m.body}</p>
+                      <div className={`flex items-center gap-1 justify-end text-[10px] mt-1 ${mine ? 'text-white/60' : 'text-neutral-400'}`}>
+                        {formatTime(m.created_at)}
+                        {mine && (m.read_at ? <CheckCheck className="w-3 h-3" /> : <Check className="w-3 h-3" />)}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {pending.map(write => (
+                <div key={write.id} className="flex justify-end">
+                  <div className="max-w-[75%] px-3 py-2 rounded-2xl text-sm bg-black/60 text-white">
+                    <p className="whitespace-pre-wrap break-words">{(write.body as { body: string }).body}</p>
+                    <div className="flex items-center gap-1 justify-end text-[10px] mt-1 text-white/70">
+                      <Clock className="w-3 h-3" /> Waiting to send
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <div ref={bottomRef} />
+            </div>
+            {error && <p className="px-4 pt-2 text-red-500 text-xs">{error}</p>}
+            <form onSubmit={handleSend} className="p-3 border-t border-neutral-100 flex gap-2">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Write a message..."
+                maxLength={2000}
+                className="flex-1 px-4 py-2.5 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5"
+              />
+              <button type="submit" className="p-3 bg-black text-white rounded-xl hover:bg-neutral-800 transition-colors">
+                <Send className="w-4 h-4" />
+              </button>
+            </form>
+          </>
+        )}
+      </motion.div>
+    </div>
+  );
+}
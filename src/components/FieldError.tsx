@@ -0,0 +1,7 @@
+import React from 'react';
+
+// Inline validation message under a form field
+export default function FieldError({ message, className = 'mt-1' }: { message?: string; className?: string }) {
+  if (!message) return null;
+  return <p className={`${className} text-red-500 text-xs`}>{message}</p>;
+}
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Job, User } from '../types';
+import { api, errorMessage } from '../api';
+
+interface Props {
+  worker: User;
+  onInvite: (job: Job) => void;
+  onClose: () => void;
+}
+
+// Lets an employer pick which of their jobs to invite a worker to
+export default function InviteModal({ worker, onInvite, onClose }: Props) {
+  const [jobs, setJobs] = useState<Job[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api<Job[]>('/api/jobs/mine')
+      .then(setJobs)
+      .catch(err => setError(errorMessage(err)));
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Invite {worker.name}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 space-y-2">
+          {error ? (
+            <p className="text-red-500 text-sm">{error}</p>
+          ) : jobs === null ? (
+            <div className="h-16 bg-neutral-100 rounded-2xl animate-pulse" />
+          ) : jobs.length === 0 ? (
+            <p className="text-neutral-500 text-sm">Post a job first, then invite workers to it.</p>
+          ) : (
+            jobs.map(job => (
+              <button
+                key={job.id}
+                onClick={() => onInvite(job)}
+                className="w-full text-left px-4 py-3 rounded-2xl border border-neutral-200 hover:bg-neutral-50 transition-colors"
+              >
+                <div className="font-medium">{job.title}</div>
+                <div className="text-xs text-neutral-500">{job.category}</div>
+              </button>
+            ))
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Job, PayType } from '../types';
+import type { FieldErrors } from '../api';
+import FieldError from './FieldError';
+import { toLocalInput } from '../time';
+
+export interface JobDraft {
+  title: string;
+  description: string;
+  category: string;
+  pay_rate: number;
+  pay_type: PayType;
+  start_time: string | null;
+  duration_hours: number | null;
+  headcount: number;
+  expires_at: string | null;
+}
+
+interface Props {
+  job: Job | null;
+  categories: readonly string[];
+  errors: FieldErrors;
+  formError: string | null;
+  onSubmit: (draft: JobDraft) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5';
+const labelClass = 'block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5';
+
+export default function JobFormModal({ job, categories, errors, formError, onSubmit, onClose }: Props) {
+  const [title, setTitle] = useState(job?.title ?? '');
+  const [description, setDescription] = useState(job?.description ?? '');
+  const [category, setCategory] = useState(job?.category ?? categories[0]);
+  const [payRate, setPayRate] = useState(job ? String(job.pay_rate) : '');
+  const [payType, setPayType] = useState<PayType>(job?.pay_type ?? 'hourly');
+  const [startTime, setStartTime] = useState(toLocalInput(job?.start_time ?? null));
+  const [duration, setDuration] = useState(job?.duration_hours ? String(job.duration_hours) : '');
+  const [headcount, setHeadcount] = useState(String(job?.headcount ?? 1));
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(job?.expires_at ?? null));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      title,
+      description,
+      category,
+      pay_rate: Number(payRate),
+      pay_type: payType,
+      start_time: startTime ? new Date(startTime).toISOString() : null,
+      duration_hours: duration ? Number(duration) : null,
+      headcount: Number(headcount),
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">{job ? 'Edit Job' : 'Post a Job'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className={labelClass}>Job title</label>
+            <input required value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Warehouse loader for Saturday" className={inputClass} />
+            <FieldError message={errors.title} />
+          </div>
+          <div>
+            <label className={labelClass}>Required category</label>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} className={`${inputClass} bg-white`}>
+              {categories.map(cat => <option key={cat}>{cat}</option>)}
+            </select>
+            <FieldError message={errors.category} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Pay rate</label>
+              <input required type="number" min="0" step="0.01" value={payRate} onChange={(e) => setPayRate(e.target.value)} className={inputClass} />
+              <FieldError message={errors.pay_rate} />
+            </div>
+            <div>
+              <label className={labelClass}>Pay type</label>
+              <select value={payType} onChange={(e) => setPayType(e.target.value as PayType)} className={`${inputClass} bg-white`}>
+                <option value="hourly">Hourly</option>
+                <option value="fixed">Fixed</option>
+              </select>
+              <FieldError message={errors.pay_type} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Start time</label>
+            <input type="datetime-local" value={startTime} onChange={(e) => setStartTime(e.target.value)} className={inputClass} />
+            <FieldError message={errors.start_time} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Duration (hours)</label>
+              <input type="number" min="0.5" step="0.5" value={duration} onChange={(e) => setDuration(e.target.value)} className={inputClass} />
+              <FieldError message={errors.duration_hours} />
+            </div>
+            <div>
+              <label className={labelClass}>Headcount</label>
+              <input required type="number" min="1" step="1" value={headcount} onChange={(e) => setHeadcount(e.target.value)} className={inputClass} />
+              <FieldError message={errors.headcount} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Details</label>
+            <textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="What the work involves, what to bring..." rows={4} className={`${inputClass} resize-none`} />
+            <FieldError message={errors.description} />
+          </div>
+          <div>
+            <label className={labelClass}>Open until (optional)</label>
+            <input type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className={inputClass} />
+            <FieldError message={errors.expires_at} />
+          </div>
+          {formError && <p className="text-red-500 text-xs text-center">{formError}</p>}
+          <button 
+            type="submit"
+            className="w-full bg-black text-white py-4 rounded-2xl font-semibold hover:bg-neutral-800 transition-colors shadow-lg shadow-black/10"
+          >
+            {job ? 'Save Changes' : 'Publish Job'}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
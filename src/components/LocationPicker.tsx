@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import { X, Search, Navigation, MapPin, Trash2, Bookmark } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Place, SavedLocation } from '../types';
+import { api, errorMessage } from '../api';
+import { TILE_ATTRIBUTION, TILE_URL } from './MapView';
+
+interface Props {
+  // Where results are currently centred, to start the map there
+  current: { lat: number; lng: number } | null;
+  hasGps: boolean;
+  // Only offered to signed-in users
+  saved?: SavedLocation[];
+  onPick: (place: Place) => void;
+  onUseGps: () => void;
+  onSave?: (name: string, place: Place) => Promise<unknown>;
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}
+
+const pinIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-5 h-5 rounded-full bg-black border-2 border-white shadow-md"></div>',
+  iconSize: [20, 20]
+});
+
+const savedPlace = (location: SavedLocation): Place => ({
+  name: location.name,
+  label: location.label ?? location.name,
+  kind: 'point',
+  lat: location.lat,
+  lng: location.lng
+});
+
+/**
+ * Sets the search location by hand: a typed address or postal code, a point clicked on the
+ * map, or one of the user's saved locations. The way in when GPS is denied or unavailable.
+ */
+export default function LocationPicker({ current, hasGps, saved, onPick, onUseGps, onSave, onDelete, onClose }: Props) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Place[] | null>(null);
+  const [selected, setSelected] = useState<Place | null>(null);
+  const [saveName, setSaveName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+
+  useEffect(() => {
+    const map = L.map(containerRef.current!).setView(current ? [current.lat, current.lng] : [20, 0], current ? 11 : 2);
+    if (TILE_URL !== 'blank') {
+      L.tileLayer(TILE_URL, { maxZoom: 19, attribution: TILE_ATTRIBUTION }).addTo(map);
+    }
+    map.on('click', async (e: L.LeafletMouseEvent) => {
+      const { lat, lng } = e.latlng.wrap();
+      setError(null);
+      try {
+        const { place } = await api<{ place: Place }>(`/api/geocode/reverse?lat=${lat}&lng=${lng}`);
+        setSelected(place);
+      } catch (err) {
+        setError(errorMessage(err));
+      }
+    });
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(async () => {
+      const q = query.trim();
+      if (!q) {
+        setResults(null);
+        return;
+      }
+      try {
+        setResults((await api<{ items: Place[] }>(`/api/geocode?${new URLSearchParams({ q })}`)).items);
+      } catch (err) {
+        setError(errorMessage(err));
+      }
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // Drop the pin on the selection and bring it into view
+  useEffect(() => {
+    const map = mapRef.current;
+    markerRef.current?.remove();
+    markerRef.current = null;
+    if (!map || !selected) return;
+    markerRef.current = L.marker([selected.lat, selected.lng], { icon: pinIcon, interactive: false }).addTo(map);
+    map.setView([selected.lat, selected.lng], Math.max(map.getZoom(), selected.kind === 'city' ? 10 : 12));
+  }, [selected]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected || !onSave || !saveName.trim()) return;
+    setError(null);
+    try {
+      await onSave(saveName.trim(), selected);
+      setSaveName('');
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg max-h-[90vh] rounded-3xl shadow-2xl overflow-hidden flex flex-col"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Choose location</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="relative">
+            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-neutral-400" />
+            <input
+              autoFocus
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Town, district or postal code"
+              className="w-full pl-10 pr-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5"
+            />
+          </div>
+
+          {results && (
+            results.length === 0 ? (
+              <p className="text-sm text-neutral-500">No matching places. Try a nearby town or drop a pin on the map.</p>
+            ) : (
+              <div className="space-y-1">
+                {results.map(place => (
+                  <button
+                    key={`${place.kind}:${place.label}`}
+                    onClick={() => { setSelected(place); setResults(null); setQuery(''); }}
+                    className="w-full text-left px-4 py-2 rounded-xl hover:bg-neutral-50 transition-colors"
+                  >
+                    <div className="text-sm font-medium">{place.name}</div>
+                    <div className="text-xs text-neutral-500">{place.label}</div>
+                  </button>
+                ))}
+              </div>
+            )
+          )}
+
+          <div className="relative z-0 h-56 rounded-2xl overflow-hidden border border-black/5 bg-neutral-200">
+            <div ref={containerRef} className="h-full w-full" />
+          </div>
+          <p className="-mt-2 text-xs text-neutral-400">Or click the map to drop a pin.</p>
+
+          {selected && (
+            <div className="p-4 rounded-2xl bg-neutral-50 space-y-3">
+              <div className="flex items-start gap-2">
+                <MapPin className="w-4 h-4 mt-0.5 shrink-0" />
+                <div className="flex-1">
+                  <div className="text-sm font-medium">{selected.name}</div>
+                  <div className="text-xs text-neutral-500">{selected.label}</div>
+                </div>
+                <button
+                  onClick={() => onPick(selected)}
+                  className="px-4 py-2 bg-black text-white rounded-xl text-sm font-medium hover:bg-neutral-800 transition-colors"
+                >
+                  Search here
+                </button>
+              </div>
+              {onSave && (
+                <form onSubmit={handleSave} className="flex gap-2">
+                  <input
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                    maxLength={40}
+                    placeholder='Save as, e.g. "Home" or "Site A"'
+                    className="flex-1 px-3 py-2 rounded-xl border border-neutral-200 bg-white text-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!saveName.trim()}
+                    className="flex items-center gap-1 px-3 py-2 bg-neutral-200 rounded-xl text-sm font-medium hover:bg-neutral-300 disabled:opacity-50 transition-colors"
+                  >
+                    <Bookmark className="w-3.5 h-3.5" /> Save
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+
+          {saved && saved.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold uppercase tracking-wider text-neutral-400 mb-2">Saved locations</h3>
+              <div className="space-y-1">
+                {saved.map(location => (
+                  <div key={location.id} className="flex items-center gap-2 px-4 py-2 rounded-xl hover:bg-neutral-50">
+                    <button onClick={() => onPick(savedPlace(location))} className="flex-1 text-left">
+                      <div className="text-sm font-medium">{location.name}</div>
+                      {location.label && <div className="text-xs text-neutral-500">{location.label}</div>}
+                    </button>
+                    {onDelete && (
+                      <button
+                        onClick={() => onDelete(location.id)}
+                        title="Delete"
+                        className="p-1.5 hover:bg-red-50 rounded-full text-neutral-400 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {hasGps && (
+            <button
+              onClick={onUseGps}
+              className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl border border-neutral-200 text-sm font-medium hover:bg-neutral-50 transition-colors"
+            >
+              <Navigation className="w-4 h-4" /> Use my GPS location
+            </button>
+          )}
+
+          {error && <p className="text-red-500 text-xs">{error}</p>}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import Supercluster from 'supercluster';
+import { Search } from 'lucide-react';
+import 'leaflet/dist/leaflet.css';
+import type { FeedItem } from './ResultCard';
+
+export interface SearchArea {
+  lat: number;
+  lng: number;
+  radius: number;
+}
+
+interface Props {
+  origin: { lat: number; lng: number };
+  area: SearchArea | null;
+  items: FeedItem[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onSearchArea: (area: SearchArea) => void;
+}
+
+/**
+ * Tile template for the map, from MAP_TILE_URL. Point it at a local tile server
+ * ("/tiles/{z}/{x}/{y}.png") or set it to "blank" to run without any tiles.
+ */
+export const TILE_URL = process.env.MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const TILE_ATTRIBUTION = process.env.MAP_TILE_URL ? '' : '&copy; OpenStreetMap contributors';
+const MAX_SEARCH_RADIUS_KM = 200;
+
+const originIcon = L.divIcon({
+  className: '',
+  html: '<div class="w-4 h-4 rounded-full bg-blue-500 border-2 border-white shadow-md"></div>',
+  iconSize: [16, 16]
+});
+
+const itemIcon = (selected: boolean) => L.divIcon({
+  className: '',
+  html: `<div class="w-6 h-6 rounded-full border-2 border-white shadow-md transition-transform ${selected ? 'bg-black scale-125' : 'bg-neutral-500'}"></div>`,
+  iconSize: [24, 24]
+});
+
+const clusterIcon = (count: number) => {
+  const size = count < 10 ? 32 : count < 100 ? 40 : 48;
+  return L.divIcon({
+    className: '',
+    html: `<div class="rounded-full bg-black/80 text-white text-xs font-bold flex items-center justify-center border-2 border-white shadow-md" style="width:${size}px;height:${size}px">${count}</div>`,
+    iconSize: [size, size]
+  });
+};
+
+// Rough zoom level that fits a circle of `radiusKm` in a typical viewport
+const zoomForRadius = (radiusKm: number) => Math.max(3, Math.min(16, Math.round(14 - Math.log2(radiusKm / 2))));
+
+export default function MapView({ origin, area, items, selectedId, onSelect, onSearchArea }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.LayerGroup | null>(null);
+  // Set while we move the map ourselves, so only user drags/zooms offer "Search this area"
+  const programmaticRef = useRef(false);
+  const [view, setView] = useState<{ bbox: [number, number, number, number]; zoom: number } | null>(null);
+  const [moved, setMoved] = useState(false);
+
+  useEffect(() => {
+    const start = area ?? { ...origin, radius: 10 };
+    const map = L.map(containerRef.current!, { zoomControl: true }).setView([start.lat, start.lng], zoomForRadius(start.radius));
+    if (TILE_URL !== 'blank') {
+      L.tileLayer(TILE_URL, { maxZoom: 19, attribution: TILE_ATTRIBUTION }).addTo(map);
+    }
+    layerRef.current = L.layerGroup().addTo(map);
+
+    const update = () => {
+      const b = map.getBounds();
+      setView({ bbox: [b.getWest(), b.getSouth(), b.getEast(), b.getNorth()], zoom: Math.round(map.getZoom()) });
+    };
+    map.on('moveend', () => {
+      update();
+      if (!programmaticRef.current) setMoved(true);
+      programmaticRef.current = false;
+    });
+    update();
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  const index = useMemo(() => {
+    const cluster = new Supercluster<{ id: string }>({ radius: 60, maxZoom: 16 });
+    cluster.load(items
+      .filter(item => item.lat != null && item.lng != null)
+      .map(item => ({
+        type: 'Feature' as const,
+        properties: { id: item.id },
+        geometry: { type: 'Point' as const, coordinates: [item.lng!, item.lat!] }
+      })));
+    return cluster;
+  }, [items]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = layerRef.current;
+    if (!map || !layer || !view) return;
+    layer.clearLayers();
+
+    L.marker([origin.lat, origin.lng], { icon: originIcon, interactive: false, zIndexOffset: -100 }).addTo(layer);
+
+    for (const feature of index.getClusters(view.bbox, view.zoom)) {
+      const [lng, lat] = feature.geometry.coordinates;
+      const props = feature.properties as { id?: string; cluster?: boolean; cluster_id?: number; point_count?: number };
+      if (props.cluster) {
+        L.marker([lat, lng], { icon: clusterIcon(props.point_count!) })
+          .on('click', () => {
+            programmaticRef.current = true;
+            map.setView([lat, lng], Math.min(index.getClusterExpansionZoom(props.cluster_id!), 18));
+          })
+          .addTo(layer);
+      } else {
+        const selected = props.id === selectedId;
+        L.marker([lat, lng], { icon: itemIcon(selected), zIndexOffset: selected ? 1000 : 0 })
+          .on('click', () => onSelect(props.id!))
+          .addTo(layer);
+      }
+    }
+  }, [index, view, selectedId, origin.lat, origin.lng]);
+
+  // Bring the selected item into view when it's picked from the list
+  useEffect(() => {
+    const map = mapRef.current;
+    const item = items.find(i => i.id === selectedId);
+    if (!map || !item || item.lat == null || item.lng == null) return;
+    if (!map.getBounds().contains([item.lat, item.lng])) {
+      programmaticRef.current = true;
+      map.panTo([item.lat, item.lng]);
+    }
+  }, [selectedId]);
+
+  const searchHere = () => {
+    const map = mapRef.current;
+    if (!map) return;
+    const center = map.getCenter();
+    const radius = Math.min(MAX_SEARCH_RADIUS_KM, Math.max(1, center.distanceTo(map.getBounds().getNorthEast()) / 1000));
+    onSearchArea({ lat: center.lat, lng: center.lng, radius: Math.round(radius * 10) / 10 });
+    setMoved(false);
+  };
+
+  return (
+    <div className="relative z-0 h-full w-full rounded-3xl overflow-hidden border border-black/5 shadow-sm bg-neutral-200">
+      <div ref={containerRef} className="h-full w-full" />
+      {moved && (
+        <button
+          onClick={searchHere}
+          className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-2 px-4 py-2 bg-white rounded-full shadow-md text-sm font-medium hover:bg-neutral-50"
+        >
+          <Search className="w-4 h-4" />
+          Search this area
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Bell, BellRing, Search, Trash2 } from 'lucide-react';
+import type { AppNotification, SavedSearch } from '../types';
+import type { PushState } from '../hooks/useNotifications';
+import { timeAgo } from '../time';
+
+interface Props {
+  notifications: AppNotification[];
+  unread: number;
+  savedSearches: SavedSearch[];
+  pushState: PushState;
+  error: string | null;
+  onOpen: () => void;
+  onDeleteSearch: (id: string) => void;
+  onEnablePush: () => void;
+  onDisablePush: () => void;
+}
+
+const PUSH_HINTS: Record<PushState, string> = {
+  unsupported: "This browser can't show alerts while the app is closed.",
+  off: 'Get alerted even when the app is closed.',
+  on: 'Alerts are sent to this device.',
+  denied: 'Notifications are blocked for this site in your browser settings.'
+};
+
+// Bell in the header: alert inbox, the searches that produce those alerts, and the push toggle
+export default function NotificationsPanel(props: Props) {
+  const { notifications, unread, savedSearches, pushState, error } = props;
+  const [open, setOpen] = useState(false);
+
+  const toggle = () => {
+    if (!open) props.onOpen();
+    setOpen(!open);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={toggle} title="Notifications" className="relative p-2 hover:bg-neutral-100 rounded-full transition-colors">
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 bg-red-500 text-white text-[10px] font-bold rounded-full flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto bg-white rounded-2xl shadow-xl border border-black/5 p-2 z-40">
+          <p className="px-3 pt-2 pb-1 text-xs font-bold uppercase tracking-wider text-neutral-400">Notifications</p>
+          {notifications.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-neutral-500">Nothing yet. Save a search to hear about new matches nearby.</p>
+          ) : (
+            notifications.map(notification => (
+              <div key={notification.id} className={`px-3 py-2 rounded-xl ${notification.read_at ? '' : 'bg-neutral-50'}`}>
+                <p className="text-sm font-medium">{notification.title}</p>
+                {notification.body && <p className="text-sm text-neutral-600 truncate">{notification.body}</p>}
+                <p className="text-xs text-neutral-400">{timeAgo(notification.created_at)}</p>
+              </div>
+            ))
+          )}
+
+          <div className="border-t border-neutral-100 my-1" />
+          <p className="px-3 pt-2 pb-1 text-xs font-bold uppercase tracking-wider text-neutral-400">Saved searches</p>
+          {savedSearches.length === 0 && <p className="px-3 py-2 text-sm text-neutral-500">Use "Save search" above the results.</p>}
+          {savedSearches.map(search => (
+            <div key={search.id} className="flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-neutral-50">
+              <Search className="w-4 h-4 text-neutral-400 shrink-0" />
+              <span className="flex-1 min-w-0">
+                <span className="block text-sm font-medium truncate">{search.name}</span>
+                <span className="block text-xs text-neutral-500">
+                  {search.target === 'jobs' ? 'Jobs' : 'Workers'} within {search.radius} km
+                  {search.categories.length > 0 && ` · ${search.categories.join(', ')}`}
+                </span>
+              </span>
+              <button onClick={() => props.onDeleteSearch(search.id)} title="Delete" className="p-1 text-neutral-400 hover:text-red-600">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="border-t border-neutral-100 my-1" />
+          <div className="flex items-center gap-3 px-3 py-2">
+            <BellRing className="w-4 h-4 text-neutral-400 shrink-0" />
+            <span className="flex-1 text-xs text-neutral-500">{PUSH_HINTS[pushState]}</span>
+            {(pushState === 'off' || pushState === 'on') && (
+              <button
+                onClick={pushState === 'on' ? props.onDisablePush : props.onEnablePush}
+                className="px-3 py-1.5 rounded-full text-xs font-medium bg-neutral-100 hover:bg-neutral-200"
+              >
+                {pushState === 'on' ? 'Turn off' : 'Turn on'}
+              </button>
+            )}
+          </div>
+          {error && <p className="px-3 pb-2 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { CloudOff, RefreshCw, X } from 'lucide-react';
+import type { FailedWrite, QueuedWrite } from '../outbox';
+
+interface Props {
+  online: boolean;
+  pending: QueuedWrite[];
+  failed: FailedWrite[];
+  onRetry: () => void;
+  onDismissFailure: (id: string) => void;
+}
+
+// Connection state above the feed: offline notice, writes waiting to go out, and any the server turned down
+export default function OfflineBanner({ online, pending, failed, onRetry, onDismissFailure }: Props) {
+  if (online && pending.length === 0 && failed.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      {(!online || pending.length > 0) && (
+        <div className="px-4 py-3 bg-amber-50 border border-amber-100 text-amber-800 rounded-2xl text-sm">
+          <div className="flex items-center gap-3">
+            <CloudOff className="w-4 h-4 shrink-0" />
+            <span className="flex-1">
+              {!online
+                ? "You're offline. Showing the last results saved on this device; posts, applications and messages will be sent when you reconnect."
+                : `${pending.length} ${pending.length === 1 ? 'change is' : 'changes are'} waiting to send.`}
+            </span>
+            {online && (
+              <button onClick={onRetry} className="flex items-center gap-1 px-3 py-1.5 bg-amber-100 rounded-full text-xs font-medium hover:bg-amber-200">
+                <RefreshCw className="w-3 h-3" /> Send now
+              </button>
+            )}
+          </div>
+          {pending.length > 0 && (
+            <ul className="mt-2 ml-7 space-y-0.5 text-xs text-amber-700">
+              {pending.map(write => <li key={write.id} className="truncate">{write.label}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+      {failed.map(({ write, error }) => (
+        <div key={write.id} className="flex items-center gap-3 px-4 py-3 bg-red-50 border border-red-100 text-red-700 rounded-2xl text-sm">
+          <span className="flex-1">Couldn't send {write.label}: {error}</span>
+          <button onClick={() => onDismissFailure(write.id)} className="p-1 hover:bg-red-100 rounded-full transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Check, Plus, Wand2, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Post, PostSuggestion, Profile } from '../types';
+import { api, errorMessage, type FieldErrors } from '../api';
+import FieldError from './FieldError';
+import { toLocalInput } from '../time';
+
+export interface PostDraft {
+  title: string;
+  description: string;
+  category: string;
+  expires_at: string | null;
+}
+
+interface Props {
+  post: Post | null;
+  // The signed-in worker, whose profile suggested skills are added to
+  userId: string;
+  categories: readonly string[];
+  errors: FieldErrors;
+  formError: string | null;
+  onSubmit: (draft: PostDraft) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5';
+const labelClass = 'block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5';
+
+export default function PostFormModal({ post, userId, categories, errors, formError, onSubmit, onClose }: Props) {
+  const [title, setTitle] = useState(post?.title ?? '');
+  const [description, setDescription] = useState(post?.description ?? '');
+  const [category, setCategory] = useState(post?.category ?? categories[0]);
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(post?.expires_at ?? null));
+  const [notes, setNotes] = useState('');
+  const [suggestion, setSuggestion] = useState<PostSuggestion | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [skillsAdded, setSkillsAdded] = useState(false);
+  const [assistError, setAssistError] = useState<string | null>(null);
+
+  // Rough notes in, an editable title/category/description out; nothing is posted until "Post Now"
+  const suggest = async () => {
+    setAssistError(null);
+    setSuggesting(true);
+    try {
+      setSuggestion(await api<PostSuggestion>('/api/assistant/post', { body: { notes: notes.trim() || description } }));
+      setSkillsAdded(false);
+    } catch (err) {
+      setAssistError(errorMessage(err));
+    } finally {
+      setSuggesting(false);
+    }
+  };
+
+  const applySuggestion = () => {
+    if (!suggestion) return;
+    setTitle(suggestion.title);
+    setDescription(suggestion.description);
+    if (categories.includes(suggestion.category)) setCategory(suggestion.category);
+  };
+
+  // Profiles are saved whole, so merge the new skills into the current one
+  const addSkillsToProfile = async () => {
+    if (!suggestion) return;
+    setAssistError(null);
+    try {
+      const profile = await api<Profile>(`/api/users/${userId}/profile`);
+      const known = new Set(profile.skills.map(s => s.name.toLowerCase()));
+      const skills = [...profile.skills, ...suggestion.skills.filter(s => !known.has(s.name.toLowerCase()))];
+      const { bio, rate_min, rate_max, languages, schedule, travel_radius_km, timezone } = profile;
+      await api('/api/users/me/profile', {
+        method: 'PUT',
+        body: { bio, rate_min, rate_max, languages, skills, schedule, travel_radius_km, timezone }
+      });
+      setSkillsAdded(true);
+    } catch (err) {
+      setAssistError(errorMessage(err));
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      title,
+      description,
+      category,
+      expires_at: expiresAt ? new Date(expiresAt).toISOString() : null
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">{post ? 'Edit Post' : 'Post Availability'}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="p-4 rounded-2xl bg-neutral-50 space-y-3">
+            <label className={labelClass}>Describe it in your own words</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. can do garden work weekends, have my own mower, around Hackney"
+              rows={2}
+              className={`${inputClass} resize-none bg-white text-sm`}
+            />
+            <button
+              type="button"
+              onClick={suggest}
+              disabled={suggesting || (notes.trim() || description).trim().length < 10}
+              className="flex items-center gap-1.5 px-4 py-2 bg-white border border-neutral-200 rounded-xl text-sm font-medium hover:bg-neutral-100 disabled:opacity-50 transition-colors"
+            >
+              <Wand2 className="w-4 h-4" /> {suggesting ? 'Thinking...' : 'Suggest a post'}
+            </button>
+            {suggestion && (
+              <div className="p-3 rounded-xl bg-white border border-neutral-200 space-y-2 text-sm">
+                <div className="font-medium">{suggestion.title}</div>
+                <div className="text-xs text-neutral-400">{suggestion.category}</div>
+                <p className="text-neutral-600">{suggestion.description}</p>
+                <div className="flex flex-wrap gap-2 pt-1">
+                  <button
+                    type="button"
+                    onClick={applySuggestion}
+                    className="px-3 py-1.5 bg-black text-white rounded-full text-xs font-medium hover:bg-neutral-800"
+                  >
+                    Use this
+                  </button>
+                  {suggestion.skills.length > 0 && (
+                    <button
+                      type="button"
+                      onClick={addSkillsToProfile}
+                      disabled={skillsAdded}
+                      title={suggestion.skills.map(s => s.name).join(', ')}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200 disabled:opacity-60"
+                    >
+                      {skillsAdded ? <Check className="w-3 h-3" /> : <Plus className="w-3 h-3" />}
+                      {skillsAdded ? 'Added to profile' : `Add skills to profile: ${suggestion.skills.map(s => s.name).join(', ')}`}
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-neutral-400">Check it over: you can edit everything below before posting.</p>
+              </div>
+            )}
+            {assistError && <p className="text-red-500 text-xs">{assistError}</p>}
+          </div>
+          <div>
+            <label className={labelClass}>What can you do?</label>
+            <input required value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Professional House Cleaning" className={inputClass} />
+            <FieldError message={errors.title} />
+          </div>
+          <div>
+            <label className={labelClass}>Category</label>
+            <select value={category} onChange={(e) => setCategory(e.target.value)} className={`${inputClass} bg-white`}>
+              {categories.map(cat => <option key={cat}>{cat}</option>)}
+            </select>
+            <FieldError message={errors.category} />
+          </div>
+          <div>
+            <label className={labelClass}>Details</label>
+            <textarea
+              required
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Describe your experience, tools, and availability..."
+              rows={4}
+              className={`${inputClass} resize-none`}
+            />
+            <FieldError message={errors.description} />
+          </div>
+          <div>
+            <label className={labelClass}>Available until (optional)</label>
+            <input type="datetime-local" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} className={inputClass} />
+            <FieldError message={errors.expires_at} />
+          </div>
+          {formError && <p className="text-red-500 text-xs text-center">{formError}</p>}
+          <button
+            type="submit"
+            className="w-full bg-black text-white py-4 rounded-2xl font-semibold hover:bg-neutral-800 transition-colors shadow-lg shadow-black/10"
+          >
+            {post ? 'Save Changes' : 'Post Now'}
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Radio } from 'lucide-react';
+import type { Availability } from '../types';
+
+export const AVAILABILITY_LABELS: Record<Availability, string> = {
+  available: 'Available',
+  busy: 'Busy',
+  offline: 'Offline'
+};
+
+export const AVAILABILITY_DOT: Record<Availability, string> = {
+  available: 'bg-green-500',
+  busy: 'bg-amber-500',
+  offline: 'bg-neutral-400'
+};
+
+interface Props {
+  availability: Availability;
+  live: boolean;
+  onAvailabilityChange: (availability: Availability) => void;
+  onLiveChange: (live: boolean) => void;
+}
+
+// Header control for workers: availability status plus the live-location opt-in
+export default function PresenceControl({ availability, live, onAvailabilityChange, onLiveChange }: Props) {
+  return (
+    <div className="flex items-center gap-1">
+      <div className="flex items-center gap-1.5 pl-3 pr-1 py-1 bg-neutral-100 rounded-full text-xs font-medium">
+        <span className={`w-2 h-2 rounded-full ${AVAILABILITY_DOT[availability]}`} />
+        <select
+          value={availability}
+          onChange={(e) => onAvailabilityChange(e.target.value as Availability)}
+          className="bg-transparent focus:outline-none"
+        >
+          {(Object.keys(AVAILABILITY_LABELS) as Availability[]).map(key => (
+            <option key={key} value={key}>{AVAILABILITY_LABELS[key]}</option>
+          ))}
+        </select>
+      </div>
+      <button
+        onClick={() => onLiveChange(!live)}
+        title={live ? 'Sharing live location (click to stop)' : 'Share live location while the app is open'}
+        className={`p-2 rounded-full transition-colors ${live ? 'bg-black text-white' : 'hover:bg-neutral-100 text-neutral-600'}`}
+      >
+        <Radio className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, Camera, ImagePlus, MessageCircle, Pencil, Plus, Star, Trash2, User as UserIcon, X } from 'lucide-react';
+import type { Profile, ScheduleSlot, Skill } from '../types';
+import { api, errorMessage, ApiError, type FieldErrors } from '../api';
+import FieldError from './FieldError';
+import { AVAILABILITY_DOT, AVAILABILITY_LABELS } from './PresenceControl';
+
+const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface Props {
+  userId: string;
+  viewerId: string;
+  categories: readonly string[];
+  onBack: () => void;
+  onMessage?: (userId: string) => void;
+  onAvatarChange?: (url: string) => void;
+}
+
+interface Draft {
+  bio: string;
+  rate_min: string;
+  rate_max: string;
+  languages: string;
+  skills: Skill[];
+  schedule: ScheduleSlot[];
+  travel_radius_km: string;
+}
+
+const toDraft = (profile: Profile): Draft => ({
+  bio: profile.bio ?? '',
+  rate_min: profile.rate_min?.toString() ?? '',
+  rate_max: profile.rate_max?.toString() ?? '',
+  languages: profile.languages.join(', '),
+  skills: profile.skills,
+  schedule: profile.schedule,
+  travel_radius_km: profile.travel_radius_km?.toString() ?? ''
+});
+
+const orNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const formatRate = (profile: Pick<Profile, 'rate_min' | 'rate_max'>) => {
+  const { rate_min: min, rate_max: max } = profile;
+  if (min == null && max == null) return null;
+  if (min != null && max != null && min !== max) return `$${min}–${max}/hr`;
+  return `$${min ?? max}/hr`;
+};
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 bg-white';
+const labelClass = 'block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5';
+
+// A user's profile page; the owner can edit it and manage their photos
+export default function ProfileScreen({ userId, viewerId, categories, onBack, onMessage, onAvatarChange }: Props) {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [error, setError] = useState<string | null>(null);
+  const [newSkill, setNewSkill] = useState<Skill>({ name: '', category: categories[0] });
+  const isMine = userId === viewerId;
+
+  useEffect(() => {
+    setProfile(null);
+    setDraft(null);
+    api<Profile>(`/api/users/${userId}/profile`)
+      .then(setProfile)
+      .catch(err => setError(errorMessage(err)));
+  }, [userId]);
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setErrors({});
+    setError(null);
+    try {
+      const saved = await api<Profile>('/api/users/me/profile', {
+        method: 'PUT',
+        body: {
+          bio: draft.bio,
+          rate_min: orNull(draft.rate_min),
+          rate_max: orNull(draft.rate_max),
+          languages: draft.languages.split(',').map(l => l.trim()).filter(Boolean),
+          skills: draft.skills,
+          schedule: draft.schedule,
+          travel_radius_km: orNull(draft.travel_radius_km),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        }
+      });
+      setProfile(saved);
+      setDraft(null);
+    } catch (err) {
+      setError(errorMessage(err));
+      if (err instanceof ApiError) setErrors(err.fields);
+    }
+  };
+
+  const uploadAvatar = async (file: File | undefined) => {
+    if (!file || !profile) return;
+    try {
+      const { avatar_url } = await api<{ avatar_url: string }>('/api/users/me/avatar', { method: 'PUT', body: file });
+      setProfile({ ...profile, avatar_url });
+      onAvatarChange?.(avatar_url);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const addPortfolioImage = async (file: File | undefined) => {
+    if (!file || !profile) return;
+    try {
+      const image = await api<{ id: string; url: string }>('/api/users/me/portfolio', { method: 'POST', body: file });
+      setProfile({ ...profile, portfolio: [...profile.portfolio, image] });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const removePortfolioImage = async (imageId: string) => {
+    if (!profile) return;
+    try {
+      await api(`/api/users/me/portfolio/${imageId}`, { method: 'DELETE' });
+      setProfile({ ...profile, portfolio: profile.portfolio.filter(i => i.id !== imageId) });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  const setSlot = (index: number, slot: ScheduleSlot) =>
+    draft && setDraft({ ...draft, schedule: draft.schedule.map((s, i) => (i === index ? slot : s)) });
+
+  return (
+    <div className="max-w-2xl">
+      <button onClick={onBack} className="flex items-center gap-1 text-sm text-neutral-500 hover:text-black mb-4">
+        <ArrowLeft className="w-4 h-4" /> Back
+      </button>
+      {error && <p className="mb-4 text-red-500 text-sm">{error}</p>}
+
+      {!profile ? (
+        !error && <div className="bg-white h-64 rounded-3xl animate-pulse border border-black/5" />
+      ) : (
+        <div className="bg-white p-6 rounded-3xl border border-black/5 shadow-sm space-y-6">
+          <div className="flex items-center gap-4">
+            <div className="relative">
+              <div className="w-20 h-20 rounded-full bg-neutral-100 overflow-hidden flex items-center justify-center">
+                {profile.avatar_url
+                  ? <img src={profile.avatar_url} alt="" className="w-full h-full object-cover" />
+                  : <UserIcon className="w-8 h-8 text-neutral-400" />}
+              </div>
+              {isMine && (
+                <label title="Change photo" className="absolute -bottom-1 -right-1 p-1.5 bg-black text-white rounded-full cursor-pointer">
+                  <Camera className="w-3.5 h-3.5" />
+                  <input type="file" accept="image/*" className="hidden" onChange={(e) => uploadAvatar(e.target.files?.[0])} />
+                </label>
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <h2 className="text-2xl font-semibold tracking-tight truncate">{profile.name}</h2>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-neutral-500">
+                {profile.role === 'worker' && (
+                  <span className="flex items-center gap-1.5">
+                    <span className={`w-2 h-2 rounded-full ${AVAILABILITY_DOT[profile.availability]}`} />
+                    {AVAILABILITY_LABELS[profile.availability]}
+                  </span>
+                )}
+                {profile.review_count > 0 && profile.rating_avg != null && (
+                  <span className="flex items-center gap-1">
+                    <Star className="w-3.5 h-3.5 fill-amber-400 text-amber-400" />
+                    {profile.rating_avg.toFixed(1)} ({profile.review_count})
+                  </span>
+                )}
+                {formatRate(profile) && <span>{formatRate(profile)}</span>}
+                {profile.travel_radius_km != null && <span>Travels up to {profile.travel_radius_km} km</span>}
+              </div>
+            </div>
+            {isMine ? (
+              !draft && (
+                <button onClick={() => setDraft(toDraft(profile))} className="flex items-center gap-1 px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200">
+                  <Pencil className="w-3 h-3" /> Edit
+                </button>
+              )
+            ) : onMessage && (
+              <button onClick={() => onMessage(profile.id)} className="flex items-center gap-1 px-3 py-1.5 bg-black text-white rounded-full text-xs font-medium hover:bg-neutral-800">
+                <MessageCircle className="w-3 h-3" /> Message
+              </button>
+            )}
+          </div>
+
+          {draft ? (
+            <form onSubmit={save} className="space-y-4">
+              <div>
+                <label className={labelClass}>About</label>
+                <textarea value={draft.bio} onChange={(e) => setDraft({ ...draft, bio: e.target.value })} rows={4} className={`${inputClass} resize-none`} />
+                <FieldError message={errors.bio} />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className={labelClass}>Min $/hr</label>
+                  <input type="number" min="0" step="0.5" value={draft.rate_min} onChange={(e) => setDraft({ ...draft, rate_min: e.target.value })} className={inputClass} />
+                  <FieldError message={errors.rate_min} />
+                </div>
+                <div>
+                  <label className={labelClass}>Max $/hr</label>
+                  <input type="number" min="0" step="0.5" value={draft.rate_max} onChange={(e) => setDraft({ ...draft, rate_max: e.target.value })} className={inputClass} />
+                  <FieldError message={errors.rate_max} />
+                </div>
+                <div>
+                  <label className={labelClass}>Travel km</label>
+                  <input type="number" min="1" value={draft.travel_radius_km} onChange={(e) => setDraft({ ...draft, travel_radius_km: e.target.value })} className={inputClass} />
+                  <FieldError message={errors.travel_radius_km} />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Languages</label>
+                <input value={draft.languages} onChange={(e) => setDraft({ ...draft, languages: e.target.value })} placeholder="English, Spanish" className={inputClass} />
+                <FieldError message={errors.languages} />
+              </div>
+
+              <div>
+                <label className={labelClass}>Skills</label>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {draft.skills.map(skill => (
+                    <span key={skill.name} className="flex items-center gap-1 pl-3 pr-1 py-1 bg-neutral-100 rounded-full text-xs font-medium">
+                      {skill.name} <span className="text-neutral-400">· {skill.category}</span>
+                      <button type="button" onClick={() => setDraft({ ...draft, skills: draft.skills.filter(s => s !== skill) })} className="p-0.5 hover:bg-neutral-200 rounded-full">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <input value={newSkill.name} onChange={(e) => setNewSkill({ ...newSkill, name: e.target.value })} placeholder="e.g. Deep cleaning" className={inputClass} />
+                  <select value={newSkill.category} onChange={(e) => setNewSkill({ ...newSkill, category: e.target.value })} className={inputClass}>
+                    {categories.map(cat => <option key={cat}>{cat}</option>)}
+                  </select>
+                  <button
+                    type="button"
+                    disabled={!newSkill.name.trim()}
+                    onClick={() => { setDraft({ ...draft, skills: [...draft.skills, { ...newSkill, name: newSkill.name.trim() }] }); setNewSkill({ ...newSkill, name: '' }); }}
+                    className="px-4 rounded-xl bg-neutral-100 hover:bg-neutral-200 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </div>
+                <FieldError message={errors.skills} />
+              </div>
+
+              <div>
+                <label className={labelClass}>Weekly availability</label>
+                <div className="space-y-2">
+                  {draft.schedule.map((slot, index) => (
+                    <div key={index} className="flex gap-2 items-center">
+                      <select value={slot.day} onChange={(e) => setSlot(index, { ...slot, day: Number(e.target.value) })} className={inputClass}>
+                        {DAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                      </select>
+                      <input type="time" value={slot.start} onChange={(e) => setSlot(index, { ...slot, start: e.target.value })} className={inputClass} />
+                      <input type="time" value={slot.end === '24:00' ? '23:59' : slot.end} onChange={(e) => setSlot(index, { ...slot, end: e.target.value === '23:59' ? '24:00' : e.target.value })} className={inputClass} />
+                      <button type="button" onClick={() => setDraft({ ...draft, schedule: draft.schedule.filter((_, i) => i !== index) })} className="p-2 hover:bg-neutral-100 rounded-full">
+                        <Trash2 className="w-4 h-4 text-neutral-500" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...draft, schedule: [...draft.schedule, { day: 0, start: '09:00', end: '17:00' }] })}
+                    className="flex items-center gap-1 px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200"
+                  >
+                    <Plus className="w-3 h-3" /> Add time slot
+                  </button>
+                </div>
+                <FieldError message={errors.schedule} />
+              </div>
+
+              <div className="flex gap-2">
+                <button type="submit" className="flex-1 bg-black text-white py-3 rounded-2xl font-semibold hover:bg-neutral-800 transition-colors">
+                  Save profile
+                </button>
+                <button type="button" onClick={() => { setDraft(null); setErrors({}); }} className="px-6 py-3 rounded-2xl bg-neutral-100 font-medium hover:bg-neutral-200">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <p className="text-neutral-600 whitespace-pre-line">{profile.bio || (isMine ? 'Tell employers about yourself — tap Edit.' : 'No bio yet.')}</p>
+
+              {profile.skills.length > 0 && (
+                <div>
+                  <h3 className={labelClass}>Skills</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {profile.skills.map(skill => (
+                      <span key={skill.name} className="px-3 py-1 bg-neutral-100 rounded-full text-xs font-medium">
+                        {skill.name} <span className="text-neutral-400">· {skill.category}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {profile.languages.length > 0 && (
+                <div>
+                  <h3 className={labelClass}>Languages</h3>
+                  <p className="text-sm">{profile.languages.join(', ')}</p>
+                </div>
+              )}
+
+              {profile.schedule.length > 0 && (
+                <div>
+                  <h3 className={labelClass}>Weekly availability ({profile.timezone})</h3>
+                  <ul className="text-sm space-y-1">
+                    {profile.schedule.map((slot, i) => (
+                      <li key={i}><span className="inline-block w-10 font-medium">{DAYS[slot.day]}</span> {slot.start}–{slot.end}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {(profile.portfolio.length > 0 || isMine) && (
+            <div>
+              <h3 className={labelClass}>Portfolio</h3>
+              <div className="grid grid-cols-3 gap-2">
+                {profile.portfolio.map(image => (
+                  <div key={image.id} className="relative aspect-square rounded-2xl overflow-hidden bg-neutral-100 group">
+                    <img src={image.url} alt="" className="w-full h-full object-cover" />
+                    {isMine && (
+                      <button
+                        onClick={() => removePortfolioImage(image.id)}
+                        title="Remove"
+                        className="absolute top-1 right-1 p-1.5 bg-white/90 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <Trash2 className="w-3.5 h-3.5 text-red-600" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {isMine && (
+                  <label className="aspect-square rounded-2xl border-2 border-dashed border-neutral-200 flex flex-col items-center justify-center gap-1 text-neutral-400 hover:bg-neutral-50 cursor-pointer">
+                    <ImagePlus className="w-5 h-5" />
+                    <span className="text-xs">Add photo</span>
+                    <input type="file" accept="image/*" className="hidden" onChange={(e) => addPortfolioImage(e.target.files?.[0])} />
+                  </label>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { ReportReason, ReportTarget } from '../types';
+import { api, errorMessage } from '../api';
+
+interface Props {
+  target: { type: ReportTarget; id: string; name: string };
+  onClose: () => void;
+}
+
+const REASONS: [ReportReason, string][] = [
+  ['spam', 'Spam or advertising'],
+  ['scam', 'Scam or asks for money upfront'],
+  ['fake', 'Fake or misleading'],
+  ['offensive', 'Offensive or abusive'],
+  ['other', 'Something else']
+];
+
+// Sends a post, job or user to the moderation queue; listings reported by several people are hidden until reviewed
+export default function ReportModal({ target, onClose }: Props) {
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await api(`/api/${target.type}s/${target.id}/reports`, { body: { reason, details } });
+      setSent(true);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Report {target.name}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        {sent ? (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-neutral-600">Thanks. A moderator will take a look.</p>
+            <button onClick={onClose} className="w-full bg-black text-white py-3 rounded-xl font-medium hover:bg-neutral-800 transition-colors">
+              Done
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <div className="space-y-2">
+              {REASONS.map(([value, label]) => (
+                <label key={value} className="flex items-center gap-3 px-4 py-2.5 rounded-xl border border-neutral-200 cursor-pointer hover:bg-neutral-50">
+                  <input type="radio" name="reason" checked={reason === value} onChange={() => setReason(value)} />
+                  <span className="text-sm">{label}</span>
+                </label>
+              ))}
+            </div>
+            <textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+              rows={3}
+              placeholder="Anything a moderator should know (optional)"
+              className="w-full px-4 py-3 rounded-xl border border-neutral-200 text-sm focus:outline-none focus:ring-2 focus:ring-black/5"
+            />
+            {error && <p className="text-red-500 text-xs">{error}</p>}
+            <button type="submit" className="w-full bg-black text-white py-3 rounded-xl font-medium hover:bg-neutral-800 transition-colors">
+              Send report
+            </button>
+          </form>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import React from 'react';
+import { MapPin, Clock, Briefcase, User as UserIcon, Pencil, Trash2, MessageCircle, Star, TrendingUp, TrendingDown, Flag, Sparkles } from 'lucide-react';
+import type { Job, Listing, Post, PostStatus, User } from '../types';
+import { timeAgo, timeUntil } from '../time';
+import { AVAILABILITY_DOT, AVAILABILITY_LABELS } from './PresenceControl';
+
+export type FeedItem = Listing | User;
+
+interface Props {
+  item: FeedItem;
+  onEdit?: (listing: Listing) => void;
+  onDelete?: (listing: Listing) => void;
+  onSetStatus?: (listing: Listing, status: PostStatus) => void;
+  onApply?: (job: Job) => void;
+  onInvite?: (worker: User) => void;
+  onMessage?: (userId: string) => void;
+  onShowReviews?: (userId: string, name: string) => void;
+  onViewProfile?: (userId: string) => void;
+  // Offered on other people's posts and on worker cards
+  onReport?: (item: Listing | User) => void;
+  applied?: boolean;
+  // An application to this job was made offline and hasn't been sent yet
+  applyPending?: boolean;
+  viewerId?: string;
+}
+
+const formatPay = (job: Job) =>
+  `$${job.pay_rate.toFixed(2)}${job.pay_type === 'hourly' ? '/hr' : ' fixed'}`;
+
+const formatStart = (start: string | null) =>
+  start ? new Date(start).toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit' }) : 'Flexible start';
+
+const formatRate = (worker: User) => {
+  const { rate_min: min, rate_max: max } = worker;
+  if (min == null && max == null) return null;
+  return min != null && max != null && min !== max ? `$${min}–${max}/hr` : `$${min ?? max}/hr`;
+};
+
+const formatDistance = (item: FeedItem) => {
+  if (item.distance === undefined) return 'Your posting';
+  return item.location_approximate ? `Within ~${item.distance} km` : `${item.distance.toFixed(1)} km away`;
+};
+
+const POST_STATUS_LABELS: Record<PostStatus, string> = {
+  open: 'Open',
+  filled: 'Filled',
+  closed: 'Closed',
+  expired: 'Expired'
+};
+
+const workerStatus = (worker: User) => {
+  const availability = worker.availability ?? 'available';
+  return (
+    <>
+      <span className={`w-2 h-2 rounded-full ${AVAILABILITY_DOT[availability]}`} />
+      <span>{AVAILABILITY_LABELS[availability]}{worker.last_active ? ` · seen ${timeAgo(worker.last_active)}` : ''}</span>
+    </>
+  );
+};
+
+// Body of a result card; the animated container lives in the grid that renders it
+export default function ResultCard({ item, onEdit, onDelete, onSetStatus, onApply, onInvite, onMessage, onShowReviews, onViewProfile, onReport, applied, applyPending, viewerId }: Props) {
+  const isListing = 'kind' in item;
+  const job = isListing && item.kind === 'job' ? item : null;
+  const post = isListing && item.kind === 'availability' ? item : null;
+  // Posts and jobs share a lifecycle
+  const listing = post ?? job;
+  // Who to talk to about this card
+  const contactId = !isListing ? item.id : item.kind === 'job' ? item.employer_id : item.user_id;
+  const contactName = !isListing ? item.name : (item.kind === 'job' ? item.employer_name : item.user_name) ?? '';
+
+  return (
+    <>
+      <div className="flex justify-between items-start mb-4">
+        {!isListing && item.avatar_url ? (
+          <img src={item.avatar_url} alt="" className="w-11 h-11 rounded-2xl object-cover" />
+        ) : (
+          <div className="p-3 bg-neutral-100 rounded-2xl group-hover:bg-black group-hover:text-white transition-colors">
+            {isListing ? <Briefcase className="w-5 h-5" /> : <UserIcon className="w-5 h-5" />}
+          </div>
+        )}
+        <div className="flex gap-1 items-start">
+          {listing?.hidden ? (
+            <span className="text-[10px] font-bold uppercase tracking-wider text-red-700 bg-red-50 px-2 py-1 rounded-md" title="Hidden from search until a moderator reviews it">
+              Under review
+            </span>
+          ) : null}
+          {listing && listing.status !== 'open' && (
+            <span className="text-[10px] font-bold uppercase tracking-wider text-amber-700 bg-amber-50 px-2 py-1 rounded-md">
+              {POST_STATUS_LABELS[listing.status]}
+            </span>
+          )}
+          <span className="text-[10px] font-bold uppercase tracking-wider text-neutral-400 bg-neutral-50 px-2 py-1 rounded-md">
+            {isListing ? item.category : 'Worker'}
+          </span>
+          {onReport && contactId !== viewerId && (
+            <button
+              onClick={() => onReport(item)}
+              title="Report"
+              className="p-1 -mt-0.5 text-neutral-300 hover:text-red-600 rounded-md transition-colors"
+            >
+              <Flag className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+      
+      <h3 className="font-semibold text-lg mb-1 group-hover:text-black transition-colors">
+        {!isListing && onViewProfile ? (
+          <button onClick={() => onViewProfile(item.id)} className="hover:underline text-left">{item.name}</button>
+        ) : isListing ? item.title : item.name}
+      </h3>
+
+      {onShowReviews && item.review_count !== undefined && (
+        <button
+          onClick={() => onShowReviews(contactId, contactName)}
+          className="flex items-center gap-1 text-xs text-neutral-500 mb-2 hover:text-black self-start"
+        >
+          <Star className={`w-3 h-3 ${item.review_count ? 'fill-amber-400 text-amber-400' : ''}`} />
+          {item.review_count && item.rating_avg != null ? (
+            <>
+              <span className="font-medium text-neutral-700">{item.rating_avg.toFixed(1)}</span>
+              <span>({item.review_count})</span>
+              {item.rating_trend === 'up' && <TrendingUp className="w-3 h-3 text-green-600" />}
+              {item.rating_trend === 'down' && <TrendingDown className="w-3 h-3 text-red-500" />}
+            </>
+          ) : (
+            <span>No reviews yet</span>
+          )}
+          {isListing && contactName && <span>· {contactName}</span>}
+        </button>
+      )}
+
+      {job && (
+        <p className="text-sm font-medium mb-2">
+          {formatPay(job)} · {job.headcount} {job.headcount === 1 ? 'spot' : 'spots'}
+          {job.duration_hours ? ` · ${job.duration_hours}h` : ''}
+        </p>
+      )}
+      
+      {isListing ? (
+        <p className="text-neutral-500 text-sm line-clamp-2 mb-4">
+          {item.description}
+        </p>
+      ) : (
+        <>
+          {formatRate(item) && <p className="text-sm font-medium mb-2">{formatRate(item)}</p>}
+          <p className="text-neutral-500 text-sm line-clamp-2 mb-2">
+            {item.bio || 'Available for hire in your area.'}
+          </p>
+          {item.skill_names && <p className="text-xs text-neutral-400 mb-4 line-clamp-1">{item.skill_names}</p>}
+        </>
+      )}
+
+      {item.recommendation && (
+        <div
+          title={Object.entries(item.recommendation.factors).map(([factor, points]) => `${factor}: ${points}`).join('\n')}
+          className="mb-4 px-3 py-2 bg-neutral-50 rounded-xl text-xs"
+        >
+          <div className="flex items-center gap-1 font-medium">
+            <Sparkles className="w-3 h-3" /> {Math.round(item.recommendation.score)}% match
+          </div>
+          {item.recommendation.reasons.length > 0 && (
+            <p className="text-neutral-500 mt-0.5 line-clamp-2">{item.recommendation.reasons.slice(0, 3).join(' · ')}</p>
+          )}
+        </div>
+      )}
+
+      {isListing && (onEdit || onDelete || onSetStatus) && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {onEdit && (
+            <button onClick={() => onEdit(item)} className="flex items-center gap-1 px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200">
+              <Pencil className="w-3 h-3" /> Edit
+            </button>
+          )}
+          {listing && onSetStatus && (listing.status === 'open' ? (
+            <>
+              <button onClick={() => onSetStatus(listing, 'filled')} className="px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200">
+                Mark filled
+              </button>
+              <button onClick={() => onSetStatus(listing, 'closed')} className="px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200">
+                Close
+              </button>
+            </>
+          ) : (
+            <button onClick={() => onSetStatus(listing, 'open')} className="px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium hover:bg-neutral-200">
+              Reopen
+            </button>
+          ))}
+          {onDelete && (
+            <button onClick={() => onDelete(item)} className="flex items-center gap-1 px-3 py-1.5 bg-neutral-100 rounded-full text-xs font-medium text-red-600 hover:bg-red-50">
+              <Trash2 className="w-3 h-3" /> Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {listing && onSetStatus && listing.status === 'open' && listing.expires_at && (
+        <p className="text-xs text-neutral-400 -mt-2 mb-4">Expires {timeUntil(listing.expires_at)}</p>
+      )}
+
+      {job && onApply && (
+        <button
+          onClick={() => onApply(job)}
+          disabled={applied || applyPending}
+          className="mb-4 w-full py-2 rounded-xl text-sm font-medium bg-black text-white hover:bg-neutral-800 disabled:bg-neutral-100 disabled:text-neutral-400 transition-colors"
+        >
+          {applied ? 'Applied' : applyPending ? 'Waiting to send' : 'Apply'}
+        </button>
+      )}
+
+      {!isListing && onInvite && (
+        <button
+          onClick={() => onInvite(item)}
+          className="mb-4 w-full py-2 rounded-xl text-sm font-medium bg-black text-white hover:bg-neutral-800 transition-colors"
+        >
+          Invite to a job
+        </button>
+      )}
+
+      {onMessage && contactId !== viewerId && (
+        <button
+          onClick={() => onMessage(contactId)}
+          className="mb-4 w-full py-2 rounded-xl text-sm font-medium bg-neutral-100 hover:bg-neutral-200 transition-colors flex items-center justify-center gap-1.5"
+        >
+          <MessageCircle className="w-4 h-4" /> Message
+        </button>
+      )}
+
+      <div className="flex items-center justify-between mt-auto pt-4 border-t border-neutral-50">
+        <div className="flex items-center gap-1.5 text-neutral-400 text-xs">
+          <MapPin className="w-3 h-3" />
+          <span>{formatDistance(item)}</span>
+        </div>
+        <div className="flex items-center gap-1.5 text-neutral-400 text-xs">
+          {isListing ? (
+            <>
+              <Clock className="w-3 h-3" />
+              <span>{job ? formatStart(job.start_time) : `Posted ${timeAgo(item.created_at)}`}</span>
+            </>
+          ) : workerStatus(item)}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Star, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Application, Role } from '../types';
+import type { FieldErrors } from '../api';
+import FieldError from './FieldError';
+
+interface Props {
+  application: Application;
+  role: Role;
+  errors: FieldErrors;
+  formError: string | null;
+  onSubmit: (rating: number, body: string) => void;
+  onClose: () => void;
+}
+
+// Rating and written review for the other side of a completed engagement
+export default function ReviewFormModal({ application, role, errors, formError, onSubmit, onClose }: Props) {
+  const [rating, setRating] = useState(0);
+  const [hover, setHover] = useState(0);
+  const [body, setBody] = useState('');
+  const otherName = role === 'worker' ? application.employer_name : application.worker_name;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Review {otherName}</h2>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (rating) onSubmit(rating, body); }}
+          className="p-6 space-y-4"
+        >
+          <p className="text-sm text-neutral-500">{application.job_title}</p>
+          <div>
+            <div className="flex gap-1" onMouseLeave={() => setHover(0)}>
+              {[1, 2, 3, 4, 5].map(n => (
+                <button key={n} type="button" onClick={() => setRating(n)} onMouseEnter={() => setHover(n)}>
+                  <Star className={`w-8 h-8 ${n <= (hover || rating) ? 'fill-amber-400 text-amber-400' : 'text-neutral-300'}`} />
+                </button>
+              ))}
+            </div>
+            <FieldError message={errors.rating} />
+          </div>
+          <div>
+            <label className="block text-xs font-bold uppercase tracking-wider text-neutral-400 mb-1.5">Your review</label>
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="How did it go?"
+              rows={4}
+              className="w-full px-4 py-3 rounded-xl border border-neutral-200 focus:outline-none focus:ring-2 focus:ring-black/5 resize-none"
+            />
+            <FieldError message={errors.body} />
+          </div>
+          {formError && <p className="text-red-500 text-xs text-center">{formError}</p>}
+          <button 
+            type="submit"
+            disabled={!rating}
+            className="w-full bg-black text-white py-4 rounded-2xl font-semibold hover:bg-neutral-800 transition-colors shadow-lg shadow-black/10 disabled:bg-neutral-300"
+          >
+            Submit review
+          </button>
+        </form>
+      </motion.div>
+    </div>
+  );
+}
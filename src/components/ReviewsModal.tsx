@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { Flag, Star, X } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Reputation, Review } from '../types';
+import { api, errorMessage } from '../api';
+import { parseDbTime } from '../time';
+
+interface Props {
+  userId: string;
+  name: string;
+  viewerId: string;
+  onClose: () => void;
+}
+
+export const Stars = ({ rating, className = 'w-3.5 h-3.5' }: { rating: number; className?: string }) => (
+  <span className="flex">
+    {[1, 2, 3, 4, 5].map(n => (
+      <Star key={n} className={`${className} ${n <= Math.round(rating) ? 'fill-amber-400 text-amber-400' : 'text-neutral-300'}`} />
+    ))}
+  </span>
+);
+
+// A user's reputation and reviews, with a flag button for abusive ones
+export default function ReviewsModal({ userId, name, viewerId, onClose }: Props) {
+  const [data, setData] = useState<{ reputation: Reputation; reviews: Review[] } | null>(null);
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    api<{ reputation: Reputation; reviews: Review[] }>(`/api/users/${userId}/reviews`)
+      .then(setData)
+      .catch(err => setError(errorMessage(err)));
+  }, [userId]);
+
+  const flag = async (review: Review) => {
+    if (!window.confirm('Report this review as abusive?')) return;
+    try {
+      await api(`/api/reviews/${review.id}/flags`, { method: 'POST', body: {} });
+      setFlagged(prev => new Set(prev).add(review.id));
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <motion.div 
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        onClick={onClose}
+        className="absolute inset-0 bg-black/40 backdrop-blur-sm"
+      />
+      <motion.div 
+        initial={{ opacity: 0, scale: 0.9, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.9, y: 20 }}
+        className="relative bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden"
+      >
+        <div className="p-6 border-b border-neutral-100 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold">{name || 'Reviews'}</h2>
+            {data && data.reputation.review_count > 0 && (
+              <div className="flex items-center gap-2 mt-1 text-sm text-neutral-500">
+                <Stars rating={data.reputation.rating_avg ?? 0} />
+                {data.reputation.rating_avg?.toFixed(1)} from {data.reputation.review_count}{' '}
+                {data.reputation.review_count === 1 ? 'review' : 'reviews'}
+              </div>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-neutral-100 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+          {data === null ? (
+            !error && <div className="h-16 bg-neutral-100 rounded-2xl animate-pulse" />
+          ) : data.reviews.length === 0 ? (
+            <p className="text-neutral-500 text-sm">No reviews yet.</p>
+          ) : (
+            data.reviews.map(review => (
+              <div key={review.id} className="border-b border-neutral-100 pb-4 last:border-0">
+                <div className="flex items-center justify-between gap-2">
+                  <Stars rating={review.rating} />
+                  {review.reviewer_id !== viewerId && (
+                    <button
+                      onClick={() => flag(review)}
+                      disabled={flagged.has(review.id)}
+                      title="Report abusive review"
+                      className="p-1 text-neutral-400 hover:text-red-600 disabled:text-red-600"
+                    >
+                      <Flag className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                {review.body && <p className="text-sm mt-2">{review.body}</p>}
+                <p className="text-xs text-neutral-400 mt-1">
+                  {review.reviewer_name} · {review.job_title} · {parseDbTime(review.created_at).toLocaleDateString()}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
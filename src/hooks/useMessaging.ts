@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Conversation, Message } from '../types';
+import { api, errorMessage } from '../api';
+import { sendOrQueue } from '../outbox';
+
+/**
+ * Conversation list, the open thread and the live event stream for the signed-in user.
+ * The stream only carries new messages and read receipts; anything missed while offline
+ * is picked up by re-fetching whenever the EventSource (re)connects.
+ */
+export function useMessaging(userId: string | null) {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const activeIdRef = useRef<string | null>(null);
+  const conversationsRef = useRef<Conversation[]>([]);
+  activeIdRef.current = activeId;
+  conversationsRef.current = conversations;
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await api<Conversation[]>('/api/conversations'));
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  const markRead = useCallback(async (conversationId: string) => {
+    setConversations(prev => prev.map(c => (c.id === conversationId ? { ...c, unread_count: 0 } : c)));
+    try {
+      await api(`/api/conversations/${conversationId}/read`, { method: 'POST' });
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  const loadMessages = useCallback(async (conversationId: string) => {
+    try {
+      const loaded = await api<Message[]>(`/api/conversations/${conversationId}/messages`);
+      if (activeIdRef.current === conversationId) setMessages(loaded);
+      markRead(conversationId);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, [markRead]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const source = new EventSource('/api/events');
+
+    source.addEventListener('open', () => {
+      refreshConversations();
+      if (activeIdRef.current) loadMessages(activeIdRef.current);
+    });
+
+    source.addEventListener('chat.message', (e: MessageEvent) => {
+      const message: Message = JSON.parse(e.data);
+      if (message.conversation_id === activeIdRef.current) {
+        setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+        if (message.sender_id !== userId) markRead(message.conversation_id);
+      }
+      // Unknown conversation (someone new wrote to us): reload the list to pick it up
+      if (!conversationsRef.current.some(c => c.id === message.conversation_id)) {
+        refreshConversations();
+        return;
+      }
+      setConversations(prev => prev
+        .map(c => c.id !== message.conversation_id ? c : {
+          ...c,
+          last_message: message.body,
+          last_message_at: message.created_at,
+          unread_count: message.sender_id !== userId && c.id !== activeIdRef.current ? c.unread_count + 1 : c.unread_count
+        })
+        .sort((a, b) => (b.last_message_at ?? b.created_at).localeCompare(a.last_message_at ?? a.created_at)));
+    });
+
+    source.addEventListener('chat.read', (e: MessageEvent) => {
+      const receipt: { conversation_id: string; reader_id: string; read_at: string } = JSON.parse(e.data);
+      if (receipt.conversation_id !== activeIdRef.current || receipt.reader_id === userId) return;
+      setMessages(prev => prev.map(m => (m.sender_id === userId && !m.read_at ? { ...m, read_at: receipt.read_at } : m)));
+    });
+
+    return () => source.close();
+  }, [userId, refreshConversations, loadMessages, markRead]);
+
+  const openConversation = useCallback((conversationId: string | null) => {
+    setActiveId(conversationId);
+    activeIdRef.current = conversationId;
+    setMessages([]);
+    setError(null);
+    if (conversationId) loadMessages(conversationId);
+  }, [loadMessages]);
+
+  // Starts (or reuses) the thread with another user and opens it
+  const startConversation = useCallback(async (otherUserId: string) => {
+    try {
+      const conversation = await api<Conversation>('/api/conversations', { body: { userId: otherUserId } });
+      setConversations(prev => (prev.some(c => c.id === conversation.id) ? prev : [conversation, ...prev]));
+      openConversation(conversation.id);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, [openConversation]);
+
+  // Resolves false if the message wasn't accepted, so the caller can keep the draft.
+  // Offline, the message is queued and goes out (and comes back over the stream) on reconnect.
+  const sendMessage = useCallback(async (body: string) => {
+    const conversationId = activeIdRef.current;
+    if (!conversationId || !userId) return false;
+    setError(null);
+    const recipient = conversationsRef.current.find(c => c.id === conversationId)?.other_user_name;
+    try {
+      const message = await sendOrQueue<Message>({
+        user_id: userId,
+        kind: 'message',
+        target_id: conversationId,
+        label: recipient ? `Message to ${recipient}` : 'Message',
+        url: `/api/conversations/${conversationId}/messages`,
+        method: 'POST',
+        body: { body }
+      });
+      if (message) setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+      return true;
+    } catch (err) {
+      setError(errorMessage(err));
+      return false;
+    }
+  }, [userId]);
+
+  const unreadTotal = conversations.reduce((sum, c) => sum + c.unread_count, 0);
+
+  return { conversations, activeId, messages, error, unreadTotal, openConversation, startConversation, sendMessage };
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { AppNotification, SavedSearch } from '../types';
+import { api, errorMessage } from '../api';
+
+// 'unsupported' covers browsers without service workers or the Push API (and plain-HTTP origins)
+export type PushState = 'unsupported' | 'off' | 'on' | 'denied';
+
+const pushSupported = () =>
+  typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && window.isSecureContext;
+
+// The applicationServerKey must be the raw VAPID key bytes, not its base64url text
+function base64UrlToBytes(value: string) {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+/**
+ * Saved searches, the notification inbox and the Web Push subscription for the signed-in user.
+ * New alerts arrive over the event stream while the app is open; the inbox is re-fetched
+ * whenever the stream (re)connects so nothing sent while offline is missed.
+ */
+export function useNotifications(userId: string | null) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [pushState, setPushState] = useState<PushState>('unsupported');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const inbox = await api<{ items: AppNotification[]; unread: number }>('/api/notifications');
+      setNotifications(inbox.items);
+      setUnread(inbox.unread);
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) return;
+    api<SavedSearch[]>('/api/saved-searches').then(setSavedSearches).catch(err => setError(errorMessage(err)));
+
+    const source = new EventSource('/api/events');
+    source.addEventListener('open', refresh);
+    source.addEventListener('notification.new', (e: MessageEvent) => {
+      const notification: AppNotification = JSON.parse(e.data);
+      setNotifications(prev => (prev.some(n => n.id === notification.id) ? prev : [notification, ...prev]));
+      setUnread(count => count + 1);
+    });
+    return () => source.close();
+  }, [userId, refresh]);
+
+  // Reflect an existing subscription (from an earlier visit) in the toggle
+  useEffect(() => {
+    if (!userId || !pushSupported()) return;
+    if (Notification.permission === 'denied') {
+      setPushState('denied');
+      return;
+    }
+    navigator.serviceWorker.getRegistration('/sw.js')
+      .then(registration => registration?.pushManager.getSubscription())
+      .then(subscription => setPushState(subscription ? 'on' : 'off'))
+      .catch(() => setPushState('off'));
+  }, [userId]);
+
+  const markAllRead = useCallback(async () => {
+    setUnread(0);
+    setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: new Date().toISOString() })));
+    try {
+      await api('/api/notifications/read', { body: {} });
+    } catch (err) {
+      console.error(err);
+    }
+  }, []);
+
+  // Throws if the search wasn't saved (e.g. the per-user limit), so the caller can say why
+  const saveSearch = useCallback(async (search: Omit<SavedSearch, 'id' | 'name' | 'created_at'> & { name?: string }) => {
+    const saved = await api<SavedSearch>('/api/saved-searches', { body: search });
+    setSavedSearches(prev => [saved, ...prev]);
+    return saved;
+  }, []);
+
+  const deleteSearch = useCallback(async (id: string) => {
+    setSavedSearches(prev => prev.filter(s => s.id !== id));
+    try {
+      await api(`/api/saved-searches/${id}`, { method: 'DELETE' });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  const enablePush = useCallback(async () => {
+    if (!pushSupported()) return;
+    setError(null);
+    try {
+      if ((await Notification.requestPermission()) !== 'granted') {
+        setPushState(Notification.permission === 'denied' ? 'denied' : 'off');
+        return;
+      }
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      const { publicKey } = await api<{ publicKey: string }>('/api/push/public-key');
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: base64UrlToBytes(publicKey)
+      });
+      await api('/api/push/subscriptions', { body: subscription.toJSON() });
+      setPushState('on');
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  const disablePush = useCallback(async () => {
+    try {
+      const registration = await navigator.serviceWorker.getRegistration('/sw.js');
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await api('/api/push/subscriptions', { method: 'DELETE', body: { endpoint: subscription.endpoint } });
+        await subscription.unsubscribe();
+      }
+      setPushState('off');
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  return { notifications, unread, savedSearches, pushState, error, markAllRead, saveSearch, deleteSearch, enablePush, disablePush };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OUTBOX_EVENT, queuedWrites, replayWrites, type FailedWrite, type QueuedWrite } from '../outbox';
+
+// While writes are waiting, try again this often even if the browser never reports going offline and back
+const RETRY_MS = 30_000;
+
+/**
+ * Connection state and the signed-in user's queue of offline writes. The queue is sent
+ * when the browser comes back online, on load, and periodically while anything is waiting;
+ * `onSent` runs for each write that goes through so the caller can refresh what it shows.
+ */
+export function useOutbox(userId: string | null, onSent: (write: QueuedWrite, result: unknown) => void) {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [pending, setPending] = useState<QueuedWrite[]>([]);
+  const [failed, setFailed] = useState<FailedWrite[]>([]);
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+  const replaying = useRef(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setPending(userId ? await queuedWrites(userId) : []);
+    } catch (err) {
+      console.error(err);
+    }
+  }, [userId]);
+
+  const replay = useCallback(async () => {
+    if (!userId || replaying.current) return;
+    replaying.current = true;
+    try {
+      const failures = await replayWrites(userId, (write, result) => onSentRef.current(write, result));
+      if (failures.length > 0) setFailed(prev => [...prev, ...failures]);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      replaying.current = false;
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    const goOnline = () => {
+      setOnline(true);
+      replay();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    window.addEventListener(OUTBOX_EVENT, refresh);
+    refresh();
+    if (navigator.onLine) replay();
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      window.removeEventListener(OUTBOX_EVENT, refresh);
+    };
+  }, [refresh, replay]);
+
+  useEffect(() => {
+    if (!online || pending.length === 0) return;
+    const timer = setInterval(replay, RETRY_MS);
+    return () => clearInterval(timer);
+  }, [online, pending.length, replay]);
+
+  const dismissFailure = useCallback((id: string) => {
+    setFailed(prev => prev.filter(f => f.write.id !== id));
+  }, []);
+
+  return { online, pending, failed, replay, dismissFailure };
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from 'react';
+import { api } from '../api';
+
+type LatLng = { lat: number; lng: number };
+
+const HEARTBEAT_INTERVAL_MS = 60_000;
+// Position updates go out at most this often, and only once we've actually moved
+const MIN_SEND_INTERVAL_MS = 15_000;
+const MIN_MOVE_METERS = 50;
+
+const metersBetween = (a: LatLng, b: LatLng) => {
+  const rad = Math.PI / 180;
+  const x = (b.lng - a.lng) * rad * Math.cos(((a.lat + b.lat) / 2) * rad);
+  const y = (b.lat - a.lat) * rad;
+  return Math.sqrt(x * x + y * y) * 6_371_000;
+};
+
+/**
+ * The device position plus the presence heartbeat for the signed-in user.
+ * By default we take a single GPS fix; with `live` on we follow `watchPosition`
+ * and report moves to the server (throttled). Either way a heartbeat keeps
+ * `last_active` fresh while the tab is visible.
+ */
+export function usePresence(userId: string | null, live: boolean) {
+  const [location, setLocation] = useState<LatLng | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const locationRef = useRef<LatLng | null>(null);
+  const lastSentRef = useRef<{ at: number; position: LatLng | null } | null>(null);
+  locationRef.current = location;
+
+  useEffect(() => {
+    if (!('geolocation' in navigator)) {
+      setError('This browser has no location support.');
+      return;
+    }
+    const onFix = (position: GeolocationPosition) => {
+      setError(null);
+      setLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
+    };
+    const onError = (err: GeolocationPositionError) => {
+      setError('Location access denied. Please enable GPS to see nearby results.');
+      console.error(err);
+    };
+    if (!live) {
+      navigator.geolocation.getCurrentPosition(onFix, onError);
+      return;
+    }
+    const watchId = navigator.geolocation.watchPosition(onFix, onError, { enableHighAccuracy: true, maximumAge: 10_000 });
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [live]);
+
+  const send = (position: LatLng | null) => {
+    lastSentRef.current = { at: Date.now(), position };
+    // A 429 just means another tab beat us to it
+    api('/api/users/me/heartbeat', { method: 'POST', body: position ?? {} }).catch(() => {});
+  };
+
+  useEffect(() => {
+    if (!userId || !location) return;
+    const last = lastSentRef.current;
+    if (last?.position && (Date.now() - last.at < MIN_SEND_INTERVAL_MS || metersBetween(last.position, location) < MIN_MOVE_METERS)) return;
+    send(location);
+  }, [userId, location]);
+
+  useEffect(() => {
+    if (!userId) return;
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') send(locationRef.current);
+    }, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [userId]);
+
+  return { location, error };
+}
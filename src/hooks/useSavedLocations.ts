@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { Place, SavedLocation } from '../types';
+import { api, errorMessage } from '../api';
+
+const byName = (a: SavedLocation, b: SavedLocation) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+// The signed-in user's named places ("Home", "Site A") to search around instead of their GPS position
+export function useSavedLocations(userId: string | null) {
+  const [locations, setLocations] = useState<SavedLocation[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLocations([]);
+    if (!userId) return;
+    api<SavedLocation[]>('/api/locations').then(setLocations).catch(err => setError(errorMessage(err)));
+  }, [userId]);
+
+  // Saving under an existing name moves that location
+  const save = useCallback(async (name: string, place: Place) => {
+    const saved = await api<SavedLocation>('/api/locations', { body: { name, label: place.label, lat: place.lat, lng: place.lng } });
+    setLocations(prev => [...prev.filter(l => l.id !== saved.id), saved].sort(byName));
+    return saved;
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    setLocations(prev => prev.filter(l => l.id !== id));
+    try {
+      await api(`/api/locations/${id}`, { method: 'DELETE' });
+    } catch (err) {
+      setError(errorMessage(err));
+    }
+  }, []);
+
+  return { locations, error, save, remove };
+}
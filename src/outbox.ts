@@ -0,0 +1,118 @@
+import { api, errorMessage, isNetworkError, ApiError } from './api';
+
+// Writes that may be made offline and sent later
+export type QueuedKind = 'post' | 'application' | 'message';
+
+export interface QueuedWrite {
+  // Also sent as the Idempotency-Key, so a write that reached the server before the connection dropped isn't applied twice
+  id: string;
+  user_id: string;
+  kind: QueuedKind;
+  // What the write is about (the job applied to, the conversation written in), for showing it in place
+  target_id?: string;
+  // Shown in the pending list, e.g. 'Post "Dog walking"'
+  label: string;
+  url: string;
+  method: string;
+  body: unknown;
+  queued_at: number;
+}
+
+export interface FailedWrite {
+  write: QueuedWrite;
+  error: string;
+}
+
+// Fired on window whenever the queue changes, so every view of it can refresh
+export const OUTBOX_EVENT = 'outbox-change';
+
+const DB_NAME = 'worknearby';
+const STORE = 'outbox';
+
+function openOutbox(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = run(tx.objectStore(STORE));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(request.result);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+const changed = () => window.dispatchEvent(new Event(OUTBOX_EVENT));
+
+// crypto.randomUUID() is only available on secure origins; this works on plain-HTTP LAN addresses too
+const newKey = () => Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+const sendWrite = <T,>(write: QueuedWrite) =>
+  api<T>(write.url, { method: write.method, body: write.body, idempotencyKey: write.id });
+
+// The user's queued writes, oldest first so they're replayed in the order they were made
+export async function queuedWrites(userId: string): Promise<QueuedWrite[]> {
+  const all = await withStore('readonly', store => store.getAll() as IDBRequest<QueuedWrite[]>);
+  return all.filter(w => w.user_id === userId).sort((a, b) => a.queued_at - b.queued_at);
+}
+
+async function removeWrite(id: string) {
+  await withStore('readwrite', store => store.delete(id));
+  changed();
+}
+
+/**
+ * Sends a write now, or keeps it in IndexedDB if the server can't be reached.
+ * Resolves with the response, or null if the write was queued. Errors from the
+ * server itself (validation, conflicts...) are thrown as usual.
+ */
+export async function sendOrQueue<T>(write: Omit<QueuedWrite, 'id' | 'queued_at'>): Promise<T | null> {
+  const queued: QueuedWrite = { ...write, id: newKey(), queued_at: Date.now() };
+  if (navigator.onLine) {
+    try {
+      return await sendWrite<T>(queued);
+    } catch (err) {
+      if (!isNetworkError(err)) throw err;
+    }
+  }
+  await withStore('readwrite', store => store.put(queued));
+  changed();
+  return null;
+}
+
+// Worth another try later: no connection, a server hiccup, or a session that needs signing in again
+const retryable = (err: unknown) =>
+  isNetworkError(err) || (err instanceof ApiError && (err.status === 401 || err.status === 429 || err.status >= 500));
+
+/**
+ * Sends the user's queued writes in order. Stops at the first retryable failure and
+ * leaves the rest queued; writes the server turns down are dropped and returned so
+ * the user can be told.
+ */
+export async function replayWrites(userId: string, onSent: (write: QueuedWrite, result: unknown) => void): Promise<FailedWrite[]> {
+  const failures: FailedWrite[] = [];
+  for (const write of await queuedWrites(userId)) {
+    try {
+      const result = await sendWrite(write);
+      await removeWrite(write.id);
+      onSent(write, result);
+    } catch (err) {
+      if (retryable(err)) break;
+      await removeWrite(write.id);
+      failures.push({ write, error: errorMessage(err) });
+    }
+  }
+  return failures;
+}
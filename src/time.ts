@@ -0,0 +1,30 @@
+// SQLite's CURRENT_TIMESTAMP is UTC without a zone marker ("YYYY-MM-DD HH:MM:SS")
+export const parseDbTime = (value: string) =>
+  new Date(value.includes('T') ? value : value.replace(' ', 'T') + 'Z');
+
+// `datetime-local` wants "YYYY-MM-DDTHH:mm" in local time
+export const toLocalInput = (value: string | null) => {
+  if (!value) return '';
+  const d = parseDbTime(value);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+// "just now", "5 min ago", "3 h ago", "2 d ago", then a plain date
+export function timeAgo(value: string, now = Date.now()) {
+  const seconds = Math.max(0, Math.round((now - parseDbTime(value).getTime()) / 1000));
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  if (seconds < 7 * 86400) return `${Math.floor(seconds / 86400)} d ago`;
+  return parseDbTime(value).toLocaleDateString();
+}
+
+// "in 5 min", "in 3 h", "in 2 d", then a plain date; for deadlines such as post expiry
+export function timeUntil(value: string, now = Date.now()) {
+  const seconds = Math.round((parseDbTime(value).getTime() - now) / 1000);
+  if (seconds <= 0) return 'now';
+  if (seconds < 3600) return `in ${Math.max(1, Math.floor(seconds / 60))} min`;
+  if (seconds < 86400) return `in ${Math.floor(seconds / 3600)} h`;
+  if (seconds < 7 * 86400) return `in ${Math.floor(seconds / 86400)} d`;
+  return `on ${parseDbTime(value).toLocaleDateString()}`;
+}
@@ -1,15 +1,85 @@
 export type Role = 'worker' | 'employer';
 
-export interface User {
+export type Availability = 'available' | 'busy' | 'offline';
+
+export type RatingTrend = 'up' | 'down' | 'steady';
+
+// Aggregate of a user's visible reviews; nearby results carry their owner's
+export interface Reputation {
+  review_count: number;
+  rating_avg: number | null;
+  rating_trend: RatingTrend | null;
+}
+
+// How precisely other users see your position
+export type LocationPrecision = 'exact' | '500m' | '2km' | 'neighbourhood';
+
+// Why a result ranked where it did in the recommended sort; factors are points out of 100
+export interface Recommendation {
+  score: number;
+  factors: Record<'distance' | 'category' | 'skills' | 'recency' | 'interaction', number>;
+  reasons: string[];
+}
+
+export interface User extends Partial<Reputation> {
   id: string;
   name: string;
   role: Role;
+  availability?: Availability;
+  location_precision?: LocationPrecision;
   lat?: number;
   lng?: number;
-  lastActive?: string;
+  last_active?: string;
+  distance?: number;
+  // Set when lat/lng/distance have been coarsened to the owner's precision
+  location_approximate?: boolean;
+  // Profile summary carried by nearby worker results
+  bio?: string | null;
+  rate_min?: number | null;
+  rate_max?: number | null;
+  avatar_url?: string | null;
+  skill_names?: string | null;
+  // Only sent for the signed-in user's own account
+  is_admin?: number;
+  recommendation?: Recommendation;
 }
 
-export interface Post {
+export interface Skill {
+  name: string;
+  category: string;
+}
+
+// A block of weekly availability; day 0 is Monday, times are "HH:MM" in the profile's timezone
+export interface ScheduleSlot {
+  day: number;
+  start: string;
+  end: string;
+}
+
+export interface Profile extends Reputation {
+  id: string;
+  name: string;
+  role: Role;
+  availability: Availability;
+  last_active: string;
+  bio: string | null;
+  rate_min: number | null;
+  rate_max: number | null;
+  languages: string[];
+  skills: Skill[];
+  schedule: ScheduleSlot[];
+  travel_radius_km: number | null;
+  timezone: string;
+  avatar_url: string | null;
+  portfolio: { id: string; url: string }[];
+}
+
+// A worker advertising their availability
+// 'expired' is set by the server once a post passes its expiry date
+export type PostStatus = 'open' | 'filled' | 'closed' | 'expired';
+
+export interface Post extends Partial<Reputation> {
+  kind: 'availability';
   id: string;
   user_id: string;
   user_name?: string;
@@ -18,6 +88,296 @@ export interface Post {
   category: string;
   lat: number;
   lng: number;
+  status: PostStatus;
+  expires_at: string | null;
+  created_at: string;
+  updated_at: string | null;
+  // Set while held by the spam filter or after repeated reports; only the owner still sees it
+  hidden?: number;
+  distance?: number;
+  location_approximate?: boolean;
+  recommendation?: Recommendation;
+}
+
+export type PayType = 'hourly' | 'fixed';
+
+// Jobs go through the same statuses as posts
+export type JobStatus = PostStatus;
+
+// An employer's job opening
+export interface Job extends Partial<Reputation> {
+  kind: 'job';
+  id: string;
+  employer_id: string;
+  employer_name?: string;
+  title: string;
+  description: string | null;
+  category: string;
+  pay_rate: number;
+  pay_type: PayType;
+  start_time: string | null;
+  duration_hours: number | null;
+  headcount: number;
+  lat: number;
+  lng: number;
+  status: JobStatus;
+  expires_at: string | null;
   created_at: string;
+  updated_at: string | null;
+  // Set while held by the spam filter or after repeated reports; only the employer still sees it
+  hidden?: number;
   distance?: number;
+  location_approximate?: boolean;
+  recommendation?: Recommendation;
+}
+
+export type Listing = Post | Job;
+
+export type ApplicationStatus =
+  | 'invited'
+  | 'applied'
+  | 'shortlisted'
+  | 'hired'
+  | 'completed'
+  | 'rejected'
+  | 'withdrawn';
+
+// A worker's link to a job, started by either side (application or invitation)
+export interface Application {
+  id: string;
+  job_id: string;
+  job_title: string;
+  worker_id: string;
+  worker_name: string;
+  employer_id: string;
+  employer_name: string;
+  status: ApplicationStatus;
+  note: string | null;
+  created_at: string;
+  updated_at: string;
+  // Statuses the current user is allowed to move this application to
+  next_statuses: ApplicationStatus[];
+  // Whether the current user has reviewed the other side yet
+  reviewed: boolean;
+  // Set once the employer has booked shifts for a hire
+  booking_id: string | null;
+}
+
+// Times are UTC database timestamps; distances are metres from where the work is
+export interface Shift {
+  id: string;
+  booking_id: string;
+  starts_at: string;
+  ends_at: string;
+  status: 'scheduled' | 'cancelled';
+  check_in_at: string | null;
+  check_in_distance_m: number | null;
+  check_out_at: string | null;
+  check_out_distance_m: number | null;
+}
+
+export interface TimesheetLine {
+  shift_id: string;
+  starts_at: string;
+  ends_at: string;
+  check_in_at: string | null;
+  check_out_at: string | null;
+  minutes: number;
+  amount: number;
+}
+
+// Worked hours x rate; fixed once the employer approves it
+export interface Timesheet {
+  hourly_rate: number;
+  lines: TimesheetLine[];
+  total_minutes: number;
+  total_hours: number;
+  total_amount: number;
+  unfinished: number;
+  approved_at: string | null;
+}
+
+// Shifts agreed between an employer and a worker for one of their listings.
+// lat/lng are only sent to the worker, and to the employer when it's their own job.
+export interface Booking {
+  id: string;
+  worker_id: string;
+  worker_name: string;
+  employer_id: string;
+  employer_name: string;
+  listing_type: 'job' | 'post';
+  listing_id: string;
+  application_id: string | null;
+  title: string;
+  lat?: number;
+  lng?: number;
+  hourly_rate: number;
+  status: 'active' | 'cancelled';
+  // Null while a booking made from the worker's post waits for them to accept it
+  accepted_at: string | null;
+  approved_at: string | null;
+  created_at: string;
+  shifts: Shift[];
+  timesheet: Timesheet;
+}
+
+export interface Review {
+  id: string;
+  reviewer_id: string;
+  reviewer_name: string;
+  job_title: string;
+  rating: number;
+  body: string | null;
+  created_at: string;
+}
+
+export interface Conversation {
+  id: string;
+  other_user_id: string;
+  other_user_name: string;
+  other_user_role: Role;
+  last_message: string | null;
+  last_message_at: string | null;
+  unread_count: number;
+  created_at: string;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  body: string;
+  created_at: string;
+  read_at: string | null;
+}
+
+// A search the user asked to be alerted about; `target` is the kind of listing it watches
+export interface SavedSearch {
+  id: string;
+  name: string;
+  target: 'posts' | 'jobs';
+  q: string | null;
+  categories: string[];
+  radius: number;
+  lat: number;
+  lng: number;
+  created_at: string;
+}
+
+export interface AppNotification {
+  id: string;
+  type: 'search_match';
+  title: string;
+  body: string | null;
+  data: { search_id?: string; listing_type?: 'posts' | 'jobs'; listing_id?: string };
+  read_at: string | null;
+  created_at: string;
+}
+
+// A resolved address, postal code or map point from /api/geocode
+export interface Place {
+  name: string;
+  label: string;
+  kind: 'city' | 'district' | 'postcode' | 'point';
+  lat: number;
+  lng: number;
+}
+
+export interface SavedLocation {
+  id: string;
+  name: string;
+  label: string | null;
+  lat: number;
+  lng: number;
+  created_at: string;
+}
+
+export type ReportTarget = 'post' | 'user' | 'review' | 'job';
+export type ReportReason = 'spam' | 'scam' | 'offensive' | 'fake' | 'other';
+
+// Admin panel rows from /api/admin/*
+export interface ReportQueueItem {
+  target_type: ReportTarget;
+  target_id: string;
+  report_count: number;
+  reasons: string;
+  first_reported_at: string;
+  last_reported_at: string;
+  target_label: string | null;
+  post_hidden: number | null;
+  job_hidden: number | null;
+}
+
+export interface ReportDetail {
+  id: string;
+  reporter_id: string | null;
+  reporter_name: string | null;
+  reason: ReportReason;
+  details: string | null;
+  created_at: string;
+}
+
+export interface AdminUser {
+  id: string;
+  name: string;
+  role: Role;
+  email: string | null;
+  is_admin: number;
+  suspended_at: string | null;
+  suspended_reason: string | null;
+  created_at: string | null;
+  last_active: string | null;
+  post_count: number;
+  job_count: number;
+  open_reports: number;
+}
+
+export interface AdminPost {
+  id: string;
+  user_id: string;
+  user_name: string;
+  title: string;
+  description: string;
+  category: string;
+  status: PostStatus;
+  hidden: number;
+  report_count: number;
+  created_at: string;
+  owner_suspended_at: string | null;
+}
+
+export interface SignupDay {
+  day: string;
+  workers: number;
+  employers: number;
+}
+
+export interface WorkerArea {
+  lat: number;
+  lng: number;
+  label: string;
+  workers: number;
+  available_now: number;
+}
+
+export interface CategoryCount {
+  category: string;
+  posts: number;
+  live_posts: number;
+  jobs: number;
+}
+
+export interface FillRates {
+  days: number;
+  jobs: { jobs: number; positions: number; hired: number; fill_rate: number | null };
+  posts: { posts: number; filled: number; fill_rate: number | null };
+  by_category: { category: string; job_fill_rate: number | null; post_fill_rate: number | null }[];
+}
+
+// A suggested post from /api/assistant/post; nothing is saved until the worker posts it
+export interface PostSuggestion {
+  title: string;
+  description: string;
+  category: string;
+  skills: Skill[];
 }
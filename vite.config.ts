@@ -8,7 +8,7 @@ export default defineConfig(({mode}) => {
   return {
     plugins: [react(), tailwindcss()],
     define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL ?? ''),
     },
     resolve: {
       alias: {
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Server tests only; the client has no test setup yet
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['server/**/*.test.ts'],
+  },
+});